@@ -0,0 +1,312 @@
+import React, { useMemo, useState } from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, within, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import type { Memo, User } from './types';
+import { MemoModal, MainPage } from './index';
+import { createLocalStorageRepository } from './services/memoRepository';
+import { createSearchIndex } from './utils/searchIndex';
+import { DEFAULT_WORKFLOW } from './utils/workflow';
+import { DEFAULT_REPORT_SETTINGS } from './utils/registerReport';
+import { DEFAULT_SYNC_SETTINGS, EMPTY_SYNC_STATE } from './utils/sync';
+import { DEFAULT_REMINDER_SETTINGS } from './utils/deadlines';
+import { DEFAULT_TABLE_SETTINGS } from './utils/tableView';
+import { DEFAULT_TRASH_SETTINGS } from './utils/trash';
+import { findAxeViolations } from './test/axe';
+
+// PDF rendering needs a canvas, which jsdom does not have, and no test here previews files.
+vi.mock('./services/pdfPreview', () => ({ openPdf: vi.fn(), renderPdfPage: vi.fn() }));
+
+const DEPARTMENT = 'งานบริหารวิชาการ';
+
+const admin: User = { id: 'u1', username: 'admin', displayName: 'ผู้ดูแลระบบ', role: 'admin', department: DEPARTMENT };
+
+const existingMemo: Memo = {
+    id: 'm1',
+    memoNumber: 'วก 1/2568',
+    date: '2025-06-02',
+    teacher: 'ครูสมศรี ใจดี',
+    subject: 'ขออนุญาตจัดกิจกรรม',
+    department: DEPARTMENT,
+};
+
+const renderMemoModal = (props: Record<string, unknown> = {}) => {
+    const onSave = vi.fn();
+    const onAddTeacher = vi.fn();
+    render(
+        <MemoModal
+            isOpen
+            onClose={vi.fn()}
+            onSave={onSave}
+            memoToEdit={null}
+            departments={[DEPARTMENT]}
+            onAddDepartment={null}
+            repository={createLocalStorageRepository()}
+            memos={[existingMemo]}
+            numberingSchemes={{}}
+            teachers={[]}
+            onAddTeacher={onAddTeacher}
+            dateLocale="th"
+            {...props}
+        />
+    );
+    return { onSave, onAddTeacher };
+};
+
+describe('MemoModal', () => {
+    it('shows what is missing instead of saving an empty form', async () => {
+        const user = userEvent.setup();
+        const { onSave } = renderMemoModal();
+
+        await user.click(screen.getByRole('button', { name: 'บันทึก' }));
+
+        expect(onSave).not.toHaveBeenCalled();
+        expect(screen.getByText('กรุณาระบุชื่อครู')).toBeInTheDocument();
+        expect(screen.getByText('กรุณาระบุเรื่อง')).toBeInTheDocument();
+        expect(screen.getByText('กรุณาระบุฝ่ายงาน')).toBeInTheDocument();
+        expect(screen.getByLabelText('เรื่อง')).toHaveAttribute('aria-invalid', 'true');
+    });
+
+    it('saves a normalized memo and registers a new teacher', async () => {
+        const user = userEvent.setup();
+        const { onSave, onAddTeacher } = renderMemoModal();
+
+        await user.selectOptions(screen.getByLabelText('ฝ่ายงาน'), DEPARTMENT);
+        await user.type(screen.getByLabelText('ชื่อครูผู้ดำเนินการ'), 'ครูมานะ  อดทน');
+        await user.type(screen.getByLabelText('เรื่อง'), '  รายงานผล   การอบรม ');
+        await user.click(screen.getByRole('button', { name: 'บันทึก' }));
+
+        await waitFor(() => expect(onSave).toHaveBeenCalledTimes(1));
+        const saved: Memo = onSave.mock.calls[0][0];
+        expect(saved).toMatchObject({ subject: 'รายงานผล การอบรม', teacher: 'ครูมานะ อดทน', department: DEPARTMENT, attachments: [] });
+        expect(saved.memoNumber).not.toBe('');
+        expect(saved.notes).toBeUndefined();
+        expect(onAddTeacher).toHaveBeenCalledWith(expect.objectContaining({ fullName: 'ครูมานะ อดทน', id: saved.teacherId }));
+    });
+
+    it('has no WCAG A/AA violations', async () => {
+        renderMemoModal({ memoToEdit: existingMemo });
+        expect(await findAxeViolations(document.body)).toEqual([]);
+    });
+
+    it('keeps focus inside and closes on Escape', async () => {
+        const user = userEvent.setup();
+        const onClose = vi.fn();
+        renderMemoModal({ onClose });
+
+        const dialog = screen.getByRole('dialog', { name: 'เพิ่มบันทึกข้อความใหม่' });
+        expect(dialog).toContainElement(document.activeElement as HTMLElement);
+        screen.getByRole('button', { name: 'บันทึก' }).focus();
+        await user.tab();
+        expect(dialog).toContainElement(document.activeElement as HTMLElement);
+        await user.keyboard('{Escape}');
+        expect(onClose).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects a memo number that is already in the register', async () => {
+        const user = userEvent.setup();
+        const { onSave } = renderMemoModal({ memoToEdit: { ...existingMemo, id: 'm2', memoNumber: 'วก 2/2568' } });
+
+        const number = screen.getByLabelText('เลขที่บันทึกข้อความ');
+        await user.clear(number);
+        await user.type(number, existingMemo.memoNumber);
+        await user.click(screen.getByRole('button', { name: 'บันทึก' }));
+
+        expect(onSave).not.toHaveBeenCalled();
+        expect(screen.getByText(/ถูกใช้แล้วในเรื่อง “ขออนุญาตจัดกิจกรรม”/)).toBeInTheDocument();
+    });
+});
+
+// Holds the register the way App does, so MainPage's saves show up on the next render.
+const MainPageHarness = ({ initialMemos, onChange }: { initialMemos: Memo[]; onChange: (memos: Memo[]) => void }) => {
+    const [memos, setMemos] = useState(initialMemos);
+    const [tableSettings, setTableSettings] = useState(DEFAULT_TABLE_SETTINGS);
+    const searchIndex = useMemo(() => createSearchIndex(), []);
+    searchIndex.update(memos);
+    const repository = useMemo(() => createLocalStorageRepository(), []);
+    const saveMemos = (next: Memo[]) => {
+        setMemos(next);
+        onChange(next);
+    };
+    const noop = () => {};
+    return (
+        <MainPage
+            setView={noop}
+            memos={memos}
+            searchIndex={searchIndex}
+            departments={[DEPARTMENT]}
+            saveMemos={saveMemos}
+            saveDepartments={noop}
+            repository={repository}
+            numberingSchemes={{}}
+            saveNumberingSchemes={noop}
+            departmentColors={{}}
+            saveDepartmentColors={noop}
+            teachers={[]}
+            saveTeachers={noop}
+            workflow={DEFAULT_WORKFLOW}
+            saveWorkflow={noop}
+            trashSettings={DEFAULT_TRASH_SETTINGS}
+            saveTrashSettings={noop}
+            filterPresets={[]}
+            saveFilterPresets={noop}
+            reportSettings={DEFAULT_REPORT_SETTINGS}
+            saveReportSettings={noop}
+            dateLocale="th"
+            saveDateLocale={noop}
+            currentUser={admin}
+            onLogout={noop}
+            syncSettings={DEFAULT_SYNC_SETTINGS}
+            saveSyncSettings={noop}
+            syncStatus={{ phase: 'idle', lastSyncedAt: null, message: '' }}
+            syncState={EMPTY_SYNC_STATE}
+            onSyncNow={noop}
+            onOpenConflicts={noop}
+            reminderSettings={DEFAULT_REMINDER_SETTINGS}
+            saveReminderSettings={noop}
+            tableSettings={tableSettings}
+            saveTableSettings={setTableSettings}
+            registerSchemes={{}}
+            saveRegisterSchemes={noop}
+            theme="light"
+            saveTheme={noop}
+        />
+    );
+};
+
+const renderMainPage = (initialMemos: Memo[] = [existingMemo]) => {
+    let latest = initialMemos;
+    render(<MainPageHarness initialMemos={initialMemos} onChange={memos => { latest = memos; }} />);
+    return { getMemos: () => latest };
+};
+
+const getRow = (text: string) => screen.getByText(text).closest('tr');
+
+describe('MainPage', () => {
+    it('lists the memos in the register', () => {
+        renderMainPage();
+        expect(within(getRow(existingMemo.subject)).getByText(existingMemo.memoNumber)).toBeInTheDocument();
+    });
+
+    it('has no WCAG A/AA violations', async () => {
+        renderMainPage();
+        expect(await findAxeViolations(document.body)).toEqual([]);
+    });
+
+    it('opens the form and the search from the keyboard', async () => {
+        const user = userEvent.setup();
+        renderMainPage();
+
+        // Physical keys, as the shortcuts go by position rather than by the character typed.
+        await user.keyboard('[Slash]');
+        expect(screen.getByRole('searchbox')).toHaveFocus();
+        await user.keyboard('[KeyN]');
+        expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+
+        screen.getByRole('searchbox').blur();
+        await user.keyboard('[KeyN]');
+        expect(screen.getByRole('dialog', { name: 'เพิ่มบันทึกข้อความใหม่' })).toBeInTheDocument();
+    });
+
+    it('sorts from the keyboard and announces the order', async () => {
+        const user = userEvent.setup();
+        renderMainPage();
+
+        const header = screen.getByRole('columnheader', { name: /วันที่/ });
+        within(header).getByRole('button').focus();
+        await user.keyboard('{Enter}');
+        expect(header).toHaveAttribute('aria-sort', 'ascending');
+        await user.keyboard('{Enter}');
+        expect(header).toHaveAttribute('aria-sort', 'descending');
+    });
+
+    it('adds a memo', async () => {
+        const user = userEvent.setup();
+        const { getMemos } = renderMainPage();
+
+        await user.click(screen.getByRole('button', { name: /เพิ่มบันทึกใหม่/ }));
+        const form = within(screen.getByRole('dialog'));
+        await user.selectOptions(form.getByLabelText('ฝ่ายงาน'), DEPARTMENT);
+        await user.type(form.getByLabelText('ชื่อครูผู้ดำเนินการ'), 'ครูมานะ อดทน');
+        await user.type(form.getByLabelText('เรื่อง'), 'ขอใช้ห้องประชุม');
+        await user.click(form.getByRole('button', { name: 'บันทึก' }));
+
+        expect(await screen.findByText('ขอใช้ห้องประชุม')).toBeInTheDocument();
+        expect(getMemos()).toHaveLength(2);
+        expect(getMemos()[1]).toMatchObject({ subject: 'ขอใช้ห้องประชุม', status: 'draft', created: expect.objectContaining({ userId: admin.id }) });
+    });
+
+    it('edits a memo and keeps the earlier version', async () => {
+        const user = userEvent.setup();
+        const { getMemos } = renderMainPage();
+
+        await user.click(within(getRow(existingMemo.subject)).getByTitle('แก้ไข'));
+        const subject = screen.getByLabelText('เรื่อง');
+        await user.clear(subject);
+        await user.type(subject, 'ขออนุญาตจัดกิจกรรมวันวิทยาศาสตร์');
+        await user.click(screen.getByRole('button', { name: 'บันทึก' }));
+
+        expect(await screen.findByText('ขออนุญาตจัดกิจกรรมวันวิทยาศาสตร์')).toBeInTheDocument();
+        const [edited] = getMemos();
+        expect(edited.revisions).toHaveLength(1);
+        expect(edited.revisions[0].memo.subject).toBe(existingMemo.subject);
+        expect(edited.updated).toMatchObject({ userId: admin.id });
+    });
+
+    it('moves a deleted memo to the trash', async () => {
+        const user = userEvent.setup();
+        const { getMemos } = renderMainPage();
+
+        await user.click(within(getRow(existingMemo.subject)).getByTitle('ลบ'));
+
+        await waitFor(() => expect(screen.queryByText(existingMemo.subject)).not.toBeInTheDocument());
+        expect(getMemos()).toHaveLength(1);
+        expect(getMemos()[0].deleted).toMatchObject({ userId: admin.id });
+    });
+    it('goes back to the first page when the search changes', async () => {
+        const user = userEvent.setup();
+        const memos = Array.from({ length: 15 }, (_, i) => ({ ...existingMemo, id: `m${i + 1}`, memoNumber: `วก ${i + 1}/2568`, subject: `เรื่องที่ ${i + 1}` }));
+        renderMainPage(memos);
+
+        await user.click(screen.getByRole('button', { name: 'ถัดไป' }));
+        expect(screen.getByLabelText('หน้า')).toHaveValue(2);
+        await user.type(screen.getByRole('searchbox'), 'เรื่องที่');
+
+        await waitFor(() => expect(screen.getByLabelText('หน้า')).toHaveValue(1));
+        expect(screen.getByText('วก 1/2568')).toBeInTheDocument();
+    });
+
+    it('hides and reorders columns from the table settings', async () => {
+        const user = userEvent.setup();
+        renderMainPage();
+
+        await user.click(screen.getByRole('button', { name: 'ตั้งค่าตาราง' }));
+        await user.click(screen.getByRole('checkbox', { name: 'ไฟล์' }));
+        await user.click(screen.getByRole('button', { name: 'เลื่อน สถานะ ขึ้น' }));
+        await user.click(screen.getByRole('button', { name: 'บันทึก' }));
+
+        const headers = screen.getAllByRole('columnheader').map(th => th.textContent.replace(/[↕↑↓\d\s]+$/, ''));
+        expect(headers).toEqual(['', 'ลำดับ', 'เลขที่บันทึก', 'วันที่', 'ชื่อครู', 'เรื่อง', 'สถานะ', 'ฝ่ายงาน', 'จัดการ']);
+    });
+
+    it('files an incoming letter in its own register', async () => {
+        const user = userEvent.setup();
+        const { getMemos } = renderMainPage();
+
+        await user.click(screen.getByRole('button', { name: 'หนังสือรับ' }));
+        expect(screen.queryByText(existingMemo.subject)).not.toBeInTheDocument();
+        await user.click(screen.getByRole('button', { name: /ลงรับหนังสือ/ }));
+        const form = within(screen.getByRole('dialog'));
+        await user.type(form.getByLabelText('ที่ (เลขที่หนังสือ)'), 'ศธ 04001/ว123');
+        await user.type(form.getByLabelText('จาก'), 'สำนักงานเขตพื้นที่การศึกษา');
+        await user.selectOptions(form.getByLabelText('ฝ่ายงาน'), DEPARTMENT);
+        await user.type(form.getByLabelText('เรื่อง'), 'แจ้งกำหนดการสอบ');
+        await user.click(form.getByRole('button', { name: 'บันทึก' }));
+
+        expect(await screen.findByText('แจ้งกำหนดการสอบ')).toBeInTheDocument();
+        const saved = getMemos()[1];
+        expect(saved).toMatchObject({ register: 'incoming', letterNumber: 'ศธ 04001/ว123', fromAgency: 'สำนักงานเขตพื้นที่การศึกษา', teacher: '' });
+        expect(saved.memoNumber).toMatch(/^รับ 1\//);
+        expect(within(getRow('แจ้งกำหนดการสอบ')).getByText('สำนักงานเขตพื้นที่การศึกษา')).toBeInTheDocument();
+    });
+});
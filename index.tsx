@@ -1,116 +1,491 @@
-import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
-import ReactDOM from 'react-dom/client';
+import React, { useState, useEffect, useLayoutEffect, useMemo, useRef, useCallback, useId } from 'react';
+import { createPortal } from 'react-dom';
 import Chart from 'chart.js/auto';
 import Swal from 'sweetalert2';
-import { format, parseISO, startOfDay, endOfDay, startOfWeek, endOfWeek, startOfMonth, endOfMonth, startOfYear, endOfYear, eachDayOfInterval, eachWeekOfInterval, eachMonthOfInterval, eachYearOfInterval, subYears } from 'date-fns';
-
-// TYPES
-interface Memo {
-  id: string;
-  memoNumber: string;
-  date: string;
-  teacher: string;
-  subject: string;
-  department: string;
-  file?: {
-    name: string;
-    dataUrl: string;
-  };
-}
-type Department = string;
-type View = 'main' | 'stats';
-type SortConfig = { key: keyof Memo; direction: 'ascending' | 'descending' } | null;
+import { format, parseISO } from 'date-fns';
+import type { Memo, Department, View, SortConfig, MemoAttachment, MemoRevision, Teacher, MemoStatus, MemoFilters, User, UserRole, RegisterType, UrgencyLevel } from './types';
+import { openMemoRepository, StorageQuotaError, blobToDataUrl, type MemoRepository } from './services/memoRepository';
+import { BACKUP_SETTING_LABELS, createBackup, parseBackup, diffBackup, diffBackupSettings, restoreBackup, BackupValidationError, type BackupSettings, type RestoreMode } from './services/backup';
+import { getImportFields, downloadBlob, exportRowsToCsv, exportMemosToCsv, exportMemosToXlsx, readImportFile, guessColumnMapping, validateImportRows, renumberDuplicateRows, getImportableRows, findUnknownDepartments, type ImportTable, type ColumnMapping, type ImportRowResult, type DuplicateAction } from './utils/memoImportExport';
+import { DEPARTMENT_COLORS_KEY, getDepartmentColor, getContrastTextColor, lightenColor, getNextPaletteColor, renameDepartment, mergeDepartments, deleteDepartment, moveDepartment, normalizeDepartmentName, type DepartmentColors, type DepartmentState } from './utils/departments';
+import { TEACHERS_KEY, normalizeTeacherName, findTeacherByName, getTeacherKey, buildTeacherOptions, searchTeachers, clusterTeacherNames, mergeTeacherCluster, updateTeacher, removeTeacher, type TeacherCluster } from './utils/teachers';
+import { WORKFLOW_KEY, DEFAULT_WORKFLOW, MEMO_STATUSES, STATUS_LABELS, STATUS_COLORS, WorkflowError, getMemoStatus, getAvailableTransitions, findTransition, initializeWorkflow, applyTransition, countByStatus, type WorkflowConfig } from './utils/workflow';
+import { ATTACHMENT_ACCEPT, MAX_ATTACHMENT_SIZE, MAX_ATTACHMENTS_PER_MEMO, validateAttachmentFile, resolveAttachmentType, formatFileSize, getMemoAttachments, isImageAttachment, isPdfAttachment } from './utils/attachments';
+import { openPdf, renderPdfPage } from './services/pdfPreview';
+import { buildAttachmentArchive } from './services/attachmentArchive';
+import { AuthError, MIN_PASSWORD_LENGTH, createLocalAuthBackend, createRemoteAuthBackend, getRemoteSessionToken, isWebCryptoAvailable, restoreSession, saveSession } from './services/auth';
+import { SyncError, createSyncClient, runSync } from './services/syncClient';
+import { SYNC_SETTINGS_KEY, SYNC_STATE_KEY, SYNC_INTERVAL_MS, SYNC_DEBOUNCE_MS, DEFAULT_SYNC_SETTINGS, EMPTY_SYNC_STATE, SYNC_DOCUMENT_KEYS, SYNC_DOCUMENT_SETTING_KEYS, findChangedMemoIds, queueMemoChanges, queueDocumentChange, reconcileSyncResult, resolveConflict, replaceMemo, getConflictFields, mergeConflict, getSyncStatusLabel, type SyncSettings, type SyncState, type SyncStatus, type SyncDocuments, type SyncDocumentKey, type MemoConflict, type MemoNumberClash } from './utils/sync';
+import { USER_ROLES, ROLE_LABELS, ROLE_DESCRIPTIONS, canCreateMemo, canEditMemo, canDeleteMemo, canChangeStatus, canManageRegister, getWritableDepartments, stampMemo } from './utils/permissions';
+import { MEMO_FIELD_LABELS, getChangedFields, recordRevision, listVersions, rollbackMemo, getAllAttachmentIds, restoreMemoVersions } from './utils/revisions';
+import { TRASH_SETTINGS_KEY, DEFAULT_TRASH_SETTINGS, getActiveMemos, getTrashedMemos, moveToTrash, restoreFromTrash, getDaysUntilPurge, findExpiredMemos, type TrashSettings } from './utils/trash';
+import { setSelected, partitionByPermission, mapInChunks, type BatchProgress } from './utils/bulkActions';
+import { MEMO_SCHEMA, OPTIONAL_MEMO_FIELDS, getFieldRule, validateMemoFields, hasFieldErrors, type MemoFieldErrors, type MemoFormField } from './utils/memoValidation';
+import { REMINDER_SETTINGS_KEY, REMINDER_LOG_KEY, REMINDER_CHECK_INTERVAL_MS, DEFAULT_REMINDER_SETTINGS, DUE_SOON_DAYS, DEADLINE_LABELS, getDeadlineState, getDaysUntilDue, formatDaysUntilDue, groupOpenDeadlines, completeFollowUp, reopenFollowUp, findDueReminders, updateReminderLog, type ReminderSettings, type ReminderLog } from './utils/deadlines';
+import { buildDeadlineCalendar, buildCalendarFeedUrl } from './utils/icalendar';
+import { isNotificationSupported, getNotificationPermission, requestNotificationPermission, showDeadlineNotifications } from './services/notifications';
+import { registerServiceWorker, requestPersistentStorage } from './services/serviceWorker';
+import { HEALTH_ISSUE_LABELS, buildDataHealthReport, countIssuesByKind, type DataHealthReport, type HealthIssue, type HealthIssueKind } from './utils/dataHealth';
+import { createSearchIndex, splitHighlight, type SearchIndex } from './utils/searchIndex';
+import { REGISTERS, REGISTER_TYPES, REGISTER_SCHEMES_KEY, URGENCY_LEVELS, URGENCY_LABELS, getMemoRegister, getRegisterMemos, withRegister, getCounterpartAgency, getRegisterScheme, findReplyTarget, buildReplyIndex, type RegisterSchemes, type RegisterField } from './utils/registers';
+import { FILTER_DEBOUNCE_MS, filterMemos, sortMemos, toggleSort, paginate } from './utils/memoQuery';
+import { SHORTCUTS, getShortcutKeys, matchShortcut, type ShortcutAction } from './utils/shortcuts';
+import { THEME_KEY, DEFAULT_THEME, DARK_SCHEME_QUERY, CHART_COLORS, resolveTheme, normalizeThemePreference, type ThemePreference } from './utils/theme';
+import { TABLE_SETTINGS_KEY, TABLE_COLUMNS, DEFAULT_TABLE_SETTINGS, PAGE_SIZE_OPTIONS, VIRTUAL_ROW_HEIGHT, getTableColumn, getRegisterColumns, getColumnLabel, normalizeTableSettings, setColumnVisible, moveColumn, getVisibleRange, type TableSettings, type TableMode, type TableColumnId } from './utils/tableView';
+import { REPORT_SETTINGS_KEY, DEFAULT_REPORT_SETTINGS, buildRegisterReport, type ReportSettings, type ReportOptions, type ReportPage } from './utils/registerReport';
+import { DATE_LOCALE_KEY, DEFAULT_DATE_LOCALE, DATE_INPUT_PLACEHOLDERS, formatThaiDate, formatDate, formatDateTime, parseDateInput, toThaiDigits, type DateLocale, type PeriodUnit } from './utils/dateLocale';
+import { FILTER_PRESETS_KEY, EMPTY_FILTERS, normalizeSortConfig, parseViewState, replaceViewStateInUrl, buildShareUrl, createFilterPreset, resolvePresetFilters, type FilterPreset } from './utils/viewState';
+import { RANGE_PRESET_LABELS, getPresetRange, getPreviousRange, chooseBucketUnit, filterMemosForStats, countByDepartment, buildTimeline, clipBucket, rankTeachers, getChangePercent, type RangePreset, type StatsRange } from './utils/memoStats';
+import { NUMBERING_SCHEMES_KEY, DEFAULT_NUMBERING_SCHEME, YEAR_BASIS_LABELS, getSchemeForDepartment, getNextMemoNumber, findDuplicateMemo, normalizeMemoNumber, buildNumberingReport, formatSequenceGap, type NumberingScheme, type NumberingSchemes, type YearBasis } from './utils/memoNumbering';
 
 // ICONS (SVG Components)
-const PlusIcon = () => <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" width="20" height="20"><path strokeLinecap="round" strokeLinejoin="round" d="M12 4.5v15m7.5-7.5h-15" /></svg>;
-const ChartIcon = () => <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" width="20" height="20"><path strokeLinecap="round" strokeLinejoin="round" d="M3 13.125C3 12.504 3.504 12 4.125 12h2.25c.621 0 1.125.504 1.125 1.125v6.75C7.5 20.496 6.996 21 6.375 21h-2.25A1.125 1.125 0 0 1 3 19.875v-6.75ZM9.75 8.625c0-.621.504-1.125 1.125-1.125h2.25c.621 0 1.125.504 1.125 1.125v11.25c0 .621-.504 1.125-1.125 1.125h-2.25a1.125 1.125 0 0 1-1.125-1.125V8.625ZM16.5 4.125c0-.621.504-1.125 1.125-1.125h2.25C20.496 3 21 3.504 21 4.125v15.75c0 .621-.504 1.125-1.125 1.125h-2.25a1.125 1.125 0 0 1-1.125-1.125V4.125Z" /></svg>;
-const BackIcon = () => <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" width="20" height="20"><path strokeLinecap="round" strokeLinejoin="round" d="M10.5 19.5 3 12m0 0 7.5-7.5M3 12h18" /></svg>;
-const EditIcon = () => <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="icon-edit"><path strokeLinecap="round" strokeLinejoin="round" d="m16.862 4.487 1.687-1.688a1.875 1.875 0 1 1 2.652 2.652L10.582 16.07a4.5 4.5 0 0 1-1.897 1.13L6 18l.8-2.685a4.5 4.5 0 0 1 1.13-1.897l8.932-8.931Zm0 0L19.5 7.125M18 14v4.75A2.25 2.25 0 0 1 15.75 21H5.25A2.25 2.25 0 0 1 3 18.75V8.25A2.25 2.25 0 0 1 5.25 6H10" /></svg>;
-const DeleteIcon = () => <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="icon-delete"><path strokeLinecap="round" strokeLinejoin="round" d="m14.74 9-.346 9m-4.788 0L9.26 9m9.968-3.21c.342.052.682.107 1.022.166m-1.022-.165L18.16 19.673a2.25 2.25 0 0 1-2.244 2.077H8.084a2.25 2.25 0 0 1-2.244-2.077L4.772 5.79m14.456 0a48.108 48.108 0 0 0-3.478-.397m-12 .562c.34-.059.68-.114 1.022-.165m0 0a48.11 48.11 0 0 1 3.478-.397m7.5 0v-.916c0-1.18-.91-2.134-2.09-2.201a51.964 51.964 0 0 0-3.32 0c-1.18.067-2.09.92-2.09 2.201v.916m7.5 0a48.667 48.667 0 0 0-7.5 0" /></svg>;
-const CloseIcon = () => <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" width="24" height="24"><path strokeLinecap="round" strokeLinejoin="round" d="M6 18 18 6M6 6l12 12" /></svg>;
-
-// LOCAL STORAGE UTILS
-const getFromStorage = <T,>(key: string, defaultValue: T): T => {
-    try {
-        const item = window.localStorage.getItem(key);
-        return item ? JSON.parse(item) : defaultValue;
-    } catch (error) {
-        console.error(`Error reading from localStorage key “${key}”:`, error);
-        return defaultValue;
+const PlusIcon = () => <svg xmlns="http://www.w3.org/2000/svg" aria-hidden="true" focusable="false" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" width="20" height="20"><path strokeLinecap="round" strokeLinejoin="round" d="M12 4.5v15m7.5-7.5h-15" /></svg>;
+const ChartIcon = () => <svg xmlns="http://www.w3.org/2000/svg" aria-hidden="true" focusable="false" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" width="20" height="20"><path strokeLinecap="round" strokeLinejoin="round" d="M3 13.125C3 12.504 3.504 12 4.125 12h2.25c.621 0 1.125.504 1.125 1.125v6.75C7.5 20.496 6.996 21 6.375 21h-2.25A1.125 1.125 0 0 1 3 19.875v-6.75ZM9.75 8.625c0-.621.504-1.125 1.125-1.125h2.25c.621 0 1.125.504 1.125 1.125v11.25c0 .621-.504 1.125-1.125 1.125h-2.25a1.125 1.125 0 0 1-1.125-1.125V8.625ZM16.5 4.125c0-.621.504-1.125 1.125-1.125h2.25C20.496 3 21 3.504 21 4.125v15.75c0 .621-.504 1.125-1.125 1.125h-2.25a1.125 1.125 0 0 1-1.125-1.125V4.125Z" /></svg>;
+const BackIcon = () => <svg xmlns="http://www.w3.org/2000/svg" aria-hidden="true" focusable="false" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" width="20" height="20"><path strokeLinecap="round" strokeLinejoin="round" d="M10.5 19.5 3 12m0 0 7.5-7.5M3 12h18" /></svg>;
+const EditIcon = () => <svg xmlns="http://www.w3.org/2000/svg" aria-hidden="true" focusable="false" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="icon-edit"><path strokeLinecap="round" strokeLinejoin="round" d="m16.862 4.487 1.687-1.688a1.875 1.875 0 1 1 2.652 2.652L10.582 16.07a4.5 4.5 0 0 1-1.897 1.13L6 18l.8-2.685a4.5 4.5 0 0 1 1.13-1.897l8.932-8.931Zm0 0L19.5 7.125M18 14v4.75A2.25 2.25 0 0 1 15.75 21H5.25A2.25 2.25 0 0 1 3 18.75V8.25A2.25 2.25 0 0 1 5.25 6H10" /></svg>;
+const DeleteIcon = () => <svg xmlns="http://www.w3.org/2000/svg" aria-hidden="true" focusable="false" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="icon-delete"><path strokeLinecap="round" strokeLinejoin="round" d="m14.74 9-.346 9m-4.788 0L9.26 9m9.968-3.21c.342.052.682.107 1.022.166m-1.022-.165L18.16 19.673a2.25 2.25 0 0 1-2.244 2.077H8.084a2.25 2.25 0 0 1-2.244-2.077L4.772 5.79m14.456 0a48.108 48.108 0 0 0-3.478-.397m-12 .562c.34-.059.68-.114 1.022-.165m0 0a48.11 48.11 0 0 1 3.478-.397m7.5 0v-.916c0-1.18-.91-2.134-2.09-2.201a51.964 51.964 0 0 0-3.32 0c-1.18.067-2.09.92-2.09 2.201v.916m7.5 0a48.667 48.667 0 0 0-7.5 0" /></svg>;
+const CalendarIcon = () => <svg xmlns="http://www.w3.org/2000/svg" aria-hidden="true" focusable="false" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" width="20" height="20"><path strokeLinecap="round" strokeLinejoin="round" d="M6.75 3v2.25M17.25 3v2.25M3 18.75V7.5a2.25 2.25 0 0 1 2.25-2.25h13.5A2.25 2.25 0 0 1 21 7.5v11.25m-18 0A2.25 2.25 0 0 0 5.25 21h13.5A2.25 2.25 0 0 0 21 18.75m-18 0v-7.5A2.25 2.25 0 0 1 5.25 9h13.5A2.25 2.25 0 0 1 21 11.25v7.5" /></svg>;
+const CloseIcon = () => <svg xmlns="http://www.w3.org/2000/svg" aria-hidden="true" focusable="false" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" width="24" height="24"><path strokeLinecap="round" strokeLinejoin="round" d="M6 18 18 6M6 6l12 12" /></svg>;
+
+const HistoryIcon = () => <svg xmlns="http://www.w3.org/2000/svg" aria-hidden="true" focusable="false" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="icon-history"><path strokeLinecap="round" strokeLinejoin="round" d="M12 6v6h4.5m4.5 0a9 9 0 1 1-18 0 9 9 0 0 1 18 0Z" /></svg>;
+
+// HELPER FUNCTIONS
+/** AuthErrors carry a message for the user; anything else is logged and reported generically. */
+const showAuthError = (title: string, error: unknown) => {
+    if (error instanceof AuthError) {
+        Swal.fire(title, error.message, 'error');
+        return;
     }
+    console.error('Account error:', error);
+    Swal.fire(title, 'เกิดข้อผิดพลาดที่ไม่คาดคิด กรุณาลองใหม่อีกครั้ง', 'error');
 };
 
-const saveToStorage = <T,>(key: string, value: T) => {
-    try {
-        window.localStorage.setItem(key, JSON.stringify(value));
-    } catch (error) {
-        console.error(`Error saving to localStorage key “${key}”:`, error);
+const showStorageError = (error: unknown) => {
+    console.error('Storage error:', error);
+    if (error instanceof StorageQuotaError) {
+        Swal.fire({
+            title: 'พื้นที่จัดเก็บเต็ม',
+            text: 'ไม่สามารถบันทึกข้อมูลได้ เนื่องจากพื้นที่จัดเก็บของเบราว์เซอร์เต็ม กรุณาลบไฟล์แนบที่ไม่จำเป็นแล้วลองใหม่อีกครั้ง',
+            icon: 'error',
+        });
+    } else {
+        Swal.fire('เกิดข้อผิดพลาด', 'ไม่สามารถบันทึกข้อมูลลงในเบราว์เซอร์ได้', 'error');
     }
 };
 
-const DEFAULT_DEPARTMENTS = ["งานบริหารวิชาการ", "งานบริหารงบประมาณ", "งานบริหารบุคลากร", "งานบริหารทั่วไป"];
+const deleteAttachmentFiles = (repository: MemoRepository, ids: string[]) => {
+    ids.forEach(id => {
+        repository.deleteAttachment(id).catch(error => console.error('Error deleting attachment:', error));
+    });
+};
+
+/** Removes the files of every version of a memo, except those `kept` still references. */
+const deleteMemoFiles = (repository: MemoRepository, memo: Memo, kept: Memo | null = null) => {
+    const keptIds = new Set(kept ? getAllAttachmentIds(kept) : []);
+    deleteAttachmentFiles(repository, getAllAttachmentIds(memo).filter(id => !keptIds.has(id)));
+};
 
-// HELPER FUNCTIONS
-const fileToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.readAsDataURL(file);
-        reader.onload = () => resolve(reader.result as string);
-        reader.onerror = (error) => reject(error);
+const showUndoToast = (text: string, onUndo: () => void) => {
+    Swal.fire({
+        toast: true,
+        position: 'bottom-end',
+        icon: 'success',
+        title: text,
+        showConfirmButton: true,
+        confirmButtonText: 'เลิกทำ',
+        timer: 6000,
+        timerProgressBar: true,
+    }).then(result => {
+        if (result.isConfirmed) onUndo();
+    });
+};
+
+const showUpdatePrompt = (apply: () => void) => {
+    Swal.fire({
+        toast: true,
+        position: 'bottom-end',
+        icon: 'info',
+        title: 'มีแอปเวอร์ชันใหม่',
+        text: 'โหลดหน้าใหม่เพื่อใช้เวอร์ชันล่าสุด',
+        showConfirmButton: true,
+        confirmButtonText: 'อัปเดตเลย',
+        showCancelButton: true,
+        cancelButtonText: 'ภายหลัง',
+    }).then(result => {
+        if (result.isConfirmed) apply();
     });
 };
 
-const getBadgeColor = (department: string) => {
-    switch (department) {
-        case "งานบริหารวิชาการ": return "badge-academic";
-        case "งานบริหารงบประมาณ": return "badge-budget";
-        case "งานบริหารบุคลากร": return "badge-personnel";
-        case "งานบริหารทั่วไป": return "badge-general";
-        default: return "badge-default";
+const formatMemoField = (memo: Memo, field: keyof Memo, dateLocale: DateLocale) => {
+    const value = memo[field];
+    if (value === undefined || value === null || value === '') return '-';
+    switch (field) {
+        case 'date': return formatDate(memo.date, dateLocale);
+        case 'dueDate':
+        case 'letterDate':
+        case 'effectiveDate': return formatDate(memo[field], dateLocale);
+        case 'urgency': return URGENCY_LABELS[memo.urgency] ?? memo.urgency;
+        case 'followUpDone': return `${memo.followUpDone.name} · ${formatDateTime(memo.followUpDone.at, dateLocale)}`;
+        case 'status': return STATUS_LABELS[getMemoStatus(memo)];
+        case 'attachments': return getMemoAttachments(memo).map(a => a.name).join(', ') || '-';
+        case 'history': return `${memo.history.length} รายการ`;
+        default: return String(value);
     }
 };
 
+const getBadgeStyle = (colors: DepartmentColors, department: string): React.CSSProperties => {
+    const color = getDepartmentColor(colors, department);
+    return { backgroundColor: color, color: getContrastTextColor(color) };
+};
+
+const getCardStyle = (colors: DepartmentColors, department: string): React.CSSProperties => {
+    const color = getDepartmentColor(colors, department);
+    const lighter = lightenColor(color, 0.25);
+    // Text has to stay readable across the gradient, so the contrast is judged on its lighter end.
+    return { background: `linear-gradient(135deg, ${color}, ${lighter})`, color: getContrastTextColor(lighter) };
+};
+
+const escapeHtml = (value: string) =>
+    value.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]));
+
 const Loader = () => (
     <div className="loader-overlay">
         <div className="loader"></div>
     </div>
 );
 
+const ProgressOverlay = ({ progress }) => (
+    <div className="loader-overlay">
+        <div className="progress-card" role="status">
+            <p>{progress.label}… {progress.done}/{progress.total}</p>
+            <progress value={progress.done} max={progress.total || 1} />
+        </div>
+    </div>
+);
+
+// TeacherPicker COMPONENT
+const TeacherPicker = ({ id, teachers, value, onChange }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [highlighted, setHighlighted] = useState(0);
+    const suggestions: Teacher[] = useMemo(() => searchTeachers(teachers, value || ''), [teachers, value]);
+
+    const select = (teacher: Teacher) => {
+        onChange(teacher.fullName, teacher);
+        setIsOpen(false);
+    };
+
+    const handleKeyDown = (e) => {
+        if (!isOpen || suggestions.length === 0) {
+            if (e.key === 'ArrowDown') setIsOpen(true);
+            return;
+        }
+        if (e.key === 'ArrowDown') {
+            e.preventDefault();
+            setHighlighted(i => Math.min(suggestions.length - 1, i + 1));
+        } else if (e.key === 'ArrowUp') {
+            e.preventDefault();
+            setHighlighted(i => Math.max(0, i - 1));
+        } else if (e.key === 'Enter') {
+            e.preventDefault();
+            select(suggestions[highlighted]);
+        } else if (e.key === 'Escape') {
+            e.stopPropagation();
+            setIsOpen(false);
+        }
+    };
+
+    return (
+        <div className="autocomplete">
+            <input
+                type="text"
+                id={id}
+                value={value || ''}
+                onChange={e => { onChange(e.target.value, null); setIsOpen(true); setHighlighted(0); }}
+                onFocus={() => setIsOpen(true)}
+                onBlur={() => setIsOpen(false)}
+                onKeyDown={handleKeyDown}
+                role="combobox"
+                aria-expanded={isOpen && suggestions.length > 0}
+                aria-autocomplete="list"
+                aria-controls={`${id}-listbox`}
+                autoComplete="off"
+                required
+            />
+            {isOpen && suggestions.length > 0 && (
+                <ul className="autocomplete-list" id={`${id}-listbox`} role="listbox">
+                    {suggestions.map((teacher, index) => (
+                        <li
+                            key={teacher.id}
+                            role="option"
+                            aria-selected={index === highlighted}
+                            className={index === highlighted ? 'highlighted' : ''}
+                            onMouseDown={e => { e.preventDefault(); select(teacher); }}
+                            onMouseEnter={() => setHighlighted(index)}
+                        >
+                            {teacher.fullName}
+                            {teacher.position && <span className="form-hint"> — {teacher.position}</span>}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+// DateInput COMPONENT
+/**
+ * Text date field in the display era (B.E. in Thai mode) with the native picker as a shortcut;
+ * `value` and `onChange` always use ISO yyyy-MM-dd.
+ */
+const DateInput = ({ id = undefined, value, onChange, locale, required = false, ariaLabel = undefined }) => {
+    const pickerRef = useRef<HTMLInputElement>(null);
+    const [text, setText] = useState('');
+    const [invalid, setInvalid] = useState(false);
+
+    useEffect(() => {
+        setText(value ? formatDate(value, locale) : '');
+        setInvalid(false);
+    }, [value, locale]);
+
+    const commit = () => {
+        if (!text.trim()) {
+            if (value) onChange('');
+            return;
+        }
+        const parsed = parseDateInput(text);
+        if (!parsed) {
+            setInvalid(true);
+            return;
+        }
+        setInvalid(false);
+        if (parsed === value) {
+            setText(formatDate(parsed, locale));
+        } else {
+            onChange(parsed);
+        }
+    };
+
+    return (
+        <div className={`date-input ${invalid ? 'invalid' : ''}`}>
+            <input
+                type="text"
+                id={id}
+                value={text}
+                placeholder={DATE_INPUT_PLACEHOLDERS[locale]}
+                onChange={e => setText(e.target.value)}
+                onBlur={commit}
+                onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); commit(); } }}
+                required={required}
+                aria-label={ariaLabel}
+                aria-invalid={invalid}
+                title={invalid ? 'รูปแบบวันที่ไม่ถูกต้อง' : undefined}
+            />
+            <input ref={pickerRef} type="date" className="date-input-picker" value={value || ''} onChange={e => onChange(e.target.value)} tabIndex={-1} aria-hidden="true" />
+            <button type="button" className="btn-icon" onClick={() => pickerRef.current?.showPicker?.()} aria-label="เลือกจากปฏิทิน"><CalendarIcon /></button>
+        </div>
+    );
+};
+
+/** Enter and Space activate custom controls the way they do native buttons. */
+const onActivationKey = (action: () => void) => (e: React.KeyboardEvent) => {
+    if (e.key !== 'Enter' && e.key !== ' ') return;
+    e.preventDefault();
+    action();
+};
+
+const FOCUSABLE_SELECTOR = 'a[href], button:not([disabled]), input:not([disabled]):not([type="hidden"]), select:not([disabled]), textarea:not([disabled]), [tabindex]';
+
+const getFocusable = (root: HTMLElement) => [...root.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR)]
+    .filter(el => el.tabIndex >= 0 && getComputedStyle(el).display !== 'none');
+
+/**
+ * Dialog behaviour for a `modal-content` element: focus moves into it when it opens, Tab stays
+ * inside, Escape closes it, and focus goes back to whatever opened it afterwards.
+ */
+const useDialog = (isOpen: boolean, onClose: () => void) => {
+    const ref = useRef<HTMLDivElement>(null);
+    const titleId = useId();
+    const onCloseRef = useRef(onClose);
+    onCloseRef.current = onClose;
+
+    useEffect(() => {
+        if (!isOpen || !ref.current) return;
+        const opener = document.activeElement as HTMLElement | null;
+        const body = ref.current.querySelector<HTMLElement>('.modal-body');
+        (getFocusable(body ?? ref.current)[0] ?? ref.current).focus();
+        return () => {
+            if (opener?.isConnected) opener.focus();
+        };
+    }, [isOpen]);
+
+    const onKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+        if (e.key === 'Escape') {
+            e.stopPropagation();
+            onCloseRef.current();
+            return;
+        }
+        if (e.key !== 'Tab') return;
+        const focusable = getFocusable(ref.current);
+        if (focusable.length === 0) {
+            e.preventDefault();
+            return;
+        }
+        const first = focusable[0];
+        const last = focusable[focusable.length - 1];
+        if (e.shiftKey && (document.activeElement === first || document.activeElement === ref.current)) {
+            e.preventDefault();
+            last.focus();
+        } else if (!e.shiftKey && document.activeElement === last) {
+            e.preventDefault();
+            first.focus();
+        }
+    };
+
+    return { titleId, dialogProps: { ref, role: 'dialog', 'aria-modal': true, 'aria-labelledby': titleId, tabIndex: -1, onKeyDown } };
+};
+
 // MemoModal COMPONENT
-const MemoModal = ({ isOpen, onClose, onSave, memoToEdit, departments, onAddDepartment }) => {
+export const MemoModal = ({ isOpen, onClose, onSave, memoToEdit, departments, onAddDepartment, repository, memos, numberingSchemes, teachers, onAddTeacher, dateLocale, newMemoDefaults = {}, register = 'memo' as RegisterType, registerSchemes = {} }) => {
+    const { titleId, dialogProps } = useDialog(isOpen, onClose);
     const [formData, setFormData] = useState<Partial<Memo>>({});
-    const [file, setFile] = useState<File | null>(null);
+    // Pending entries carry the picked File until the memo is saved.
+    const [attachments, setAttachments] = useState<{ attachment: MemoAttachment; file?: File }[]>([]);
     const [isDragging, setIsDragging] = useState(false);
     const [newDepartment, setNewDepartment] = useState('');
+    const [isAutoNumber, setIsAutoNumber] = useState(false);
+    // Errors appear after the first save attempt and then follow every keystroke.
+    const [isSubmitted, setIsSubmitted] = useState(false);
+    // Replies are linked by the number of the letter they answer, as it appears on paper.
+    const [replyToNumber, setReplyToNumber] = useState('');
+    const activeRegister: RegisterType = memoToEdit ? getMemoRegister(memoToEdit) : register;
+    const definition = REGISTERS[activeRegister];
+    // Numbers only have to be unique, and only run on, within their own register.
+    const registerMemos = useMemo(() => getRegisterMemos(memos, activeRegister), [memos, activeRegister]);
 
     useEffect(() => {
+        setIsSubmitted(false);
+        setReplyToNumber(memoToEdit?.replyTo ? memos.find(m => m.id === memoToEdit.replyTo)?.memoNumber ?? '' : '');
         if (memoToEdit) {
             setFormData(memoToEdit);
-            setFile(null);
+            setAttachments(getMemoAttachments(memoToEdit).map(attachment => ({ attachment })));
+            setIsAutoNumber(false);
         } else {
-            setFormData({ date: new Date().toISOString().split('T')[0] });
-            setFile(null);
+            setFormData({ ...newMemoDefaults, date: new Date().toISOString().split('T')[0] });
+            setAttachments([]);
+            setIsAutoNumber(true);
         }
     }, [memoToEdit, isOpen]);
 
+    // Only internal memos number per department; the other registers have one running number each.
+    const canAutoNumber = activeRegister !== 'memo' || !!formData.department;
+
+    // Keep the pre-filled number in step with the chosen department and date until the user types their own.
+    useEffect(() => {
+        if (!isOpen || !isAutoNumber || !canAutoNumber || !formData.date) return;
+        const date = parseISO(formData.date);
+        if (isNaN(date.getTime())) return;
+        const scheme = getRegisterScheme(activeRegister, formData.department, numberingSchemes, registerSchemes);
+        const otherMemos = registerMemos.filter(m => m.id !== memoToEdit?.id);
+        const memoNumber = getNextMemoNumber(otherMemos, scheme, date);
+        // Bail out when nothing changed: `registerSchemes` defaults to a new object on every render.
+        setFormData(prev => prev.memoNumber === memoNumber ? prev : { ...prev, memoNumber });
+    }, [isOpen, isAutoNumber, canAutoNumber, formData.department, formData.date, registerMemos, numberingSchemes, registerSchemes, activeRegister, memoToEdit]);
+
+    const replyTarget = replyToNumber.trim() ? findReplyTarget(memos, replyToNumber, memoToEdit?.id) : null;
+    const replyError = isSubmitted && replyToNumber.trim() && !replyTarget ? `ไม่พบหนังสือเลขที่ “${normalizeMemoNumber(replyToNumber)}” ในทะเบียน` : null;
+
+    const validate = (data: Partial<Memo>) => {
+        const result = validateMemoFields(data, { departments, register: activeRegister });
+        const duplicate = result.values.memoNumber && findDuplicateMemo(registerMemos, result.values.memoNumber, memoToEdit?.id);
+        if (duplicate && !result.errors.memoNumber) {
+            result.errors.memoNumber = `เลขที่ “${result.values.memoNumber}” ถูกใช้แล้วในเรื่อง “${duplicate.subject}”${duplicate.deleted ? ' (อยู่ในถังขยะ)' : ''}`;
+        }
+        return result;
+    };
+
+    const errors: MemoFieldErrors = isSubmitted ? validate(formData).errors : {};
+    const duplicateWarning = useMemo(() => {
+        if (!isOpen || isSubmitted) return null;
+        const duplicate = findDuplicateMemo(registerMemos, normalizeMemoNumber(formData.memoNumber || ''), memoToEdit?.id);
+        return duplicate && formData.memoNumber ? `เลขที่นี้ถูกใช้แล้วในเรื่อง “${duplicate.subject}”` : null;
+    }, [isOpen, isSubmitted, formData.memoNumber, registerMemos, memoToEdit]);
+
+    const renderFieldError = (field: MemoFormField) => errors[field] && <p className="field-error" id={`${field}-error`}>{errors[field]}</p>;
+    const getFieldProps = (field: MemoFormField) => ({ 'aria-invalid': !!errors[field], 'aria-describedby': errors[field] ? `${field}-error` : undefined });
+
+    // Suggestions for the reply field: the most recent incoming letters.
+    const replySuggestions = useMemo(() => isOpen
+        ? getActiveMemos(getRegisterMemos(memos, 'incoming')).sort((a, b) => b.date.localeCompare(a.date)).slice(0, 100)
+        : [], [isOpen, memos]);
+
+    const renderRegisterField = (field: RegisterField) => {
+        const rule = getFieldRule(field, activeRegister);
+        let input: React.ReactNode;
+        if (field === 'letterDate' || field === 'effectiveDate') {
+            input = <DateInput id={field} value={formData[field] || ''} onChange={(value: string) => setFormData(prev => ({ ...prev, [field]: value }))} locale={dateLocale} />;
+        } else if (field === 'urgency') {
+            input = (
+                <select id={field} name={field} value={formData.urgency || ''} onChange={handleChange} {...getFieldProps(field)}>
+                    <option value="">ไม่ระบุ</option>
+                    {URGENCY_LEVELS.map(level => <option key={level} value={level}>{URGENCY_LABELS[level]}</option>)}
+                </select>
+            );
+        } else {
+            input = <input type="text" id={field} name={field} value={formData[field] || ''} onChange={handleChange} maxLength={rule.maxLength} {...getFieldProps(field)} />;
+        }
+        return (
+            <div className="form-group" key={field}>
+                <label htmlFor={field}>{rule.label}</label>
+                {input}
+                {renderFieldError(field)}
+            </div>
+        );
+    };
+
     const handleChange = (e) => {
         const { name, value } = e.target;
+        if (name === 'memoNumber') setIsAutoNumber(false);
         setFormData(prev => ({ ...prev, [name]: value }));
     };
 
-    const handleFileChange = (selectedFile) => {
-        if (selectedFile) {
-            setFile(selectedFile);
+    const handleFilesChange = (fileList: FileList | null) => {
+        if (!fileList || fileList.length === 0) return;
+        const errors: string[] = [];
+        const accepted = [...fileList].filter(file => {
+            const error = validateAttachmentFile(file);
+            if (error) errors.push(error);
+            return !error;
+        });
+        const room = MAX_ATTACHMENTS_PER_MEMO - attachments.length;
+        if (accepted.length > room) {
+            errors.push(`แนบไฟล์ได้สูงสุด ${MAX_ATTACHMENTS_PER_MEMO} ไฟล์ต่อบันทึก`);
+            accepted.splice(Math.max(0, room));
         }
+        const uploadedAt = new Date().toISOString();
+        setAttachments(prev => [...prev, ...accepted.map(file => ({
+            file,
+            attachment: { id: crypto.randomUUID(), name: file.name, type: resolveAttachmentType(file), size: file.size, uploadedAt },
+        }))]);
+        if (errors.length > 0) {
+            Swal.fire({ title: 'ไม่สามารถแนบบางไฟล์ได้', html: errors.map(escapeHtml).join('<br>'), icon: 'warning' });
+        }
+    };
+
+    const moveAttachment = (index: number, offset: -1 | 1) => {
+        setAttachments(prev => {
+            const target = index + offset;
+            if (target < 0 || target >= prev.length) return prev;
+            const reordered = [...prev];
+            [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+            return reordered;
+        });
     };
     
     const handleDrop = (e) => {
         e.preventDefault();
         e.stopPropagation();
         setIsDragging(false);
-        if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-            handleFileChange(e.dataTransfer.files[0]);
-        }
+        handleFilesChange(e.dataTransfer.files);
     };
     
     const handleDragEvents = (e, over) => {
@@ -121,82 +496,200 @@ const MemoModal = ({ isOpen, onClose, onSave, memoToEdit, departments, onAddDepa
     
     const handleSubmit = async (e) => {
         e.preventDefault();
-        let fileData;
-        if (file) {
-            const dataUrl = await fileToBase64(file);
-            fileData = { name: file.name, dataUrl };
-        } else if (memoToEdit?.file) {
-            fileData = memoToEdit.file;
+        setIsSubmitted(true);
+        const { values, errors: submitErrors } = validate(formData);
+        if (hasFieldErrors(submitErrors)) {
+            const firstField = (Object.keys(MEMO_SCHEMA) as MemoFormField[]).find(field => submitErrors[field]);
+            document.getElementById(firstField)?.focus();
+            return;
+        }
+        if (replyToNumber.trim() && !replyTarget) {
+            document.getElementById('replyTo')?.focus();
+            return;
+        }
+        // Registers where the responsible person is optional save without one rather than inventing a teacher.
+        const teacherName = values.teacher;
+        let teacher: Teacher | undefined;
+        if (teacherName) {
+            teacher = teachers.find(t => t.id === formData.teacherId && t.fullName === teacherName) ?? findTeacherByName(teachers, teacherName);
+            if (!teacher) {
+                teacher = { id: crypto.randomUUID(), fullName: teacherName, position: '', defaultDepartment: formData.department || '', aliases: [] };
+                onAddTeacher(teacher);
+            }
+        }
+
+        try {
+            for (const { attachment, file } of attachments) {
+                if (file) await repository.saveAttachment(attachment.id, file);
+            }
+        } catch (error) {
+            showStorageError(error);
+            return;
         }
 
         const memoToSave = {
             ...formData,
+            ...values,
+            ...Object.fromEntries(OPTIONAL_MEMO_FIELDS.map(field => [field, values[field] || undefined])),
+            teacher: teacher?.fullName ?? '',
+            teacherId: teacher?.id,
+            replyTo: replyTarget?.id,
             id: memoToEdit ? memoToEdit.id : crypto.randomUUID(),
-            file: fileData
-        };
-        onSave(memoToSave);
+            attachments: attachments.map(a => a.attachment),
+        } as Memo;
+        onSave(withRegister(memoToSave, activeRegister));
     };
 
     const handleAddDepartment = () => {
-        if (newDepartment && !departments.includes(newDepartment)) {
-            onAddDepartment(newDepartment);
-            setFormData(prev => ({...prev, department: newDepartment}));
-            setNewDepartment('');
+        const name = normalizeDepartmentName(newDepartment);
+        if (!name) return;
+        if (name.length > MEMO_SCHEMA.department.maxLength) {
+            Swal.fire('ชื่อฝ่ายงานยาวเกินไป', `ชื่อฝ่ายงานต้องไม่เกิน ${MEMO_SCHEMA.department.maxLength} ตัวอักษร`, 'warning');
+            return;
         }
+        const existing = departments.find(d => d.toLocaleLowerCase() === name.toLocaleLowerCase());
+        if (!existing) onAddDepartment(name);
+        setFormData(prev => ({...prev, department: existing ?? name}));
+        setNewDepartment('');
     };
 
     if (!isOpen) return null;
 
     return (
         <div className="modal-overlay" onClick={onClose}>
-            <div className="modal-content" onClick={e => e.stopPropagation()}>
+            <div className="modal-content" onClick={e => e.stopPropagation()} {...dialogProps}>
                 <div className="modal-header">
-                    <h2>{memoToEdit ? 'แก้ไขบันทึกข้อความ' : 'เพิ่มบันทึกข้อความใหม่'}</h2>
+                    <h2 id={titleId}>{memoToEdit ? `แก้ไข${definition.itemLabel}` : `เพิ่ม${definition.itemLabel}ใหม่`}</h2>
                     <button className="btn-icon" onClick={onClose} aria-label="Close modal"><CloseIcon /></button>
                 </div>
-                <form onSubmit={handleSubmit}>
+                <form onSubmit={handleSubmit} noValidate>
                     <div className="modal-body">
+                        {memoToEdit?.updated && (
+                            <p className="form-hint">
+                                {memoToEdit.created && <>สร้างโดย {memoToEdit.created.name} · {formatDateTime(memoToEdit.created.at, dateLocale)} / </>}
+                                แก้ไขล่าสุดโดย {memoToEdit.updated.name} · {formatDateTime(memoToEdit.updated.at, dateLocale)}
+                            </p>
+                        )}
                          <div className="form-group">
-                            <label htmlFor="memoNumber">เลขที่บันทึกข้อความ</label>
-                            <input type="text" id="memoNumber" name="memoNumber" value={formData.memoNumber || ''} onChange={handleChange} required />
+                            <label htmlFor="memoNumber">{definition.formLabels?.memoNumber ?? definition.numberLabel}</label>
+                            <div style={{display: 'flex', gap: '0.5rem'}}>
+                                <input type="text" id="memoNumber" name="memoNumber" value={formData.memoNumber || ''} onChange={handleChange} required {...getFieldProps('memoNumber')} style={{flexGrow: 1}} />
+                                <button type="button" className="btn btn-secondary" onClick={() => setIsAutoNumber(true)} disabled={!canAutoNumber} style={{flexShrink: 0}}>ออกเลขอัตโนมัติ</button>
+                            </div>
+                            {renderFieldError('memoNumber')}
+                            {duplicateWarning && <p className="field-warning">{duplicateWarning}</p>}
                         </div>
                          <div className="form-group">
                             <label htmlFor="date">วันที่</label>
-                            <input type="date" id="date" name="date" value={formData.date || ''} onChange={handleChange} required />
+                            <DateInput id="date" value={formData.date || ''} onChange={(date: string) => setFormData(prev => ({ ...prev, date }))} locale={dateLocale} required />
+                            {renderFieldError('date')}
                         </div>
+                        {definition.fields.length > 0 && <div className="filters-grid">{definition.fields.map(renderRegisterField)}</div>}
                          <div className="form-group">
-                            <label htmlFor="teacher">ชื่อครูผู้ดำเนินการ</label>
-                            <input type="text" id="teacher" name="teacher" value={formData.teacher || ''} onChange={handleChange} required />
+                            <label htmlFor="teacher">{definition.formLabels?.teacher ?? definition.teacherLabel}</label>
+                            <TeacherPicker
+                                id="teacher"
+                                teachers={teachers}
+                                value={formData.teacher}
+                                onChange={(name: string, teacher: Teacher | null) => setFormData(prev => ({
+                                    ...prev,
+                                    teacher: name,
+                                    teacherId: teacher?.id,
+                                    department: prev.department || (teacher?.defaultDepartment && departments.includes(teacher.defaultDepartment) ? teacher.defaultDepartment : prev.department),
+                                }))}
+                            />
+                            {renderFieldError('teacher')}
                         </div>
                          <div className="form-group">
                             <label htmlFor="subject">เรื่อง</label>
-                            <input type="text" id="subject" name="subject" value={formData.subject || ''} onChange={handleChange} required />
+                            <input type="text" id="subject" name="subject" value={formData.subject || ''} onChange={handleChange} required maxLength={MEMO_SCHEMA.subject.maxLength} {...getFieldProps('subject')} />
+                            {renderFieldError('subject')}
+                        </div>
+                        <div className="form-group">
+                            <label htmlFor="notes">หมายเหตุ</label>
+                            <textarea id="notes" name="notes" rows={2} value={formData.notes || ''} onChange={handleChange} maxLength={MEMO_SCHEMA.notes.maxLength} {...getFieldProps('notes')} />
+                            {renderFieldError('notes')}
+                        </div>
+                        <div className="form-group">
+                            <label htmlFor="replyTo">ตอบหนังสือเลขที่</label>
+                            <input type="text" id="replyTo" list="replyTo-options" value={replyToNumber} onChange={e => setReplyToNumber(e.target.value)} placeholder="เว้นว่างถ้าไม่ได้ตอบหนังสือฉบับใด" aria-invalid={!!replyError} aria-describedby={replyError ? 'replyTo-error' : undefined} />
+                            <datalist id="replyTo-options">
+                                {replySuggestions.map(m => <option key={m.id} value={m.memoNumber}>{m.subject}</option>)}
+                            </datalist>
+                            {replyError && <p className="field-error" id="replyTo-error">{replyError}</p>}
+                            {replyTarget && <p className="form-hint">ตอบ{REGISTERS[getMemoRegister(replyTarget)].itemLabel} เรื่อง “{replyTarget.subject}”</p>}
                         </div>
                          <div className="form-group">
                             <label htmlFor="department">ฝ่ายงาน</label>
-                            <select id="department" name="department" value={formData.department || ''} onChange={handleChange} required>
+                            <select id="department" name="department" value={formData.department || ''} onChange={handleChange} required {...getFieldProps('department')}>
                                 <option value="">เลือกฝ่ายงาน</option>
                                 {departments.map(dep => <option key={dep} value={dep}>{dep}</option>)}
                             </select>
+                            {renderFieldError('department')}
                         </div>
-                        <div className="form-group" style={{flexDirection: 'row', gap: '0.5rem', alignItems: 'center'}}>
-                            <input type="text" placeholder="เพิ่มฝ่ายงานใหม่" value={newDepartment} onChange={e => setNewDepartment(e.target.value)} style={{flexGrow: 1}} />
-                            <button type="button" className="btn btn-secondary" onClick={handleAddDepartment} style={{flexShrink: 0}}>เพิ่ม</button>
-                        </div>
+                        {onAddDepartment && (
+                            <div className="form-group" style={{flexDirection: 'row', gap: '0.5rem', alignItems: 'center'}}>
+                                <input type="text" placeholder="เพิ่มฝ่ายงานใหม่" value={newDepartment} onChange={e => setNewDepartment(e.target.value)} style={{flexGrow: 1}} />
+                                <button type="button" className="btn btn-secondary" onClick={handleAddDepartment} style={{flexShrink: 0}}>เพิ่ม</button>
+                            </div>
+                        )}
+                        <fieldset className="scheme-fieldset">
+                            <legend>การติดตาม</legend>
+                            <div className="filters-grid">
+                                <div className="form-group">
+                                    <label htmlFor="dueDate">กำหนดเสร็จ</label>
+                                    <DateInput id="dueDate" value={formData.dueDate || ''} onChange={(dueDate: string) => setFormData(prev => ({ ...prev, dueDate }))} locale={dateLocale} />
+                                    {renderFieldError('dueDate')}
+                                </div>
+                                <div className="form-group">
+                                    <label htmlFor="followUpBy">ผู้รับผิดชอบติดตาม</label>
+                                    <input type="text" id="followUpBy" name="followUpBy" value={formData.followUpBy || ''} onChange={handleChange} maxLength={MEMO_SCHEMA.followUpBy.maxLength} {...getFieldProps('followUpBy')} />
+                                    {renderFieldError('followUpBy')}
+                                </div>
+                            </div>
+                            <div className="form-group">
+                                <label htmlFor="followUpNotes">บันทึกการติดตาม</label>
+                                <textarea id="followUpNotes" name="followUpNotes" rows={2} value={formData.followUpNotes || ''} onChange={handleChange} maxLength={MEMO_SCHEMA.followUpNotes.maxLength} {...getFieldProps('followUpNotes')} />
+                                {renderFieldError('followUpNotes')}
+                            </div>
+                            {formData.followUpDone && (
+                                <p className="form-hint">
+                                    ติดตามเสร็จแล้วโดย {formData.followUpDone.name} · {formatDateTime(formData.followUpDone.at, dateLocale)}{' '}
+                                    <button type="button" className="link-button" onClick={() => setFormData(prev => reopenFollowUp(prev as Memo))}>เปิดติดตามอีกครั้ง</button>
+                                </p>
+                            )}
+                        </fieldset>
                         <div 
                             className={`drop-zone ${isDragging ? 'drag-over' : ''}`}
+                            role="button"
+                            tabIndex={0}
+                            aria-describedby="file-upload-hint"
                             onDrop={handleDrop}
                             onDragOver={e => handleDragEvents(e, true)}
                             onDragEnter={e => handleDragEvents(e, true)}
                             onDragLeave={e => handleDragEvents(e, false)}
                             onClick={() => document.getElementById('file-upload').click()}
+                            onKeyDown={onActivationKey(() => document.getElementById('file-upload').click())}
                         >
-                            <p>ลากและวางไฟล์ที่นี่ หรือคลิกเพื่ออัปโหลด</p>
-                            <input type="file" id="file-upload" onChange={e => handleFileChange(e.target.files[0])} style={{ display: 'none' }} />
-                            {(file || formData.file) && (
-                                <p className="file-info">{file?.name || formData.file?.name}</p>
-                            )}
+                            <p>ลากและวางไฟล์ที่นี่ หรือคลิกเพื่ออัปโหลด (หลายไฟล์ได้)</p>
+                            <p className="form-hint" id="file-upload-hint">PDF, รูปภาพ, Word หรือ Excel ไม่เกินไฟล์ละ {formatFileSize(MAX_ATTACHMENT_SIZE)}</p>
                         </div>
+                        <input type="file" id="file-upload" multiple accept={ATTACHMENT_ACCEPT} onChange={e => { handleFilesChange(e.target.files); e.target.value = ''; }} style={{ display: 'none' }} />
+                        {attachments.length > 0 && (
+                            <ul className="attachment-list">
+                                {attachments.map(({ attachment, file }, index) => (
+                                    <li key={attachment.id}>
+                                        <span className="attachment-name">{attachment.name}</span>
+                                        <span className="form-hint">{formatFileSize(attachment.size)}{file ? ' · ใหม่' : ''}</span>
+                                        <span className="table-actions">
+                                            <button type="button" className="btn-icon" onClick={() => moveAttachment(index, -1)} disabled={index === 0} aria-label={`เลื่อน ${attachment.name} ขึ้น`}>↑</button>
+                                            <button type="button" className="btn-icon" onClick={() => moveAttachment(index, 1)} disabled={index === attachments.length - 1} aria-label={`เลื่อน ${attachment.name} ลง`}>↓</button>
+                                            <button type="button" className="btn-icon" onClick={() => setAttachments(prev => prev.filter(a => a.attachment.id !== attachment.id))} aria-label={`ลบ ${attachment.name}`}><DeleteIcon /></button>
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
                     </div>
                     <div className="modal-footer">
                         <button type="button" className="btn" onClick={onClose} style={{backgroundColor: 'var(--medium-gray)'}}>ยกเลิก</button>
@@ -208,346 +701,3128 @@ const MemoModal = ({ isOpen, onClose, onSave, memoToEdit, departments, onAddDepa
     );
 };
 
+// NumberingSettingsModal COMPONENT
+// Internal memos get one scheme per department; every other register is numbered by a single scheme, keyed by its type.
+const NumberingSettingsModal = ({ isOpen, onClose, onSave, departments, numberingSchemes, registerSchemes, register, memos }) => {
+    const { titleId, dialogProps } = useDialog(isOpen, onClose);
+    const [draft, setDraft] = useState<Record<string, NumberingScheme>>({});
+    const keys: string[] = register === 'memo' ? departments : [register];
+    const registerMemos = useMemo(() => getRegisterMemos(memos, register), [memos, register]);
 
-// MAIN PAGE
-const MainPage = ({ setView, memos, departments, saveMemos, saveDepartments }) => {
-    const [loading, setLoading] = useState(false);
-    const [isModalOpen, setIsModalOpen] = useState(false);
-    const [memoToEdit, setMemoToEdit] = useState<Memo | null>(null);
-    const [filters, setFilters] = useState({ subject: '', teacher: '', startDate: '', endDate: '', department: '' });
-    const [sortConfig, setSortConfig] = useState<SortConfig>(null);
-    const [currentPage, setCurrentPage] = useState(1);
-    const itemsPerPage = 10;
+    useEffect(() => {
+        if (isOpen) {
+            setDraft(register === 'memo'
+                ? Object.fromEntries(departments.map(dep => [dep, getSchemeForDepartment(numberingSchemes, dep)]))
+                : { [register]: getRegisterScheme(register, '', numberingSchemes, registerSchemes) });
+        }
+    }, [isOpen, departments, numberingSchemes, registerSchemes, register]);
 
-    const handleSaveMemo = (memo: Memo) => {
-        setLoading(true);
-        setTimeout(() => {
-            const newMemos = memoToEdit 
-                ? memos.map(m => m.id === memo.id ? memo : m)
-                : [...memos, memo];
-            saveMemos(newMemos);
-            setIsModalOpen(false);
-            setMemoToEdit(null);
-            setLoading(false);
-            Swal.fire({
-                title: 'สำเร็จ!',
-                text: `บันทึกข้อมูลเรียบร้อยแล้ว`,
-                icon: 'success',
-                timer: 1500,
-                showConfirmButton: false,
-            });
-        }, 500);
+    const updateScheme = (key: string, changes: Partial<NumberingScheme>) => {
+        setDraft(prev => ({ ...prev, [key]: { ...prev[key], ...changes } }));
     };
 
-    const handleDeleteMemo = (id: string) => {
+    const handleSubmit = (e) => {
+        e.preventDefault();
+        if (Object.values(draft).some((scheme: NumberingScheme) => !scheme.pattern.includes('{seq}'))) {
+            Swal.fire('รูปแบบไม่ถูกต้อง', 'รูปแบบเลขที่ต้องมี {seq} สำหรับเลขลำดับ', 'error');
+            return;
+        }
+        onSave(draft);
+    };
+
+    if (!isOpen) return null;
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content modal-wide" onClick={e => e.stopPropagation()} {...dialogProps}>
+                <div className="modal-header">
+                    <h2 id={titleId}>ตั้งค่าการออกเลข{REGISTERS[register].label}</h2>
+                    <button className="btn-icon" onClick={onClose} aria-label="Close modal"><CloseIcon /></button>
+                </div>
+                <form onSubmit={handleSubmit}>
+                    <div className="modal-body">
+                        <p className="form-hint">ใช้ {'{prefix}'} แทนคำนำหน้า, {'{seq}'} แทนเลขลำดับ และ {'{year}'} แทนปี พ.ศ. ของรอบการนับ</p>
+                        {keys.map((dep, index) => {
+                            const scheme = draft[dep] ?? DEFAULT_NUMBERING_SCHEME;
+                            return (
+                                <fieldset key={dep} className="scheme-fieldset">
+                                    <legend>{register === 'memo' ? dep : REGISTERS[register].label}</legend>
+                                    <div className="filters-grid">
+                                        <div className="form-group"><label htmlFor={`scheme-${index}-prefix`}>คำนำหน้า</label><input type="text" id={`scheme-${index}-prefix`} value={scheme.prefix} onChange={e => updateScheme(dep, { prefix: e.target.value })} /></div>
+                                        <div className="form-group"><label htmlFor={`scheme-${index}-pattern`}>รูปแบบ</label><input type="text" id={`scheme-${index}-pattern`} value={scheme.pattern} onChange={e => updateScheme(dep, { pattern: e.target.value })} required /></div>
+                                        <div className="form-group"><label htmlFor={`scheme-${index}-padding`}>จำนวนหลัก</label><input type="number" id={`scheme-${index}-padding`} min={1} max={6} value={scheme.padding} onChange={e => updateScheme(dep, { padding: parseInt(e.target.value, 10) || 1 })} /></div>
+                                        <div className="form-group">
+                                            <label htmlFor={`scheme-${index}-year-basis`}>เริ่มนับใหม่ตาม</label>
+                                            <select id={`scheme-${index}-year-basis`} value={scheme.yearBasis} onChange={e => updateScheme(dep, { yearBasis: e.target.value as YearBasis })}>
+                                                {Object.entries(YEAR_BASIS_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                                            </select>
+                                        </div>
+                                    </div>
+                                    <p className="form-hint">เลขถัดไป: {scheme.pattern.includes('{seq}') ? getNextMemoNumber(registerMemos, scheme, new Date()) : '-'}</p>
+                                </fieldset>
+                            );
+                        })}
+                    </div>
+                    <div className="modal-footer">
+                        <button type="button" className="btn" onClick={onClose} style={{backgroundColor: 'var(--medium-gray)'}}>ยกเลิก</button>
+                        <button type="submit" className="btn btn-primary">บันทึก</button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+// NumberingReportModal COMPONENT
+const NumberingReportModal = ({ isOpen, onClose, memos, departments, numberingSchemes, registerSchemes, register }) => {
+    const { titleId, dialogProps } = useDialog(isOpen, onClose);
+    // The report groups sequences by department; a register with a single scheme is reported as one group under its own name.
+    const report = useMemo(() => {
+        if (!isOpen) return null;
+        const registerMemos = getRegisterMemos(memos, register);
+        if (register === 'memo') return buildNumberingReport(registerMemos, departments, numberingSchemes);
+        const { label } = REGISTERS[register];
+        return buildNumberingReport(registerMemos, [label], { [label]: getRegisterScheme(register, '', numberingSchemes, registerSchemes) });
+    }, [isOpen, memos, departments, numberingSchemes, registerSchemes, register]);
+
+    if (!isOpen || !report) return null;
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content modal-wide" onClick={e => e.stopPropagation()} {...dialogProps}>
+                <div className="modal-header">
+                    <h2 id={titleId}>ตรวจสอบเลขที่{REGISTERS[register].label}</h2>
+                    <button className="btn-icon" onClick={onClose} aria-label="Close modal"><CloseIcon /></button>
+                </div>
+                <div className="modal-body">
+                    <h3>เลขที่ซ้ำในทะเบียน</h3>
+                    {report.duplicateNumbers.length > 0 ? (
+                        <ul className="report-list">
+                            {report.duplicateNumbers.map(({ memoNumber, memos: group }) => (
+                                <li key={memoNumber}><strong>{memoNumber}</strong> ({group.length} รายการ): {group.map(m => m.subject).join(', ')}</li>
+                            ))}
+                        </ul>
+                    ) : <p className="form-hint">ไม่พบเลขที่ซ้ำ</p>}
+                    <h3>ความต่อเนื่องของเลขที่</h3>
+                    {report.sequences.length > 0 ? (
+                        <table>
+                            <thead>
+                                <tr><th>{register === 'memo' ? 'ฝ่ายงาน' : 'ทะเบียน'}</th><th>ปี</th><th>จำนวน</th><th>เลขล่าสุด</th><th>เลขที่ขาดหาย</th></tr>
+                            </thead>
+                            <tbody>
+                                {report.sequences.map(seq => (
+                                    <tr key={`${seq.departments.join('|')}-${seq.year}`}>
+                                        <td>{seq.departments.join(', ')}</td>
+                                        <td>{seq.year}</td>
+                                        <td>{seq.count}</td>
+                                        <td>{seq.lastSeq}</td>
+                                        <td>{seq.gaps.length > 0 ? seq.gaps.map(formatSequenceGap).join(', ') : '-'}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    ) : <p className="form-hint">ยังไม่มีเลขที่ตามรูปแบบที่ตั้งไว้</p>}
+                    {report.unparsed.length > 0 && (
+                        <>
+                            <h3>เลขที่ไม่ตรงกับรูปแบบ ({report.unparsed.length} รายการ)</h3>
+                            <ul className="report-list">
+                                {report.unparsed.slice(0, 50).map(m => <li key={m.id}>{m.memoNumber || '(ว่าง)'} — {m.subject}</li>)}
+                            </ul>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// DataHealthModal COMPONENT
+const DataHealthModal = ({ isOpen, onClose, repository, memos, departments, onEditMemo, canEdit }) => {
+    const { titleId, dialogProps } = useDialog(isOpen, onClose);
+    const [report, setReport] = useState<DataHealthReport | null>(null);
+    const [isScanning, setIsScanning] = useState(false);
+
+    const scan = useCallback(async () => {
+        setIsScanning(true);
+        try {
+            setReport(buildDataHealthReport(memos, departments, await repository.listAttachmentIds()));
+        } catch (error) {
+            console.error('Error scanning data health:', error);
+            Swal.fire('เกิดข้อผิดพลาด', 'ไม่สามารถตรวจสอบข้อมูลได้', 'error');
+        } finally {
+            setIsScanning(false);
+        }
+    }, [memos, departments, repository]);
+
+    useEffect(() => {
+        if (isOpen) scan();
+        else setReport(null);
+    }, [isOpen, scan]);
+
+    const handleDeleteOrphans = () => {
+        const ids: string[] = report.orphanedAttachmentIds;
         Swal.fire({
             title: 'แน่ใจหรือไม่?',
-            text: "คุณต้องการลบข้อมูลนี้ใช่หรือไม่!",
+            text: `ลบไฟล์ที่ไม่มีบันทึกใดอ้างถึง ${ids.length} ไฟล์ ไม่สามารถกู้คืนได้อีก`,
             icon: 'warning',
             showCancelButton: true,
             confirmButtonColor: 'var(--primary-color)',
             cancelButtonColor: 'var(--danger-color)',
             confirmButtonText: 'ใช่, ลบเลย!',
             cancelButtonText: 'ยกเลิก'
-        }).then((result) => {
-            if (result.isConfirmed) {
-                setLoading(true);
-                setTimeout(() => {
-                    const newMemos = memos.filter(m => m.id !== id);
-                    saveMemos(newMemos);
-                    setLoading(false);
-                    Swal.fire('ลบแล้ว!', 'ข้อมูลของคุณถูกลบเรียบร้อยแล้ว', 'success');
-                }, 500);
-            }
+        }).then(async (result) => {
+            if (!result.isConfirmed) return;
+            await Promise.all(ids.map(id => repository.deleteAttachment(id).catch(error => console.error('Error deleting attachment:', error))));
+            scan();
         });
     };
-    
-    const handleAddDepartment = (newDepartment) => {
-        const newDepartments = [...departments, newDepartment];
-        saveDepartments(newDepartments);
-        Swal.fire('สำเร็จ', 'เพิ่มฝ่ายงานใหม่เรียบร้อย', 'success');
-    };
 
-    const filteredMemos = useMemo(() => {
-        let filtered = [...memos];
-        if (filters.subject) {
-            filtered = filtered.filter(m => m.subject.toLowerCase().includes(filters.subject.toLowerCase()));
-        }
-        if (filters.teacher) {
-            filtered = filtered.filter(m => m.teacher === filters.teacher);
-        }
-        if (filters.department) {
-            filtered = filtered.filter(m => m.department === filters.department);
-        }
-        if (filters.startDate) {
-            const start = startOfDay(parseISO(filters.startDate));
-            filtered = filtered.filter(m => parseISO(m.date) >= start);
-        }
-        if (filters.endDate) {
-            const end = endOfDay(parseISO(filters.endDate));
-            filtered = filtered.filter(m => parseISO(m.date) <= end);
-        }
-        return filtered;
-    }, [memos, filters]);
+    if (!isOpen) return null;
 
-    const sortedMemos = useMemo(() => {
-        let sortableMemos = [...filteredMemos];
-        if (sortConfig !== null) {
-            sortableMemos.sort((a, b) => {
-                if (a[sortConfig.key] < b[sortConfig.key]) {
-                    return sortConfig.direction === 'ascending' ? -1 : 1;
-                }
-                if (a[sortConfig.key] > b[sortConfig.key]) {
-                    return sortConfig.direction === 'ascending' ? 1 : -1;
-                }
-                return 0;
-            });
+    const counts = report ? countIssuesByKind(report.issues) : null;
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content modal-wide" onClick={e => e.stopPropagation()} {...dialogProps}>
+                <div className="modal-header">
+                    <h2 id={titleId}>ตรวจสอบความถูกต้องของข้อมูล</h2>
+                    <button className="btn-icon" onClick={onClose} aria-label="Close modal"><CloseIcon /></button>
+                </div>
+                <div className="modal-body">
+                    {!report ? <p className="form-hint">{isScanning ? 'กำลังตรวจสอบ…' : ''}</p> : (
+                        <>
+                            <p>ตรวจสอบแล้ว {report.memoCount} รายการ พบปัญหา {report.issues.length} จุด</p>
+                            <ul className="report-list">
+                                {(Object.keys(HEALTH_ISSUE_LABELS) as HealthIssueKind[]).map(kind => (
+                                    <li key={kind}>{HEALTH_ISSUE_LABELS[kind]}: {counts[kind]}</li>
+                                ))}
+                                <li>ไฟล์ที่ไม่มีบันทึกอ้างถึง: {report.orphanedAttachmentIds.length}</li>
+                            </ul>
+                            {report.issues.length > 0 && (
+                                <table>
+                                    <thead>
+                                        <tr><th>เลขที่บันทึก</th><th>เรื่อง</th><th>ปัญหา</th><th>จัดการ</th></tr>
+                                    </thead>
+                                    <tbody>
+                                        {report.issues.slice(0, 200).map((issue: HealthIssue, index) => (
+                                            <tr key={`${issue.memo.id}-${index}`}>
+                                                <td>{issue.memo.memoNumber || '(ว่าง)'}</td>
+                                                <td>{issue.memo.subject || '(ว่าง)'}</td>
+                                                <td>{HEALTH_ISSUE_LABELS[issue.kind]} — {issue.message}</td>
+                                                <td>{canEdit(issue.memo) && <button type="button" className="link-button" onClick={() => onEditMemo(issue.memo)}>แก้ไข</button>}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            )}
+                            {report.issues.length > 200 && <p className="form-hint">แสดง 200 จุดแรกจาก {report.issues.length} จุด</p>}
+                        </>
+                    )}
+                </div>
+                <div className="modal-footer">
+                    {report?.orphanedAttachmentIds.length > 0 && <button type="button" className="btn btn-secondary" onClick={handleDeleteOrphans}>ลบไฟล์ที่ไม่ได้ใช้ ({report.orphanedAttachmentIds.length})</button>}
+                    <button type="button" className="btn btn-primary" onClick={scan} disabled={isScanning}>ตรวจสอบอีกครั้ง</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// ImportWizardModal COMPONENT
+const ImportWizardModal = ({ isOpen, onClose, onImport, memos, departments, numberingSchemes, registerSchemes, register }) => {
+    const { titleId, dialogProps } = useDialog(isOpen, onClose);
+    const definition = REGISTERS[register];
+    const fields = useMemo(() => getImportFields(register), [register]);
+    const [step, setStep] = useState<'upload' | 'mapping' | 'review'>('upload');
+    const [fileName, setFileName] = useState('');
+    const [table, setTable] = useState<ImportTable | null>(null);
+    const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+    const [duplicateAction, setDuplicateAction] = useState<DuplicateAction>('skip');
+
+    useEffect(() => {
+        if (isOpen) {
+            setStep('upload');
+            setFileName('');
+            setTable(null);
+            setMapping(null);
+            setDuplicateAction('skip');
         }
-        return sortableMemos;
-    }, [filteredMemos, sortConfig]);
+    }, [isOpen]);
 
-    const paginatedMemos = useMemo(() => {
-        const startIndex = (currentPage - 1) * itemsPerPage;
-        return sortedMemos.slice(startIndex, startIndex + itemsPerPage);
-    }, [sortedMemos, currentPage]);
-    
-    const totalPages = Math.ceil(sortedMemos.length / itemsPerPage);
-    
-    const requestSort = (key: keyof Memo) => {
-        let direction: 'ascending' | 'descending' = 'ascending';
-        if (sortConfig && sortConfig.key === key && sortConfig.direction === 'ascending') {
-            direction = 'descending';
+    const results = useMemo<ImportRowResult[]>(() => {
+        if (step !== 'review' || !table || !mapping) return [];
+        const validated = validateImportRows(table, mapping, memos, register);
+        return duplicateAction === 'renumber' ? renumberDuplicateRows(validated, memos, register, numberingSchemes, registerSchemes) : validated;
+    }, [step, table, mapping, memos, register, duplicateAction, numberingSchemes, registerSchemes]);
+    const importable = getImportableRows(results, duplicateAction);
+    const unknownDepartments = useMemo(() => findUnknownDepartments(importable, departments), [importable, departments]);
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file) return;
+        try {
+            const parsed = await readImportFile(file);
+            if (parsed.rows.length === 0) {
+                Swal.fire('ไม่พบข้อมูล', 'ไฟล์นี้ไม่มีแถวข้อมูลให้นำเข้า', 'warning');
+                return;
+            }
+            setFileName(file.name);
+            setTable(parsed);
+            setMapping(guessColumnMapping(parsed.headers, fields));
+            setStep('mapping');
+        } catch (error) {
+            console.error('Error reading import file:', error);
+            Swal.fire('เกิดข้อผิดพลาด', 'ไม่สามารถอ่านไฟล์ได้ กรุณาใช้ไฟล์ CSV หรือ XLSX', 'error');
         }
-        setSortConfig({ key, direction });
     };
 
-    const getSortIndicator = (key: keyof Memo) => {
-        if (!sortConfig || sortConfig.key !== key) return '↕';
-        return sortConfig.direction === 'ascending' ? '↑' : '↓';
-    };
+    const isMappingComplete = mapping && fields.every(f => !f.required || (mapping[f.key] ?? null) !== null);
 
-    const uniqueTeachers = useMemo(() => [...new Set(memos.map(m => m.teacher))], [memos]);
-    
-    const dashboardStats = useMemo(() => {
-        const counts = { total: filteredMemos.length };
-        departments.forEach(dep => {
-            counts[dep] = filteredMemos.filter(m => m.department === dep).length;
-        });
-        return counts;
-    }, [filteredMemos, departments]);
+    if (!isOpen) return null;
 
-    const getCardClass = (department) => {
-        switch (department) {
-            case "งานบริหารวิชาการ": return "card-academic";
-            case "งานบริหารงบประมาณ": return "card-budget";
-            case "งานบริหารบุคลากร": return "card-personnel";
-            case "งานบริหารทั่วไป": return "card-general";
-            default: return "";
-        }
-    };
-    
     return (
-        <>
-            {loading && <Loader />}
-            <MemoModal 
-                isOpen={isModalOpen}
-                onClose={() => { setIsModalOpen(false); setMemoToEdit(null); }}
-                onSave={handleSaveMemo}
-                memoToEdit={memoToEdit}
-                departments={departments}
-                onAddDepartment={handleAddDepartment}
-            />
-            <header className="app-header">
-                <div className="container header-content">
-                    <h1>ทะเบียนคุมบันทึกข้อความ</h1>
-                    <div className="header-actions">
-                        <button className="btn btn-secondary" onClick={() => setView('stats')}><ChartIcon /> ดูสถิติ</button>
-                        <button className="btn btn-primary" onClick={() => { setMemoToEdit(null); setIsModalOpen(true); }}><PlusIcon /> เพิ่มบันทึกใหม่</button>
-                    </div>
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content modal-wide" onClick={e => e.stopPropagation()} {...dialogProps}>
+                <div className="modal-header">
+                    <h2 id={titleId}>นำเข้า{definition.title}จากไฟล์</h2>
+                    <button className="btn-icon" onClick={onClose} aria-label="Close modal"><CloseIcon /></button>
                 </div>
-            </header>
-            <main className="main-content container">
-                <section className="dashboard">
-                    <div className="dashboard-card card-total"><h3>ทะเบียนทั้งหมด</h3><p>{dashboardStats.total}</p></div>
-                    {departments.map(dep => (
-                         <div key={dep} className={`dashboard-card ${getCardClass(dep)}`}><h3>{dep}</h3><p>{dashboardStats[dep]}</p></div>
-                    ))}
-                </section>
-                <section className="filters-card">
-                    <div className="filters-grid">
-                        <div className="form-group"><label>ค้นหาชื่อเรื่อง</label><input type="text" value={filters.subject} onChange={e => setFilters({...filters, subject: e.target.value})} /></div>
-                        <div className="form-group"><label>ชื่อครู</label><select value={filters.teacher} onChange={e => setFilters({...filters, teacher: e.target.value})}><option value="">ทั้งหมด</option>{uniqueTeachers.map(t => <option key={t} value={t}>{t}</option>)}</select></div>
-                        <div className="form-group"><label>ฝ่ายงาน</label><select value={filters.department} onChange={e => setFilters({...filters, department: e.target.value})}><option value="">ทั้งหมด</option>{departments.map(d => <option key={d} value={d}>{d}</option>)}</select></div>
-                        <div className="form-group"><label>วันที่เริ่มต้น</label><input type="date" value={filters.startDate} onChange={e => setFilters({...filters, startDate: e.target.value})} /></div>
-                        <div className="form-group"><label>วันที่สิ้นสุด</label><input type="date" value={filters.endDate} onChange={e => setFilters({...filters, endDate: e.target.value})} /></div>
+                {step === 'upload' && (
+                    <div className="modal-body">
+                        <div className="drop-zone" role="button" tabIndex={0} onClick={() => document.getElementById('import-upload').click()} onKeyDown={onActivationKey(() => document.getElementById('import-upload').click())}>
+                            <p>เลือกไฟล์ CSV หรือ Excel (.xlsx) ที่มีแถวแรกเป็นหัวคอลัมน์</p>
+                        </div>
+                        <input type="file" id="import-upload" accept=".csv,.xlsx,.xls" onChange={e => handleFile(e.target.files[0])} style={{ display: 'none' }} />
                     </div>
-                </section>
-                <section className="table-container">
-                    <table>
-                        <thead>
-                            <tr>
-                                <th>ลำดับ</th>
-                                <th onClick={() => requestSort('memoNumber')} className={sortConfig?.key === 'memoNumber' ? 'sorted' : ''}>เลขที่บันทึก <span className="sort-icon">{getSortIndicator('memoNumber')}</span></th>
-                                <th onClick={() => requestSort('date')} className={sortConfig?.key === 'date' ? 'sorted' : ''}>วันที่ <span className="sort-icon">{getSortIndicator('date')}</span></th>
-                                <th onClick={() => requestSort('teacher')} className={sortConfig?.key === 'teacher' ? 'sorted' : ''}>ชื่อครู <span className="sort-icon">{getSortIndicator('teacher')}</span></th>
-                                <th onClick={() => requestSort('subject')} className={sortConfig?.key === 'subject' ? 'sorted' : ''}>เรื่อง <span className="sort-icon">{getSortIndicator('subject')}</span></th>
-                                <th onClick={() => requestSort('department')} className={sortConfig?.key === 'department' ? 'sorted' : ''}>ฝ่ายงาน <span className="sort-icon">{getSortIndicator('department')}</span></th>
-                                <th>ไฟล์</th>
-                                <th>จัดการ</th>
+                )}
+                {step === 'mapping' && table && mapping && (
+                    <>
+                        <div className="modal-body">
+                            <p className="form-hint">{fileName} — {table.rows.length} แถว เลือกคอลัมน์ในไฟล์ที่ตรงกับข้อมูลแต่ละช่อง</p>
+                            <div className="filters-grid">
+                                {fields.map(field => (
+                                    <div className="form-group" key={field.key}>
+                                        <label htmlFor={`import-${field.key}`}>{field.label}</label>
+                                        <select
+                                            id={`import-${field.key}`}
+                                            value={mapping[field.key] ?? ''}
+                                            onChange={e => setMapping({ ...mapping, [field.key]: e.target.value === '' ? null : parseInt(e.target.value, 10) })}
+                                        >
+                                            <option value="">-- ไม่ระบุ --</option>
+                                            {table.headers.map((header, index) => <option key={index} value={index}>{header || `คอลัมน์ ${index + 1}`}</option>)}
+                                        </select>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                        <div className="modal-footer">
+                            <button type="button" className="btn" onClick={() => setStep('upload')} style={{backgroundColor: 'var(--medium-gray)'}}>ย้อนกลับ</button>
+                            <button type="button" className="btn btn-primary" onClick={() => setStep('review')} disabled={!isMappingComplete}>ตรวจสอบข้อมูล</button>
+                        </div>
+                    </>
+                )}
+                {step === 'review' && (
+                    <>
+                        <div className="modal-body">
+                            <p>
+                                พร้อมนำเข้า {importable.length} จาก {results.length} แถว
+                                {' '}(ข้อมูลไม่ถูกต้อง {results.filter(r => !r.memo).length} แถว, เลขที่ซ้ำ {results.filter(r => r.duplicateOf).length} แถว)
+                            </p>
+                            <fieldset className="scheme-fieldset">
+                                <legend>แถวที่{definition.numberLabel}ซ้ำกับทะเบียนหรือซ้ำในไฟล์</legend>
+                                <label className="checkbox-label">
+                                    <input type="radio" name="import-duplicates" checked={duplicateAction === 'skip'} onChange={() => setDuplicateAction('skip')} />
+                                    ข้าม ไม่นำเข้า
+                                </label>
+                                <label className="checkbox-label">
+                                    <input type="radio" name="import-duplicates" checked={duplicateAction === 'renumber'} onChange={() => setDuplicateAction('renumber')} />
+                                    นำเข้าโดยกำหนดเลขที่ใหม่ตามรูปแบบเลขที่ของ{register === 'memo' ? 'ฝ่ายงาน' : 'ทะเบียน'}
+                                </label>
+                            </fieldset>
+                            {unknownDepartments.length > 0 && (
+                                <p className="form-hint">จะเพิ่มฝ่ายงานใหม่: {unknownDepartments.join(', ')}</p>
+                            )}
+                            <div className="table-container import-preview">
+                                <table>
+                                    <thead>
+                                        <tr><th>แถว</th><th>{definition.numberLabel}</th><th>เรื่อง</th><th>ผลการตรวจสอบ</th></tr>
+                                    </thead>
+                                    <tbody>
+                                        {results.filter(r => !r.memo || r.duplicateOf).slice(0, 200).map(r => (
+                                            <tr key={r.rowNumber}>
+                                                <td>{r.rowNumber}</td>
+                                                <td>{r.originalNumber ?? r.memo?.memoNumber ?? '-'}</td>
+                                                <td>{r.memo?.subject ?? '-'}</td>
+                                                <td className={r.originalNumber === undefined ? 'text-danger' : undefined}>
+                                                    {[
+                                                        ...r.errors,
+                                                        r.duplicateOf === 'register' ? 'เลขที่ซ้ำกับทะเบียน' : r.duplicateOf === 'file' ? 'เลขที่ซ้ำในไฟล์' : null,
+                                                        r.originalNumber !== undefined ? `จะใช้เลขที่ ${r.memo.memoNumber}` : null,
+                                                    ].filter(Boolean).join(', ')}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </div>
+                        <div className="modal-footer">
+                            <button type="button" className="btn" onClick={() => setStep('mapping')} style={{backgroundColor: 'var(--medium-gray)'}}>ย้อนกลับ</button>
+                            <button type="button" className="btn btn-primary" onClick={() => onImport(importable.map(r => r.memo), unknownDepartments)} disabled={importable.length === 0}>
+                                นำเข้า {importable.length} รายการ
+                            </button>
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
+
+// AttachmentPreviewModal COMPONENT
+const AttachmentPreviewModal = ({ attachments, repository, onClose }) => {
+    const [index, setIndex] = useState(0);
+    const [blobUrl, setBlobUrl] = useState<string | null>(null);
+    const [pdf, setPdf] = useState(null);
+    const [pageNumber, setPageNumber] = useState(1);
+    const [error, setError] = useState('');
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const bodyRef = useRef<HTMLDivElement>(null);
+
+    const isOpen = attachments.length > 0;
+    const { titleId, dialogProps } = useDialog(isOpen, onClose);
+    const current: MemoAttachment | undefined = attachments[index];
+
+    useEffect(() => {
+        setIndex(0);
+    }, [attachments]);
+
+    useEffect(() => {
+        if (!current) return;
+        let cancelled = false;
+        let url: string | null = null;
+        let loadedPdf = null;
+        setBlobUrl(null);
+        setPdf(null);
+        setPageNumber(1);
+        setError('');
+        (async () => {
+            const blob = await repository.getAttachment(current.id);
+            if (cancelled) return;
+            if (!blob) {
+                setError(`ไม่พบไฟล์แนบ “${current.name}” ในเครื่องนี้`);
+                return;
+            }
+            url = URL.createObjectURL(blob);
+            setBlobUrl(url);
+            if (isPdfAttachment(current)) {
+                loadedPdf = await openPdf(blob);
+                if (cancelled) {
+                    loadedPdf.destroy();
+                    return;
+                }
+                setPdf(loadedPdf);
+            }
+        })().catch(err => {
+            console.error('Error loading attachment preview:', err);
+            if (!cancelled) setError('ไม่สามารถแสดงตัวอย่างไฟล์นี้ได้');
+        });
+        return () => {
+            cancelled = true;
+            if (url) URL.revokeObjectURL(url);
+            loadedPdf?.destroy();
+        };
+    }, [current, repository]);
+
+    useEffect(() => {
+        if (!pdf || !canvasRef.current) return;
+        let task = null;
+        let cancelled = false;
+        const maxWidth = (bodyRef.current?.clientWidth ?? 800) - 32;
+        renderPdfPage(pdf, pageNumber, canvasRef.current, maxWidth).then(renderTask => {
+            task = renderTask;
+            if (cancelled) renderTask.cancel();
+            return renderTask.promise;
+        }).catch(err => {
+            if (err?.name !== 'RenderingCancelledException') console.error('Error rendering PDF page:', err);
+        });
+        return () => {
+            cancelled = true;
+            task?.cancel();
+        };
+    }, [pdf, pageNumber]);
+
+    if (!isOpen || !current) return null;
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content modal-preview" onClick={e => e.stopPropagation()} {...dialogProps}>
+                <div className="modal-header">
+                    <h2 id={titleId}>{current.name}</h2>
+                    <button className="btn-icon" onClick={onClose} aria-label="Close modal"><CloseIcon /></button>
+                </div>
+                {attachments.length > 1 && (
+                    <div className="preview-tabs" role="tablist">
+                        {attachments.map((attachment, i) => (
+                            <button key={attachment.id} type="button" role="tab" aria-selected={i === index} className={i === index ? 'active' : ''} onClick={() => setIndex(i)}>
+                                {attachment.name}
+                            </button>
+                        ))}
+                    </div>
+                )}
+                <div className="preview-body" ref={bodyRef}>
+                    {error && <p className="empty-state">{error}</p>}
+                    {!error && !blobUrl && <div className="loader"></div>}
+                    {!error && blobUrl && isImageAttachment(current) && <img src={blobUrl} alt={current.name} />}
+                    {!error && blobUrl && isPdfAttachment(current) && <canvas ref={canvasRef} aria-label={`${current.name} หน้า ${pageNumber}`}></canvas>}
+                    {!error && blobUrl && !isImageAttachment(current) && !isPdfAttachment(current) && (
+                        <p className="empty-state">ไม่สามารถแสดงตัวอย่างไฟล์ประเภทนี้ได้ กรุณาดาวน์โหลดเพื่อเปิดดู</p>
+                    )}
+                </div>
+                <div className="pagination">
+                    {pdf ? (
+                        <div>
+                            <button className="btn" onClick={() => setPageNumber(p => Math.max(1, p - 1))} disabled={pageNumber === 1}>ก่อนหน้า</button>
+                            <span style={{margin: '0 0.75rem'}}>หน้า {pageNumber} จาก {pdf.numPages}</span>
+                            <button className="btn" onClick={() => setPageNumber(p => Math.min(pdf.numPages, p + 1))} disabled={pageNumber === pdf.numPages}>ถัดไป</button>
+                        </div>
+                    ) : <span className="form-hint">{formatFileSize(current.size)}</span>}
+                    {blobUrl && <a className="btn btn-secondary" href={blobUrl} download={current.name}>ดาวน์โหลด</a>}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const Highlight = ({ text, terms }) => (
+    <>
+        {splitHighlight(text, terms).map((segment, index) => segment.match
+            ? <mark key={index} className="search-highlight">{segment.text}</mark>
+            : <React.Fragment key={index}>{segment.text}</React.Fragment>)}
+    </>
+);
+
+const StatusBadge = ({ status }) => (
+    <span className="badge" style={{ backgroundColor: STATUS_COLORS[status], color: getContrastTextColor(STATUS_COLORS[status]) }}>{STATUS_LABELS[status]}</span>
+);
+
+// StatusModal COMPONENT
+const StatusModal = ({ memo, onClose, onTransition, workflow, actor, canTransition, dateLocale }) => {
+    const { titleId, dialogProps } = useDialog(!!memo, onClose);
+    const [comment, setComment] = useState('');
+
+    useEffect(() => {
+        setComment('');
+    }, [memo]);
+
+    if (!memo) return null;
+
+    const status = getMemoStatus(memo);
+    const transitions = getAvailableTransitions(workflow, status);
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content" onClick={e => e.stopPropagation()} {...dialogProps}>
+                <div className="modal-header">
+                    <h2 id={titleId}>สถานะบันทึก {memo.memoNumber}</h2>
+                    <button className="btn-icon" onClick={onClose} aria-label="Close modal"><CloseIcon /></button>
+                </div>
+                <div className="modal-body">
+                    <p>{memo.subject}</p>
+                    <p>สถานะปัจจุบัน: <StatusBadge status={status} /></p>
+                    {!canTransition ? (
+                        <p className="form-hint">คุณดูประวัติได้ แต่ไม่มีสิทธิ์เปลี่ยนสถานะบันทึกนี้</p>
+                    ) : transitions.length > 0 ? (
+                        <>
+                            <p className="form-hint">ผู้ดำเนินการ: {actor}</p>
+                            <div className="form-group">
+                                <label htmlFor="status-comment">ความเห็น</label>
+                                <textarea id="status-comment" rows={3} value={comment} onChange={e => setComment(e.target.value)} />
+                            </div>
+                            <div className="table-actions">
+                                {transitions.map(t => (
+                                    <button key={t.to} type="button" className="btn btn-primary" onClick={() => onTransition(memo, t.to, comment)}>
+                                        {t.label}{t.requireComment ? ' *' : ''}
+                                    </button>
+                                ))}
+                            </div>
+                        </>
+                    ) : <p className="form-hint">ไม่มีขั้นตอนถัดไปสำหรับสถานะนี้</p>}
+                    <h3>ประวัติการดำเนินการ</h3>
+                    {(memo.history ?? []).length > 0 ? (
+                        <ol className="history-list">
+                            {[...memo.history].reverse().map(entry => (
+                                <li key={entry.id}>
+                                    <div>
+                                        {entry.from ? <><StatusBadge status={entry.from} /> → </> : null}<StatusBadge status={entry.to} />
+                                    </div>
+                                    <div className="form-hint">{entry.actor || '-'} · {formatDateTime(entry.at, dateLocale)}</div>
+                                    {entry.comment && <div>{entry.comment}</div>}
+                                </li>
+                            ))}
+                        </ol>
+                    ) : <p className="form-hint">ยังไม่มีประวัติ</p>}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// WorkflowSettingsModal COMPONENT
+const WorkflowSettingsModal = ({ isOpen, onClose, onSave, workflow }) => {
+    const { titleId, dialogProps } = useDialog(isOpen, onClose);
+    const [draft, setDraft] = useState<WorkflowConfig>(workflow);
+
+    useEffect(() => {
+        if (isOpen) setDraft(workflow);
+    }, [isOpen, workflow]);
+
+    const toggle = (from: MemoStatus, to: MemoStatus, enabled: boolean) => {
+        setDraft(prev => ({
+            transitions: enabled
+                ? [...prev.transitions, { from, to, label: STATUS_LABELS[to], requireComment: false }]
+                : prev.transitions.filter(t => !(t.from === from && t.to === to)),
+        }));
+    };
+
+    const update = (from: MemoStatus, to: MemoStatus, changes) => {
+        setDraft(prev => ({ transitions: prev.transitions.map(t => t.from === from && t.to === to ? { ...t, ...changes } : t) }));
+    };
+
+    if (!isOpen) return null;
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content modal-wide" onClick={e => e.stopPropagation()} {...dialogProps}>
+                <div className="modal-header">
+                    <h2 id={titleId}>ตั้งค่าขั้นตอนการอนุมัติ</h2>
+                    <button className="btn-icon" onClick={onClose} aria-label="Close modal"><CloseIcon /></button>
+                </div>
+                <div className="modal-body">
+                    <table>
+                        <thead>
+                            <tr><th>จากสถานะ</th><th>ไปสถานะ</th><th>อนุญาต</th><th>ชื่อปุ่ม</th><th>ต้องระบุความเห็น</th></tr>
+                        </thead>
+                        <tbody>
+                            {MEMO_STATUSES.flatMap(from => MEMO_STATUSES.filter(to => to !== from).map(to => {
+                                const transition = findTransition(draft, from, to);
+                                return (
+                                    <tr key={`${from}-${to}`}>
+                                        <td><StatusBadge status={from} /></td>
+                                        <td><StatusBadge status={to} /></td>
+                                        <td><input type="checkbox" checked={!!transition} onChange={e => toggle(from, to, e.target.checked)} aria-label={`อนุญาต ${STATUS_LABELS[from]} ไป ${STATUS_LABELS[to]}`} /></td>
+                                        <td><div className="form-group"><input type="text" value={transition?.label ?? ''} disabled={!transition} onChange={e => update(from, to, { label: e.target.value })} aria-label="ชื่อปุ่ม" /></div></td>
+                                        <td><input type="checkbox" checked={!!transition?.requireComment} disabled={!transition} onChange={e => update(from, to, { requireComment: e.target.checked })} aria-label="ต้องระบุความเห็น" /></td>
+                                    </tr>
+                                );
+                            }))}
+                        </tbody>
+                    </table>
+                </div>
+                <div className="modal-footer">
+                    <button type="button" className="btn" onClick={() => setDraft(DEFAULT_WORKFLOW)} style={{backgroundColor: 'var(--medium-gray)'}}>คืนค่าเริ่มต้น</button>
+                    <button type="button" className="btn btn-primary" onClick={() => onSave(draft)}>บันทึก</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// SyncSettingsModal COMPONENT
+const SyncSettingsModal = ({ isOpen, onClose, onSave, syncSettings }) => {
+    const { titleId, dialogProps } = useDialog(isOpen, onClose);
+    const [draft, setDraft] = useState<SyncSettings>(syncSettings);
+    const [testing, setTesting] = useState(false);
+
+    useEffect(() => {
+        if (isOpen) setDraft(syncSettings);
+    }, [isOpen, syncSettings]);
+
+    const handleTest = async () => {
+        setTesting(true);
+        try {
+            const client = createSyncClient(draft);
+            await client.checkHealth();
+            await client.checkToken();
+            Swal.fire('เชื่อมต่อสำเร็จ', 'เซิร์ฟเวอร์พร้อมใช้งาน', 'success');
+        } catch (error) {
+            if (!(error instanceof SyncError)) throw error;
+            Swal.fire('เชื่อมต่อไม่สำเร็จ', error.message, 'error');
+        } finally {
+            setTesting(false);
+        }
+    };
+
+    if (!isOpen) return null;
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content" onClick={e => e.stopPropagation()} {...dialogProps}>
+                <div className="modal-header">
+                    <h2 id={titleId}>ตั้งค่าการซิงก์ข้อมูล</h2>
+                    <button className="btn-icon" onClick={onClose} aria-label="Close modal"><CloseIcon /></button>
+                </div>
+                <div className="modal-body">
+                    <label className="checkbox-label">
+                        <input type="checkbox" checked={draft.enabled} onChange={e => setDraft({ ...draft, enabled: e.target.checked })} />
+                        ใช้ทะเบียนร่วมกันผ่านเซิร์ฟเวอร์
+                    </label>
+                    <div className="form-group">
+                        <label htmlFor="sync-serverUrl">ที่อยู่เซิร์ฟเวอร์</label>
+                        <input type="url" id="sync-serverUrl" placeholder="เว้นว่างหากเปิดแอปจากเซิร์ฟเวอร์เดียวกัน" value={draft.serverUrl} onChange={e => setDraft({ ...draft, serverUrl: e.target.value })} />
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="sync-token">รหัสเข้าถึง</label>
+                        <input type="password" id="sync-token" autoComplete="off" value={draft.token} onChange={e => setDraft({ ...draft, token: e.target.value })} />
+                    </div>
+                    <p className="form-hint">การแก้ไขขณะออฟไลน์จะถูกเก็บไว้และส่งขึ้นเซิร์ฟเวอร์เมื่อกลับมาออนไลน์ เมื่อเปิดใช้ครั้งแรก บันทึกทั้งหมดในเครื่องนี้จะถูกส่งขึ้นทะเบียนกลาง</p>
+                    <p className="form-hint">ขณะใช้ทะเบียนร่วมกัน บัญชีผู้ใช้และสิทธิ์จะอยู่บนเซิร์ฟเวอร์ เมื่อเปลี่ยนการตั้งค่านี้ต้องเข้าสู่ระบบใหม่ด้วยบัญชีบนเซิร์ฟเวอร์</p>
+                </div>
+                <div className="modal-footer">
+                    <button type="button" className="btn btn-secondary" onClick={handleTest} disabled={testing}>ทดสอบการเชื่อมต่อ</button>
+                    <button type="button" className="btn btn-primary" onClick={() => onSave({ ...draft, serverUrl: draft.serverUrl.trim() })}>บันทึก</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// ReminderSettingsModal COMPONENT
+const ReminderSettingsModal = ({ isOpen, onClose, onSave, reminderSettings }) => {
+    const { titleId, dialogProps } = useDialog(isOpen, onClose);
+    const [draft, setDraft] = useState<ReminderSettings>(reminderSettings);
+    const [permission, setPermission] = useState(getNotificationPermission());
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setDraft(reminderSettings);
+        setPermission(getNotificationPermission());
+    }, [isOpen, reminderSettings]);
+
+    // Browsers only show the permission prompt in response to a click, so it is asked here rather than on save.
+    const handleToggle = async (enabled: boolean) => {
+        if (enabled) {
+            const result = await requestNotificationPermission();
+            setPermission(result);
+            if (result !== 'granted') {
+                Swal.fire('ไม่สามารถเปิดการแจ้งเตือนได้', result === 'unsupported' ? 'เบราว์เซอร์นี้ไม่รองรับการแจ้งเตือน' : 'กรุณาอนุญาตการแจ้งเตือนสำหรับเว็บไซต์นี้ในการตั้งค่าเบราว์เซอร์', 'warning');
+                return;
+            }
+        }
+        setDraft(prev => ({ ...prev, enabled }));
+    };
+
+    if (!isOpen) return null;
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content" onClick={e => e.stopPropagation()} {...dialogProps}>
+                <div className="modal-header">
+                    <h2 id={titleId}>การแจ้งเตือนกำหนดเสร็จ</h2>
+                    <button className="btn-icon" onClick={onClose} aria-label="Close modal"><CloseIcon /></button>
+                </div>
+                <div className="modal-body">
+                    <label className="checkbox-label">
+                        <input type="checkbox" checked={draft.enabled} onChange={e => handleToggle(e.target.checked)} disabled={!isNotificationSupported()} />
+                        แจ้งเตือนบันทึกที่ใกล้ครบกำหนดหรือเกินกำหนด
+                    </label>
+                    <div className="form-group">
+                        <label htmlFor="reminder-daysBefore">แจ้งเตือนล่วงหน้า (วัน)</label>
+                        <input type="number" id="reminder-daysBefore" min={0} max={30} value={draft.daysBefore} onChange={e => setDraft({ ...draft, daysBefore: Math.min(30, Math.max(0, parseInt(e.target.value, 10) || 0)) })} />
+                    </div>
+                    <p className="form-hint">
+                        แจ้งเตือนวันละครั้งเฉพาะบันทึกที่คุณมีสิทธิ์แก้ไข จนกว่าจะกด “ติดตามเสร็จแล้ว” · ตรวจสอบเฉพาะขณะที่เปิดแอปไว้ (ทุกชั่วโมง)
+                        {permission === 'denied' && ' · เบราว์เซอร์บล็อกการแจ้งเตือนของเว็บไซต์นี้อยู่'}
+                        {permission === 'unsupported' && ' · เบราว์เซอร์นี้ไม่รองรับการแจ้งเตือน'}
+                    </p>
+                </div>
+                <div className="modal-footer">
+                    <button type="button" className="btn" onClick={onClose} style={{backgroundColor: 'var(--medium-gray)'}}>ยกเลิก</button>
+                    <button type="button" className="btn btn-primary" onClick={() => onSave(draft)}>บันทึก</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// TableSettingsModal COMPONENT
+const TableSettingsModal = ({ isOpen, onClose, onSave, tableSettings }) => {
+    const { titleId, dialogProps } = useDialog(isOpen, onClose);
+    const [draft, setDraft] = useState<TableSettings>(tableSettings);
+
+    useEffect(() => {
+        if (isOpen) setDraft(tableSettings);
+    }, [isOpen, tableSettings]);
+
+    if (!isOpen) return null;
+
+    const hiddenColumns = TABLE_COLUMNS.filter(column => !draft.columns.includes(column.id));
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content" onClick={e => e.stopPropagation()} {...dialogProps}>
+                <div className="modal-header">
+                    <h2 id={titleId}>ตั้งค่าตาราง</h2>
+                    <button className="btn-icon" onClick={onClose} aria-label="Close modal"><CloseIcon /></button>
+                </div>
+                <div className="modal-body">
+                    <fieldset className="scheme-fieldset">
+                        <legend>คอลัมน์ที่แสดง</legend>
+                        <ul className="attachment-list">
+                            {draft.columns.map((id, index) => (
+                                <li key={id}>
+                                    <label className="checkbox-label attachment-name">
+                                        <input type="checkbox" checked onChange={() => setDraft({ ...draft, columns: setColumnVisible(draft.columns, id, false) })} disabled={draft.columns.length === 1} />
+                                        {getTableColumn(id).label}
+                                    </label>
+                                    <span className="table-actions">
+                                        <button type="button" className="btn-icon" onClick={() => setDraft({ ...draft, columns: moveColumn(draft.columns, id, -1) })} disabled={index === 0} aria-label={`เลื่อน ${getTableColumn(id).label} ขึ้น`}>↑</button>
+                                        <button type="button" className="btn-icon" onClick={() => setDraft({ ...draft, columns: moveColumn(draft.columns, id, 1) })} disabled={index === draft.columns.length - 1} aria-label={`เลื่อน ${getTableColumn(id).label} ลง`}>↓</button>
+                                    </span>
+                                </li>
+                            ))}
+                            {hiddenColumns.map(column => (
+                                <li key={column.id}>
+                                    <label className="checkbox-label attachment-name">
+                                        <input type="checkbox" checked={false} onChange={() => setDraft({ ...draft, columns: setColumnVisible(draft.columns, column.id, true) })} />
+                                        {column.label}
+                                    </label>
+                                </li>
+                            ))}
+                        </ul>
+                    </fieldset>
+                    <div className="form-group">
+                        <label htmlFor="table-mode">การแสดงรายการ</label>
+                        <select id="table-mode" value={draft.mode} onChange={e => setDraft({ ...draft, mode: e.target.value as TableMode })}>
+                            <option value="pages">แบ่งหน้า</option>
+                            <option value="scroll">เลื่อนดูต่อเนื่อง (เหมาะกับทะเบียนขนาดใหญ่)</option>
+                        </select>
+                    </div>
+                    <p className="form-hint">คลิกหัวคอลัมน์เพื่อเรียงลำดับ กด Shift ค้างไว้ขณะคลิกเพื่อเรียงตามหลายคอลัมน์</p>
+                </div>
+                <div className="modal-footer">
+                    <button type="button" className="btn" onClick={() => setDraft(DEFAULT_TABLE_SETTINGS)} style={{backgroundColor: 'var(--medium-gray)'}}>ค่าเริ่มต้น</button>
+                    <button type="button" className="btn" onClick={onClose} style={{backgroundColor: 'var(--medium-gray)'}}>ยกเลิก</button>
+                    <button type="button" className="btn btn-primary" onClick={() => onSave(draft)}>บันทึก</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// ShortcutHelpModal COMPONENT
+const ShortcutHelpModal = ({ isOpen, onClose }) => {
+    const { titleId, dialogProps } = useDialog(isOpen, onClose);
+
+    if (!isOpen) return null;
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content" onClick={e => e.stopPropagation()} {...dialogProps}>
+                <div className="modal-header">
+                    <h2 id={titleId}>แป้นลัด</h2>
+                    <button className="btn-icon" onClick={onClose} aria-label="Close modal"><CloseIcon /></button>
+                </div>
+                <div className="modal-body">
+                    <table className="shortcut-table">
+                        <thead><tr><th scope="col">แป้น</th><th scope="col">คำสั่ง</th></tr></thead>
+                        <tbody>
+                            {SHORTCUTS.map(shortcut => <tr key={shortcut.action}><td><kbd>{shortcut.keys}</kbd></td><td>{shortcut.label}</td></tr>)}
+                            <tr><td><kbd>Shift+Enter</kbd></td><td>บนหัวคอลัมน์: เพิ่มคอลัมน์นั้นในการเรียงลำดับ</td></tr>
+                            <tr><td><kbd>Esc</kbd></td><td>ปิดหน้าต่างที่เปิดอยู่</td></tr>
+                        </tbody>
+                    </table>
+                    <p className="form-hint">แป้นลัดใช้ได้ทั้งแป้นพิมพ์ภาษาไทยและอังกฤษ และจะไม่ทำงานขณะพิมพ์ในช่องข้อความ</p>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// SyncConflictModal COMPONENT
+const SyncConflictModal = ({ isOpen, onClose, conflicts, onResolve, dateLocale }) => {
+    const { titleId, dialogProps } = useDialog(isOpen, onClose);
+    const conflict: MemoConflict | undefined = conflicts[0];
+    const fields = useMemo(() => conflict ? getConflictFields(conflict) : [], [conflict]);
+    const [localFields, setLocalFields] = useState<(keyof Memo)[]>([]);
+
+    useEffect(() => {
+        setLocalFields(fields);
+    }, [fields]);
+
+    if (!isOpen || !conflict) return null;
+
+    const { local, remote } = conflict;
+    const title = (local ?? remote).memoNumber;
+    const describeStamp = (memo: Memo) => memo.updated ? `${memo.updated.name} · ${formatDateTime(memo.updated.at, dateLocale)}` : '';
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content modal-wide" onClick={e => e.stopPropagation()} {...dialogProps}>
+                <div className="modal-header">
+                    <h2 id={titleId}>ข้อมูลขัดแย้ง: บันทึก {title}{conflicts.length > 1 ? ` (1 จาก ${conflicts.length})` : ''}</h2>
+                    <button className="btn-icon" onClick={onClose} aria-label="Close modal"><CloseIcon /></button>
+                </div>
+                <div className="modal-body">
+                    {local && remote ? (
+                        <>
+                            <p className="form-hint">บันทึกนี้ถูกแก้ไขทั้งที่เครื่องนี้และโดยผู้อื่น เลือกค่าที่ต้องการเก็บในแต่ละช่อง</p>
+                            <table className="conflict-table">
+                                <thead>
+                                    <tr>
+                                        <th>ช่องข้อมูล</th>
+                                        <th>ฉบับของฉัน<div className="form-hint">{describeStamp(local)}</div></th>
+                                        <th>ฉบับบนเซิร์ฟเวอร์<div className="form-hint">{describeStamp(remote)}</div></th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {fields.map(field => (
+                                        <tr key={field}>
+                                            <td>{MEMO_FIELD_LABELS[field]}</td>
+                                            <td>
+                                                <label className="checkbox-label">
+                                                    <input type="radio" name={`conflict-${field}`} checked={localFields.includes(field)} onChange={() => setLocalFields(prev => [...prev, field])} />
+                                                    {formatMemoField(local, field, dateLocale)}
+                                                </label>
+                                            </td>
+                                            <td>
+                                                <label className="checkbox-label">
+                                                    <input type="radio" name={`conflict-${field}`} checked={!localFields.includes(field)} onChange={() => setLocalFields(prev => prev.filter(f => f !== field))} />
+                                                    {formatMemoField(remote, field, dateLocale)}
+                                                </label>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </>
+                    ) : (
+                        <p>
+                            {local
+                                ? `“${local.subject}” ถูกลบโดยผู้อื่น แต่มีการแก้ไขที่เครื่องนี้`
+                                : `“${remote.subject}” ถูกลบที่เครื่องนี้ แต่มีการแก้ไขโดยผู้อื่น`}
+                        </p>
+                    )}
+                </div>
+                <div className="modal-footer">
+                    {local && remote ? (
+                        <>
+                            <button type="button" className="btn btn-secondary" onClick={() => onResolve(conflict, remote)}>ใช้ฉบับบนเซิร์ฟเวอร์</button>
+                            <button type="button" className="btn btn-secondary" onClick={() => onResolve(conflict, local)}>ใช้ฉบับของฉัน</button>
+                            <button type="button" className="btn btn-primary" onClick={() => onResolve(conflict, mergeConflict(conflict, localFields))}>บันทึกตามที่เลือก</button>
+                        </>
+                    ) : (
+                        <>
+                            <button type="button" className="btn" onClick={() => onResolve(conflict, null)} style={{backgroundColor: 'var(--medium-gray)'}}>ลบบันทึก</button>
+                            <button type="button" className="btn btn-primary" onClick={() => onResolve(conflict, local ?? remote)}>เก็บบันทึกไว้</button>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// RevisionHistoryModal COMPONENT
+const RevisionHistoryModal = ({ memo, onClose, onRollback, canRollback, dateLocale }) => {
+    const { titleId, dialogProps } = useDialog(!!memo, onClose);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+
+    useEffect(() => {
+        setExpandedId(null);
+    }, [memo]);
+
+    if (!memo) return null;
+
+    const versions = listVersions(memo);
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content modal-wide" onClick={e => e.stopPropagation()} {...dialogProps}>
+                <div className="modal-header">
+                    <h2 id={titleId}>ประวัติการแก้ไข {memo.memoNumber}</h2>
+                    <button className="btn-icon" onClick={onClose} aria-label="Close modal"><CloseIcon /></button>
+                </div>
+                <div className="modal-body">
+                    {versions.length === 1 && <p className="form-hint">บันทึกนี้ยังไม่เคยถูกแก้ไข</p>}
+                    <ol className="history-list">
+                        {versions.map(({ revision, memo: version }, index) => {
+                            const key = revision?.id ?? 'current';
+                            const older = versions[index + 1]?.memo;
+                            const changed = older ? getChangedFields(older, version) : [];
+                            const author = version.updated ?? version.created;
+                            return (
+                                <li key={key}>
+                                    <div>
+                                        <strong>ฉบับที่ {versions.length - index}{revision ? '' : ' (ปัจจุบัน)'}</strong>
+                                        {' · '}{author ? `${author.name} · ${formatDateTime(author.at, dateLocale)}` : 'ไม่ทราบผู้บันทึก'}
+                                    </div>
+                                    <div className="form-hint">
+                                        {!older ? 'ฉบับแรก' : changed.length > 0 ? `แก้ไข: ${changed.map(f => MEMO_FIELD_LABELS[f]).join(', ')}` : 'ไม่มีการเปลี่ยนแปลงในช่องที่แสดง'}
+                                    </div>
+                                    <div className="table-actions">
+                                        <button type="button" className="link-button" onClick={() => setExpandedId(expandedId === key ? null : key)}>{expandedId === key ? 'ซ่อนรายละเอียด' : 'ดูรายละเอียด'}</button>
+                                        {revision && canRollback && <button type="button" className="btn btn-secondary" onClick={() => onRollback(memo, revision)}>ย้อนกลับเป็นฉบับนี้</button>}
+                                    </div>
+                                    {expandedId === key && (
+                                        <dl className="revision-details">
+                                            {(Object.keys(MEMO_FIELD_LABELS) as (keyof Memo)[]).map(field => (
+                                                <React.Fragment key={field}>
+                                                    <dt>{MEMO_FIELD_LABELS[field]}</dt>
+                                                    <dd className={changed.includes(field) ? 'revision-changed' : ''}>{formatMemoField(version, field, dateLocale)}</dd>
+                                                </React.Fragment>
+                                            ))}
+                                        </dl>
+                                    )}
+                                </li>
+                            );
+                        })}
+                    </ol>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// RegisterReport COMPONENTS
+const RegisterReportDocument = ({ report, settings, options, register }) => {
+    const digits = (value: string | number) => settings.thaiDigits ? toThaiDigits(String(value)) : String(value);
+    const thaiDate = (value: string | Date, style: 'numeric' | 'short' | 'long') => digits(formatThaiDate(value, style));
+    const rangeText = options.startDate || options.endDate
+        ? `ระหว่างวันที่ ${options.startDate ? thaiDate(options.startDate, 'long') : '-'} ถึงวันที่ ${options.endDate ? thaiDate(options.endDate, 'long') : '-'}`
+        : 'ทุกช่วงเวลา';
+    const totalPages = report.pages.length + 1;
+
+    const renderHeader = (isFirst: boolean) => (
+        <header className="report-header">
+            {isFirst && settings.emblemDataUrl && <img className="report-emblem" src={settings.emblemDataUrl} alt="ตราครุฑ" />}
+            <h1>{REGISTERS[register].title}</h1>
+            <h2>{settings.schoolName}</h2>
+            <p>{rangeText}</p>
+        </header>
+    );
+
+    return (
+        <div className="print-report">
+            {report.pages.map((page: ReportPage) => (
+                <section key={page.pageNumber} className="report-page">
+                    {renderHeader(page.pageNumber === 1)}
+                    {page.department && <p className="report-group">ฝ่ายงาน {page.department}</p>}
+                    <table className="report-table">
+                        <thead>
+                            <tr>
+                                <th style={{width: '8%'}}>ลำดับ</th>
+                                <th style={{width: '14%'}}>เลขที่</th>
+                                <th style={{width: '14%'}}>ลงวันที่</th>
+                                <th style={{width: '18%'}}>{register === 'memo' ? 'ผู้เสนอ' : REGISTERS[register].teacherLabel}</th>
+                                <th>เรื่อง</th>
+                                {!options.groupByDepartment && <th style={{width: '16%'}}>ฝ่ายงาน</th>}
+                                <th style={{width: '12%'}}>หมายเหตุ</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {page.rows.length > 0 ? page.rows.map(({ no, memo }) => (
+                                <tr key={memo.id}>
+                                    <td className="report-center">{digits(no)}</td>
+                                    <td>{digits(memo.memoNumber)}</td>
+                                    <td className="report-center">{thaiDate(memo.date, 'short')}</td>
+                                    <td>{memo.teacher}</td>
+                                    <td>{memo.subject}</td>
+                                    {!options.groupByDepartment && <td>{memo.department}</td>}
+                                    <td>{memo.notes ?? ''}</td>
+                                </tr>
+                            )) : (
+                                <tr><td colSpan={options.groupByDepartment ? 6 : 7} className="report-center">ไม่มีรายการในช่วงเวลานี้</td></tr>
+                            )}
+                        </tbody>
+                        <tfoot>
+                            <tr><td colSpan={options.groupByDepartment ? 6 : 7}>รวมหน้านี้ {digits(page.rows.length)} รายการ</td></tr>
+                            {page.groupTotal !== null && page.department && (
+                                <tr><td colSpan={6}>รวม{page.department} ทั้งสิ้น {digits(page.groupTotal)} รายการ</td></tr>
+                            )}
+                        </tfoot>
+                    </table>
+                    <footer className="report-page-footer">หน้า {digits(page.pageNumber)} / {digits(totalPages)}</footer>
+                </section>
+            ))}
+            <section className="report-page">
+                {renderHeader(false)}
+                <h3 className="report-summary-title">สรุปจำนวนบันทึกข้อความ</h3>
+                <table className="report-table report-summary">
+                    <thead><tr><th>ฝ่ายงาน</th><th style={{width: '25%'}}>จำนวน (รายการ)</th></tr></thead>
+                    <tbody>
+                        {report.totals.map(({ department, count }) => (
+                            <tr key={department}><td>{department}</td><td className="report-center">{digits(count)}</td></tr>
+                        ))}
+                    </tbody>
+                    <tfoot><tr><td>รวมทั้งสิ้น</td><td className="report-center">{digits(report.total)}</td></tr></tfoot>
+                </table>
+                <div className="report-signatures">
+                    <div className="report-signature">
+                        <p>ลงชื่อ ...................................................... ผู้จัดทำทะเบียน</p>
+                        <p>({settings.preparerName || '......................................................'})</p>
+                        <p>ตำแหน่ง {settings.preparerPosition}</p>
+                    </div>
+                    <div className="report-signature">
+                        <p>ลงชื่อ ...................................................... ผู้ตรวจสอบ</p>
+                        <p>({settings.directorName || '......................................................'})</p>
+                        <p>ตำแหน่ง {settings.directorPosition}</p>
+                        <p>วันที่ ........ / ........ / ............</p>
+                    </div>
+                </div>
+                <p className="report-printed-at">พิมพ์เมื่อ {thaiDate(new Date(), 'long')}</p>
+                <footer className="report-page-footer">หน้า {digits(totalPages)} / {digits(totalPages)}</footer>
+            </section>
+        </div>
+    );
+};
+
+const RegisterReportModal = ({ isOpen, onClose, memos, departments, filters, reportSettings, saveReportSettings, dateLocale }) => {
+    const { titleId, dialogProps } = useDialog(isOpen, onClose);
+    const [settings, setSettings] = useState<ReportSettings>(DEFAULT_REPORT_SETTINGS);
+    const [range, setRange] = useState({ startDate: '', endDate: '' });
+    const [groupByDepartment, setGroupByDepartment] = useState(true);
+
+    useEffect(() => {
+        if (isOpen) {
+            setSettings({ ...DEFAULT_REPORT_SETTINGS, ...reportSettings });
+            setRange({ startDate: filters.startDate, endDate: filters.endDate });
+        }
+    }, [isOpen, reportSettings, filters.startDate, filters.endDate]);
+
+    const options: ReportOptions = { ...range, groupByDepartment, rowsPerPage: settings.rowsPerPage };
+    const report = useMemo(
+        () => buildRegisterReport(memos, departments, options),
+        [memos, departments, range, groupByDepartment, settings.rowsPerPage],
+    );
+
+    const updateSettings = (changes: Partial<ReportSettings>) => setSettings(prev => ({ ...prev, ...changes }));
+
+    const handleEmblemChange = async (file: File | undefined) => {
+        if (!file) return;
+        if (!file.type.startsWith('image/') || file.size > 1024 * 1024) {
+            Swal.fire('ไฟล์ไม่ถูกต้อง', 'กรุณาเลือกไฟล์รูปภาพขนาดไม่เกิน 1 MB', 'error');
+            return;
+        }
+        updateSettings({ emblemDataUrl: await blobToDataUrl(file) });
+    };
+
+    const handlePrint = (e) => {
+        e.preventDefault();
+        saveReportSettings(settings);
+        // Let React commit the latest settings into the print document before the dialog opens.
+        setTimeout(() => window.print(), 0);
+    };
+
+    if (!isOpen) return null;
+
+    return (
+        <>
+            <div className="modal-overlay" onClick={onClose}>
+                <div className="modal-content modal-wide" onClick={e => e.stopPropagation()} {...dialogProps}>
+                    <div className="modal-header">
+                        <h2 id={titleId}>พิมพ์{REGISTERS[filters.register].title}</h2>
+                        <button className="btn-icon" onClick={onClose} aria-label="Close modal"><CloseIcon /></button>
+                    </div>
+                    <form onSubmit={handlePrint}>
+                        <div className="modal-body">
+                            <p className="form-hint">รายงานใช้รายการตามตัวกรองปัจจุบัน ({memos.length} รายการ) และจำกัดเพิ่มเติมตามช่วงวันที่ด้านล่าง</p>
+                            <div className="filters-grid">
+                                <div className="form-group"><label htmlFor="report-start">ตั้งแต่วันที่</label><DateInput id="report-start" value={range.startDate} onChange={(startDate: string) => setRange(prev => ({ ...prev, startDate }))} locale={dateLocale} ariaLabel="ตั้งแต่วันที่" /></div>
+                                <div className="form-group"><label htmlFor="report-end">ถึงวันที่</label><DateInput id="report-end" value={range.endDate} onChange={(endDate: string) => setRange(prev => ({ ...prev, endDate }))} locale={dateLocale} ariaLabel="ถึงวันที่" /></div>
+                                <div className="form-group"><label htmlFor="report-rows">จำนวนแถวต่อหน้า</label><input type="number" id="report-rows" min={5} max={40} value={settings.rowsPerPage} onChange={e => updateSettings({ rowsPerPage: parseInt(e.target.value, 10) || DEFAULT_REPORT_SETTINGS.rowsPerPage })} /></div>
+                            </div>
+                            <label className="checkbox-label">
+                                <input type="checkbox" checked={groupByDepartment} onChange={e => setGroupByDepartment(e.target.checked)} />
+                                แยกหน้าตามฝ่ายงาน
+                            </label>
+                            <label className="checkbox-label">
+                                <input type="checkbox" checked={settings.thaiDigits} onChange={e => updateSettings({ thaiDigits: e.target.checked })} />
+                                ใช้ตัวเลขไทย
+                            </label>
+                            <fieldset className="scheme-fieldset">
+                                <legend>หัวกระดาษและผู้ลงนาม</legend>
+                                <div className="filters-grid">
+                                    <div className="form-group"><label htmlFor="report-school">ชื่อโรงเรียน</label><input type="text" id="report-school" value={settings.schoolName} onChange={e => updateSettings({ schoolName: e.target.value })} required /></div>
+                                    <div className="form-group"><label htmlFor="report-preparer">ผู้จัดทำทะเบียน</label><input type="text" id="report-preparer" value={settings.preparerName} onChange={e => updateSettings({ preparerName: e.target.value })} /></div>
+                                    <div className="form-group"><label htmlFor="report-preparer-position">ตำแหน่งผู้จัดทำ</label><input type="text" id="report-preparer-position" value={settings.preparerPosition} onChange={e => updateSettings({ preparerPosition: e.target.value })} /></div>
+                                    <div className="form-group"><label htmlFor="report-director">ผู้ตรวจสอบ (ผู้อำนวยการ)</label><input type="text" id="report-director" value={settings.directorName} onChange={e => updateSettings({ directorName: e.target.value })} /></div>
+                                    <div className="form-group"><label htmlFor="report-director-position">ตำแหน่งผู้ตรวจสอบ</label><input type="text" id="report-director-position" value={settings.directorPosition} onChange={e => updateSettings({ directorPosition: e.target.value })} /></div>
+                                </div>
+                                <div className="report-emblem-setting">
+                                    {settings.emblemDataUrl && <img src={settings.emblemDataUrl} alt="ตราครุฑ" />}
+                                    <label className="btn btn-secondary">
+                                        {settings.emblemDataUrl ? 'เปลี่ยนตราครุฑ' : 'เลือกรูปตราครุฑ'}
+                                        <input type="file" accept="image/*" onChange={e => { handleEmblemChange(e.target.files[0]); e.target.value = ''; }} style={{ display: 'none' }} />
+                                    </label>
+                                    {settings.emblemDataUrl && <button type="button" className="btn" onClick={() => updateSettings({ emblemDataUrl: '' })} style={{backgroundColor: 'var(--medium-gray)'}}>นำออก</button>}
+                                </div>
+                            </fieldset>
+                            <p className="form-hint">รายงานมี {report.total} รายการ รวม {report.pages.length + 1} หน้า (รวมหน้าสรุปและลงนาม) เลือก “บันทึกเป็น PDF” ในหน้าต่างพิมพ์เพื่อได้ไฟล์ PDF</p>
+                        </div>
+                        <div className="modal-footer">
+                            <button type="button" className="btn" onClick={onClose} style={{backgroundColor: 'var(--medium-gray)'}}>ยกเลิก</button>
+                            <button type="submit" className="btn btn-primary">พิมพ์ / บันทึกเป็น PDF</button>
+                        </div>
+                    </form>
+                </div>
+            </div>
+            {createPortal(<RegisterReportDocument report={report} settings={settings} options={options} register={filters.register} />, document.body)}
+        </>
+    );
+};
+
+// LOAD ERROR PAGE
+const LoadErrorPage = ({ onRetry }) => (
+    <main className="main-content container login-page">
+        <div className="filters-card login-card" role="alert">
+            <h1>ไม่สามารถโหลดข้อมูลทะเบียนได้</h1>
+            <p>พื้นที่จัดเก็บของเบราว์เซอร์ไม่ตอบสนอง ข้อมูลที่บันทึกไว้ยังไม่ถูกแก้ไข กรุณาลองใหม่อีกครั้ง หรือปิดแท็บอื่นของระบบนี้แล้วโหลดหน้าใหม่</p>
+            <button type="button" className="btn btn-primary" onClick={onRetry}>ลองใหม่</button>
+        </div>
+    </main>
+);
+
+// LOGIN PAGE
+const LoginPage = ({ backend, hasUsers, onLogin, schoolName }) => {
+    const [form, setForm] = useState({ username: '', displayName: '', password: '', confirmPassword: '' });
+    const [submitting, setSubmitting] = useState(false);
+    const webCryptoAvailable = isWebCryptoAvailable();
+
+    const handleSubmit = async (e) => {
+        e.preventDefault();
+        if (!hasUsers && form.password !== form.confirmPassword) {
+            Swal.fire('รหัสผ่านไม่ตรงกัน', 'กรุณายืนยันรหัสผ่านให้ตรงกัน', 'error');
+            return;
+        }
+        setSubmitting(true);
+        try {
+            if (!hasUsers) {
+                const admin: User = { id: crypto.randomUUID(), username: form.username, displayName: form.displayName.trim() || form.username, role: 'admin', department: '' };
+                await backend.saveUser(admin, form.password);
+            }
+            onLogin(await backend.authenticate(form.username, form.password));
+        } catch (error) {
+            showAuthError(hasUsers ? 'เข้าสู่ระบบไม่สำเร็จ' : 'สร้างบัญชีไม่สำเร็จ', error);
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    return (
+        <main className="main-content container login-page">
+            <form className="filters-card login-card" onSubmit={handleSubmit}>
+                <h1>ทะเบียนคุมบันทึกข้อความ</h1>
+                <p className="form-hint">{schoolName}</p>
+                {!hasUsers && <p className="form-hint">ยังไม่มีผู้ใช้ในระบบ กรุณาสร้างบัญชีผู้ดูแลระบบ</p>}
+                {!webCryptoAvailable && <p className="text-danger" role="alert">เบราว์เซอร์ไม่อนุญาตให้เข้ารหัสรหัสผ่านบนการเชื่อมต่อนี้ (http://) จึงเข้าสู่ระบบไม่ได้ กรุณาเปิดระบบผ่าน https:// หรือ localhost</p>}
+                <div className="form-group"><label htmlFor="login-username">ชื่อผู้ใช้</label><input id="login-username" type="text" autoComplete="username" value={form.username} onChange={e => setForm({ ...form, username: e.target.value })} required autoFocus /></div>
+                {!hasUsers && <div className="form-group"><label htmlFor="login-displayName">ชื่อที่แสดง</label><input id="login-displayName" type="text" value={form.displayName} onChange={e => setForm({ ...form, displayName: e.target.value })} /></div>}
+                <div className="form-group"><label htmlFor="login-password">รหัสผ่าน</label><input id="login-password" type="password" autoComplete={hasUsers ? 'current-password' : 'new-password'} value={form.password} onChange={e => setForm({ ...form, password: e.target.value })} required minLength={hasUsers ? undefined : MIN_PASSWORD_LENGTH} /></div>
+                {!hasUsers && <div className="form-group"><label htmlFor="login-confirmPassword">ยืนยันรหัสผ่าน</label><input id="login-confirmPassword" type="password" autoComplete="new-password" value={form.confirmPassword} onChange={e => setForm({ ...form, confirmPassword: e.target.value })} required /></div>}
+                <button type="submit" className="btn btn-primary" disabled={submitting || !webCryptoAvailable}>{hasUsers ? 'เข้าสู่ระบบ' : 'สร้างบัญชีและเข้าสู่ระบบ'}</button>
+            </form>
+        </main>
+    );
+};
+
+const SyncIndicator = ({ status, state, onSync, onOpenConflicts, dateLocale }) => {
+    const hasConflicts = state.conflicts.length > 0;
+    const title = status.message || (status.lastSyncedAt ? `ซิงก์ล่าสุด ${formatDateTime(status.lastSyncedAt, dateLocale)}` : '');
+    return (
+        <button type="button" className={`sync-indicator sync-${hasConflicts ? 'conflict' : status.phase}`} onClick={hasConflicts ? onOpenConflicts : onSync} disabled={!hasConflicts && status.phase === 'syncing'} title={title}>
+            {getSyncStatusLabel(status, state)}
+        </button>
+    );
+};
+
+const useMediaQuery = (query: string) => {
+    const [matches, setMatches] = useState(() => window.matchMedia(query).matches);
+    useEffect(() => {
+        const list = window.matchMedia(query);
+        const update = () => setMatches(list.matches);
+        update();
+        list.addEventListener('change', update);
+        return () => list.removeEventListener('change', update);
+    }, [query]);
+    return matches;
+};
+
+const useOnlineStatus = () => {
+    const [isOnline, setIsOnline] = useState(navigator.onLine);
+    useEffect(() => {
+        const update = () => setIsOnline(navigator.onLine);
+        window.addEventListener('online', update);
+        window.addEventListener('offline', update);
+        return () => {
+            window.removeEventListener('online', update);
+            window.removeEventListener('offline', update);
+        };
+    }, []);
+    return isOnline;
+};
+
+/** Follows `value` once it has stopped changing for `delay` ms. */
+const useDebouncedValue = <T,>(value: T, delay: number): T => {
+    const [debounced, setDebounced] = useState(value);
+    useEffect(() => {
+        const timer = setTimeout(() => setDebounced(value), delay);
+        return () => clearTimeout(timer);
+    }, [value, delay]);
+    return debounced;
+};
+
+const OfflineIndicator = () => {
+    const isOnline = useOnlineStatus();
+    if (isOnline) return null;
+    return <span className="offline-indicator" role="status" title="ข้อมูลยังบันทึกในเครื่องนี้ได้ตามปกติ">ออฟไลน์</span>;
+};
+
+const UserMenu = ({ currentUser, onLogout }) => (
+    <div className="user-menu">
+        <span className="user-chip" title={ROLE_DESCRIPTIONS[currentUser.role]}>{currentUser.displayName} · {ROLE_LABELS[currentUser.role]}</span>
+        <button className="btn btn-secondary" onClick={onLogout}>ออกจากระบบ</button>
+    </div>
+);
+
+// MAIN PAGE
+export const MainPage = ({ setView, memos, searchIndex, departments, saveMemos, saveDepartments, repository, numberingSchemes, saveNumberingSchemes, departmentColors, saveDepartmentColors, teachers, saveTeachers, workflow, saveWorkflow, trashSettings, saveTrashSettings, filterPresets, saveFilterPresets, reportSettings, saveReportSettings, dateLocale, saveDateLocale, currentUser, onLogout, syncSettings, saveSyncSettings, syncStatus, syncState, onSyncNow, onOpenConflicts, reminderSettings, saveReminderSettings, tableSettings, saveTableSettings, registerSchemes, saveRegisterSchemes, theme, saveTheme }) => {
+    const [loading, setLoading] = useState(false);
+    const [isModalOpen, setIsModalOpen] = useState(false);
+    const [isNumberingSettingsOpen, setIsNumberingSettingsOpen] = useState(false);
+    const [isNumberingReportOpen, setIsNumberingReportOpen] = useState(false);
+    const [isDataHealthOpen, setIsDataHealthOpen] = useState(false);
+    const [isImportOpen, setIsImportOpen] = useState(false);
+    const [isWorkflowSettingsOpen, setIsWorkflowSettingsOpen] = useState(false);
+    const [isReportOpen, setIsReportOpen] = useState(false);
+    const [isSyncSettingsOpen, setIsSyncSettingsOpen] = useState(false);
+    const [isReminderSettingsOpen, setIsReminderSettingsOpen] = useState(false);
+    const [isTableSettingsOpen, setIsTableSettingsOpen] = useState(false);
+    const [isShortcutHelpOpen, setIsShortcutHelpOpen] = useState(false);
+    const [statusMemoId, setStatusMemoId] = useState<string | null>(null);
+    const [historyMemoId, setHistoryMemoId] = useState<string | null>(null);
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+    const [progress, setProgress] = useState<BatchProgress | null>(null);
+    const [previewMemoId, setPreviewMemoId] = useState<string | null>(null);
+    const [memoToEdit, setMemoToEdit] = useState<Memo | null>(null);
+    const initialViewState = useMemo(() => parseViewState(window.location.search), []);
+    const [filters, setFilters] = useState<MemoFilters>(initialViewState.filters);
+    const [sortConfig, setSortConfig] = useState<SortConfig>(initialViewState.sortConfig);
+    const [currentPage, setCurrentPage] = useState(initialViewState.page);
+    const [selectedPresetId, setSelectedPresetId] = useState('');
+    const [pageInput, setPageInput] = useState('');
+    const [scrollTop, setScrollTop] = useState(0);
+    const [viewportHeight, setViewportHeight] = useState(0);
+    const scrollRef = useRef<HTMLDivElement>(null);
+    const searchRef = useRef<HTMLInputElement>(null);
+    const { pageSize, mode: tableMode } = tableSettings as TableSettings;
+
+    useEffect(() => {
+        replaceViewStateInUrl({ filters, sortConfig, page: currentPage });
+    }, [filters, sortConfig, currentPage]);
+
+    const isAdmin = canManageRegister(currentUser);
+    const writableDepartments = useMemo(() => getWritableDepartments(currentUser, departments), [currentUser, departments]);
+    const newMemoDefaults = useMemo(() => {
+        const teacher = teachers.find(t => t.id === currentUser.teacherId);
+        return {
+            ...(teacher ? { teacher: teacher.fullName, teacherId: teacher.id } : {}),
+            ...(currentUser.department && writableDepartments.includes(currentUser.department) ? { department: currentUser.department } : {}),
+        };
+    }, [currentUser, teachers, writableDepartments]);
+
+    // Undo runs after later saves may have landed, so it works on the latest register.
+    const memosRef = useRef<Memo[]>(memos);
+    memosRef.current = memos;
+
+    /** Puts the given memos back as they were; files only the undone versions used are removed. */
+    const undoMemoChange = (before: Map<string, Memo | null>) => {
+        const current = memosRef.current;
+        before.forEach((previous, id) => {
+            const changed = current.find(m => m.id === id);
+            if (changed) deleteMemoFiles(repository, changed, previous);
+        });
+        saveMemos(restoreMemoVersions(current, before));
+    };
+
+    /** Stamps and opens the workflow of a memo new to the register; the form and imports both go through here. */
+    const createMemo = (memo: Memo) => initializeWorkflow(stampMemo(memo, currentUser, true), currentUser.displayName);
+
+    const handleSaveMemo = (memo: Memo) => {
+        if (memoToEdit ? !canEditMemo(currentUser, memoToEdit) : !canCreateMemo(currentUser)) return;
+        setLoading(true);
+        setTimeout(() => {
+            const previous = memoToEdit ? memos.find(m => m.id === memo.id) : null;
+            const newMemos = previous
+                ? memos.map(m => m.id === memo.id ? recordRevision(previous, stampMemo(memo, currentUser, false)) : m)
+                : [...memos, createMemo(memo)];
+            saveMemos(newMemos);
+            setIsModalOpen(false);
+            setMemoToEdit(null);
+            setLoading(false);
+            showUndoToast('บันทึกข้อมูลเรียบร้อยแล้ว', () => undoMemoChange(new Map([[memo.id, previous ?? null]])));
+        }, 500);
+    };
+
+    const handleDeleteMemo = (id: string) => {
+        const memo = memos.find(m => m.id === id);
+        if (!canDeleteMemo(currentUser, memo)) return;
+        saveMemos(memos.map(m => m.id === id ? moveToTrash(m, currentUser) : m));
+        showUndoToast('ย้ายไปถังขยะแล้ว', () => undoMemoChange(new Map([[id, memo]])));
+    };
+
+    const handleRollback = (memo: Memo, revision: MemoRevision) => {
+        if (!canEditMemo(currentUser, memo)) return;
+        saveMemos(memos.map(m => m.id === memo.id ? rollbackMemo(m, revision, currentUser) : m));
+        setHistoryMemoId(null);
+        showUndoToast('ย้อนกลับเป็นฉบับที่เลือกแล้ว', () => undoMemoChange(new Map([[memo.id, memo]])));
+    };
+    
+    /** The history records the signed-in user, never a typed-in name. */
+    const handleTransition = (memo: Memo, to: MemoStatus, comment: string) => {
+        if (!canChangeStatus(currentUser, memo)) return;
+        let updated: Memo;
+        try {
+            updated = stampMemo(applyTransition(workflow, memo, to, comment, currentUser.displayName), currentUser, false);
+        } catch (error) {
+            if (error instanceof WorkflowError) {
+                Swal.fire('ไม่สามารถเปลี่ยนสถานะได้', error.message, 'warning');
+                return;
+            }
+            throw error;
+        }
+        saveMemos(memos.map(m => m.id === memo.id ? recordRevision(m, updated) : m));
+        showUndoToast(`เปลี่ยนสถานะเป็น “${STATUS_LABELS[to]}” แล้ว`, () => undoMemoChange(new Map([[memo.id, memo]])));
+    };
+
+    const handleCompleteFollowUp = (memo: Memo) => {
+        if (!canEditMemo(currentUser, memo)) return;
+        saveMemos(memos.map(m => m.id === memo.id ? recordRevision(m, stampMemo(completeFollowUp(m, currentUser), currentUser, false)) : m));
+        showUndoToast(`ติดตาม “${memo.subject}” เสร็จแล้ว`, () => undoMemoChange(new Map([[memo.id, memo]])));
+    };
+
+    /** Appends departments, giving each the next unused palette colour. */
+    const addDepartments = (added: Department[]) => {
+        let colors = departmentColors;
+        let newDepartments = departments;
+        added.forEach(department => {
+            colors = { ...colors, [department]: getNextPaletteColor(colors, newDepartments) };
+            newDepartments = [...newDepartments, department];
+        });
+        saveDepartmentColors(colors);
+        saveDepartments(newDepartments);
+    };
+
+    const handleAddDepartment = (newDepartment) => {
+        addDepartments([newDepartment]);
+        Swal.fire('สำเร็จ', 'เพิ่มฝ่ายงานใหม่เรียบร้อย', 'success');
+    };
+
+    const handleImport = (importedMemos: Omit<Memo, 'id'>[], newDepartments: Department[]) => {
+        if (newDepartments.length > 0) addDepartments(newDepartments);
+        const added = importedMemos.map(m => {
+            const teacher = findTeacherByName(teachers, m.teacher);
+            const memo = teacher
+                ? { ...m, id: crypto.randomUUID(), teacher: teacher.fullName, teacherId: teacher.id }
+                : { ...m, id: crypto.randomUUID() };
+            return createMemo(memo);
+        });
+        saveMemos([...memos, ...added]);
+        setIsImportOpen(false);
+        showUndoToast(`นำเข้าข้อมูล ${importedMemos.length} รายการเรียบร้อยแล้ว`, () => undoMemoChange(new Map(added.map(m => [m.id, null]))));
+    };
+
+    const backupSettings: BackupSettings = { numberingSchemes, teachers, departmentColors, registerSchemes, workflow, trashSettings };
+
+    /** Writes each restored setting through its save function; keys missing from the backup stay as they are. */
+    const applyBackupSettings = (settings: BackupSettings) => {
+        if (settings.numberingSchemes) saveNumberingSchemes(settings.numberingSchemes);
+        if (settings.teachers) saveTeachers(settings.teachers);
+        if (settings.departmentColors) saveDepartmentColors(settings.departmentColors);
+        if (settings.registerSchemes) saveRegisterSchemes(settings.registerSchemes);
+        if (settings.workflow) saveWorkflow(settings.workflow);
+        if (settings.trashSettings) saveTrashSettings(settings.trashSettings);
+    };
+
+    const handleBackup = async () => {
+        setLoading(true);
+        try {
+            const blob = await createBackup(repository, memos, departments, backupSettings);
+            downloadBlob(blob, `สำรองทะเบียนบันทึกข้อความ-${format(new Date(), 'yyyyMMdd-HHmm')}.json`);
+        } catch (error) {
+            console.error('Error creating backup:', error);
+            Swal.fire('เกิดข้อผิดพลาด', 'ไม่สามารถสร้างไฟล์สำรองข้อมูลได้', 'error');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleRestoreFile = async (file: File | undefined) => {
+        if (!file) return;
+        let backup;
+        try {
+            backup = await parseBackup(file);
+        } catch (error) {
+            const message = error instanceof BackupValidationError ? error.message : 'ไม่สามารถอ่านไฟล์สำรองข้อมูลได้';
+            Swal.fire('ไฟล์สำรองไม่ถูกต้อง', message, 'error');
+            return;
+        }
+
+        const diff = diffBackup(memos, backup.payload.memos);
+        const changedSettings = diffBackupSettings(backupSettings, backup.payload.settings);
+        const listItems = (items: Memo[]) => items.slice(0, 5).map(m => `<li>${escapeHtml(m.memoNumber)} — ${escapeHtml(m.subject)}</li>`).join('')
+            + (items.length > 5 ? `<li>และอีก ${items.length - 5} รายการ</li>` : '');
+        const result = await Swal.fire({
+            title: 'กู้คืนข้อมูล',
+            html: `
+                <div class="restore-diff">
+                    <p>ไฟล์สำรองวันที่ ${escapeHtml(formatDateTime(backup.createdAt, dateLocale))} มี ${backup.payload.memos.length} รายการ</p>
+                    <p><strong>เพิ่มใหม่ ${diff.added.length}</strong></p><ul>${listItems(diff.added)}</ul>
+                    <p><strong>เปลี่ยนแปลง ${diff.changed.length}</strong></p><ul>${listItems(diff.changed.map(c => c.after))}</ul>
+                    <p><strong>ไม่มีในไฟล์สำรอง ${diff.removed.length}</strong> (จะถูกย้ายไปถังขยะเมื่อเลือกแทนที่ทั้งหมด)</p><ul>${listItems(diff.removed)}</ul>
+                    ${changedSettings.length > 0 ? `<p><strong>การตั้งค่าที่จะเปลี่ยน</strong></p><ul>${changedSettings.map(key => `<li>${BACKUP_SETTING_LABELS[key]}</li>`).join('')}</ul>` : ''}
+                </div>`,
+            icon: 'question',
+            showDenyButton: true,
+            showCancelButton: true,
+            confirmButtonText: 'รวมกับข้อมูลเดิม',
+            denyButtonText: 'แทนที่ทั้งหมด',
+            cancelButtonText: 'ยกเลิก',
+        });
+        if (result.isDismissed) return;
+        const mode: RestoreMode = result.isConfirmed ? 'merge' : 'replace';
+
+        setLoading(true);
+        try {
+            const restored = await restoreBackup(repository, backup, mode, memos, departments, backupSettings, currentUser);
+            const currentById = new Map<string, Memo>(memos.map(m => [m.id, m]));
+            const before = new Map<string, Memo | null>();
+            restored.memos.forEach(m => {
+                if (currentById.get(m.id) !== m) before.set(m.id, currentById.get(m.id) ?? null);
+            });
+            const previousDepartments = departments;
+            const previousSettings = backupSettings;
+            saveDepartments(restored.departments);
+            applyBackupSettings(restored.settings);
+            saveMemos(restored.memos);
+            showUndoToast(`กู้คืนข้อมูลเรียบร้อยแล้ว (${getActiveMemos(restored.memos).length} รายการ)`, () => {
+                saveDepartments(previousDepartments);
+                applyBackupSettings(previousSettings);
+                undoMemoChange(before);
+            });
+        } catch (error) {
+            showStorageError(error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleExport = (type: 'csv' | 'xlsx', list: Memo[] = sortedMemos) => {
+        if (list.length === 0) {
+            Swal.fire('ไม่มีข้อมูล', 'ไม่มีรายการตามตัวกรองปัจจุบันให้ส่งออก', 'info');
+            return;
+        }
+        const filename = `${REGISTERS[filters.register].title}-${format(new Date(), 'yyyyMMdd')}.${type}`;
+        if (type === 'csv') {
+            exportMemosToCsv(list, filename, dateLocale, filters.register, memos);
+        } else {
+            exportMemosToXlsx(list, filename, dateLocale, filters.register, memos);
+        }
+    };
+
+    /** Applies `update` to every target with a progress bar, then saves the register once. */
+    const runBulkUpdate = async (targets: Memo[], label: string, update: (memo: Memo) => Memo, doneText: string) => {
+        setProgress({ label, done: 0, total: targets.length });
+        const updated = await mapInChunks(targets, update, done => setProgress({ label, done, total: targets.length }));
+        const updatedById = new Map(updated.map(m => [m.id, m]));
+        saveMemos(memosRef.current.map(m => updatedById.get(m.id) ?? m));
+        setProgress(null);
+        setSelectedIds(new Set());
+        showUndoToast(doneText, () => undoMemoChange(new Map(targets.map(m => [m.id, m]))));
+    };
+
+    const getSkippedNote = (skipped: Memo[]) => skipped.length > 0 ? ` (ข้าม ${skipped.length} รายการที่ไม่มีสิทธิ์)` : '';
+
+    const handleBulkDepartment = async () => {
+        const { allowed, skipped } = partitionByPermission(selectedMemos, m => canEditMemo(currentUser, m));
+        if (allowed.length === 0) {
+            Swal.fire('ไม่มีสิทธิ์', 'คุณไม่มีสิทธิ์แก้ไขรายการที่เลือก', 'warning');
+            return;
+        }
+        const { value: department } = await Swal.fire({
+            title: 'ย้ายฝ่ายงาน',
+            text: `ย้าย ${allowed.length} รายการไปยังฝ่ายงานที่เลือก${getSkippedNote(skipped)}`,
+            input: 'select',
+            inputOptions: Object.fromEntries(writableDepartments.map(d => [d, d])),
+            inputPlaceholder: 'เลือกฝ่ายงาน',
+            inputValidator: value => value ? undefined : 'กรุณาเลือกฝ่ายงาน',
+            showCancelButton: true,
+            confirmButtonText: 'ย้าย',
+            cancelButtonText: 'ยกเลิก',
+        });
+        if (!department) return;
+        await runBulkUpdate(allowed, 'กำลังย้ายฝ่ายงาน',
+            m => recordRevision(m, stampMemo({ ...m, department }, currentUser, false)),
+            `ย้าย ${allowed.length} รายการไปยัง${department}แล้ว`);
+    };
+
+    const handleBulkTeacher = async () => {
+        if (teachers.length === 0) {
+            Swal.fire('ยังไม่มีทะเบียนครู', 'กรุณาเพิ่มรายชื่อครูในทะเบียนครูก่อน', 'info');
+            return;
+        }
+        const { allowed, skipped } = partitionByPermission(selectedMemos, m => canEditMemo(currentUser, m));
+        if (allowed.length === 0) {
+            Swal.fire('ไม่มีสิทธิ์', 'คุณไม่มีสิทธิ์แก้ไขรายการที่เลือก', 'warning');
+            return;
+        }
+        const { value: teacherId } = await Swal.fire({
+            title: 'เปลี่ยนชื่อครู',
+            text: `เปลี่ยนชื่อครูของ ${allowed.length} รายการ${getSkippedNote(skipped)}`,
+            input: 'select',
+            inputOptions: Object.fromEntries((teachers as Teacher[]).map(t => [t.id, t.fullName])),
+            inputPlaceholder: 'เลือกครู',
+            inputValidator: value => value ? undefined : 'กรุณาเลือกครู',
+            showCancelButton: true,
+            confirmButtonText: 'เปลี่ยน',
+            cancelButtonText: 'ยกเลิก',
+        });
+        const teacher = (teachers as Teacher[]).find(t => t.id === teacherId);
+        if (!teacher) return;
+        await runBulkUpdate(allowed, 'กำลังเปลี่ยนชื่อครู',
+            m => recordRevision(m, stampMemo({ ...m, teacher: teacher.fullName, teacherId: teacher.id }, currentUser, false)),
+            `เปลี่ยนชื่อครูของ ${allowed.length} รายการเป็น${teacher.fullName}แล้ว`);
+    };
+
+    const handleBulkDelete = async () => {
+        const { allowed, skipped } = partitionByPermission(selectedMemos, m => canDeleteMemo(currentUser, m));
+        if (allowed.length === 0) {
+            Swal.fire('ไม่มีสิทธิ์', 'คุณไม่มีสิทธิ์ลบรายการที่เลือก', 'warning');
+            return;
+        }
+        const result = await Swal.fire({
+            title: 'แน่ใจหรือไม่?',
+            text: `ย้าย ${allowed.length} รายการไปถังขยะ${getSkippedNote(skipped)}`,
+            icon: 'warning',
+            showCancelButton: true,
+            confirmButtonColor: 'var(--primary-color)',
+            cancelButtonColor: 'var(--danger-color)',
+            confirmButtonText: 'ใช่, ลบเลย!',
+            cancelButtonText: 'ยกเลิก'
+        });
+        if (!result.isConfirmed) return;
+        await runBulkUpdate(allowed, 'กำลังย้ายไปถังขยะ', m => moveToTrash(m, currentUser), `ย้าย ${allowed.length} รายการไปถังขยะแล้ว`);
+    };
+
+    const handleDownloadAttachments = async () => {
+        const withFiles = selectedMemos.filter(m => getMemoAttachments(m).length > 0);
+        if (withFiles.length === 0) {
+            Swal.fire('ไม่มีไฟล์แนบ', 'รายการที่เลือกไม่มีไฟล์แนบ', 'info');
+            return;
+        }
+        const label = 'กำลังรวมไฟล์แนบ';
+        setProgress({ label, done: 0, total: 0 });
+        try {
+            const { blob, fileCount, missingCount } = await buildAttachmentArchive(repository, withFiles, (done, total) => setProgress({ label, done, total }));
+            downloadBlob(blob, `ไฟล์แนบบันทึกข้อความ-${format(new Date(), 'yyyyMMdd-HHmm')}.zip`);
+            if (missingCount > 0) {
+                Swal.fire('ดาวน์โหลดได้บางส่วน', `รวมได้ ${fileCount} ไฟล์ ไม่พบไฟล์ในเครื่องนี้ ${missingCount} ไฟล์`, 'warning');
+            }
+        } catch (error) {
+            console.error('Error building attachment archive:', error);
+            Swal.fire('เกิดข้อผิดพลาด', 'ไม่สามารถสร้างไฟล์ ZIP ได้', 'error');
+        } finally {
+            setProgress(null);
+        }
+    };
+
+    // The search box updates on every keystroke; the register is only searched once typing pauses.
+    const query = useDebouncedValue(filters.query, FILTER_DEBOUNCE_MS);
+    const appliedFilters = useMemo(() => ({ ...filters, query }), [filters, query]);
+
+    // `memos` is a dependency because the index is updated in place whenever they are saved.
+    const searchResult = useMemo(() => (searchIndex as SearchIndex).search(query), [searchIndex, memos, query]);
+
+    const filteredMemos = useMemo(() => filterMemos(memos, appliedFilters, searchResult), [memos, appliedFilters, searchResult]);
+    const sortedMemos = useMemo(() => sortMemos(filteredMemos, sortConfig, searchResult), [filteredMemos, sortConfig, searchResult]);
+    const { items: paginatedMemos, page: shownPage, totalPages } = useMemo(() => paginate(sortedMemos, currentPage, pageSize), [sortedMemos, currentPage, pageSize]);
+
+    // A different result set starts from its first row. Compared by value, so the page from a
+    // shared link survives the first render.
+    const queryKey = JSON.stringify([appliedFilters, sortConfig, pageSize, tableMode]);
+    const lastQueryKeyRef = useRef(queryKey);
+    useEffect(() => {
+        if (lastQueryKeyRef.current === queryKey) return;
+        lastQueryKeyRef.current = queryKey;
+        setCurrentPage(1);
+        setScrollTop(0);
+        scrollRef.current?.scrollTo?.({ top: 0 });
+    }, [queryKey]);
+
+    useEffect(() => setPageInput(String(shownPage)), [shownPage]);
+
+    useEffect(() => {
+        const container = scrollRef.current;
+        if (tableMode !== 'scroll' || !container) return;
+        const measure = () => setViewportHeight(container.clientHeight);
+        measure();
+        window.addEventListener('resize', measure);
+        return () => window.removeEventListener('resize', measure);
+    }, [tableMode]);
+
+    // Kept in a ref so the listener below is only added once.
+    const runShortcutRef = useRef<(action: ShortcutAction) => void>(null);
+    runShortcutRef.current = (action: ShortcutAction) => {
+        switch (action) {
+            case 'newMemo':
+                if (!canCreateMemo(currentUser)) return;
+                setMemoToEdit(null);
+                setIsModalOpen(true);
+                return;
+            case 'search': searchRef.current?.focus(); return;
+            case 'previousPage': if (tableMode === 'pages') setCurrentPage(Math.max(1, shownPage - 1)); return;
+            case 'nextPage': if (tableMode === 'pages') setCurrentPage(Math.min(totalPages, shownPage + 1)); return;
+            case 'help': setIsShortcutHelpOpen(true); return;
+        }
+    };
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            const action = matchShortcut(e);
+            // Open dialogs, including SweetAlert ones, keep the keyboard to themselves.
+            if (!action || document.querySelector('[aria-modal="true"]')) return;
+            e.preventDefault();
+            runShortcutRef.current(action);
+        };
+        document.addEventListener('keydown', handleKeyDown);
+        return () => document.removeEventListener('keydown', handleKeyDown);
+    }, []);
+
+    // Scroll mode renders only the rows in view (plus a margin), so it stays fast however many memos match.
+    const visibleRange = tableMode === 'scroll' ? getVisibleRange(scrollTop, viewportHeight || window.innerHeight, sortedMemos.length) : null;
+    const shownMemos = visibleRange ? sortedMemos.slice(visibleRange.start, visibleRange.end) : paginatedMemos;
+    const firstRowNumber = visibleRange ? visibleRange.start + 1 : (shownPage - 1) * pageSize + 1;
+    // In scroll mode every matching memo is on the one "page".
+    const pageMemos = tableMode === 'scroll' ? sortedMemos : paginatedMemos;
+
+    // Only rows in the current filter count, so a narrowed filter never acts on hidden memos.
+    const selectedMemos = useMemo(() => sortedMemos.filter(m => selectedIds.has(m.id)), [sortedMemos, selectedIds]);
+    const isPageSelected = pageMemos.length > 0 && pageMemos.every(m => selectedIds.has(m.id));
+
+    const register = filters.register;
+    const registerDefinition = REGISTERS[register];
+    const visibleColumns = getRegisterColumns(tableSettings as TableSettings, register);
+    const replyIndex = useMemo(() => buildReplyIndex(memos), [memos]);
+
+    const requestSort = (key: keyof Memo, additive: boolean) => setSortConfig(toggleSort(sortConfig, key, additive));
+
+    const handleJumpToPage = (e: React.FormEvent) => {
+        e.preventDefault();
+        const page = parseInt(pageInput, 10);
+        if (Number.isFinite(page)) setCurrentPage(Math.min(Math.max(1, page), totalPages));
+        else setPageInput(String(shownPage));
+    };
+
+    const handleApplyPreset = (id: string) => {
+        setSelectedPresetId(id);
+        const preset = (filterPresets as FilterPreset[]).find(p => p.id === id);
+        if (!preset) return;
+        setFilters(resolvePresetFilters(preset));
+        setSortConfig(normalizeSortConfig(preset.sortConfig));
+        setCurrentPage(1);
+    };
+
+    const handleSavePreset = async () => {
+        const { value } = await Swal.fire({
+            title: 'บันทึกตัวกรอง',
+            html: `
+                <input id="preset-name" class="swal2-input" placeholder="ชื่อตัวกรอง เช่น งบประมาณ ปีงบนี้">
+                <select id="preset-period" class="swal2-select">
+                    <option value="">ใช้ช่วงวันที่ตามที่เลือกไว้</option>
+                    <option value="fiscal">ปีงบประมาณปัจจุบันเสมอ</option>
+                    <option value="academic">ปีการศึกษาปัจจุบันเสมอ</option>
+                    <option value="calendar">ปีปฏิทินปัจจุบันเสมอ</option>
+                </select>`,
+            showCancelButton: true,
+            confirmButtonText: 'บันทึก',
+            cancelButtonText: 'ยกเลิก',
+            focusConfirm: false,
+            preConfirm: () => {
+                const name = (document.getElementById('preset-name') as HTMLInputElement).value.trim();
+                if (!name) {
+                    Swal.showValidationMessage('กรุณาระบุชื่อตัวกรอง');
+                    return false;
+                }
+                return { name, period: (document.getElementById('preset-period') as HTMLSelectElement).value || null };
+            },
+        });
+        if (!value) return;
+        const preset = createFilterPreset(value.name, filters, sortConfig, value.period);
+        const existing = (filterPresets as FilterPreset[]).find(p => p.name === preset.name);
+        saveFilterPresets(existing
+            ? filterPresets.map(p => p.id === existing.id ? { ...preset, id: existing.id } : p)
+            : [...filterPresets, preset]);
+        setSelectedPresetId(existing?.id ?? preset.id);
+        Swal.fire({ title: 'สำเร็จ!', text: `บันทึกตัวกรอง “${preset.name}” แล้ว`, icon: 'success', timer: 1500, showConfirmButton: false });
+    };
+
+    const handleDeletePreset = () => {
+        const preset = (filterPresets as FilterPreset[]).find(p => p.id === selectedPresetId);
+        if (!preset) return;
+        Swal.fire({
+            title: 'แน่ใจหรือไม่?',
+            text: `ลบตัวกรอง “${preset.name}”`,
+            icon: 'warning',
+            showCancelButton: true,
+            confirmButtonColor: 'var(--primary-color)',
+            cancelButtonColor: 'var(--danger-color)',
+            confirmButtonText: 'ใช่, ลบเลย!',
+            cancelButtonText: 'ยกเลิก'
+        }).then((result) => {
+            if (!result.isConfirmed) return;
+            saveFilterPresets(filterPresets.filter(p => p.id !== preset.id));
+            setSelectedPresetId('');
+        });
+    };
+
+    const handleClearFilters = () => {
+        setFilters({ ...EMPTY_FILTERS, register });
+        setSortConfig([]);
+        setCurrentPage(1);
+        setSelectedPresetId('');
+    };
+
+    const handleCopyLink = async () => {
+        const url = buildShareUrl({ filters, sortConfig, page: currentPage }, window.location);
+        try {
+            await navigator.clipboard.writeText(url);
+            Swal.fire({ title: 'สำเร็จ!', text: 'คัดลอกลิงก์ของมุมมองนี้แล้ว', icon: 'success', timer: 1500, showConfirmButton: false });
+        } catch {
+            Swal.fire({ title: 'ลิงก์ของมุมมองนี้', html: `<input class="swal2-input" readonly value="${escapeHtml(url)}">`, icon: 'info' });
+        }
+    };
+
+    const handleDownloadCalendar = () => {
+        const calendar = buildDeadlineCalendar(filteredMemos, { name: 'กำหนดติดตามบันทึกข้อความ' });
+        downloadBlob(new Blob([calendar], { type: 'text/calendar;charset=utf-8' }), `กำหนดติดตาม-${format(new Date(), 'yyyyMMdd')}.ics`);
+    };
+
+    // The server scopes the feed to the memos its owner may edit: own memos, the department, or everything.
+    const handleCopyCalendarLink = async () => {
+        const { isConfirmed, isDenied } = await Swal.fire({
+            title: 'ลิงก์สมัครรับปฏิทิน',
+            text: 'ลิงก์นี้เป็นของบัญชีคุณเท่านั้น การสร้างลิงก์ใหม่หรือยกเลิกลิงก์จะทำให้ลิงก์เดิมใช้ไม่ได้อีก',
+            icon: 'info',
+            showDenyButton: true,
+            showCancelButton: true,
+            confirmButtonText: 'สร้างลิงก์ใหม่',
+            denyButtonText: 'ยกเลิกลิงก์เดิม',
+            cancelButtonText: 'ปิด',
+        });
+        if (!isConfirmed && !isDenied) return;
+        const client = createSyncClient(syncSettings, getRemoteSessionToken());
+        let url: string;
+        try {
+            if (isDenied) {
+                await client.revokeCalendarFeed();
+                Swal.fire({ title: 'สำเร็จ!', text: 'ยกเลิกลิงก์ปฏิทินแล้ว', icon: 'success', timer: 2000, showConfirmButton: false });
+                return;
+            }
+            url = buildCalendarFeedUrl(syncSettings.serverUrl.trim() || window.location.origin, await client.createCalendarFeed());
+        } catch (error) {
+            Swal.fire('เกิดข้อผิดพลาด', error instanceof SyncError ? error.message : 'ไม่สามารถติดต่อเซิร์ฟเวอร์ได้', 'error');
+            return;
+        }
+        try {
+            await navigator.clipboard.writeText(url);
+            Swal.fire({ title: 'สำเร็จ!', text: 'คัดลอกลิงก์ปฏิทินแล้ว นำไปเพิ่มเป็นปฏิทินแบบสมัครรับในแอปปฏิทิน', icon: 'success', timer: 2500, showConfirmButton: false });
+        } catch {
+            Swal.fire({ title: 'ลิงก์ปฏิทิน', html: `<input class="swal2-input" readonly value="${escapeHtml(url)}">`, icon: 'info' });
+        }
+    };
+
+    // The priority number only shows once more than one column is sorted.
+    const getSortIndicator = (key: keyof Memo) => {
+        const index = sortConfig.findIndex(rule => rule.key === key);
+        if (index < 0) return '↕';
+        const arrow = sortConfig[index].direction === 'ascending' ? '↑' : '↓';
+        return sortConfig.length > 1 ? `${arrow}${index + 1}` : arrow;
+    };
+
+    // Screen readers expect aria-sort on one header at a time, so only the first rule is announced.
+    const getAriaSort = (key: keyof Memo) => sortConfig[0]?.key === key ? sortConfig[0].direction : undefined;
+
+    const teacherOptions = useMemo(() => buildTeacherOptions(getActiveMemos(memos), teachers), [memos, teachers]);
+    
+    const dashboardStats = useMemo(() => {
+        const counts = { total: filteredMemos.length };
+        departments.forEach(dep => {
+            counts[dep] = filteredMemos.filter(m => m.department === dep).length;
+        });
+        return counts;
+    }, [filteredMemos, departments]);
+
+    const statusBreakdown = useMemo(() => {
+        const breakdown: Record<string, Record<MemoStatus, number>> = { total: countByStatus(filteredMemos) };
+        departments.forEach(dep => {
+            breakdown[dep] = countByStatus(filteredMemos.filter(m => m.department === dep));
+        });
+        return breakdown;
+    }, [filteredMemos, departments]);
+
+    const renderStatusBreakdown = (key: string) => (
+        <ul className="card-breakdown">
+            {MEMO_STATUSES.filter(status => statusBreakdown[key][status] > 0).map(status => (
+                <li key={status}>{STATUS_LABELS[status]} {statusBreakdown[key][status]}</li>
+            ))}
+        </ul>
+    );
+
+    const deadlines = useMemo(() => groupOpenDeadlines(filteredMemos), [filteredMemos]);
+
+    const renderDeadlineList = (items: Memo[]) => (
+        <ul className="deadline-list">
+            {items.slice(0, 8).map(memo => (
+                <li key={memo.id}>
+                    <div>
+                        <strong>{memo.memoNumber}</strong> {memo.subject}
+                        <div className="form-hint">{formatDate(memo.dueDate, dateLocale)} · {formatDaysUntilDue(getDaysUntilDue(memo))}{memo.followUpBy && ` · ${memo.followUpBy}`}</div>
+                    </div>
+                    {canEditMemo(currentUser, memo) && <button type="button" className="btn btn-secondary" onClick={() => handleCompleteFollowUp(memo)}>ติดตามเสร็จแล้ว</button>}
+                </li>
+            ))}
+            {items.length > 8 && <li className="form-hint">และอีก {items.length - 8} รายการ</li>}
+            {items.length === 0 && <li className="form-hint">ไม่มีรายการ</li>}
+        </ul>
+    );
+
+    const renderDueBadge = (memo: Memo) => {
+        const state = getDeadlineState(memo);
+        if (!state) return null;
+        const text = state === 'done' || state === 'upcoming' ? `${DEADLINE_LABELS[state]} ${formatDate(memo.dueDate, dateLocale)}` : formatDaysUntilDue(getDaysUntilDue(memo));
+        return <span className={`due-badge due-${state}`} title={DEADLINE_LABELS[state]}>{text}</span>;
+    };
+
+    const renderReplyLinks = (memo: Memo) => {
+        const answered = memo.replyTo ? memos.find(m => m.id === memo.replyTo) : undefined;
+        const replies = replyIndex.get(memo.id) ?? [];
+        if (!answered && replies.length === 0) return null;
+        return (
+            <div className="reply-links">
+                {answered && <span>ตอบ {answered.memoNumber}</span>}
+                {replies.length > 0 && <span>ตอบแล้ว {replies.map(r => r.memoNumber).join(', ')}</span>}
+            </div>
+        );
+    };
+
+    const renderCell = (column: TableColumnId, memo: Memo, rowNumber: number) => {
+        switch (column) {
+            case 'index': return rowNumber;
+            case 'memoNumber': return <Highlight text={memo.memoNumber} terms={searchResult.terms} />;
+            case 'date': return formatDate(memo.date, dateLocale);
+            case 'teacher': return <span className="badge" style={getBadgeStyle(departmentColors, memo.department)}><Highlight text={memo.teacher} terms={searchResult.terms} /></span>;
+            case 'letterNumber': return memo.letterNumber ? <Highlight text={memo.letterNumber} terms={searchResult.terms} /> : '-';
+            case 'agency': return getCounterpartAgency(memo) ? <Highlight text={getCounterpartAgency(memo)} terms={searchResult.terms} /> : '-';
+            case 'urgency': return memo.urgency && memo.urgency !== 'normal' ? <span className={`urgency-badge urgency-${memo.urgency}`}>{URGENCY_LABELS[memo.urgency]}</span> : '-';
+            case 'subject': return (
+                <>
+                    <Highlight text={memo.subject} terms={searchResult.terms} />
+                    {renderDueBadge(memo)}
+                    {renderReplyLinks(memo)}
+                    {memo.notes && searchResult.terms.length > 0 && <div className="search-snippet"><Highlight text={memo.notes} terms={searchResult.terms} /></div>}
+                </>
+            );
+            case 'department': return <span className="badge" style={getBadgeStyle(departmentColors, memo.department)}><Highlight text={memo.department} terms={searchResult.terms} /></span>;
+            case 'status': return <button type="button" className="status-button" onClick={() => setStatusMemoId(memo.id)}><StatusBadge status={getMemoStatus(memo)} /></button>;
+            case 'dueDate': return memo.dueDate ? formatDate(memo.dueDate, dateLocale) : '-';
+            case 'attachments': return getMemoAttachments(memo).length > 0 ? <button type="button" className="link-button" onClick={() => setPreviewMemoId(memo.id)}>เปิดไฟล์ ({getMemoAttachments(memo).length})</button> : '-';
+        }
+    };
+
+    const statusMemo = statusMemoId ? memos.find(m => m.id === statusMemoId) ?? null : null;
+    const previewMemo = previewMemoId ? memos.find(m => m.id === previewMemoId) ?? null : null;
+    const historyMemo = historyMemoId ? memos.find(m => m.id === historyMemoId) ?? null : null;
+
+    return (
+        <>
+            {loading && <Loader />}
+            {progress && <ProgressOverlay progress={progress} />}
+            <MemoModal 
+                isOpen={isModalOpen}
+                onClose={() => { setIsModalOpen(false); setMemoToEdit(null); }}
+                onSave={handleSaveMemo}
+                memoToEdit={memoToEdit}
+                departments={writableDepartments}
+                onAddDepartment={isAdmin ? handleAddDepartment : null}
+                repository={repository}
+                memos={memos}
+                numberingSchemes={numberingSchemes}
+                teachers={teachers}
+                onAddTeacher={(teacher: Teacher) => saveTeachers([...teachers, teacher])}
+                dateLocale={dateLocale}
+                newMemoDefaults={newMemoDefaults}
+                register={register}
+                registerSchemes={registerSchemes}
+            />
+            <NumberingSettingsModal
+                isOpen={isNumberingSettingsOpen}
+                onClose={() => setIsNumberingSettingsOpen(false)}
+                onSave={(schemes: Record<string, NumberingScheme>) => {
+                    if (register === 'memo') saveNumberingSchemes(schemes);
+                    else saveRegisterSchemes({ ...registerSchemes, ...schemes });
+                    setIsNumberingSettingsOpen(false);
+                    Swal.fire({ title: 'สำเร็จ!', text: 'บันทึกการตั้งค่าเลขที่เรียบร้อยแล้ว', icon: 'success', timer: 1500, showConfirmButton: false });
+                }}
+                departments={departments}
+                numberingSchemes={numberingSchemes}
+                registerSchemes={registerSchemes}
+                register={register}
+                memos={memos}
+            />
+            <NumberingReportModal
+                isOpen={isNumberingReportOpen}
+                onClose={() => setIsNumberingReportOpen(false)}
+                memos={memos}
+                departments={departments}
+                numberingSchemes={numberingSchemes}
+                registerSchemes={registerSchemes}
+                register={register}
+            />
+            <DataHealthModal
+                isOpen={isDataHealthOpen}
+                onClose={() => setIsDataHealthOpen(false)}
+                repository={repository}
+                memos={memos}
+                departments={departments}
+                onEditMemo={(memo: Memo) => { setIsDataHealthOpen(false); setMemoToEdit(memo); setIsModalOpen(true); }}
+                canEdit={(memo: Memo) => canEditMemo(currentUser, memo)}
+            />
+            <AttachmentPreviewModal
+                attachments={previewMemo ? getMemoAttachments(previewMemo) : []}
+                repository={repository}
+                onClose={() => setPreviewMemoId(null)}
+            />
+            <StatusModal
+                memo={statusMemo}
+                onClose={() => setStatusMemoId(null)}
+                onTransition={handleTransition}
+                workflow={workflow}
+                actor={currentUser.displayName}
+                canTransition={!!statusMemo && canChangeStatus(currentUser, statusMemo)}
+                dateLocale={dateLocale}
+            />
+            <RevisionHistoryModal
+                memo={historyMemo}
+                onClose={() => setHistoryMemoId(null)}
+                onRollback={handleRollback}
+                canRollback={!!historyMemo && canEditMemo(currentUser, historyMemo)}
+                dateLocale={dateLocale}
+            />
+            <WorkflowSettingsModal
+                isOpen={isWorkflowSettingsOpen}
+                onClose={() => setIsWorkflowSettingsOpen(false)}
+                onSave={(config: WorkflowConfig) => {
+                    saveWorkflow(config);
+                    setIsWorkflowSettingsOpen(false);
+                    Swal.fire({ title: 'สำเร็จ!', text: 'บันทึกขั้นตอนการอนุมัติเรียบร้อยแล้ว', icon: 'success', timer: 1500, showConfirmButton: false });
+                }}
+                workflow={workflow}
+            />
+            <SyncSettingsModal
+                isOpen={isSyncSettingsOpen}
+                onClose={() => setIsSyncSettingsOpen(false)}
+                onSave={(settings: SyncSettings) => {
+                    saveSyncSettings(settings);
+                    setIsSyncSettingsOpen(false);
+                    Swal.fire({ title: 'สำเร็จ!', text: 'บันทึกการตั้งค่าการซิงก์เรียบร้อยแล้ว', icon: 'success', timer: 1500, showConfirmButton: false });
+                }}
+                syncSettings={syncSettings}
+            />
+            <ReminderSettingsModal
+                isOpen={isReminderSettingsOpen}
+                onClose={() => setIsReminderSettingsOpen(false)}
+                onSave={(settings: ReminderSettings) => {
+                    saveReminderSettings(settings);
+                    setIsReminderSettingsOpen(false);
+                    Swal.fire({ title: 'สำเร็จ!', text: 'บันทึกการตั้งค่าการแจ้งเตือนเรียบร้อยแล้ว', icon: 'success', timer: 1500, showConfirmButton: false });
+                }}
+                reminderSettings={reminderSettings}
+            />
+            <TableSettingsModal
+                isOpen={isTableSettingsOpen}
+                onClose={() => setIsTableSettingsOpen(false)}
+                onSave={(settings: TableSettings) => {
+                    saveTableSettings(settings);
+                    setIsTableSettingsOpen(false);
+                }}
+                tableSettings={tableSettings}
+            />
+            <ShortcutHelpModal isOpen={isShortcutHelpOpen} onClose={() => setIsShortcutHelpOpen(false)} />
+            <RegisterReportModal
+                isOpen={isReportOpen}
+                onClose={() => setIsReportOpen(false)}
+                memos={sortedMemos}
+                departments={departments}
+                filters={filters}
+                reportSettings={reportSettings}
+                saveReportSettings={saveReportSettings}
+                dateLocale={dateLocale}
+            />
+            <ImportWizardModal
+                isOpen={isImportOpen}
+                onClose={() => setIsImportOpen(false)}
+                onImport={handleImport}
+                memos={memos}
+                departments={departments}
+                numberingSchemes={numberingSchemes}
+                registerSchemes={registerSchemes}
+                register={filters.register}
+            />
+            <header className="app-header">
+                <div className="container header-content">
+                    <h1>ทะเบียนคุมบันทึกข้อความ</h1>
+                    <div className="header-actions">
+                        <OfflineIndicator />
+                        {syncSettings.enabled && <SyncIndicator status={syncStatus} state={syncState} onSync={onSyncNow} onOpenConflicts={onOpenConflicts} dateLocale={dateLocale} />}
+                        <UserMenu currentUser={currentUser} onLogout={onLogout} />
+                        <details className="header-menu">
+                            <summary className="btn btn-secondary">เครื่องมือ</summary>
+                            <div className="header-menu-items" onClick={e => { (e.currentTarget.parentElement as HTMLDetailsElement).open = false; }}>
+                                {isAdmin && (
+                                    <>
+                                        <button onClick={() => setView('users')}>ผู้ใช้และสิทธิ์</button>
+                                        <button onClick={() => setView('teachers')}>ทะเบียนครู</button>
+                                        <button onClick={() => setView('departments')}>จัดการฝ่ายงาน</button>
+                                        <button onClick={() => setIsNumberingSettingsOpen(true)}>ตั้งค่าเลขที่</button>
+                                    </>
+                                )}
+                                <button onClick={() => setIsNumberingReportOpen(true)}>ตรวจสอบเลขที่</button>
+                                {isAdmin && <button onClick={() => setIsDataHealthOpen(true)}>ตรวจสอบความถูกต้องของข้อมูล</button>}
+                                {isAdmin && (
+                                    <>
+                                        <button onClick={() => setIsWorkflowSettingsOpen(true)}>ตั้งค่าขั้นตอนการอนุมัติ</button>
+                                        <button onClick={() => setIsSyncSettingsOpen(true)}>ตั้งค่าการซิงก์ข้อมูล</button>
+                                    </>
+                                )}
+                                {canCreateMemo(currentUser) && <button onClick={() => setView('trash')}>ถังขยะ</button>}
+                                {canCreateMemo(currentUser) && <button onClick={() => setIsReminderSettingsOpen(true)}>การแจ้งเตือนกำหนดเสร็จ</button>}
+                                <button onClick={() => saveDateLocale(dateLocale === 'th' ? 'en' : 'th')}>{dateLocale === 'th' ? 'แสดงวันที่แบบ ค.ศ. (English)' : 'แสดงวันที่แบบ พ.ศ. (ไทย)'}</button>
+                                <button onClick={() => saveTheme(theme === 'dark' ? 'light' : 'dark')}>{theme === 'dark' ? 'ใช้ธีมสว่าง' : 'ใช้ธีมมืด'}</button>
+                                <button onClick={() => setIsShortcutHelpOpen(true)} aria-keyshortcuts={getShortcutKeys('help')}>แป้นลัด</button>
+                                {isAdmin && (
+                                    <>
+                                        <button onClick={handleBackup}>สำรองข้อมูล</button>
+                                        <button onClick={() => document.getElementById('restore-upload').click()}>กู้คืนข้อมูล</button>
+                                    </>
+                                )}
+                            </div>
+                        </details>
+                        <input type="file" id="restore-upload" accept=".json,application/json" onChange={e => { handleRestoreFile(e.target.files[0]); e.target.value = ''; }} style={{ display: 'none' }} />
+                        <button className="btn btn-secondary" onClick={() => setView('stats')}><ChartIcon /> ดูสถิติ</button>
+                        {canCreateMemo(currentUser) && <button className="btn btn-primary" onClick={() => { setMemoToEdit(null); setIsModalOpen(true); }} aria-keyshortcuts={getShortcutKeys('newMemo')}><PlusIcon /> {registerDefinition.addLabel}</button>}
+                    </div>
+                </div>
+            </header>
+            <main className="main-content container">
+                <nav className="register-tabs" aria-label="ทะเบียน">
+                    {REGISTER_TYPES.map(type => (
+                        <button key={type} type="button" className={type === register ? 'active' : ''} aria-pressed={type === register} onClick={() => setFilters({ ...filters, register: type })}>{REGISTERS[type].label}</button>
+                    ))}
+                </nav>
+                <section className="dashboard">
+                    <div className="dashboard-card card-total"><h3>ทะเบียนทั้งหมด</h3><p>{dashboardStats.total}</p>{renderStatusBreakdown('total')}</div>
+                    {departments.map(dep => (
+                         <div key={dep} className="dashboard-card" style={getCardStyle(departmentColors, dep)}><h3>{dep}</h3><p>{dashboardStats[dep]}</p>{renderStatusBreakdown(dep)}</div>
+                    ))}
+                </section>
+                <section className="deadline-panel">
+                    <div className="deadline-column deadline-overdue">
+                        <h3>{DEADLINE_LABELS.overdue} ({deadlines.overdue.length})</h3>
+                        {renderDeadlineList(deadlines.overdue)}
+                    </div>
+                    <div className="deadline-column">
+                        <h3>ครบกำหนดภายใน {DUE_SOON_DAYS} วัน ({deadlines.dueSoon.length})</h3>
+                        {renderDeadlineList(deadlines.dueSoon)}
+                    </div>
+                    <div className="deadline-actions">
+                        <button className="btn btn-secondary" onClick={handleDownloadCalendar}><CalendarIcon /> ดาวน์โหลดปฏิทิน (.ics)</button>
+                        {syncSettings.enabled && canCreateMemo(currentUser) && <button className="btn btn-secondary" onClick={handleCopyCalendarLink}>คัดลอกลิงก์สมัครรับปฏิทิน</button>}
+                    </div>
+                </section>
+                <section className="filters-card">
+                    <div className="preset-bar">
+                        <select value={selectedPresetId} onChange={e => handleApplyPreset(e.target.value)} aria-label="ตัวกรองที่บันทึกไว้">
+                            <option value="">ตัวกรองที่บันทึกไว้…</option>
+                            {filterPresets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                        </select>
+                        <button className="btn btn-secondary" onClick={handleSavePreset}>บันทึกตัวกรอง</button>
+                        {selectedPresetId && <button className="btn btn-secondary" onClick={handleDeletePreset}>ลบตัวกรอง</button>}
+                        <button className="btn btn-secondary" onClick={handleCopyLink}>คัดลอกลิงก์</button>
+                        <button className="btn" onClick={handleClearFilters} style={{backgroundColor: 'var(--medium-gray)'}}>ล้างตัวกรอง</button>
+                    </div>
+                    <div className="filters-grid">
+                        <div className="form-group"><label htmlFor="filter-query">ค้นหา</label><input type="search" id="filter-query" ref={searchRef} aria-keyshortcuts={getShortcutKeys('search')} placeholder="เลขที่ เรื่อง ชื่อครู ฝ่ายงาน หรือหมายเหตุ" value={filters.query} onChange={e => setFilters({...filters, query: e.target.value})} /></div>
+                        <div className="form-group"><label htmlFor="filter-teacher">ชื่อครู</label><select id="filter-teacher" value={filters.teacher} onChange={e => setFilters({...filters, teacher: e.target.value})}><option value="">ทั้งหมด</option>{teacherOptions.map(t => <option key={t.key} value={t.key}>{t.label}</option>)}</select></div>
+                        <div className="form-group"><label htmlFor="filter-department">ฝ่ายงาน</label><select id="filter-department" value={filters.department} onChange={e => setFilters({...filters, department: e.target.value})}><option value="">ทั้งหมด</option>{departments.map(d => <option key={d} value={d}>{d}</option>)}</select></div>
+                        <div className="form-group"><label htmlFor="filter-status">สถานะ</label><select id="filter-status" value={filters.status} onChange={e => setFilters({...filters, status: e.target.value})}><option value="">ทั้งหมด</option>{MEMO_STATUSES.map(s => <option key={s} value={s}>{STATUS_LABELS[s]}</option>)}</select></div>
+                        <div className="form-group"><label htmlFor="filter-start">วันที่เริ่มต้น</label><DateInput id="filter-start" value={filters.startDate} onChange={(startDate: string) => setFilters(prev => ({...prev, startDate}))} locale={dateLocale} ariaLabel="วันที่เริ่มต้น" /></div>
+                        <div className="form-group"><label htmlFor="filter-end">วันที่สิ้นสุด</label><DateInput id="filter-end" value={filters.endDate} onChange={(endDate: string) => setFilters(prev => ({...prev, endDate}))} locale={dateLocale} ariaLabel="วันที่สิ้นสุด" /></div>
+                    </div>
+                    <div className="filters-actions">
+                        {isAdmin && <button className="btn btn-secondary" onClick={() => setIsImportOpen(true)}>นำเข้า CSV/Excel</button>}
+                        <button className="btn btn-secondary" onClick={() => handleExport('csv')}>ส่งออก CSV</button>
+                        <button className="btn btn-secondary" onClick={() => handleExport('xlsx')}>ส่งออก Excel</button>
+                        <button className="btn btn-secondary" onClick={() => setIsReportOpen(true)}>พิมพ์ทะเบียน</button>
+                    </div>
+                </section>
+                <section className="table-container">
+                    {selectedMemos.length > 0 && (
+                        <div className="bulk-bar">
+                            <span>เลือกแล้ว {selectedMemos.length} รายการ</span>
+                            {selectedMemos.length < sortedMemos.length && <button type="button" className="link-button" onClick={() => setSelectedIds(setSelected(selectedIds, sortedMemos.map(m => m.id), true))}>เลือกทั้งหมด {sortedMemos.length} รายการตามตัวกรอง</button>}
+                            <button type="button" className="link-button" onClick={() => setSelectedIds(new Set())}>ล้างการเลือก</button>
+                            <div className="bulk-actions">
+                                {canCreateMemo(currentUser) && (
+                                    <>
+                                        <button className="btn btn-secondary" onClick={handleBulkDepartment}>ย้ายฝ่ายงาน</button>
+                                        <button className="btn btn-secondary" onClick={handleBulkTeacher}>เปลี่ยนชื่อครู</button>
+                                        <button className="btn btn-secondary" onClick={handleBulkDelete}>ลบ</button>
+                                    </>
+                                )}
+                                <button className="btn btn-secondary" onClick={() => handleExport('csv', selectedMemos)}>ส่งออก CSV</button>
+                                <button className="btn btn-secondary" onClick={() => handleExport('xlsx', selectedMemos)}>ส่งออก Excel</button>
+                                <button className="btn btn-secondary" onClick={handleDownloadAttachments}>ดาวน์โหลดไฟล์แนบ (ZIP)</button>
+                            </div>
+                        </div>
+                    )}
+                    <div ref={scrollRef} className={tableMode === 'scroll' ? 'table-scroll' : undefined} onScroll={tableMode === 'scroll' ? e => setScrollTop(e.currentTarget.scrollTop) : undefined}>
+                        <table>
+                            <thead>
+                                <tr>
+                                    <th className="select-cell"><input type="checkbox" checked={isPageSelected} onChange={e => setSelectedIds(setSelected(selectedIds, pageMemos.map(m => m.id), e.target.checked))} aria-label="เลือกทุกรายการในหน้านี้" /></th>
+                                    {visibleColumns.map(column => column.sortKey ? (
+                                        <th key={column.id} className={sortConfig.some(rule => rule.key === column.sortKey) ? 'sorted' : ''} aria-sort={getAriaSort(column.sortKey)}>
+                                            <button type="button" className="sort-button" onClick={e => requestSort(column.sortKey, e.shiftKey)} title="Shift+คลิกเพื่อเรียงตามหลายคอลัมน์">{getColumnLabel(column, register)} <span className="sort-icon" aria-hidden="true">{getSortIndicator(column.sortKey)}</span></button>
+                                        </th>
+                                    ) : (
+                                        <th key={column.id}>{getColumnLabel(column, register)}</th>
+                                    ))}
+                                    <th>จัดการ</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {visibleRange?.paddingTop > 0 && <tr className="virtual-spacer" aria-hidden="true" style={{ height: visibleRange.paddingTop }}><td colSpan={visibleColumns.length + 2} /></tr>}
+                                {shownMemos.length > 0 ? shownMemos.map((memo, index) => (
+                                    <tr key={memo.id} className={selectedIds.has(memo.id) ? 'row-selected' : ''} style={visibleRange ? { height: VIRTUAL_ROW_HEIGHT } : undefined}>
+                                        <td className="select-cell"><input type="checkbox" checked={selectedIds.has(memo.id)} onChange={e => setSelectedIds(setSelected(selectedIds, [memo.id], e.target.checked))} aria-label={`เลือก ${memo.memoNumber}`} /></td>
+                                        {visibleColumns.map(column => <td key={column.id}>{renderCell(column.id, memo, firstRowNumber + index)}</td>)}
+                                        <td className="table-actions">
+                                            <button className="btn-icon" onClick={() => { setMemoToEdit(memo); setIsModalOpen(true); }} disabled={!canEditMemo(currentUser, memo)} title={canEditMemo(currentUser, memo) ? 'แก้ไข' : 'ไม่มีสิทธิ์แก้ไขบันทึกนี้'} aria-label={`แก้ไข ${memo.memoNumber}`}><EditIcon /></button>
+                                            <button className="btn-icon" onClick={() => setHistoryMemoId(memo.id)} title="ประวัติการแก้ไข" aria-label={`ประวัติการแก้ไข ${memo.memoNumber}`}><HistoryIcon /></button>
+                                            <button className="btn-icon" onClick={() => handleDeleteMemo(memo.id)} disabled={!canDeleteMemo(currentUser, memo)} title={canDeleteMemo(currentUser, memo) ? 'ลบ' : 'ไม่มีสิทธิ์ลบบันทึกนี้'} aria-label={`ลบ ${memo.memoNumber}`}><DeleteIcon /></button>
+                                        </td>
+                                    </tr>
+                                )) : (
+                                    <tr><td colSpan={visibleColumns.length + 2} className="empty-state">ไม่พบข้อมูล</td></tr>
+                                )}
+                                {visibleRange?.paddingBottom > 0 && <tr className="virtual-spacer" aria-hidden="true" style={{ height: visibleRange.paddingBottom }}><td colSpan={visibleColumns.length + 2} /></tr>}
+                            </tbody>
+                        </table>
+                    </div>
+                    <div className="pagination">
+                        {tableMode === 'scroll' ? (
+                            <span>ทั้งหมด {sortedMemos.length} รายการ</span>
+                        ) : (
+                            <form className="page-jump" onSubmit={handleJumpToPage}>
+                                <label htmlFor="page-jump">หน้า</label>
+                                <input type="number" id="page-jump" min={1} max={Math.max(1, totalPages)} value={pageInput} onChange={e => setPageInput(e.target.value)} onBlur={handleJumpToPage} />
+                                <span>จาก {Math.max(1, totalPages)}</span>
+                            </form>
+                        )}
+                        <div className="pagination-controls">
+                            {tableMode === 'pages' && (
+                                <>
+                                    <label className="page-size">
+                                        แสดง
+                                        <select value={pageSize} onChange={e => saveTableSettings({ ...tableSettings, pageSize: Number(e.target.value) })} aria-label="จำนวนรายการต่อหน้า">
+                                            {PAGE_SIZE_OPTIONS.map(size => <option key={size} value={size}>{size}</option>)}
+                                        </select>
+                                        รายการต่อหน้า
+                                    </label>
+                                    <button className="btn" onClick={() => setCurrentPage(Math.max(1, shownPage - 1))} disabled={shownPage === 1} aria-keyshortcuts={getShortcutKeys('previousPage')}>ก่อนหน้า</button>
+                                    <button className="btn" onClick={() => setCurrentPage(Math.min(totalPages, shownPage + 1))} disabled={shownPage >= totalPages} aria-keyshortcuts={getShortcutKeys('nextPage')}>ถัดไป</button>
+                                </>
+                            )}
+                            <button type="button" className="btn btn-secondary" onClick={() => setIsTableSettingsOpen(true)}>ตั้งค่าตาราง</button>
+                        </div>
+                    </div>
+                </section>
+            </main>
+        </>
+    );
+};
+
+// DEPARTMENTS PAGE
+const DepartmentsPage = ({ setView, memos, departments, departmentColors, numberingSchemes, applyDepartmentState, saveDepartmentColors }) => {
+    const [newDepartment, setNewDepartment] = useState('');
+
+    const memoCounts = useMemo(() => {
+        const counts = new Map<Department, number>();
+        memos.forEach(m => counts.set(m.department, (counts.get(m.department) ?? 0) + 1));
+        return counts;
+    }, [memos]);
+
+    const currentState: DepartmentState = { memos, departments, colors: departmentColors, numberingSchemes };
+    const otherDepartmentOptions = (exclude: Department) =>
+        Object.fromEntries(departments.filter(d => d !== exclude).map(d => [d, d]));
+
+    const handleAdd = () => {
+        const name = normalizeDepartmentName(newDepartment);
+        if (!name) return;
+        if (departments.includes(name)) {
+            Swal.fire('มีอยู่แล้ว', `ฝ่ายงาน “${name}” มีอยู่แล้ว`, 'warning');
+            return;
+        }
+        applyDepartmentState({
+            ...currentState,
+            departments: [...departments, name],
+            colors: { ...departmentColors, [name]: getNextPaletteColor(departmentColors, departments) },
+        });
+        setNewDepartment('');
+    };
+
+    const handleRename = async (department: Department) => {
+        const { value } = await Swal.fire({
+            title: 'เปลี่ยนชื่อฝ่ายงาน',
+            input: 'text',
+            inputValue: department,
+            showCancelButton: true,
+            confirmButtonText: 'บันทึก',
+            cancelButtonText: 'ยกเลิก',
+            inputValidator: (input) => {
+                const name = normalizeDepartmentName(input);
+                if (!name) return 'กรุณาระบุชื่อฝ่ายงาน';
+                if (name !== department && departments.includes(name)) return 'มีฝ่ายงานชื่อนี้แล้ว หากต้องการรวมให้ใช้ปุ่ม “รวม”';
+                return null;
+            },
+        });
+        const name = value ? normalizeDepartmentName(value) : '';
+        if (!name || name === department) return;
+        applyDepartmentState(renameDepartment(currentState, department, name));
+        Swal.fire('สำเร็จ', `เปลี่ยนชื่อและปรับปรุงบันทึก ${memoCounts.get(department) ?? 0} รายการแล้ว`, 'success');
+    };
+
+    const handleMerge = async (department: Department) => {
+        const { value: target } = await Swal.fire({
+            title: `รวม “${department}” เข้ากับ`,
+            input: 'select',
+            inputOptions: otherDepartmentOptions(department),
+            inputPlaceholder: 'เลือกฝ่ายงานปลายทาง',
+            showCancelButton: true,
+            confirmButtonText: 'รวมฝ่ายงาน',
+            cancelButtonText: 'ยกเลิก',
+            inputValidator: (input) => input ? null : 'กรุณาเลือกฝ่ายงานปลายทาง',
+        });
+        if (!target) return;
+        applyDepartmentState(mergeDepartments(currentState, department, target));
+        Swal.fire('สำเร็จ', `ย้ายบันทึก ${memoCounts.get(department) ?? 0} รายการไปยัง “${target}” แล้ว`, 'success');
+    };
+
+    const handleDelete = async (department: Department) => {
+        const count = memoCounts.get(department) ?? 0;
+        let reassignTo: Department | null = null;
+        if (count > 0) {
+            const { value } = await Swal.fire({
+                title: `ลบ “${department}”`,
+                text: `มีบันทึก ${count} รายการในฝ่ายงานนี้ กรุณาเลือกฝ่ายงานที่จะย้ายไป`,
+                input: 'select',
+                inputOptions: otherDepartmentOptions(department),
+                inputPlaceholder: 'เลือกฝ่ายงานปลายทาง',
+                icon: 'warning',
+                showCancelButton: true,
+                confirmButtonText: 'ย้ายและลบ',
+                cancelButtonText: 'ยกเลิก',
+                inputValidator: (input) => input ? null : 'กรุณาเลือกฝ่ายงานปลายทาง',
+            });
+            if (!value) return;
+            reassignTo = value;
+        } else {
+            const result = await Swal.fire({
+                title: 'แน่ใจหรือไม่?',
+                text: `ต้องการลบฝ่ายงาน “${department}” ใช่หรือไม่`,
+                icon: 'warning',
+                showCancelButton: true,
+                confirmButtonText: 'ใช่, ลบเลย!',
+                cancelButtonText: 'ยกเลิก',
+            });
+            if (!result.isConfirmed) return;
+        }
+        applyDepartmentState(deleteDepartment(currentState, department, reassignTo));
+        Swal.fire('ลบแล้ว!', 'ลบฝ่ายงานเรียบร้อยแล้ว', 'success');
+    };
+
+    return (
+        <>
+            <header className="app-header">
+                <div className="container header-content">
+                    <h1>จัดการฝ่ายงาน</h1>
+                    <div className="header-actions">
+                        <OfflineIndicator />
+                        <button className="btn btn-primary" onClick={() => setView('main')}><BackIcon /> กลับหน้าแรก</button>
+                    </div>
+                </div>
+            </header>
+            <main className="main-content container">
+                <section className="table-container">
+                    <table>
+                        <thead>
+                            <tr>
+                                <th>ลำดับ</th>
+                                <th>สี</th>
+                                <th>ฝ่ายงาน</th>
+                                <th>จำนวนบันทึก</th>
+                                <th>จัดการ</th>
                             </tr>
                         </thead>
                         <tbody>
-                            {paginatedMemos.length > 0 ? paginatedMemos.map((memo, index) => (
-                                <tr key={memo.id}>
-                                    <td>{(currentPage - 1) * itemsPerPage + index + 1}</td>
-                                    <td>{memo.memoNumber}</td>
-                                    <td>{format(parseISO(memo.date), 'dd/MM/yyyy')}</td>
-                                    <td><span className={`badge ${getBadgeColor(memo.department)}`}>{memo.teacher}</span></td>
-                                    <td>{memo.subject}</td>
-                                    <td><span className={`badge ${getBadgeColor(memo.department)}`}>{memo.department}</span></td>
-                                    <td>{memo.file ? <a href={memo.file.dataUrl} target="_blank" rel="noopener noreferrer">เปิดไฟล์</a> : '-'}</td>
+                            {departments.map((dep, index) => (
+                                <tr key={dep}>
+                                    <td className="table-actions">
+                                        <button className="btn-icon" onClick={() => applyDepartmentState({ ...currentState, departments: moveDepartment(departments, dep, -1) })} disabled={index === 0} aria-label="เลื่อนขึ้น">↑</button>
+                                        <button className="btn-icon" onClick={() => applyDepartmentState({ ...currentState, departments: moveDepartment(departments, dep, 1) })} disabled={index === departments.length - 1} aria-label="เลื่อนลง">↓</button>
+                                    </td>
+                                    <td>
+                                        <input
+                                            type="color"
+                                            className="color-input"
+                                            value={getDepartmentColor(departmentColors, dep)}
+                                            onChange={e => saveDepartmentColors({ ...departmentColors, [dep]: e.target.value })}
+                                            aria-label={`สีของ${dep}`}
+                                        />
+                                    </td>
+                                    <td><span className="badge" style={getBadgeStyle(departmentColors, dep)}>{dep}</span></td>
+                                    <td>{memoCounts.get(dep) ?? 0}</td>
+                                    <td className="table-actions">
+                                        <button className="btn btn-secondary" onClick={() => handleRename(dep)}>เปลี่ยนชื่อ</button>
+                                        <button className="btn btn-secondary" onClick={() => handleMerge(dep)} disabled={departments.length < 2}>รวม</button>
+                                        <button className="btn btn-danger" onClick={() => handleDelete(dep)} disabled={departments.length < 2 && (memoCounts.get(dep) ?? 0) > 0}>ลบ</button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <div className="pagination">
+                        <div className="form-group" style={{flexDirection: 'row', gap: '0.5rem', alignItems: 'center', flexGrow: 1}}>
+                            <input type="text" placeholder="เพิ่มฝ่ายงานใหม่" value={newDepartment} onChange={e => setNewDepartment(e.target.value)} style={{flexGrow: 1}} />
+                            <button type="button" className="btn btn-primary" onClick={handleAdd} style={{flexShrink: 0}}><PlusIcon /> เพิ่ม</button>
+                        </div>
+                    </div>
+                </section>
+            </main>
+        </>
+    );
+};
+
+// TEACHERS PAGE
+const EMPTY_TEACHER_FORM = { id: '', fullName: '', position: '', defaultDepartment: '' };
+
+const TeacherClusterRow = ({ cluster, departments, onMerge }) => {
+    const [fullName, setFullName] = useState(cluster.names[0]);
+    const [position, setPosition] = useState('');
+    const [defaultDepartment, setDefaultDepartment] = useState('');
+
+    return (
+        <tr>
+            <td>{cluster.names.join(', ')}</td>
+            <td>{cluster.memoCount}</td>
+            <td>
+                <div className="form-group">
+                    <select value={fullName} onChange={e => setFullName(e.target.value)} aria-label="ชื่อที่ใช้">
+                        {cluster.names.map(name => <option key={name} value={name}>{name}</option>)}
+                    </select>
+                </div>
+            </td>
+            <td><div className="form-group"><input type="text" value={position} onChange={e => setPosition(e.target.value)} placeholder="ตำแหน่ง" aria-label="ตำแหน่ง" /></div></td>
+            <td>
+                <div className="form-group">
+                    <select value={defaultDepartment} onChange={e => setDefaultDepartment(e.target.value)} aria-label="ฝ่ายงานหลัก">
+                        <option value="">-</option>
+                        {departments.map(d => <option key={d} value={d}>{d}</option>)}
+                    </select>
+                </div>
+            </td>
+            <td>
+                <button className="btn btn-primary" onClick={() => onMerge(cluster, { fullName, position, defaultDepartment })}>
+                    {cluster.names.length > 1 ? 'รวมรายชื่อ' : 'ลงทะเบียน'}
+                </button>
+            </td>
+        </tr>
+    );
+};
+
+const TeachersPage = ({ setView, memos, departments, teachers, applyTeacherState }) => {
+    const [form, setForm] = useState(EMPTY_TEACHER_FORM);
+
+    const memoCounts = useMemo(() => {
+        const counts = new Map<string, number>();
+        memos.forEach(m => { if (m.teacherId) counts.set(m.teacherId, (counts.get(m.teacherId) ?? 0) + 1); });
+        return counts;
+    }, [memos]);
+
+    const clusters = useMemo(() => clusterTeacherNames(memos, teachers), [memos, teachers]);
+
+    const handleSubmit = (e) => {
+        e.preventDefault();
+        const fullName = normalizeTeacherName(form.fullName);
+        if (!fullName) return;
+        const existing = findTeacherByName(teachers, fullName);
+        if (existing && existing.id !== form.id) {
+            Swal.fire('มีอยู่แล้ว', `มีครู “${existing.fullName}” ในทะเบียนแล้ว`, 'warning');
+            return;
+        }
+        const previous = teachers.find(t => t.id === form.id);
+        const teacher: Teacher = {
+            id: form.id || crypto.randomUUID(),
+            fullName,
+            position: form.position.trim(),
+            defaultDepartment: form.defaultDepartment,
+            aliases: previous ? [...new Set([...previous.aliases, previous.fullName])].filter(a => a !== fullName) : [],
+        };
+        applyTeacherState(updateTeacher(memos, teachers, teacher));
+        setForm(EMPTY_TEACHER_FORM);
+    };
+
+    const handleDelete = async (teacher: Teacher) => {
+        const result = await Swal.fire({
+            title: 'แน่ใจหรือไม่?',
+            text: `ลบ “${teacher.fullName}” ออกจากทะเบียนครู บันทึกเดิมจะยังคงแสดงชื่อนี้`,
+            icon: 'warning',
+            showCancelButton: true,
+            confirmButtonText: 'ใช่, ลบเลย!',
+            cancelButtonText: 'ยกเลิก',
+        });
+        if (result.isConfirmed) {
+            applyTeacherState(removeTeacher(memos, teachers, teacher.id));
+        }
+    };
+
+    const handleMerge = async (cluster: TeacherCluster, canonical: Omit<Teacher, 'id' | 'aliases'>) => {
+        if (cluster.names.length > 1) {
+            const result = await Swal.fire({
+                title: 'รวมเป็นครูคนเดียวกัน?',
+                html: `<p>ชื่อต่อไปนี้จะถูกรวมเป็น “${escapeHtml(canonical.fullName)}” และบันทึก ${cluster.memoCount} รายการจะใช้ชื่อนี้</p>`
+                    + `<ul class="report-list">${cluster.names.map(name => `<li>${escapeHtml(name)}</li>`).join('')}</ul>`
+                    + '<p>กรุณาตรวจสอบว่าเป็นบุคคลเดียวกันจริง</p>',
+                icon: 'question',
+                showCancelButton: true,
+                confirmButtonText: 'รวมรายชื่อ',
+                cancelButtonText: 'ยกเลิก',
+            });
+            if (!result.isConfirmed) return;
+        }
+        applyTeacherState(mergeTeacherCluster(memos, teachers, cluster, canonical));
+        Swal.fire({ title: 'สำเร็จ!', text: `เชื่อมโยงบันทึก ${cluster.memoCount} รายการกับ “${canonical.fullName}” แล้ว`, icon: 'success', timer: 1500, showConfirmButton: false });
+    };
+
+    return (
+        <>
+            <header className="app-header">
+                <div className="container header-content">
+                    <h1>ทะเบียนครู</h1>
+                    <div className="header-actions">
+                        <OfflineIndicator />
+                        <button className="btn btn-primary" onClick={() => setView('main')}><BackIcon /> กลับหน้าแรก</button>
+                    </div>
+                </div>
+            </header>
+            <main className="main-content container">
+                <section className="filters-card">
+                    <form onSubmit={handleSubmit}>
+                        <div className="filters-grid">
+                            <div className="form-group"><label htmlFor="teacher-fullName">ชื่อ-นามสกุล</label><input id="teacher-fullName" type="text" value={form.fullName} onChange={e => setForm({ ...form, fullName: e.target.value })} required /></div>
+                            <div className="form-group"><label htmlFor="teacher-position">ตำแหน่ง</label><input id="teacher-position" type="text" value={form.position} onChange={e => setForm({ ...form, position: e.target.value })} /></div>
+                            <div className="form-group">
+                                <label htmlFor="teacher-department">ฝ่ายงานหลัก</label>
+                                <select id="teacher-department" value={form.defaultDepartment} onChange={e => setForm({ ...form, defaultDepartment: e.target.value })}>
+                                    <option value="">-</option>
+                                    {departments.map(d => <option key={d} value={d}>{d}</option>)}
+                                </select>
+                            </div>
+                        </div>
+                        <div className="filters-actions">
+                            {form.id && <button type="button" className="btn" onClick={() => setForm(EMPTY_TEACHER_FORM)} style={{backgroundColor: 'var(--medium-gray)'}}>ยกเลิก</button>}
+                            <button type="submit" className="btn btn-primary">{form.id ? 'บันทึกการแก้ไข' : <><PlusIcon /> เพิ่มครู</>}</button>
+                        </div>
+                    </form>
+                </section>
+                <section className="table-container">
+                    <table>
+                        <thead>
+                            <tr><th>ชื่อ-นามสกุล</th><th>ตำแหน่ง</th><th>ฝ่ายงานหลัก</th><th>ชื่ออื่นที่รวมไว้</th><th>จำนวนบันทึก</th><th>จัดการ</th></tr>
+                        </thead>
+                        <tbody>
+                            {teachers.length > 0 ? teachers.map(teacher => (
+                                <tr key={teacher.id}>
+                                    <td>{teacher.fullName}</td>
+                                    <td>{teacher.position || '-'}</td>
+                                    <td>{teacher.defaultDepartment || '-'}</td>
+                                    <td>{teacher.aliases.join(', ') || '-'}</td>
+                                    <td>{memoCounts.get(teacher.id) ?? 0}</td>
                                     <td className="table-actions">
-                                        <button className="btn-icon" onClick={() => { setMemoToEdit(memo); setIsModalOpen(true); }}><EditIcon /></button>
-                                        <button className="btn-icon" onClick={() => handleDeleteMemo(memo.id)}><DeleteIcon /></button>
+                                        <button className="btn-icon" onClick={() => setForm({ id: teacher.id, fullName: teacher.fullName, position: teacher.position, defaultDepartment: teacher.defaultDepartment })} aria-label={`แก้ไข ${teacher.fullName}`}><EditIcon /></button>
+                                        <button className="btn-icon" onClick={() => handleDelete(teacher)} aria-label={`ลบ ${teacher.fullName}`}><DeleteIcon /></button>
                                     </td>
                                 </tr>
                             )) : (
-                                <tr><td colSpan={8} className="empty-state">ไม่พบข้อมูล</td></tr>
+                                <tr><td colSpan={6} className="empty-state">ยังไม่มีครูในทะเบียน</td></tr>
                             )}
                         </tbody>
                     </table>
-                    {totalPages > 1 && (
-                      <div className="pagination">
-                          <span>หน้า {currentPage} จาก {totalPages}</span>
-                          <div>
-                              <button className="btn" onClick={() => setCurrentPage(p => Math.max(1, p - 1))} disabled={currentPage === 1}>ก่อนหน้า</button>
-                              <button className="btn" onClick={() => setCurrentPage(p => Math.min(totalPages, p + 1))} disabled={currentPage === totalPages} style={{marginLeft: '0.5rem'}}>ถัดไป</button>
-                          </div>
-                      </div>
-                    )}
                 </section>
+                {clusters.length > 0 && (
+                    <section className="table-container section-spaced">
+                        <div className="section-title">
+                            <h3>รวมชื่อครูจากบันทึกเดิม</h3>
+                            <p className="form-hint">ชื่อที่คาดว่าเป็นบุคคลเดียวกัน เลือกชื่อที่ถูกต้องแล้วกดรวม บันทึกทั้งหมดจะเชื่อมกับครูคนเดียว</p>
+                        </div>
+                        <table>
+                            <thead>
+                                <tr><th>ชื่อที่พบ</th><th>จำนวนบันทึก</th><th>ชื่อที่ใช้</th><th>ตำแหน่ง</th><th>ฝ่ายงานหลัก</th><th></th></tr>
+                            </thead>
+                            <tbody>
+                                {clusters.map(cluster => (
+                                    <React.Fragment key={cluster.names.join('|')}>
+                                        <TeacherClusterRow cluster={cluster} departments={departments} onMerge={handleMerge} />
+                                    </React.Fragment>
+                                ))}
+                            </tbody>
+                        </table>
+                    </section>
+                )}
             </main>
         </>
     );
 };
 
-// STATS PAGE
-const StatsPage = ({ setView, memos, departments }) => {
-    const barChartRef = useRef(null);
-    const lineChartRef = useRef(null);
-    const [timeFilter, setTimeFilter] = useState('month');
+// TRASH PAGE
+const TrashPage = ({ setView, memos, saveMemos, purgeMemos, currentUser, trashSettings, saveTrashSettings, departmentColors, dateLocale }) => {
+    const [retentionDays, setRetentionDays] = useState(String(trashSettings.retentionDays));
+    const trashedMemos = useMemo(() => getTrashedMemos(memos), [memos]);
+    const isAdmin = canManageRegister(currentUser);
 
-    const createChart = (ctx, type, data, options) => new Chart(ctx, { type, data, options });
+    useEffect(() => {
+        setRetentionDays(String(trashSettings.retentionDays));
+    }, [trashSettings]);
 
-    const departmentData = useMemo(() => {
-        const data = departments.map(dep => memos.filter(m => m.department === dep).length);
-        return {
-            labels: departments,
-            datasets: [{
-                label: 'จำนวนบันทึกข้อความ',
-                data,
-                backgroundColor: ['#0288D1', '#F57C00', '#D32F2F', '#FBC02D', '#71717a'],
-            }]
-        };
-    }, [memos, departments]);
-
-    const timelineData = useMemo(() => {
-        const now = new Date();
-        let interval, dateFormat;
-        switch(timeFilter) {
-            case 'day':
-                interval = { start: startOfWeek(now), end: endOfWeek(now) };
-                dateFormat = 'EEEE'; // e.g., Monday
-                break;
-            case 'week':
-                interval = { start: startOfYear(now), end: endOfYear(now) };
-                dateFormat = "'Week' w"; // e.g., Week 23
-                break;
-            case 'year':
-                interval = { start: startOfYear(subYears(now, 5)), end: endOfYear(now) };
-                dateFormat = 'yyyy';
-                break;
-            case 'month':
-            default:
-                interval = { start: startOfYear(now), end: endOfYear(now) };
-                dateFormat = 'MMMM'; // e.g., January
-                break;
-        }
-
-        let labels, groupedData;
-
-        const datePoints = memos.map(m => parseISO(m.date));
-
-        if (timeFilter === 'day') {
-            labels = eachDayOfInterval(interval).map(d => format(d, dateFormat));
-            groupedData = labels.map(label => datePoints.filter(d => format(d, dateFormat) === label).length);
-        } else if (timeFilter === 'week') {
-            labels = eachWeekOfInterval(interval).map(d => format(d, dateFormat));
-            groupedData = labels.map(label => datePoints.filter(d => format(d, dateFormat) === label).length);
-        } else if (timeFilter === 'month') {
-             labels = eachMonthOfInterval(interval).map(d => format(d, dateFormat));
-             groupedData = labels.map(label => datePoints.filter(d => format(d, dateFormat) === label).length);
-        } else { // year
-             labels = eachYearOfInterval(interval).map(d => format(d, dateFormat));
-             groupedData = labels.map(label => datePoints.filter(d => format(d, dateFormat) === label).length);
+    const handleRestore = (memo: Memo) => {
+        saveMemos(memos.map(m => m.id === memo.id ? restoreFromTrash(m, currentUser) : m));
+        Swal.fire({ title: 'สำเร็จ!', text: `กู้คืน “${memo.subject}” แล้ว`, icon: 'success', timer: 1500, showConfirmButton: false });
+    };
+
+    const confirmPurge = (targets: Memo[], text: string) => {
+        Swal.fire({
+            title: 'แน่ใจหรือไม่?',
+            text,
+            icon: 'warning',
+            showCancelButton: true,
+            confirmButtonColor: 'var(--primary-color)',
+            cancelButtonColor: 'var(--danger-color)',
+            confirmButtonText: 'ใช่, ลบเลย!',
+            cancelButtonText: 'ยกเลิก'
+        }).then((result) => {
+            if (result.isConfirmed) {
+                purgeMemos(targets);
+                Swal.fire('ลบแล้ว!', 'ข้อมูลถูกลบถาวรเรียบร้อยแล้ว', 'success');
+            }
+        });
+    };
+
+    const handleSaveRetention = (e) => {
+        e.preventDefault();
+        const days = parseInt(retentionDays, 10);
+        if (!Number.isInteger(days) || days < 0) {
+            Swal.fire('ข้อมูลไม่ถูกต้อง', 'กรุณาระบุจำนวนวันเป็นเลขจำนวนเต็มตั้งแต่ 0 ขึ้นไป', 'warning');
+            return;
         }
+        saveTrashSettings({ ...trashSettings, retentionDays: days });
+        Swal.fire({ title: 'สำเร็จ!', text: 'บันทึกการตั้งค่าถังขยะเรียบร้อยแล้ว', icon: 'success', timer: 1500, showConfirmButton: false });
+    };
 
-        return {
-            labels,
-            datasets: [{
-                label: 'จำนวนบันทึกข้อความ',
-                data: groupedData,
-                borderColor: '#4A2C6D',
-                backgroundColor: 'rgba(74, 44, 109, 0.2)',
-                fill: true,
-                tension: 0.3
-            }]
-        };
-    }, [memos, timeFilter]);
+    return (
+        <>
+            <header className="app-header">
+                <div className="container header-content">
+                    <h1>ถังขยะ</h1>
+                    <div className="header-actions">
+                        <OfflineIndicator />
+                        <button className="btn btn-primary" onClick={() => setView('main')}><BackIcon /> กลับหน้าแรก</button>
+                    </div>
+                </div>
+            </header>
+            <main className="main-content container">
+                <section className="filters-card">
+                    <p className="form-hint">
+                        {trashSettings.retentionDays > 0
+                            ? `บันทึกที่ลบจะถูกลบถาวรโดยอัตโนมัติเมื่อครบ ${trashSettings.retentionDays} วัน`
+                            : 'บันทึกที่ลบจะอยู่ในถังขยะจนกว่าจะลบถาวรเอง'}
+                    </p>
+                    {isAdmin && (
+                        <form onSubmit={handleSaveRetention}>
+                            <div className="filters-grid">
+                                <div className="form-group">
+                                    <label htmlFor="trash-retention">ลบถาวรอัตโนมัติหลังจาก (วัน, 0 = ไม่ลบอัตโนมัติ)</label>
+                                    <input type="number" id="trash-retention" min={0} value={retentionDays} onChange={e => setRetentionDays(e.target.value)} required />
+                                </div>
+                            </div>
+                            <div className="filters-actions">
+                                <button type="button" className="btn" onClick={() => confirmPurge(trashedMemos, `ลบบันทึกทั้งหมด ${trashedMemos.length} รายการในถังขยะอย่างถาวร ไม่สามารถกู้คืนได้อีก`)} disabled={trashedMemos.length === 0} style={{backgroundColor: 'var(--danger-color)', color: 'white'}}>ล้างถังขยะ</button>
+                                <button type="submit" className="btn btn-primary">บันทึก</button>
+                            </div>
+                        </form>
+                    )}
+                </section>
+                <section className="table-container">
+                    <table>
+                        <thead>
+                            <tr><th>เลขที่บันทึก</th><th>เรื่อง</th><th>ฝ่ายงาน</th><th>ลบโดย</th><th>ลบเมื่อ</th><th>ลบถาวรใน</th><th>จัดการ</th></tr>
+                        </thead>
+                        <tbody>
+                            {trashedMemos.length > 0 ? trashedMemos.map((memo: Memo) => {
+                                const daysLeft = getDaysUntilPurge(memo, trashSettings);
+                                return (
+                                    <tr key={memo.id}>
+                                        <td>{memo.memoNumber}</td>
+                                        <td>{memo.subject}</td>
+                                        <td><span className="badge" style={getBadgeStyle(departmentColors, memo.department)}>{memo.department}</span></td>
+                                        <td>{memo.deleted.name}</td>
+                                        <td>{formatDateTime(memo.deleted.at, dateLocale)}</td>
+                                        <td>{daysLeft === null ? '-' : `${daysLeft} วัน`}</td>
+                                        <td className="table-actions">
+                                            <button className="btn btn-secondary" onClick={() => handleRestore(memo)} disabled={!canDeleteMemo(currentUser, memo)}>กู้คืน</button>
+                                            {isAdmin && <button className="btn-icon" onClick={() => confirmPurge([memo], `ลบ “${memo.subject}” อย่างถาวร ไม่สามารถกู้คืนได้อีก`)} aria-label={`ลบถาวร ${memo.subject}`}><DeleteIcon /></button>}
+                                        </td>
+                                    </tr>
+                                );
+                            }) : (
+                                <tr><td colSpan={7} className="empty-state">ถังขยะว่างเปล่า</td></tr>
+                            )}
+                        </tbody>
+                    </table>
+                </section>
+            </main>
+        </>
+    );
+};
 
-    useEffect(() => {
-        const barCtx = barChartRef.current.getContext('2d');
-        const lineCtx = lineChartRef.current.getContext('2d');
+// USERS PAGE
+const EMPTY_USER_FORM = { id: '', username: '', displayName: '', role: 'teacher' as UserRole, department: '', teacherId: '', password: '' };
 
-        const barChart = createChart(barCtx, 'bar', departmentData, { responsive: true, plugins: { legend: { display: false } } });
-        const lineChart = createChart(lineCtx, 'line', timelineData, { responsive: true, plugins: { legend: { display: false } } });
-        
-        return () => {
-            barChart.destroy();
-            lineChart.destroy();
+const UsersPage = ({ setView, backend, users, onUsersChanged, currentUser, departments, teachers }) => {
+    const [form, setForm] = useState(EMPTY_USER_FORM);
+
+    const handleSubmit = async (e) => {
+        e.preventDefault();
+        if (form.role === 'departmentHead' && !form.department) {
+            Swal.fire('ข้อมูลไม่ครบ', 'กรุณาเลือกฝ่ายงานที่หัวหน้าฝ่ายรับผิดชอบ', 'warning');
+            return;
+        }
+        const user: User = {
+            id: form.id || crypto.randomUUID(),
+            username: form.username,
+            displayName: form.displayName.trim() || form.username.trim(),
+            role: form.role,
+            department: form.department,
+            ...(form.teacherId ? { teacherId: form.teacherId } : {}),
         };
-    }, [departmentData, timelineData]);
+        try {
+            await backend.saveUser(user, form.password || undefined);
+            await onUsersChanged();
+        } catch (error) {
+            showAuthError('บันทึกไม่สำเร็จ', error);
+            return;
+        }
+        setForm(EMPTY_USER_FORM);
+        Swal.fire({ title: 'สำเร็จ!', text: `บันทึกผู้ใช้ “${user.displayName}” แล้ว`, icon: 'success', timer: 1500, showConfirmButton: false });
+    };
+
+    const handleDelete = async (user: User) => {
+        const result = await Swal.fire({
+            title: 'แน่ใจหรือไม่?',
+            text: `ลบผู้ใช้ “${user.displayName}” บันทึกที่ผู้ใช้นี้สร้างไว้จะยังคงแสดงชื่อเดิม`,
+            icon: 'warning',
+            showCancelButton: true,
+            confirmButtonText: 'ใช่, ลบเลย!',
+            cancelButtonText: 'ยกเลิก',
+        });
+        if (!result.isConfirmed) return;
+        try {
+            await backend.deleteUser(user.id);
+            await onUsersChanged();
+        } catch (error) {
+            showAuthError('ลบไม่สำเร็จ', error);
+        }
+    };
 
     return (
         <>
             <header className="app-header">
                 <div className="container header-content">
-                    <h1>สถิติภาพรวม</h1>
+                    <h1>ผู้ใช้และสิทธิ์</h1>
                     <div className="header-actions">
+                        <OfflineIndicator />
                         <button className="btn btn-primary" onClick={() => setView('main')}><BackIcon /> กลับหน้าแรก</button>
                     </div>
                 </div>
             </header>
             <main className="main-content container">
-                <div className="stats-grid">
-                    <div className="chart-container">
-                        <h3>จำนวนแต่ละฝ่ายงาน</h3>
-                        <canvas ref={barChartRef}></canvas>
-                    </div>
-                    <div className="chart-container">
-                        <div className="stats-header">
-                            <h3>สถิติตามช่วงเวลา</h3>
+                <section className="filters-card">
+                    <form onSubmit={handleSubmit}>
+                        <div className="filters-grid">
+                            <div className="form-group"><label htmlFor="user-username">ชื่อผู้ใช้</label><input id="user-username" type="text" autoComplete="off" value={form.username} onChange={e => setForm({ ...form, username: e.target.value })} required /></div>
+                            <div className="form-group"><label htmlFor="user-displayName">ชื่อที่แสดง</label><input id="user-displayName" type="text" value={form.displayName} onChange={e => setForm({ ...form, displayName: e.target.value })} /></div>
+                            <div className="form-group">
+                                <label htmlFor="user-role">บทบาท</label>
+                                <select id="user-role" value={form.role} onChange={e => setForm({ ...form, role: e.target.value as UserRole })}>
+                                    {USER_ROLES.map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+                                </select>
+                            </div>
+                            <div className="form-group">
+                                <label htmlFor="user-department">ฝ่ายงาน</label>
+                                <select id="user-department" value={form.department} onChange={e => setForm({ ...form, department: e.target.value })} required={form.role === 'departmentHead'}>
+                                    <option value="">-</option>
+                                    {departments.map(d => <option key={d} value={d}>{d}</option>)}
+                                </select>
+                            </div>
                             <div className="form-group">
-                                <select value={timeFilter} onChange={e => setTimeFilter(e.target.value)}>
-                                    <option value="day">รายวัน</option>
-                                    <option value="week">รายสัปดาห์</option>
-                                    <option value="month">รายเดือน</option>
-                                    <option value="year">รายปี</option>
+                                <label htmlFor="user-teacher">เชื่อมกับทะเบียนครู</label>
+                                <select id="user-teacher" value={form.teacherId} onChange={e => setForm({ ...form, teacherId: e.target.value })}>
+                                    <option value="">-</option>
+                                    {teachers.map(t => <option key={t.id} value={t.id}>{t.fullName}</option>)}
                                 </select>
                             </div>
+                            <div className="form-group">
+                                <label htmlFor="user-password">{form.id ? 'รหัสผ่านใหม่ (เว้นว่างหากไม่เปลี่ยน)' : 'รหัสผ่าน'}</label>
+                                <input id="user-password" type="password" autoComplete="new-password" value={form.password} onChange={e => setForm({ ...form, password: e.target.value })} required={!form.id} minLength={MIN_PASSWORD_LENGTH} />
+                            </div>
+                        </div>
+                        <p className="form-hint">{ROLE_DESCRIPTIONS[form.role]}</p>
+                        <div className="filters-actions">
+                            {form.id && <button type="button" className="btn" onClick={() => setForm(EMPTY_USER_FORM)} style={{backgroundColor: 'var(--medium-gray)'}}>ยกเลิก</button>}
+                            <button type="submit" className="btn btn-primary">{form.id ? 'บันทึกการแก้ไข' : <><PlusIcon /> เพิ่มผู้ใช้</>}</button>
+                        </div>
+                    </form>
+                </section>
+                <section className="table-container">
+                    <table>
+                        <thead>
+                            <tr><th>ชื่อผู้ใช้</th><th>ชื่อที่แสดง</th><th>บทบาท</th><th>ฝ่ายงาน</th><th>ครูในทะเบียน</th><th>จัดการ</th></tr>
+                        </thead>
+                        <tbody>
+                            {users.map((user: User) => (
+                                <tr key={user.id}>
+                                    <td>{user.username}</td>
+                                    <td>{user.displayName}{user.id === currentUser.id ? ' (คุณ)' : ''}</td>
+                                    <td>{ROLE_LABELS[user.role]}</td>
+                                    <td>{user.department || '-'}</td>
+                                    <td>{teachers.find(t => t.id === user.teacherId)?.fullName ?? '-'}</td>
+                                    <td className="table-actions">
+                                        <button className="btn-icon" onClick={() => setForm({ ...EMPTY_USER_FORM, id: user.id, username: user.username, displayName: user.displayName, role: user.role, department: user.department, teacherId: user.teacherId ?? '' })} aria-label={`แก้ไข ${user.displayName}`}><EditIcon /></button>
+                                        <button className="btn-icon" onClick={() => handleDelete(user)} disabled={user.id === currentUser.id} aria-label={`ลบ ${user.displayName}`}><DeleteIcon /></button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </section>
+            </main>
+        </>
+    );
+};
+
+// STATS PAGE
+const ChartPanel = ({ title, type, data, options, filename, csv, theme, onSelect = undefined, className = 'chart-container' }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    // Kept in a ref so a new handler identity does not rebuild the chart.
+    const onSelectRef = useRef(onSelect);
+    onSelectRef.current = onSelect;
+
+    // Colours come from Chart.defaults, which App sets per theme, so a theme change rebuilds the chart too.
+    useEffect(() => {
+        const chart = new Chart(canvasRef.current.getContext('2d'), {
+            type,
+            data,
+            options: {
+                responsive: true,
+                ...options,
+                onClick: (_event, elements) => {
+                    if (onSelectRef.current && elements.length > 0) onSelectRef.current(elements[0].index, elements[0].datasetIndex);
+                },
+                onHover: (event, elements) => {
+                    (event.native?.target as HTMLElement).style.cursor = onSelectRef.current && elements.length > 0 ? 'pointer' : 'default';
+                },
+            },
+        });
+        return () => chart.destroy();
+    }, [type, data, options, theme]);
+
+    const handleExportPng = () => {
+        // Chart canvases are transparent; flatten onto the theme's background so the text stays readable.
+        const source = canvasRef.current;
+        const canvas = document.createElement('canvas');
+        canvas.width = source.width;
+        canvas.height = source.height;
+        const context = canvas.getContext('2d');
+        context.fillStyle = CHART_COLORS[theme].background;
+        context.fillRect(0, 0, canvas.width, canvas.height);
+        context.drawImage(source, 0, 0);
+        canvas.toBlob(blob => blob && downloadBlob(blob, `${filename}.png`), 'image/png');
+    };
+
+    return (
+        <div className={className}>
+            <div className="chart-header">
+                <h3>{title}</h3>
+                <div className="chart-actions">
+                    <button className="link-button" onClick={handleExportPng}>PNG</button>
+                    <button className="link-button" onClick={() => exportRowsToCsv([csv.headers, ...csv.rows], `${filename}.csv`)}>CSV</button>
+                </div>
+            </div>
+            <canvas ref={canvasRef}></canvas>
+        </div>
+    );
+};
+
+const formatChange = (current: number, previous: number) => {
+    const percent = getChangePercent(current, previous);
+    const diff = current - previous;
+    const sign = diff > 0 ? '+' : '';
+    return percent === null ? `${sign}${diff}` : `${sign}${diff} (${sign}${percent}%)`;
+};
+
+const StatsPage = ({ setView, memos, departments, departmentColors, teachers, dateLocale, theme, onDrillDown }) => {
+    const initialFilters = useMemo(() => parseViewState(window.location.search).filters, []);
+    const [preset, setPreset] = useState<RangePreset>(initialFilters.startDate || initialFilters.endDate ? 'custom' : 'fiscal');
+    const [customRange, setCustomRange] = useState<StatsRange>(() => {
+        const fallback = getPresetRange('fiscal');
+        return { start: initialFilters.startDate || fallback.start, end: initialFilters.endDate || fallback.end };
+    });
+    const [department, setDepartment] = useState<Department | ''>(initialFilters.department);
+    const [register, setRegister] = useState<RegisterType>(initialFilters.register);
+    const [unit, setUnit] = useState<PeriodUnit | 'auto'>('auto');
+    const [compare, setCompare] = useState(false);
+
+    const range = useMemo<StatsRange>(() => {
+        if (preset !== 'custom') return getPresetRange(preset);
+        const fallback = getPresetRange('fiscal');
+        const start = customRange.start || fallback.start;
+        const end = customRange.end || fallback.end;
+        return start <= end ? { start, end } : { start: end, end: start };
+    }, [preset, customRange]);
+    const previousRange = useMemo(() => getPreviousRange(range, preset), [range, preset]);
+    const bucketUnit = unit === 'auto' ? chooseBucketUnit(range) : unit;
+
+    const registerMemos = useMemo(() => getRegisterMemos(memos, register), [memos, register]);
+    const currentMemos = useMemo(() => filterMemosForStats(registerMemos, range, department), [registerMemos, range, department]);
+    const previousMemos = useMemo(() => filterMemosForStats(registerMemos, previousRange, department), [registerMemos, previousRange, department]);
+
+    const departmentCounts = useMemo(() => countByDepartment(currentMemos, department ? [department] : departments), [currentMemos, departments, department]);
+    const previousDepartmentCounts = useMemo(() => countByDepartment(previousMemos, [...departmentCounts.keys()]), [previousMemos, departmentCounts]);
+    const departmentLabels = [...departmentCounts.keys()];
+
+    const timeline = useMemo(
+        () => buildTimeline(currentMemos, department ? [department] : departments, range, bucketUnit, dateLocale),
+        [currentMemos, departments, department, range, bucketUnit, dateLocale],
+    );
+    const previousTimeline = useMemo(
+        () => buildTimeline(previousMemos, [], previousRange, bucketUnit, dateLocale),
+        [previousMemos, previousRange, bucketUnit, dateLocale],
+    );
+
+    const topTeachers = useMemo(() => rankTeachers(currentMemos, teachers), [currentMemos, teachers]);
+    const previousTeacherCounts = useMemo(() => {
+        const counts = new Map<string, number>();
+        previousMemos.forEach(m => counts.set(getTeacherKey(m), (counts.get(getTeacherKey(m)) ?? 0) + 1));
+        return counts;
+    }, [previousMemos]);
+
+    const rangeLabel = `${formatDate(range.start, dateLocale, 'short')} – ${formatDate(range.end, dateLocale, 'short')}`;
+    const previousLabel = `${formatDate(previousRange.start, dateLocale, 'short')} – ${formatDate(previousRange.end, dateLocale, 'short')}`;
+    const previousColor = '#a1a1aa';
+
+    const departmentChart = useMemo(() => ({
+        data: {
+            labels: departmentLabels,
+            datasets: [
+                { label: rangeLabel, data: departmentLabels.map(d => departmentCounts.get(d)), backgroundColor: departmentLabels.map(d => getDepartmentColor(departmentColors, d)) },
+                ...(compare ? [{ label: previousLabel, data: departmentLabels.map(d => previousDepartmentCounts.get(d) ?? 0), backgroundColor: previousColor }] : []),
+            ],
+        },
+        options: { plugins: { legend: { display: compare } }, scales: { y: { beginAtZero: true, ticks: { precision: 0 } } } },
+    }), [departmentCounts, previousDepartmentCounts, departmentColors, compare, rangeLabel, previousLabel]);
+
+    const timelineChart = useMemo(() => ({
+        data: {
+            labels: timeline.buckets.map(b => b.label),
+            datasets: [
+                ...timeline.series.map(series => ({
+                    label: series.department,
+                    data: series.counts,
+                    backgroundColor: getDepartmentColor(departmentColors, series.department),
+                    stack: 'current',
+                })),
+                ...(compare ? [{
+                    type: 'line',
+                    label: `ช่วงก่อนหน้า (รวม) ${previousLabel}`,
+                    data: timeline.buckets.map((_, i) => previousTimeline.totals[i] ?? null),
+                    borderColor: previousColor,
+                    backgroundColor: previousColor,
+                    borderDash: [6, 4],
+                    fill: false,
+                    tension: 0.3,
+                    stack: 'previous',
+                }] : []),
+            ],
+        },
+        options: { scales: { x: { stacked: true }, y: { stacked: true, beginAtZero: true, ticks: { precision: 0 } } } },
+    }), [timeline, previousTimeline, departmentColors, compare, previousLabel]);
+
+    const teacherChart = useMemo(() => ({
+        data: {
+            labels: topTeachers.map(t => t.label),
+            datasets: [
+                { label: rangeLabel, data: topTeachers.map(t => t.count), backgroundColor: '#4A2C6D' },
+                ...(compare ? [{ label: previousLabel, data: topTeachers.map(t => previousTeacherCounts.get(t.key) ?? 0), backgroundColor: previousColor }] : []),
+            ],
+        },
+        options: { indexAxis: 'y', plugins: { legend: { display: compare } }, scales: { x: { beginAtZero: true, ticks: { precision: 0 } } } },
+    }), [topTeachers, previousTeacherCounts, compare, rangeLabel, previousLabel]);
+
+    const drillDown = (filters: Partial<MemoFilters>, drillRange: StatsRange) => {
+        onDrillDown({ register, department, ...filters, startDate: drillRange.start, endDate: drillRange.end });
+    };
+
+    const comparisonRows = (current: number, previous: number) => compare ? [String(previous), formatChange(current, previous)] : [];
+    const comparisonHeaders = compare ? ['ช่วงก่อนหน้า', 'เปลี่ยนแปลง'] : [];
+    const fileSuffix = `${range.start}_${range.end}`;
+
+    return (
+        <>
+            <header className="app-header">
+                <div className="container header-content">
+                    <h1>สถิติภาพรวม</h1>
+                    <div className="header-actions">
+                        <OfflineIndicator />
+                        <button className="btn btn-primary" onClick={() => setView('main')}><BackIcon /> กลับหน้าแรก</button>
+                    </div>
+                </div>
+            </header>
+            <main className="main-content container">
+                <section className="filters-card">
+                    <div className="filters-grid">
+                        <div className="form-group">
+                            <label htmlFor="stats-preset">ช่วงเวลา</label>
+                            <select id="stats-preset" value={preset} onChange={e => setPreset(e.target.value as RangePreset)}>
+                                {Object.entries(RANGE_PRESET_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                            </select>
+                        </div>
+                        {preset === 'custom' && (
+                            <>
+                                <div className="form-group"><label htmlFor="stats-start">ตั้งแต่วันที่</label><DateInput id="stats-start" value={customRange.start} onChange={(start: string) => setCustomRange(prev => ({ ...prev, start }))} locale={dateLocale} ariaLabel="ตั้งแต่วันที่" /></div>
+                                <div className="form-group"><label htmlFor="stats-end">ถึงวันที่</label><DateInput id="stats-end" value={customRange.end} onChange={(end: string) => setCustomRange(prev => ({ ...prev, end }))} locale={dateLocale} ariaLabel="ถึงวันที่" /></div>
+                            </>
+                        )}
+                        <div className="form-group">
+                            <label htmlFor="stats-register">ทะเบียน</label>
+                            <select id="stats-register" value={register} onChange={e => setRegister(e.target.value as RegisterType)}>
+                                {REGISTER_TYPES.map(type => <option key={type} value={type}>{REGISTERS[type].label}</option>)}
+                            </select>
+                        </div>
+                        <div className="form-group">
+                            <label htmlFor="stats-department">ฝ่ายงาน</label>
+                            <select id="stats-department" value={department} onChange={e => setDepartment(e.target.value)}>
+                                <option value="">ทั้งหมด</option>
+                                {departments.map(d => <option key={d} value={d}>{d}</option>)}
+                            </select>
+                        </div>
+                        <div className="form-group">
+                            <label htmlFor="stats-unit">แสดงเป็น</label>
+                            <select id="stats-unit" value={unit} onChange={e => setUnit(e.target.value as PeriodUnit | 'auto')}>
+                                <option value="auto">อัตโนมัติ</option>
+                                <option value="day">รายวัน</option>
+                                <option value="week">รายสัปดาห์</option>
+                                <option value="month">รายเดือน</option>
+                                <option value="year">รายปี</option>
+                            </select>
                         </div>
-                        <canvas ref={lineChartRef}></canvas>
                     </div>
+                    <label className="checkbox-label">
+                        <input type="checkbox" checked={compare} onChange={e => setCompare(e.target.checked)} />
+                        เปรียบเทียบกับช่วงก่อนหน้า ({previousLabel})
+                    </label>
+                    <p className="form-hint">{rangeLabel} · คลิกที่แท่งกราฟเพื่อดูรายการในทะเบียน</p>
+                </section>
+                <section className="dashboard">
+                    <div className="dashboard-card card-total">
+                        <h3>ทั้งหมดในช่วงนี้</h3>
+                        <p>{currentMemos.length}</p>
+                        {compare && <div className="stats-change">ช่วงก่อนหน้า {previousMemos.length} · {formatChange(currentMemos.length, previousMemos.length)}</div>}
+                    </div>
+                    {departmentLabels.map(dep => (
+                        <div key={dep} className="dashboard-card" style={getCardStyle(departmentColors, dep)}>
+                            <h3>{dep}</h3>
+                            <p>{departmentCounts.get(dep)}</p>
+                            {compare && <div className="stats-change">{formatChange(departmentCounts.get(dep), previousDepartmentCounts.get(dep) ?? 0)}</div>}
+                        </div>
+                    ))}
+                </section>
+                <div className="stats-grid">
+                    <ChartPanel
+                        theme={theme}
+                        title="จำนวนแต่ละฝ่ายงาน"
+                        type="bar"
+                        data={departmentChart.data}
+                        options={departmentChart.options}
+                        filename={`สถิติฝ่ายงาน-${fileSuffix}`}
+                        csv={{
+                            headers: ['ฝ่ายงาน', 'จำนวน', ...comparisonHeaders],
+                            rows: departmentLabels.map(d => [d, String(departmentCounts.get(d)), ...comparisonRows(departmentCounts.get(d), previousDepartmentCounts.get(d) ?? 0)]),
+                        }}
+                        onSelect={(index: number, datasetIndex: number) => drillDown({ department: departmentLabels[index] }, datasetIndex === 1 ? previousRange : range)}
+                    />
+                    <ChartPanel
+                        theme={theme}
+                        title="จำนวนตามช่วงเวลา แยกฝ่ายงาน"
+                        type="bar"
+                        data={timelineChart.data}
+                        options={timelineChart.options}
+                        filename={`สถิติตามช่วงเวลา-${fileSuffix}`}
+                        csv={{
+                            headers: ['ช่วงเวลา', ...timeline.series.map(s => s.department), 'รวม', ...(compare ? ['ช่วงก่อนหน้า (รวม)'] : [])],
+                            rows: timeline.buckets.map((bucket, i) => [
+                                bucket.label,
+                                ...timeline.series.map(s => String(s.counts[i])),
+                                String(timeline.totals[i]),
+                                ...(compare ? [String(previousTimeline.totals[i] ?? '')] : []),
+                            ]),
+                        }}
+                        onSelect={(index: number, datasetIndex: number) => {
+                            const series = timeline.series[datasetIndex];
+                            if (series) drillDown({ department: series.department }, clipBucket(timeline.buckets[index], range));
+                        }}
+                    />
+                    <ChartPanel
+                        theme={theme}
+                        className="chart-container chart-wide"
+                        title={`ครูที่มีบันทึกข้อความมากที่สุด ${topTeachers.length} อันดับ`}
+                        type="bar"
+                        data={teacherChart.data}
+                        options={teacherChart.options}
+                        filename={`สถิติครู-${fileSuffix}`}
+                        csv={{
+                            headers: ['อันดับ', 'ชื่อครู', 'จำนวน', ...comparisonHeaders],
+                            rows: topTeachers.map((t, i) => [String(i + 1), t.label, String(t.count), ...comparisonRows(t.count, previousTeacherCounts.get(t.key) ?? 0)]),
+                        }}
+                        onSelect={(index: number, datasetIndex: number) => drillDown({ teacher: topTeachers[index].key }, datasetIndex === 1 ? previousRange : range)}
+                    />
                 </div>
             </main>
         </>
@@ -556,44 +3831,546 @@ const StatsPage = ({ setView, memos, departments }) => {
 
 
 // APP COMPONENT
-const App = () => {
+export const App = () => {
     const [view, setView] = useState<View>('main');
-    const [memos, setMemos] = useState<Memo[]>(() => getFromStorage<Memo[]>('memos', []));
-    const [departments, setDepartments] = useState<Department[]>(() => getFromStorage<Department[]>('departments', DEFAULT_DEPARTMENTS));
+    const [repository, setRepository] = useState<MemoRepository | null>(null);
+    // Bumped by the retry button so the loading effect runs again after a failed load.
+    const [loadAttempt, setLoadAttempt] = useState(0);
+    const [loadFailed, setLoadFailed] = useState(false);
+    const [memos, setMemos] = useState<Memo[]>([]);
+    const [departments, setDepartments] = useState<Department[]>([]);
+    const [numberingSchemes, setNumberingSchemes] = useState<NumberingSchemes>({});
+    const [departmentColors, setDepartmentColors] = useState<DepartmentColors>({});
+    const [teachers, setTeachers] = useState<Teacher[]>([]);
+    const [workflow, setWorkflow] = useState<WorkflowConfig>(DEFAULT_WORKFLOW);
+    const [filterPresets, setFilterPresets] = useState<FilterPreset[]>([]);
+    const [reportSettings, setReportSettings] = useState<ReportSettings>(DEFAULT_REPORT_SETTINGS);
+    const [dateLocale, setDateLocale] = useState<DateLocale>(DEFAULT_DATE_LOCALE);
+    const [users, setUsers] = useState<User[]>([]);
+    const [currentUser, setCurrentUser] = useState<User | null>(null);
+    const [syncSettings, setSyncSettings] = useState<SyncSettings>(DEFAULT_SYNC_SETTINGS);
+    const [syncState, setSyncState] = useState<SyncState>(EMPTY_SYNC_STATE);
+    const [syncStatus, setSyncStatus] = useState<SyncStatus>({ phase: 'idle', lastSyncedAt: null, message: '' });
+    const [syncRequest, setSyncRequest] = useState(0);
+    const [isConflictModalOpen, setIsConflictModalOpen] = useState(false);
+    const [trashSettings, setTrashSettings] = useState<TrashSettings>(DEFAULT_TRASH_SETTINGS);
+    const [reminderSettings, setReminderSettings] = useState<ReminderSettings>(DEFAULT_REMINDER_SETTINGS);
+    const [tableSettings, setTableSettings] = useState<TableSettings>(DEFAULT_TABLE_SETTINGS);
+    const [registerSchemes, setRegisterSchemes] = useState<RegisterSchemes>({});
+    const [themePreference, setThemePreference] = useState<ThemePreference>(DEFAULT_THEME);
+    const prefersDark = useMediaQuery(DARK_SCHEME_QUERY);
+    const theme = resolveTheme(themePreference, prefersDark);
+    const reminderLogRef = useRef<ReminderLog>({});
+    // Sync rounds run against the latest register, not the render that started them.
+    const memosRef = useRef<Memo[]>([]);
+    const departmentsRef = useRef<Department[]>([]);
+    const documentsRef = useRef<SyncDocuments>({ teachers: [], numberingSchemes: {}, registerSchemes: {}, departmentColors: {}, trashSettings: DEFAULT_TRASH_SETTINGS });
+    const syncStateRef = useRef<SyncState>(EMPTY_SYNC_STATE);
+    const syncingRef = useRef(false);
+    const syncAgainRef = useRef(false);
+    const searchIndex = useMemo(() => createSearchIndex(), []);
+    // Accounts live on the server while sync is on, so it can check roles on every write.
+    const authBackend = useMemo(() => {
+        if (!repository) return null;
+        return syncSettings.enabled ? createRemoteAuthBackend(syncSettings, repository) : createLocalAuthBackend(repository);
+    }, [repository, syncSettings]);
 
-    const saveMemos = useCallback((newMemos: Memo[]) => {
+    useEffect(() => {
+        let cancelled = false;
+        setLoadFailed(false);
+        (async () => {
+            const repo = await openMemoRepository();
+            const loadedSyncSettings = await repo.loadSetting<SyncSettings>(SYNC_SETTINGS_KEY, DEFAULT_SYNC_SETTINGS);
+            const backend = loadedSyncSettings.enabled ? createRemoteAuthBackend(loadedSyncSettings, repo) : createLocalAuthBackend(repo);
+            const [loadedUsers, sessionUser, loadedMemos, loadedDepartments, loadedSchemes, loadedColors, loadedTeachers, loadedWorkflow, loadedPresets, loadedReportSettings, loadedDateLocale, loadedSyncState, loadedTrashSettings, loadedReminderSettings, loadedReminderLog, loadedTableSettings, loadedRegisterSchemes, loadedTheme] = await Promise.all([
+                backend.listUsers(),
+                restoreSession(backend),
+                repo.loadMemos(),
+                repo.loadDepartments(),
+                repo.loadSetting<NumberingSchemes>(NUMBERING_SCHEMES_KEY, {}),
+                repo.loadSetting<DepartmentColors>(DEPARTMENT_COLORS_KEY, {}),
+                repo.loadSetting<Teacher[]>(TEACHERS_KEY, []),
+                repo.loadSetting<WorkflowConfig>(WORKFLOW_KEY, DEFAULT_WORKFLOW),
+                repo.loadSetting<FilterPreset[]>(FILTER_PRESETS_KEY, []),
+                repo.loadSetting<ReportSettings>(REPORT_SETTINGS_KEY, DEFAULT_REPORT_SETTINGS),
+                repo.loadSetting<DateLocale>(DATE_LOCALE_KEY, DEFAULT_DATE_LOCALE),
+                repo.loadSetting<SyncState>(SYNC_STATE_KEY, EMPTY_SYNC_STATE),
+                repo.loadSetting<TrashSettings>(TRASH_SETTINGS_KEY, DEFAULT_TRASH_SETTINGS),
+                repo.loadSetting<ReminderSettings>(REMINDER_SETTINGS_KEY, DEFAULT_REMINDER_SETTINGS),
+                repo.loadSetting<ReminderLog>(REMINDER_LOG_KEY, {}),
+                repo.loadSetting<TableSettings>(TABLE_SETTINGS_KEY, DEFAULT_TABLE_SETTINGS),
+                repo.loadSetting<RegisterSchemes>(REGISTER_SCHEMES_KEY, {}),
+                repo.loadSetting<ThemePreference>(THEME_KEY, DEFAULT_THEME),
+            ]);
+            if (cancelled) return;
+            setUsers(loadedUsers);
+            setCurrentUser(sessionUser);
+            setWorkflow(loadedWorkflow);
+            setFilterPresets(loadedPresets);
+            setReportSettings({ ...DEFAULT_REPORT_SETTINGS, ...loadedReportSettings });
+            setDateLocale(loadedDateLocale);
+            setSyncSettings(loadedSyncSettings);
+            setTrashSettings({ ...DEFAULT_TRASH_SETTINGS, ...loadedTrashSettings });
+            setReminderSettings({ ...DEFAULT_REMINDER_SETTINGS, ...loadedReminderSettings });
+            reminderLogRef.current = loadedReminderLog;
+            setTableSettings(normalizeTableSettings(loadedTableSettings));
+            documentsRef.current = { teachers: loadedTeachers, numberingSchemes: loadedSchemes, registerSchemes: loadedRegisterSchemes, departmentColors: loadedColors, trashSettings: { ...DEFAULT_TRASH_SETTINGS, ...loadedTrashSettings } };
+            setRegisterSchemes(loadedRegisterSchemes);
+            setThemePreference(normalizeThemePreference(loadedTheme));
+            syncStateRef.current = { ...EMPTY_SYNC_STATE, ...loadedSyncState };
+            setSyncState(syncStateRef.current);
+            setTeachers(loadedTeachers);
+            setDepartmentColors(loadedColors);
+            searchIndex.update(loadedMemos);
+            memosRef.current = loadedMemos;
+            setMemos(loadedMemos);
+            departmentsRef.current = loadedDepartments;
+            setDepartments(loadedDepartments);
+            setNumberingSchemes(loadedSchemes);
+            setRepository(repo);
+        })().catch(error => {
+            console.error('Error loading data:', error);
+            if (!cancelled) setLoadFailed(true);
+        });
+        return () => { cancelled = true; };
+    }, [searchIndex, loadAttempt]);
+
+    const updateSyncState = useCallback((state: SyncState) => {
+        syncStateRef.current = state;
+        setSyncState(state);
+        repository?.saveSetting(SYNC_STATE_KEY, state).catch(showStorageError);
+    }, [repository]);
+
+    /** Stores the register without queueing it for upload; used for changes that came from the server. */
+    const storeMemos = useCallback((newMemos: Memo[]) => {
+        memosRef.current = newMemos;
+        searchIndex.update(newMemos);
         setMemos(newMemos);
-        saveToStorage('memos', newMemos);
-    }, []);
+        repository?.saveMemos(newMemos).catch(showStorageError);
+    }, [repository, searchIndex]);
 
-    const saveDepartments = useCallback((newDepartments: Department[]) => {
+    const storeDepartments = useCallback((newDepartments: Department[]) => {
+        departmentsRef.current = newDepartments;
         setDepartments(newDepartments);
-        saveToStorage('departments', newDepartments);
+        repository?.saveDepartments(newDepartments).catch(showStorageError);
+    }, [repository]);
+
+    const saveMemos = useCallback((newMemos: Memo[]) => {
+        if (syncSettings.enabled) {
+            updateSyncState(queueMemoChanges(syncStateRef.current, findChangedMemoIds(memosRef.current, newMemos)));
+            setSyncRequest(n => n + 1);
+        }
+        storeMemos(newMemos);
+    }, [syncSettings.enabled, updateSyncState, storeMemos]);
+
+    const saveDepartments = useCallback((newDepartments: Department[]) => {
+        if (syncSettings.enabled) {
+            updateSyncState({ ...syncStateRef.current, departmentsPending: true });
+            setSyncRequest(n => n + 1);
+        }
+        storeDepartments(newDepartments);
+    }, [syncSettings.enabled, updateSyncState, storeDepartments]);
+
+    /** Stores a shared setting without queueing it for upload; used for settings that came from the server. */
+    const storeDocument = useCallback(<K extends SyncDocumentKey,>(key: K, value: SyncDocuments[K]) => {
+        documentsRef.current = { ...documentsRef.current, [key]: value };
+        const setters = { teachers: setTeachers, numberingSchemes: setNumberingSchemes, registerSchemes: setRegisterSchemes, departmentColors: setDepartmentColors, trashSettings: setTrashSettings };
+        (setters[key] as (value: SyncDocuments[K]) => void)(value);
+        repository?.saveSetting(SYNC_DOCUMENT_SETTING_KEYS[key], value).catch(showStorageError);
+    }, [repository]);
+
+    const saveDocument = useCallback(<K extends SyncDocumentKey,>(key: K, value: SyncDocuments[K]) => {
+        if (syncSettings.enabled) {
+            updateSyncState(queueDocumentChange(syncStateRef.current, key));
+            setSyncRequest(n => n + 1);
+        }
+        storeDocument(key, value);
+    }, [syncSettings.enabled, updateSyncState, storeDocument]);
+
+    const saveNumberingSchemes = useCallback((newSchemes: NumberingSchemes) => saveDocument('numberingSchemes', newSchemes), [saveDocument]);
+
+    const saveDepartmentColors = useCallback((newColors: DepartmentColors) => saveDocument('departmentColors', newColors), [saveDocument]);
+
+    const applyDepartmentState = useCallback((state: DepartmentState) => {
+        saveMemos(state.memos);
+        saveDepartments(state.departments);
+        saveDepartmentColors(state.colors);
+        saveNumberingSchemes(state.numberingSchemes);
+    }, [saveMemos, saveDepartments, saveDepartmentColors, saveNumberingSchemes]);
+
+    const saveTeachers = useCallback((newTeachers: Teacher[]) => saveDocument('teachers', newTeachers), [saveDocument]);
+
+    const applyTeacherState = useCallback((state: { memos: Memo[]; teachers: Teacher[] }) => {
+        saveTeachers(state.teachers);
+        saveMemos(state.memos);
+    }, [saveTeachers, saveMemos]);
+
+    const saveWorkflow = useCallback((newWorkflow: WorkflowConfig) => {
+        setWorkflow(newWorkflow);
+        repository?.saveSetting(WORKFLOW_KEY, newWorkflow).catch(showStorageError);
+    }, [repository]);
+
+    const saveFilterPresets = useCallback((newPresets: FilterPreset[]) => {
+        setFilterPresets(newPresets);
+        repository?.saveSetting(FILTER_PRESETS_KEY, newPresets).catch(showStorageError);
+    }, [repository]);
+
+    const saveReportSettings = useCallback((newSettings: ReportSettings) => {
+        setReportSettings(newSettings);
+        repository?.saveSetting(REPORT_SETTINGS_KEY, newSettings).catch(showStorageError);
+    }, [repository]);
+
+    const saveDateLocale = useCallback((locale: DateLocale) => {
+        setDateLocale(locale);
+        repository?.saveSetting(DATE_LOCALE_KEY, locale).catch(showStorageError);
+    }, [repository]);
+
+    const saveTrashSettings = useCallback((settings: TrashSettings) => saveDocument('trashSettings', settings), [saveDocument]);
+
+    /**
+     * Deletes memos for good, together with the files of all their versions. With sync on the
+     * server may still refuse the deletion, so the files wait until it has accepted it.
+     */
+    const purgeMemos = useCallback((targets: Memo[]) => {
+        const ids = new Set(targets.map(m => m.id));
+        if (syncSettings.enabled) {
+            const purgedFiles = { ...syncStateRef.current.purgedFiles };
+            targets.forEach(memo => { purgedFiles[memo.id] = getAllAttachmentIds(memo); });
+            updateSyncState({ ...syncStateRef.current, purgedFiles });
+        } else {
+            targets.forEach(memo => deleteMemoFiles(repository, memo));
+        }
+        saveMemos(memosRef.current.filter(m => !ids.has(m.id)));
+    }, [repository, syncSettings.enabled, updateSyncState, saveMemos]);
+
+    // Expired trash is cleared for a signed-in user allowed to delete it; with sync on, only
+    // after a round this session has brought the shared retention from the server.
+    const hasSynced = !!syncStatus.lastSyncedAt;
+    useEffect(() => {
+        if (!repository || !currentUser || (syncSettings.enabled && !hasSynced)) return;
+        const expired = findExpiredMemos(memosRef.current, trashSettings).filter(m => canDeleteMemo(currentUser, m));
+        if (expired.length > 0) purgeMemos(expired);
+    }, [repository, currentUser, trashSettings, syncSettings.enabled, hasSynced]);
+
+    const activeMemos = useMemo(() => getActiveMemos(memos), [memos]);
+
+    const saveReminderSettings = useCallback((settings: ReminderSettings) => {
+        setReminderSettings(settings);
+        repository?.saveSetting(REMINDER_SETTINGS_KEY, settings).catch(showStorageError);
+    }, [repository]);
+
+    const saveTableSettings = useCallback((settings: TableSettings) => {
+        setTableSettings(settings);
+        repository?.saveSetting(TABLE_SETTINGS_KEY, settings).catch(showStorageError);
+    }, [repository]);
+
+    const saveRegisterSchemes = useCallback((schemes: RegisterSchemes) => saveDocument('registerSchemes', schemes), [saveDocument]);
+
+    const saveThemePreference = useCallback((preference: ThemePreference) => {
+        setThemePreference(preference);
+        repository?.saveSetting(THEME_KEY, preference).catch(showStorageError);
+    }, [repository]);
+
+    // The stylesheet switches its colour variables on this attribute; charts are drawn with their own defaults.
+    // A layout effect, so the defaults change before the charts' own effects rebuild them.
+    useLayoutEffect(() => {
+        document.documentElement.dataset.theme = theme;
+        Chart.defaults.color = CHART_COLORS[theme].text;
+        Chart.defaults.borderColor = CHART_COLORS[theme].grid;
+    }, [theme]);
+
+    // Persistent storage keeps the browser from evicting the offline register on a full tablet.
+    useEffect(() => {
+        registerServiceWorker({ onUpdateReady: showUpdatePrompt });
+        requestPersistentStorage();
+    }, []);
+
+    // Reminders are checked on load and hourly; the log keeps each memo to one notification a day.
+    useEffect(() => {
+        if (!repository || !currentUser || !reminderSettings.enabled) return;
+        const checkReminders = async () => {
+            if (getNotificationPermission() !== 'granted') return;
+            const due = findDueReminders(memosRef.current, currentUser, reminderSettings, reminderLogRef.current);
+            if (due.length === 0) return;
+            try {
+                await showDeadlineNotifications(due);
+            } catch (error) {
+                console.error('Failed to show reminders:', error);
+                return;
+            }
+            reminderLogRef.current = updateReminderLog(reminderLogRef.current, due, memosRef.current);
+            repository.saveSetting(REMINDER_LOG_KEY, reminderLogRef.current).catch(showStorageError);
+        };
+        checkReminders();
+        const interval = setInterval(checkReminders, REMINDER_CHECK_INTERVAL_MS);
+        return () => clearInterval(interval);
+    }, [repository, currentUser, reminderSettings]);
+
+    /** Offers to give local memos that lost a numbering race the next free number in their register. */
+    const handleMemoNumberClashes = useCallback(async (clashes: MemoNumberClash[]) => {
+        const numbers = [...new Set(clashes.map(c => c.memoNumber))];
+        const { isConfirmed } = await Swal.fire({
+            title: 'เลขที่บันทึกซ้ำกับเครื่องอื่น',
+            html: `บันทึกที่สร้างในเครื่องนี้ใช้เลขที่เดียวกับบันทึกที่เครื่องอื่นส่งขึ้นเซิร์ฟเวอร์ก่อน:<br>${numbers.map(escapeHtml).join('<br>')}`,
+            icon: 'warning',
+            showCancelButton: true,
+            confirmButtonText: 'กำหนดเลขที่ใหม่',
+            cancelButtonText: 'แก้ไขเอง',
+        });
+        if (!isConfirmed || !currentUser) return;
+        let next = memosRef.current;
+        const renumbered: string[] = [];
+        new Set(clashes.map(c => c.localId)).forEach(id => {
+            const memo = next.find(m => m.id === id);
+            if (!memo || !canEditMemo(currentUser, memo)) return;
+            const register = getMemoRegister(memo);
+            const { numberingSchemes: schemes, registerSchemes: registerSchemeSettings } = documentsRef.current;
+            const scheme = getRegisterScheme(register, memo.department, schemes, registerSchemeSettings);
+            const memoNumber = getNextMemoNumber(getRegisterMemos(next, register).filter(m => m.id !== id), scheme, parseISO(memo.date));
+            next = next.map(m => m.id === id ? recordRevision(m, stampMemo({ ...m, memoNumber }, currentUser, false)) : m);
+            renumbered.push(`${memo.memoNumber} → ${memoNumber}`);
+        });
+        if (renumbered.length === 0) return;
+        saveMemos(next);
+        Swal.fire({ title: 'กำหนดเลขที่ใหม่แล้ว', html: renumbered.map(escapeHtml).join('<br>'), icon: 'success' });
+    }, [currentUser, saveMemos]);
+
+    const syncNow = useCallback(async () => {
+        // The server only accepts changes from a signed-in account.
+        if (!syncSettings.enabled || !repository || !currentUser) return;
+        if (syncingRef.current) {
+            syncAgainRef.current = true;
+            return;
+        }
+        if (!navigator.onLine) {
+            setSyncStatus(status => ({ ...status, phase: 'offline', message: '' }));
+            return;
+        }
+        syncingRef.current = true;
+        setSyncStatus(status => ({ ...status, phase: 'syncing', message: '' }));
+        try {
+            const result = await runSync(createSyncClient(syncSettings, getRemoteSessionToken()), repository, memosRef.current, departmentsRef.current, documentsRef.current, syncStateRef.current);
+            const reconciled = reconcileSyncResult(memosRef.current, departmentsRef.current, documentsRef.current, syncStateRef.current, result);
+            if (reconciled.memos !== memosRef.current) storeMemos(reconciled.memos);
+            if (reconciled.departments !== departmentsRef.current) storeDepartments(reconciled.departments);
+            SYNC_DOCUMENT_KEYS.forEach(key => { if (key in reconciled.documents) storeDocument(key, reconciled.documents[key]); });
+            reconciled.removed.forEach(memo => deleteMemoFiles(repository, memo));
+            deleteAttachmentFiles(repository, reconciled.filesToDelete);
+            updateSyncState(reconciled.state);
+            setSyncStatus({ phase: 'idle', lastSyncedAt: new Date().toISOString(), message: '' });
+            let notice: Promise<unknown> = Promise.resolve();
+            if (result.rejected.length > 0) {
+                const describeRejection = ({ id, local, message }) => `${escapeHtml(local?.memoNumber ?? id)}: ${escapeHtml(message)}`;
+                const more = result.rejected.length > 5 ? `<br>และอีก ${result.rejected.length - 5} รายการ` : '';
+                notice = Swal.fire({
+                    title: 'เซิร์ฟเวอร์ไม่รับการเปลี่ยนแปลงบางรายการ',
+                    html: `${result.rejected.slice(0, 5).map(describeRejection).join('<br>')}${more}<br><br>รายการที่ไม่มีสิทธิ์แก้ไขจะกลับเป็นข้อมูลบนเซิร์ฟเวอร์ ส่วนรายการอื่นยังอยู่เฉพาะในเครื่องนี้ แก้ไขแล้วบันทึกใหม่เพื่อส่งอีกครั้ง`,
+                    icon: 'warning',
+                });
+            }
+            // Not awaited: the next round must not wait for someone to close a dialog.
+            if (result.clashes.length > 0) notice.then(() => handleMemoNumberClashes(result.clashes));
+        } catch (error) {
+            if (!(error instanceof SyncError)) console.error('Sync failed:', error);
+            const offline = error instanceof SyncError && error.offline;
+            setSyncStatus(status => ({ ...status, phase: offline ? 'offline' : 'error', message: error instanceof Error ? error.message : '' }));
+        } finally {
+            syncingRef.current = false;
+            if (syncAgainRef.current) {
+                syncAgainRef.current = false;
+                setSyncRequest(n => n + 1);
+            }
+        }
+    }, [syncSettings, repository, currentUser, storeMemos, storeDepartments, storeDocument, updateSyncState, handleMemoNumberClashes]);
+
+    useEffect(() => {
+        if (!syncSettings.enabled || !repository) return;
+        syncNow();
+        const interval = setInterval(syncNow, SYNC_INTERVAL_MS);
+        window.addEventListener('online', syncNow);
+        return () => {
+            clearInterval(interval);
+            window.removeEventListener('online', syncNow);
+        };
+    }, [syncSettings.enabled, repository, syncNow]);
+
+    useEffect(() => {
+        if (syncRequest === 0) return;
+        const timer = setTimeout(syncNow, SYNC_DEBOUNCE_MS);
+        return () => clearTimeout(timer);
+    }, [syncRequest, syncNow]);
+
+    const saveSyncSettings = useCallback((settings: SyncSettings) => {
+        // A newly connected server has never seen this register, so everything goes up once.
+        if (settings.enabled && (!syncSettings.enabled || settings.serverUrl !== syncSettings.serverUrl)) {
+            updateSyncState({ ...EMPTY_SYNC_STATE, pending: memosRef.current.map(m => m.id), departmentsPending: true, documentsPending: SYNC_DOCUMENT_KEYS });
+        }
+        // The accounts now come from somewhere else, so the current sign-in no longer applies.
+        if (settings.enabled !== syncSettings.enabled || (settings.enabled && settings.serverUrl !== syncSettings.serverUrl)) {
+            authBackend?.signOut().catch(error => console.error('Failed to sign out:', error));
+            saveSession(null);
+            setCurrentUser(null);
+        }
+        setSyncSettings(settings);
+        setSyncStatus({ phase: 'idle', lastSyncedAt: null, message: '' });
+        repository?.saveSetting(SYNC_SETTINGS_KEY, settings).catch(showStorageError);
+    }, [repository, syncSettings, authBackend, updateSyncState]);
+
+    const resolveSyncConflict = useCallback((conflict: MemoConflict, resolution: Memo | null) => {
+        const resolved = resolution && resolution !== conflict.remote ? stampMemo(resolution, currentUser, false) : resolution;
+        storeMemos(replaceMemo(memosRef.current, conflict.id, resolved));
+        updateSyncState(resolveConflict(syncStateRef.current, conflict, resolved));
+        if (syncStateRef.current.conflicts.length === 0) setIsConflictModalOpen(false);
+        setSyncRequest(n => n + 1);
+    }, [currentUser, storeMemos, updateSyncState]);
+
+    /** Pre-filters the register through the URL, which MainPage reads when it mounts. */
+    const openRegisterWithFilters = useCallback((filters: Partial<MemoFilters>) => {
+        replaceViewStateInUrl({ filters: { ...EMPTY_FILTERS, ...filters }, sortConfig: [], page: 1 });
+        setView('main');
+    }, []);
+
+    const refreshUsers = useCallback(async () => {
+        const loadedUsers = await authBackend.listUsers();
+        setUsers(loadedUsers);
+        // Keep the session in step with edits to the signed-in account.
+        setCurrentUser(user => loadedUsers.find(u => u.id === user?.id) ?? null);
+    }, [authBackend]);
+
+    // Turning sync on or off swaps local accounts for server ones and back.
+    useEffect(() => {
+        if (authBackend) refreshUsers().catch(error => console.error('Failed to load users:', error));
+    }, [authBackend, refreshUsers]);
+
+    const handleLogin = useCallback((user: User) => {
+        saveSession(user);
+        setCurrentUser(user);
+        setUsers(users => users.some(u => u.id === user.id) ? users : [...users, user]);
+        setView('main');
     }, []);
+
+    const handleLogout = useCallback(() => {
+        authBackend?.signOut().catch(error => console.error('Failed to sign out:', error));
+        saveSession(null);
+        setCurrentUser(null);
+    }, [authBackend]);
+
+    if (loadFailed) return <LoadErrorPage onRetry={() => setLoadAttempt(n => n + 1)} />;
+    if (!repository) return <Loader />;
+
+    if (!currentUser) {
+        return <LoginPage backend={authBackend} hasUsers={users.length > 0} onLogin={handleLogin} schoolName={reportSettings.schoolName} />;
+    }
+
+    // Admin pages fall back to the register if the account loses the role mid-session.
+    const activeView = canManageRegister(currentUser) || view === 'main' || view === 'stats' || (view === 'trash' && canCreateMemo(currentUser)) ? view : 'main';
     
     return (
       <>
-          {view === 'main' ? (
+          {activeView === 'main' ? (
               <MainPage 
                   setView={setView} 
                   memos={memos} 
+                  searchIndex={searchIndex}
                   departments={departments}
                   saveMemos={saveMemos}
                   saveDepartments={saveDepartments}
+                  repository={repository}
+                  numberingSchemes={numberingSchemes}
+                  saveNumberingSchemes={saveNumberingSchemes}
+                  departmentColors={departmentColors}
+                  saveDepartmentColors={saveDepartmentColors}
+                  teachers={teachers}
+                  saveTeachers={saveTeachers}
+                  workflow={workflow}
+                  saveWorkflow={saveWorkflow}
+                  trashSettings={trashSettings}
+                  saveTrashSettings={saveTrashSettings}
+                  filterPresets={filterPresets}
+                  saveFilterPresets={saveFilterPresets}
+                  reportSettings={reportSettings}
+                  saveReportSettings={saveReportSettings}
+                  dateLocale={dateLocale}
+                  saveDateLocale={saveDateLocale}
+                  currentUser={currentUser}
+                  onLogout={handleLogout}
+                  syncSettings={syncSettings}
+                  saveSyncSettings={saveSyncSettings}
+                  syncStatus={syncStatus}
+                  syncState={syncState}
+                  onSyncNow={syncNow}
+                  onOpenConflicts={() => setIsConflictModalOpen(true)}
+                  reminderSettings={reminderSettings}
+                  saveReminderSettings={saveReminderSettings}
+                  tableSettings={tableSettings}
+                  saveTableSettings={saveTableSettings}
+                  registerSchemes={registerSchemes}
+                  saveRegisterSchemes={saveRegisterSchemes}
+                  theme={theme}
+                  saveTheme={saveThemePreference}
+              />
+          ) : activeView === 'trash' ? (
+              <TrashPage
+                  setView={setView}
+                  memos={memos}
+                  saveMemos={saveMemos}
+                  purgeMemos={purgeMemos}
+                  currentUser={currentUser}
+                  trashSettings={trashSettings}
+                  saveTrashSettings={saveTrashSettings}
+                  departmentColors={departmentColors}
+                  dateLocale={dateLocale}
+              />
+          ) : activeView === 'users' ? (
+              <UsersPage
+                  setView={setView}
+                  backend={authBackend}
+                  users={users}
+                  onUsersChanged={refreshUsers}
+                  currentUser={currentUser}
+                  departments={departments}
+                  teachers={teachers}
+              />
+          ) : activeView === 'teachers' ? (
+              <TeachersPage
+                  setView={setView}
+                  memos={memos}
+                  departments={departments}
+                  teachers={teachers}
+                  applyTeacherState={applyTeacherState}
+              />
+          ) : activeView === 'departments' ? (
+              <DepartmentsPage
+                  setView={setView}
+                  memos={memos}
+                  departments={departments}
+                  departmentColors={departmentColors}
+                  numberingSchemes={numberingSchemes}
+                  applyDepartmentState={applyDepartmentState}
+                  saveDepartmentColors={saveDepartmentColors}
               />
           ) : (
               <StatsPage 
                   setView={setView} 
-                  memos={memos} 
+                  memos={activeMemos} 
                   departments={departments}
+                  departmentColors={departmentColors}
+                  teachers={teachers}
+                  dateLocale={dateLocale}
+                  theme={theme}
+                  onDrillDown={openRegisterWithFilters}
               />
           )}
+          <SyncConflictModal
+              isOpen={isConflictModalOpen}
+              onClose={() => setIsConflictModalOpen(false)}
+              conflicts={syncState.conflicts}
+              onResolve={resolveSyncConflict}
+              dateLocale={dateLocale}
+          />
           <footer className="app-footer">
-              ทะเบียนคุมบันทึกข้อความ โรงเรียนบ้านเสยเสย
+              ทะเบียนคุมบันทึกข้อความ {reportSettings.schoolName}
           </footer>
       </>
     );
 }
-
-const root = ReactDOM.createRoot(document.getElementById('root'));
-root.render(<React.StrictMode><App /></React.StrictMode>);
@@ -0,0 +1,91 @@
+// Service worker: keeps the app shell cached so the register opens without a connection,
+// and shows deadline reminders so they stay clickable after the tab has been closed. The
+// deadline check itself runs in the open app (see the reminder effect in index.tsx).
+
+// Filled in by the build (see `precacheManifest` in vite.config.ts); stays null on the dev server,
+// where nothing is cached so hot reload keeps working.
+const PRECACHE_MANIFEST = null;
+
+const CACHE_PREFIX = 'memo-register-';
+const PRECACHE_NAME = PRECACHE_MANIFEST && `${CACHE_PREFIX}precache-${PRECACHE_MANIFEST.version}`;
+const RUNTIME_CACHE_NAME = `${CACHE_PREFIX}runtime`;
+/** Web fonts are cached as they are first used; the app falls back to system fonts until then. */
+const RUNTIME_CACHE_HOSTS = ['fonts.googleapis.com', 'fonts.gstatic.com'];
+
+const toScopeUrl = path => new URL(path, self.registration.scope).href;
+
+// LIFECYCLE
+self.addEventListener('install', event => {
+    if (!PRECACHE_MANIFEST) {
+        self.skipWaiting();
+        return;
+    }
+    // A new build waits until the user accepts the update prompt, so open tabs never mix two versions.
+    event.waitUntil(caches.open(PRECACHE_NAME).then(cache => cache.addAll(PRECACHE_MANIFEST.urls.map(toScopeUrl))));
+});
+
+self.addEventListener('activate', event => {
+    event.waitUntil((async () => {
+        const names = await caches.keys();
+        await Promise.all(names
+            .filter(name => name.startsWith(`${CACHE_PREFIX}precache-`) && name !== PRECACHE_NAME)
+            .map(name => caches.delete(name)));
+        await self.clients.claim();
+    })());
+});
+
+self.addEventListener('message', event => {
+    if (event.data?.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+// CACHING
+const fromRuntimeCache = async request => {
+    const cache = await caches.open(RUNTIME_CACHE_NAME);
+    const cached = await cache.match(request);
+    const update = fetch(request).then(response => {
+        if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+        return response;
+    });
+    if (cached) {
+        update.catch(() => {});
+        return cached;
+    }
+    return update;
+};
+
+self.addEventListener('fetch', event => {
+    const { request } = event;
+    if (!PRECACHE_MANIFEST || request.method !== 'GET') return;
+    const url = new URL(request.url);
+
+    if (RUNTIME_CACHE_HOSTS.includes(url.hostname)) {
+        event.respondWith(fromRuntimeCache(request));
+        return;
+    }
+    // The sync API manages its own offline queue.
+    if (url.origin !== self.location.origin || url.pathname.includes('/api/')) return;
+
+    if (request.mode === 'navigate') {
+        event.respondWith(caches.match(toScopeUrl('index.html'), { cacheName: PRECACHE_NAME })
+            .then(cached => cached || fetch(request)));
+        return;
+    }
+    event.respondWith(caches.match(request, { cacheName: PRECACHE_NAME, ignoreSearch: true })
+        .then(cached => cached || fetch(request)));
+});
+
+// NOTIFICATIONS
+// Focus an open window of the app on the memo, or open one if none is left.
+self.addEventListener('notificationclick', event => {
+    event.notification.close();
+    const url = event.notification.data?.url || self.registration.scope;
+    event.waitUntil((async () => {
+        const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+        const existing = windows.find(client => client.url.startsWith(self.registration.scope));
+        if (existing) {
+            await existing.navigate(url);
+            return existing.focus();
+        }
+        return self.clients.openWindow(url);
+    })());
+});
@@ -0,0 +1,266 @@
+// @vitest-environment node
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { User } from '../types';
+import { openMemoStore, type MemoStore } from './database';
+import { createApiHandler, type ApiOptions } from './api';
+import { saveAccount } from './auth';
+
+let store: MemoStore;
+let server: Server;
+let baseUrl: string;
+
+const start = async (options: ApiOptions) => {
+    server = createServer(createApiHandler(store, options));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+};
+
+const memo = { id: 'm1', memoNumber: 'ว 1/2568', date: '2025-06-01', teacher: 'ครูสมศรี', subject: 'ทดสอบ', department: 'งานบริหารวิชาการ' };
+
+const request = (path: string, init: RequestInit = {}, session?: string) => fetch(`${baseUrl}/api${path}`, {
+    ...init,
+    headers: { Authorization: 'Bearer secret', 'Content-Type': 'application/json', ...(session ? { 'X-Memo-Session': session } : {}) },
+});
+
+const addUser = (user: Omit<User, 'id'>) => saveAccount(store, user.username, user, 'password1');
+
+const signIn = async (username: string) => {
+    const response = await request('/session', { method: 'POST', body: JSON.stringify({ username, password: 'password1' }) });
+    return (await response.json()).session as string;
+};
+
+const putMemo = (body: unknown, session: string) => request('/memos/m1', { method: 'PUT', body: JSON.stringify(body) }, session);
+
+beforeEach(() => {
+    store = openMemoStore(':memory:');
+});
+
+afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    store.close();
+});
+
+describe('CORS', () => {
+    it('answers a preflight from an allowed origin', async () => {
+        await start({ token: 'secret', allowedOrigins: ['https://memo.example.ac.th'] });
+        const response = await fetch(`${baseUrl}/api/memos/m1`, {
+            method: 'OPTIONS',
+            headers: { Origin: 'https://memo.example.ac.th', 'Access-Control-Request-Method': 'PUT' },
+        });
+        expect(response.status).toBe(204);
+        expect(response.headers.get('access-control-allow-origin')).toBe('https://memo.example.ac.th');
+        expect(response.headers.get('access-control-allow-headers')).toContain('Authorization');
+        expect(response.headers.get('access-control-allow-methods')).toContain('PUT');
+    });
+
+    it('adds no CORS headers for other origins', async () => {
+        await start({ token: 'secret', allowedOrigins: ['https://memo.example.ac.th'] });
+        const response = await fetch(`${baseUrl}/api/health`, { headers: { Origin: 'https://evil.example.com' } });
+        expect(response.status).toBe(200);
+        expect(response.headers.get('access-control-allow-origin')).toBeNull();
+    });
+
+    it('keeps CORS headers on error responses so the app can read them', async () => {
+        await start({ token: 'secret', allowedOrigins: ['*'] });
+        const response = await fetch(`${baseUrl}/api/changes`, { headers: { Origin: 'https://memo.example.ac.th' } });
+        expect(response.status).toBe(401);
+        expect(response.headers.get('access-control-allow-origin')).toBe('https://memo.example.ac.th');
+    });
+});
+
+describe('PUT /api/memos/:id', () => {
+    let session: string;
+
+    beforeEach(async () => {
+        await start({ token: 'secret' });
+        await addUser({ username: 'admin', displayName: 'ผู้ดูแล', role: 'admin', department: '' });
+        session = await signIn('admin');
+    });
+
+    it('stores a valid memo', async () => {
+        const response = await putMemo({ baseVersion: 0, memo }, session);
+        expect(response.status).toBe(200);
+        expect(await response.json()).toMatchObject({ id: 'm1', version: 1, memo });
+    });
+
+    it('refuses memos the memo form would refuse', async () => {
+        const response = await putMemo({ baseVersion: 0, memo: { ...memo, subject: '', date: 'yesterday' } }, session);
+        expect(response.status).toBe(400);
+        expect((await response.json()).error).toContain('กรุณาระบุเรื่อง');
+        expect(store.listChanges(0).records).toEqual([]);
+    });
+
+    it('answers 400, not 500, for a JSON body that is not an object', async () => {
+        for (const body of ['null', '[]', '"memo"']) {
+            const response = await request('/memos/m1', { method: 'PUT', body }, session);
+            expect(response.status).toBe(400);
+            expect(await response.json()).toEqual({ error: 'JSON body must be an object' });
+        }
+        expect((await request('/departments', { method: 'PUT', body: 'null' }, session)).status).toBe(400);
+    });
+
+    it('refuses a body without a memo object', async () => {
+        expect((await putMemo({ baseVersion: 0, memo: 'ว 1/2568' }, session)).status).toBe(400);
+        expect((await putMemo({ baseVersion: 0, memo: { ...memo, id: 'm2' } }, session)).status).toBe(400);
+    });
+});
+
+describe('accounts', () => {
+    beforeEach(() => start({ token: 'secret' }));
+
+    it('lets anyone with the token create the first account, which must be an administrator', async () => {
+        const put = (role: string) => request('/users/u1', { method: 'PUT', body: JSON.stringify({ user: { username: 'Somsri', displayName: 'สมศรี', role, department: '' }, password: 'password1' }) });
+        expect((await put('teacher')).status).toBe(400);
+        const response = await put('admin');
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({ id: 'u1', username: 'somsri', displayName: 'สมศรี', role: 'admin', department: '' });
+        expect((await put('admin')).status).toBe(401);
+    });
+
+    it('signs in with the password and never returns credentials', async () => {
+        await addUser({ username: 'admin', displayName: 'ผู้ดูแล', role: 'admin', department: '' });
+        const wrong = await request('/session', { method: 'POST', body: JSON.stringify({ username: 'admin', password: 'nope' }) });
+        expect(wrong.status).toBe(401);
+
+        const session = await signIn('ADMIN');
+        expect(await (await request('/session', {}, session)).json()).toEqual({ user: expect.objectContaining({ username: 'admin' }) });
+        expect(JSON.stringify(await (await request('/users')).json())).not.toContain('passwordHash');
+
+        await request('/session', { method: 'DELETE' }, session);
+        expect((await request('/changes', {}, session)).status).toBe(401);
+    });
+
+    it('only lets administrators manage accounts', async () => {
+        await addUser({ username: 'admin', displayName: 'ผู้ดูแล', role: 'admin', department: '' });
+        await addUser({ username: 'teacher', displayName: 'ครู', role: 'teacher', department: '' });
+        const session = await signIn('teacher');
+        const response = await request('/users/u2', { method: 'PUT', body: JSON.stringify({ user: { username: 'x', displayName: 'x', role: 'admin', department: '' }, password: 'password1' }) }, session);
+        expect(response.status).toBe(403);
+        expect((await request('/users/admin', { method: 'DELETE' }, session)).status).toBe(403);
+    });
+
+    it('prunes expired sessions on sign-in and ends the others when a password changes', async () => {
+        await addUser({ username: 'admin', displayName: 'ผู้ดูแล', role: 'admin', department: '' });
+        await addUser({ username: 'teacher', displayName: 'ครู', role: 'teacher', department: '' });
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2020-01-01T00:00:00.000Z'));
+        store.createSession('stale', 'admin');
+        vi.useRealTimers();
+        const teacher = await signIn('teacher');
+        const admin = await signIn('admin');
+        expect(store.getSessionUser('stale', Infinity)).toBeNull();
+
+        const changePassword = (id: string, role: string) =>
+            request(`/users/${id}`, { method: 'PUT', body: JSON.stringify({ user: { username: id, displayName: id, role, department: '' }, password: 'password2' }) }, admin);
+        expect((await changePassword('teacher', 'teacher')).status).toBe(200);
+        expect((await changePassword('admin', 'admin')).status).toBe(200);
+        expect(await (await request('/session', {}, teacher)).json()).toEqual({ user: null });
+        expect(await (await request('/session', {}, admin)).json()).toEqual({ user: expect.objectContaining({ username: 'admin' }) });
+    });
+});
+
+describe('memo permissions', () => {
+    const academic = 'งานบริหารวิชาการ';
+
+    beforeEach(async () => {
+        await start({ token: 'secret' });
+        await addUser({ username: 'admin', displayName: 'ผู้ดูแล', role: 'admin', department: '' });
+        await addUser({ username: 'head', displayName: 'หัวหน้า', role: 'departmentHead', department: 'งานบริหารงบประมาณ' });
+        await addUser({ username: 'teacher', displayName: 'ครู', role: 'teacher', department: academic });
+        await addUser({ username: 'viewer', displayName: 'ผู้ดู', role: 'viewer', department: '' });
+    });
+
+    it('needs a signed-in user', async () => {
+        expect((await putMemo({ baseVersion: 0, memo }, '')).status).toBe(401);
+    });
+
+    it('refuses creating memos outside the user\'s role and returns the server copy', async () => {
+        const viewer = await putMemo({ baseVersion: 0, memo }, await signIn('viewer'));
+        expect(viewer.status).toBe(403);
+        expect(await viewer.json()).toMatchObject({ error: 'ไม่มีสิทธิ์แก้ไขบันทึกนี้', record: { id: 'm1', version: 0 } });
+        expect((await putMemo({ baseVersion: 0, memo }, await signIn('head'))).status).toBe(403);
+    });
+
+    it('lets teachers edit only their own memos and delete only their drafts', async () => {
+        const teacher = await signIn('teacher');
+        const own = { ...memo, created: { userId: 'teacher', name: 'ครู', at: '2025-06-01T00:00:00.000Z' } };
+        expect((await putMemo({ baseVersion: 0, memo: own }, teacher)).status).toBe(200);
+        expect((await putMemo({ baseVersion: 1, memo: { ...own, subject: 'แก้ไข' } }, teacher)).status).toBe(200);
+        expect((await request('/memos/m1?baseVersion=2', { method: 'DELETE' }, teacher)).status).toBe(200);
+
+        const admin = await signIn('admin');
+        expect((await request('/memos/m2', { method: 'PUT', body: JSON.stringify({ baseVersion: 0, memo: { ...memo, id: 'm2' } }) }, admin)).status).toBe(200);
+        const other = await request('/memos/m2', { method: 'PUT', body: JSON.stringify({ baseVersion: 1, memo: { ...memo, id: 'm2', subject: 'แก้ไข' } }) }, teacher);
+        expect(other.status).toBe(403);
+    });
+
+    it('stamps pushed memos with the signed-in user, whatever the client sent', async () => {
+        const admin = { userId: 'admin', name: 'ผู้ดูแล', at: '2025-06-01T00:00:00.000Z' };
+        const teacher = await signIn('teacher');
+        const created = await putMemo({ baseVersion: 0, memo: { ...memo, created: admin, updated: admin } }, teacher);
+        expect((await created.json()).memo).toMatchObject({ created: { userId: 'teacher' }, updated: { userId: 'teacher' } });
+
+        const edited = await putMemo({ baseVersion: 1, memo: { ...memo, subject: 'แก้ไข', created: admin, followUpDone: admin } }, await signIn('admin'));
+        expect((await edited.json()).memo).toMatchObject({ created: { userId: 'teacher' }, updated: { userId: 'admin' }, followUpDone: { userId: 'admin', name: 'ผู้ดูแล' } });
+    });
+
+    it('reports a version conflict before checking permissions', async () => {
+        const admin = await signIn('admin');
+        await putMemo({ baseVersion: 0, memo }, admin);
+        expect((await putMemo({ baseVersion: 0, memo }, await signIn('viewer'))).status).toBe(409);
+    });
+
+    it('only lets administrators change the department list', async () => {
+        const put = (session: string) => request('/departments', { method: 'PUT', body: JSON.stringify({ baseVersion: 0, departments: ['งานใหม่'] }) }, session);
+        expect((await put(await signIn('teacher'))).status).toBe(403);
+        expect((await put(await signIn('admin'))).status).toBe(200);
+    });
+
+    it('serves each user\'s calendar feed with their own scope, never by the shared token', async () => {
+        const admin = await signIn('admin');
+        const due = { ...memo, dueDate: '2099-01-01' };
+        await request('/memos/m1', { method: 'PUT', body: JSON.stringify({ baseVersion: 0, memo: { ...due, subject: 'ของฝ่ายวิชาการ', department: academic } }) }, admin);
+        await request('/memos/m2', { method: 'PUT', body: JSON.stringify({ baseVersion: 0, memo: { ...due, id: 'm2', subject: 'ของฝ่ายงบประมาณ', department: 'งานบริหารงบประมาณ' } }) }, admin);
+        const calendar = (query: string) => fetch(`${baseUrl}/api/calendar.ics?${query}`);
+        const createFeed = async (username: string) =>
+            (await (await request('/calendar-feed', { method: 'POST' }, await signIn(username))).json()).feed as string;
+
+        expect((await calendar('token=secret')).status).toBe(401);
+        const head = await createFeed('head');
+        const feed = await (await calendar(`feed=${head}&department=${encodeURIComponent(academic)}`)).text();
+        expect(feed).toContain('ของฝ่ายงบประมาณ');
+        expect(feed).not.toContain('ของฝ่ายวิชาการ');
+
+        expect((await request('/calendar-feed', { method: 'POST' }, await signIn('viewer'))).status).toBe(403);
+        await createFeed('head');
+        expect((await calendar(`feed=${head}`)).status).toBe(401);
+    });
+
+    it('never replaces an uploaded attachment', async () => {
+        const upload = (body: string, session: string) => request('/attachments/a1', { method: 'PUT', body }, session);
+        expect((await upload('original', await signIn('admin'))).status).toBe(204);
+        expect((await upload('replaced', await signIn('teacher'))).status).toBe(409);
+        expect(await (await request('/attachments/a1', {}, await signIn('viewer'))).text()).toBe('original');
+    });
+
+    it('shares settings as versioned documents with per-document permissions', async () => {
+        const put = (key: string, baseVersion: number, value: unknown, session: string) =>
+            request(`/documents/${key}`, { method: 'PUT', body: JSON.stringify({ baseVersion, value }) }, session);
+        const teacher = await signIn('teacher');
+        const teachers = [{ id: 't1', fullName: 'ครูสมศรี', position: '', defaultDepartment: academic, aliases: [] }];
+        expect((await put('teachers', 0, teachers, teacher)).status).toBe(200);
+        expect((await put('teachers', 0, teachers, teacher)).status).toBe(409);
+        expect((await put('teachers', 1, [{ id: 't2' }], teacher)).status).toBe(400);
+        expect((await put('numberingSchemes', 0, {}, teacher)).status).toBe(403);
+        expect((await put('departmentColors', 0, { [academic]: '#00aa00' }, await signIn('admin'))).status).toBe(200);
+
+        const changes = await (await request('/changes?since=0', {}, teacher)).json();
+        expect(changes.documents).toMatchObject({
+            teachers: { value: teachers, version: 1 },
+            departmentColors: { value: { [academic]: '#00aa00' }, version: 1 },
+            numberingSchemes: { value: null, version: 0 },
+        });
+    });
+});
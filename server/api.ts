@@ -0,0 +1,384 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { timingSafeEqual } from 'node:crypto';
+import { addDays } from 'date-fns';
+import type { Memo, Department, PullResponse, User } from '../types';
+import { MAX_ATTACHMENT_SIZE } from '../utils/attachments';
+import { buildDeadlineCalendar } from '../utils/icalendar';
+import { coerceMemoShape, validateMemoFields, hasFieldErrors } from '../utils/memoValidation';
+import { getMemoRegister } from '../utils/registers';
+import { canCreateMemo, canDeleteMemo, canEditMemo, canManageRegister, toStamp } from '../utils/permissions';
+import { SYNC_DOCUMENT_KEYS, type SyncDocumentKey } from '../utils/sync';
+import type { MemoStore } from './database';
+import { AccountError, authenticateUser, createSessionToken, deleteAccount, hashSessionToken, saveAccount, toPublicUser } from './auth';
+
+// TYPES
+export interface ApiOptions {
+    /** Shared secret clients send as a bearer token; the API is open when unset, so `index.ts` then listens on loopback only. */
+    token?: string;
+    /**
+     * Origins a browser may call the API from when the app is hosted elsewhere, e.g.
+     * `https://memo.school.ac.th`; `*` allows any. Not needed when this server also serves the app.
+     */
+    allowedOrigins?: string[];
+}
+
+class HttpError extends Error {
+    status: number;
+    /** Extra fields for the JSON error body. */
+    details: Record<string, unknown>;
+
+    constructor(status: number, message: string, details: Record<string, unknown> = {}) {
+        super(message);
+        this.name = 'HttpError';
+        this.status = status;
+        this.details = details;
+    }
+}
+
+// CONSTANTS
+const MAX_JSON_BODY = 5 * 1024 * 1024;
+
+/** Carries the signed-in user's session token next to the shared bearer token. */
+export const SESSION_HEADER = 'X-Memo-Session';
+const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+const CORS_HEADERS = {
+    'Access-Control-Allow-Headers': `Authorization, Content-Type, ${SESSION_HEADER}`,
+    'Access-Control-Allow-Methods': 'GET, HEAD, POST, PUT, DELETE, OPTIONS',
+    'Access-Control-Max-Age': '86400',
+};
+
+interface DocumentRule {
+    isValid: (value: unknown) => boolean;
+    canWrite: (user: User) => boolean;
+}
+
+// HELPERS
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+/** Anyone filing memos may add a teacher from the memo form; the other settings are administrators' to change. */
+const DOCUMENT_RULES: Record<SyncDocumentKey, DocumentRule> = {
+    teachers: {
+        isValid: value => Array.isArray(value) && value.every(t => isPlainObject(t) && typeof t.id === 'string' && typeof t.fullName === 'string'),
+        canWrite: canCreateMemo,
+    },
+    numberingSchemes: { isValid: value => isPlainObject(value) && Object.values(value).every(isPlainObject), canWrite: canManageRegister },
+    registerSchemes: { isValid: value => isPlainObject(value) && Object.values(value).every(isPlainObject), canWrite: canManageRegister },
+    departmentColors: { isValid: value => isPlainObject(value) && Object.values(value).every(c => typeof c === 'string'), canWrite: canManageRegister },
+    trashSettings: {
+        isValid: value => isPlainObject(value) && Number.isInteger(value.retentionDays) && (value.retentionDays as number) >= 0,
+        canWrite: canManageRegister,
+    },
+};
+
+const readBody = (req: IncomingMessage, limit: number): Promise<Buffer> => {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > limit) {
+                reject(new HttpError(413, 'Request body too large'));
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => resolve(Buffer.concat(chunks)));
+        req.on('error', reject);
+    });
+};
+
+/** Every JSON route takes an object, so `null`, arrays and bare values are refused here. */
+const readJson = async <T,>(req: IncomingMessage): Promise<T> => {
+    let body: unknown;
+    try {
+        body = JSON.parse((await readBody(req, MAX_JSON_BODY)).toString('utf8'));
+    } catch (error) {
+        if (error instanceof HttpError) throw error;
+        throw new HttpError(400, 'Invalid JSON body');
+    }
+    if (!isPlainObject(body)) throw new HttpError(400, 'JSON body must be an object');
+    return body as T;
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+    res.end(JSON.stringify(body));
+};
+
+/** Echoes an allowed Origin back; other origins get no CORS headers, so the browser blocks them. */
+const setCorsHeaders = (req: IncomingMessage, res: ServerResponse, allowedOrigins: string[]) => {
+    const origin = req.headers.origin;
+    res.setHeader('Vary', 'Origin');
+    if (!origin || !(allowedOrigins.includes('*') || allowedOrigins.includes(origin))) return;
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    Object.entries(CORS_HEADERS).forEach(([name, value]) => res.setHeader(name, value));
+};
+
+const isAuthorized = (req: IncomingMessage, token: string | undefined) => {
+    if (!token) return true;
+    const given = Buffer.from(req.headers.authorization?.replace(/^Bearer\s+/i, '') ?? '');
+    const expected = Buffer.from(token);
+    return given.length === expected.length && timingSafeEqual(given, expected);
+};
+
+const parseBaseVersion = (value: unknown) => {
+    const version = Number(value);
+    if (!Number.isInteger(version) || version < 0) throw new HttpError(400, 'baseVersion must be a non-negative integer');
+    return version;
+};
+
+/**
+ * Checks a pushed memo with the same schema as the memo form, so one browser cannot put a
+ * record into the shared register that would break the others. Departments are not checked:
+ * a round pushes memos before the department list they may have added to.
+ */
+const parseMemo = (value: unknown, id: string): Memo => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) throw new HttpError(400, 'memo must be an object');
+    const memo = coerceMemoShape(value as Memo);
+    if (memo.id !== id) throw new HttpError(400, 'Memo id does not match the URL');
+    // A day of slack for browsers whose date is already ahead of the server's time zone.
+    const { errors } = validateMemoFields(value as Record<string, unknown>, { register: getMemoRegister(memo), today: addDays(new Date(), 1) });
+    if (hasFieldErrors(errors)) throw new HttpError(400, `ข้อมูลบันทึกไม่ถูกต้อง: ${Object.values(errors).join(', ')}`);
+    return memo;
+};
+
+/**
+ * Stamps come from the session, not the request: `created` is the server copy's (or the
+ * pusher's for a new memo), so nobody can file memos as someone else or claim theirs as
+ * their own. Trash and follow-up stamps keep the server's copy while their state is unchanged.
+ */
+const stampPushedMemo = (user: User, current: Memo | null, next: Memo): Memo => {
+    const stamp = toStamp(user);
+    const { created: _created, updated: _updated, deleted, followUpDone, ...fields } = next;
+    const memo: Memo = { ...fields, updated: stamp };
+    const created = current ? current.created : stamp;
+    if (created) memo.created = created;
+    if (deleted) memo.deleted = current?.deleted ?? stamp;
+    if (followUpDone) memo.followUpDone = current?.followUpDone ?? stamp;
+    return memo;
+};
+
+/**
+ * The rules the UI applies, checked against the server's copy so an edited client cannot
+ * bypass them. Moving a memo into or out of the trash counts as deleting it.
+ */
+const canWriteMemo = (user: User, current: Memo | null, next: Memo | null) => {
+    if (!current) return !next || (canCreateMemo(user) && canEditMemo(user, next));
+    if (!next || !!next.deleted !== !!current.deleted) return canDeleteMemo(user, current);
+    return canEditMemo(user, current) && canEditMemo(user, next);
+};
+
+// ROUTES
+/**
+ * REST API for the shared register. Everything but the health check and the calendar feed needs the shared token;
+ * routes marked † also need a signed-in user's session token in the X-Memo-Session header.
+ *   GET    /api/health
+ *   GET    /api/session                       { user } for the session token, or { user: null }
+ *   POST   /api/session                       { username, password } → { session, user } | 401
+ *   DELETE /api/session                       signs the session token out
+ *   GET    /api/users                         accounts without credentials, for the sign-in page
+ *   PUT    /api/users/:id                     { user, password? } † admin; open while the server has no accounts
+ *   DELETE /api/users/:id                     † admin
+ *   GET    /api/changes?since=<cursor>        † memos changed after the cursor, plus departments
+ *   PUT    /api/memos/:id                     † { baseVersion, memo }  → 200 record | 409 current record | 400 invalid memo | 403 { error, record }
+ *   DELETE /api/memos/:id?baseVersion=<n>     † → 200 tombstone | 409 current record | 403 { error, record }
+ *   GET    /api/departments                   †
+ *   PUT    /api/departments                   † admin; { baseVersion, departments } → 200 | 409 current
+ *   GET    /api/documents/:key                † shared settings: teachers, numberingSchemes, registerSchemes, departmentColors, trashSettings
+ *   PUT    /api/documents/:key                † { baseVersion, value } → 200 | 409 current
+ *   HEAD|GET|PUT /api/attachments/:id         † raw file body, typed by Content-Type; PUT → 204 | 409 id already taken
+ *   POST   /api/calendar-feed                 † { feed } a new personal feed token; the previous one stops working
+ *   DELETE /api/calendar-feed                 † revokes the personal feed token
+ *   GET    /api/calendar.ics?feed=<token>     open follow-ups the feed's owner may edit, as an iCalendar feed
+ *   OPTIONS /api/*                            CORS preflight for `allowedOrigins`
+ */
+export const createApiHandler = (store: MemoStore, { token, allowedOrigins = [] }: ApiOptions = {}) => {
+    /** Version conflicts win over permissions, so the client resolves them before anything else. */
+    const writeMemo = (res: ServerResponse, user: User, id: string, baseVersion: number, pushed: Memo | null) => {
+        const current = store.getMemo(id);
+        const memo = pushed && stampPushedMemo(user, current.memo, pushed);
+        if (current.version === baseVersion && !canWriteMemo(user, current.memo, memo)) {
+            throw new HttpError(403, memo ? 'ไม่มีสิทธิ์แก้ไขบันทึกนี้' : 'ไม่มีสิทธิ์ลบบันทึกนี้', { record: current });
+        }
+        const result = store.writeMemo(id, baseVersion, memo);
+        sendJson(res, result.ok ? 200 : 409, result.value);
+    };
+
+    const route = async (req: IncomingMessage, res: ServerResponse) => {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        const [, api, resource, rawId] = url.pathname.split('/');
+        const id = rawId ? decodeURIComponent(rawId) : '';
+        if (api !== 'api') throw new HttpError(404, 'Not found');
+
+        setCorsHeaders(req, res, allowedOrigins);
+        if (req.method === 'OPTIONS') {
+            res.writeHead(204).end();
+            return;
+        }
+
+        if (resource === 'health' && req.method === 'GET') {
+            return sendJson(res, 200, { ok: true });
+        }
+        // Calendar apps cannot send headers. The feed token in the link stands in for both the
+        // shared token and a session, and only ever opens its owner's calendar.
+        if (resource === 'calendar.ics' && req.method === 'GET') {
+            const feed = url.searchParams.get('feed');
+            const feedUser = feed ? store.getFeedUser(hashSessionToken(feed)) : null;
+            if (!feedUser) throw new HttpError(401, 'Unauthorized', { reason: 'feed' });
+            const memos = store.listChanges(0).records
+                .map(record => record.memo)
+                .filter(memo => memo && !memo.deleted && canEditMemo(feedUser, memo));
+            res.writeHead(200, { 'Content-Type': 'text/calendar; charset=utf-8', 'Cache-Control': 'no-cache' });
+            res.end(buildDeadlineCalendar(memos, { name: 'กำหนดติดตามบันทึกข้อความ' }));
+            return;
+        }
+
+        if (!isAuthorized(req, token)) throw new HttpError(401, 'Unauthorized', { reason: 'token' });
+
+        const sessionToken = req.headers[SESSION_HEADER.toLowerCase()];
+        const sessionHash = typeof sessionToken === 'string' && sessionToken ? hashSessionToken(sessionToken) : null;
+        const sessionUser = sessionHash ? store.getSessionUser(sessionHash, SESSION_MAX_AGE_MS) : null;
+        const requireUser = () => {
+            if (!sessionUser) throw new HttpError(401, 'กรุณาเข้าสู่ระบบอีกครั้ง', { reason: 'session' });
+            return sessionUser;
+        };
+        const requireAdmin = () => {
+            if (!canManageRegister(requireUser())) throw new HttpError(403, 'เฉพาะผู้ดูแลระบบเท่านั้น');
+        };
+
+        if (resource === 'session' && !id) {
+            if (req.method === 'GET') return sendJson(res, 200, { user: sessionUser && toPublicUser(sessionUser) });
+            if (req.method === 'POST') {
+                const body = await readJson<{ username?: unknown; password?: unknown }>(req);
+                const user = await authenticateUser(store, body.username, body.password);
+                store.deleteExpiredSessions(SESSION_MAX_AGE_MS);
+                const session = createSessionToken();
+                store.createSession(hashSessionToken(session), user.id);
+                return sendJson(res, 200, { session, user: toPublicUser(user) });
+            }
+            if (req.method === 'DELETE') {
+                if (sessionHash) store.deleteSession(sessionHash);
+                res.writeHead(204).end();
+                return;
+            }
+        }
+
+        if (resource === 'users') {
+            if (req.method === 'GET' && !id) return sendJson(res, 200, store.listUsers().map(toPublicUser));
+            if (req.method === 'PUT' && id) {
+                if (store.listUsers().length > 0) requireAdmin();
+                const body = await readJson<{ user?: unknown; password?: unknown }>(req);
+                return sendJson(res, 200, await saveAccount(store, id, body.user, body.password, sessionHash));
+            }
+            if (req.method === 'DELETE' && id) {
+                requireAdmin();
+                deleteAccount(store, id);
+                res.writeHead(204).end();
+                return;
+            }
+        }
+
+        const user = requireUser();
+
+        if (resource === 'calendar-feed' && !id) {
+            if (req.method === 'POST') {
+                if (!canCreateMemo(user)) throw new HttpError(403, 'ไม่มีรายการติดตามสำหรับผู้ดูข้อมูล');
+                const feed = createSessionToken();
+                store.setFeedToken(user.id, hashSessionToken(feed));
+                return sendJson(res, 200, { feed });
+            }
+            if (req.method === 'DELETE') {
+                store.deleteFeedToken(user.id);
+                res.writeHead(204).end();
+                return;
+            }
+        }
+
+        if (resource === 'changes' && req.method === 'GET') {
+            const since = Number(url.searchParams.get('since') ?? 0) || 0;
+            const body: PullResponse = {
+                ...store.listChanges(since),
+                departments: store.getDepartments(),
+                documents: Object.fromEntries(SYNC_DOCUMENT_KEYS.map(key => [key, store.getDocument(key)])),
+            };
+            return sendJson(res, 200, body);
+        }
+
+        if (resource === 'memos' && id) {
+            if (req.method === 'PUT') {
+                const body = await readJson<{ baseVersion: number; memo: unknown }>(req);
+                return writeMemo(res, user, id, parseBaseVersion(body.baseVersion), parseMemo(body.memo, id));
+            }
+            if (req.method === 'DELETE') {
+                return writeMemo(res, user, id, parseBaseVersion(url.searchParams.get('baseVersion')), null);
+            }
+        }
+
+        if (resource === 'departments') {
+            if (req.method === 'GET') return sendJson(res, 200, store.getDepartments());
+            if (req.method === 'PUT') {
+                requireAdmin();
+                const body = await readJson<{ baseVersion: number; departments: Department[] }>(req);
+                if (!Array.isArray(body.departments) || !body.departments.every(d => typeof d === 'string')) {
+                    throw new HttpError(400, 'departments must be a list of names');
+                }
+                const result = store.writeDepartments(parseBaseVersion(body.baseVersion), body.departments);
+                return sendJson(res, result.ok ? 200 : 409, result.value);
+            }
+        }
+
+        if (resource === 'documents' && SYNC_DOCUMENT_KEYS.includes(id as SyncDocumentKey)) {
+            const rule = DOCUMENT_RULES[id as SyncDocumentKey];
+            if (req.method === 'GET') return sendJson(res, 200, store.getDocument(id));
+            if (req.method === 'PUT') {
+                if (!rule.canWrite(user)) throw new HttpError(403, 'ไม่มีสิทธิ์เปลี่ยนการตั้งค่านี้');
+                const body = await readJson<{ baseVersion: number; value: unknown }>(req);
+                if (!rule.isValid(body.value)) throw new HttpError(400, `Invalid ${id} document`);
+                const result = store.writeDocument(id, parseBaseVersion(body.baseVersion), body.value);
+                return sendJson(res, result.ok ? 200 : 409, result.value);
+            }
+        }
+
+        if (resource === 'attachments' && id) {
+            if (req.method === 'HEAD') {
+                res.writeHead(store.hasAttachment(id) ? 200 : 404).end();
+                return;
+            }
+            if (req.method === 'GET') {
+                const attachment = store.getAttachment(id);
+                if (!attachment) throw new HttpError(404, 'Attachment not found');
+                res.writeHead(200, { 'Content-Type': attachment.type, 'Content-Length': attachment.data.length });
+                res.end(attachment.data);
+                return;
+            }
+            if (req.method === 'PUT') {
+                if (!canCreateMemo(user)) throw new HttpError(403, 'ไม่มีสิทธิ์แนบไฟล์');
+                const data = await readBody(req, MAX_ATTACHMENT_SIZE);
+                if (!store.addAttachment(id, { type: req.headers['content-type'] || 'application/octet-stream', data })) {
+                    throw new HttpError(409, 'มีไฟล์แนบรหัสนี้อยู่แล้ว');
+                }
+                res.writeHead(204).end();
+                return;
+            }
+        }
+
+        throw new HttpError(404, 'Not found');
+    };
+
+    return (req: IncomingMessage, res: ServerResponse) => {
+        route(req, res).catch(error => {
+            if (res.headersSent) return;
+            if (error instanceof HttpError) {
+                sendJson(res, error.status, { error: error.message, ...error.details });
+            } else if (error instanceof AccountError) {
+                sendJson(res, error.status, { error: error.message });
+            } else {
+                console.error('Unhandled API error:', error);
+                sendJson(res, 500, { error: 'Internal server error' });
+            }
+        });
+    };
+};
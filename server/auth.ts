@@ -0,0 +1,101 @@
+import { createHash, pbkdf2, randomBytes, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+import type { User } from '../types';
+import { MIN_PASSWORD_LENGTH, normalizeUsername, type StoredUser } from '../services/auth';
+import { USER_ROLES } from '../utils/permissions';
+import type { MemoStore } from './database';
+
+// TYPES
+/** A refused account change; the message is shown to the user as it is. */
+export class AccountError extends Error {
+    status: number;
+
+    constructor(status: number, message: string) {
+        super(message);
+        this.name = 'AccountError';
+        this.status = status;
+    }
+}
+
+// CONSTANTS
+/** Same derivation as the browser's local accounts, so the two stay interchangeable. */
+const PBKDF2_ITERATIONS = 100_000;
+const pbkdf2Async = promisify(pbkdf2);
+
+// HELPERS
+const hashPassword = async (password: string, salt: string) =>
+    (await pbkdf2Async(password, salt, PBKDF2_ITERATIONS, 32, 'sha256')).toString('hex');
+
+export const hashSessionToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+export const createSessionToken = () => randomBytes(32).toString('hex');
+
+export const toPublicUser = ({ passwordHash: _hash, salt: _salt, ...user }: StoredUser): User => user;
+
+const isLastAdmin = (users: StoredUser[], id: string) =>
+    users.filter(u => u.role === 'admin').length === 1 && users.find(u => u.id === id)?.role === 'admin';
+
+const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string';
+
+/** Only the public fields are taken from the request; credentials never come from the client. */
+const parseUser = (value: unknown, id: string): User => {
+    const user = value as Partial<User> | null;
+    if (!user || typeof user !== 'object' || typeof user.username !== 'string' || typeof user.displayName !== 'string'
+        || !USER_ROLES.includes(user.role) || !isOptionalString(user.department) || !isOptionalString(user.teacherId)) {
+        throw new AccountError(400, 'ข้อมูลผู้ใช้ไม่ถูกต้อง');
+    }
+    const parsed: User = { id, username: user.username, displayName: user.displayName.trim() || user.username, role: user.role, department: user.department ?? '' };
+    return user.teacherId ? { ...parsed, teacherId: user.teacherId } : parsed;
+};
+
+// ACCOUNTS
+/** Checks the password the same way for unknown users, so both failures take the same time. */
+export const authenticateUser = async (store: MemoStore, username: unknown, password: unknown): Promise<StoredUser> => {
+    const user = typeof username === 'string' ? store.findUserByUsername(normalizeUsername(username)) : null;
+    const hash = await hashPassword(typeof password === 'string' ? password : '', user?.salt ?? 'unknown-user');
+    const expected = Buffer.from(user?.passwordHash ?? '', 'hex');
+    const given = Buffer.from(hash, 'hex');
+    if (!user || expected.length !== given.length || !timingSafeEqual(expected, given)) {
+        throw new AccountError(401, 'ชื่อผู้ใช้หรือรหัสผ่านไม่ถูกต้อง');
+    }
+    return user;
+};
+
+/**
+ * Creates or updates an account with the rules of the browser's local accounts. The first
+ * account on an empty server must be an administrator, who then adds everyone else. A new
+ * password signs the account out everywhere but `currentSessionHash`, the session making the change.
+ */
+export const saveAccount = async (store: MemoStore, id: string, input: unknown, rawPassword: unknown, currentSessionHash: string | null = null): Promise<User> => {
+    const users = store.listUsers();
+    const user = parseUser(input, id);
+    const username = normalizeUsername(user.username);
+    if (!username) throw new AccountError(400, 'กรุณาระบุชื่อผู้ใช้');
+    if (users.length === 0 && user.role !== 'admin') throw new AccountError(400, 'บัญชีแรกต้องเป็นผู้ดูแลระบบ');
+    if (users.some(u => u.username === username && u.id !== id)) throw new AccountError(409, `มีชื่อผู้ใช้ “${username}” แล้ว`);
+    if (rawPassword !== undefined && rawPassword !== null && typeof rawPassword !== 'string') throw new AccountError(400, 'รหัสผ่านไม่ถูกต้อง');
+    const password = (rawPassword ?? undefined) as string | undefined;
+    const existing = users.find(u => u.id === id);
+    if (!existing && !password) throw new AccountError(400, 'กรุณากำหนดรหัสผ่านสำหรับผู้ใช้ใหม่');
+    if (password !== undefined && password.length < MIN_PASSWORD_LENGTH) {
+        throw new AccountError(400, `รหัสผ่านต้องมีอย่างน้อย ${MIN_PASSWORD_LENGTH} ตัวอักษร`);
+    }
+    if (existing && user.role !== 'admin' && isLastAdmin(users, id)) throw new AccountError(400, 'ต้องมีผู้ดูแลระบบอย่างน้อยหนึ่งคน');
+
+    let credentials = { passwordHash: existing?.passwordHash, salt: existing?.salt };
+    if (password) {
+        const salt = randomBytes(16).toString('hex');
+        credentials = { passwordHash: await hashPassword(password, salt), salt };
+    }
+    const stored = { ...user, username, ...credentials } as StoredUser;
+    store.saveUser(stored);
+    if (existing && password) store.deleteUserSessions(id, currentSessionHash);
+    return toPublicUser(stored);
+};
+
+export const deleteAccount = (store: MemoStore, id: string) => {
+    const users = store.listUsers();
+    if (!users.some(u => u.id === id)) throw new AccountError(404, 'ไม่พบผู้ใช้');
+    if (isLastAdmin(users, id)) throw new AccountError(400, 'ไม่สามารถลบผู้ดูแลระบบคนสุดท้ายได้');
+    store.deleteUser(id);
+};
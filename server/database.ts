@@ -0,0 +1,228 @@
+import Database from 'better-sqlite3';
+import type { Memo, Department, SyncRecord, SyncDepartments, SyncDocument, WriteResult } from '../types';
+import { DEFAULT_DEPARTMENTS } from '../services/memoRepository';
+import type { StoredUser } from '../services/auth';
+
+// TYPES
+export interface StoredAttachment {
+    type: string;
+    data: Buffer;
+}
+
+export interface MemoStore {
+    listChanges: (since: number) => { records: SyncRecord[]; cursor: number };
+    /** The record as the server holds it, with version 0 for ids it has never seen. */
+    getMemo: (id: string) => SyncRecord;
+    writeMemo: (id: string, baseVersion: number, memo: Memo | null) => WriteResult<SyncRecord>;
+    getDepartments: () => SyncDepartments;
+    writeDepartments: (baseVersion: number, departments: Department[]) => WriteResult<SyncDepartments>;
+    getDocument: (key: string) => SyncDocument;
+    writeDocument: (key: string, baseVersion: number, value: unknown) => WriteResult<SyncDocument>;
+    hasAttachment: (id: string) => boolean;
+    getAttachment: (id: string) => StoredAttachment | null;
+    /** Files are never replaced: ids are generated per upload, so false means the id is taken. */
+    addAttachment: (id: string, attachment: StoredAttachment) => boolean;
+    listUsers: () => StoredUser[];
+    getUser: (id: string) => StoredUser | null;
+    findUserByUsername: (username: string) => StoredUser | null;
+    saveUser: (user: StoredUser) => void;
+    /** Also ends the user's sessions. */
+    deleteUser: (id: string) => void;
+    /** Sessions are stored by a hash of their token, so a copy of the database cannot be used to sign in. */
+    createSession: (tokenHash: string, userId: string) => void;
+    /** The session's user, or null when the session is unknown or older than `maxAgeMs`. */
+    getSessionUser: (tokenHash: string, maxAgeMs: number) => StoredUser | null;
+    deleteSession: (tokenHash: string) => void;
+    /** Signs the user out everywhere except the session `keepTokenHash`, e.g. after a password change. */
+    deleteUserSessions: (userId: string, keepTokenHash?: string | null) => void;
+    deleteExpiredSessions: (maxAgeMs: number) => void;
+    /** One calendar feed per user, stored hashed like sessions; setting a new one revokes the old link. */
+    setFeedToken: (userId: string, tokenHash: string) => void;
+    deleteFeedToken: (userId: string) => void;
+    getFeedUser: (tokenHash: string) => StoredUser | null;
+    close: () => void;
+}
+
+interface MemoRow {
+    id: string;
+    version: number;
+    seq: number;
+    data: string | null;
+}
+
+// SCHEMA
+const SCHEMA = `
+    CREATE TABLE IF NOT EXISTS memos (
+        id TEXT PRIMARY KEY,
+        version INTEGER NOT NULL,
+        seq INTEGER NOT NULL,
+        data TEXT,
+        updated_at TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS memos_seq ON memos (seq);
+    CREATE TABLE IF NOT EXISTS documents (
+        key TEXT PRIMARY KEY,
+        version INTEGER NOT NULL,
+        data TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS attachments (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        data BLOB NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS counters (
+        name TEXT PRIMARY KEY,
+        value INTEGER NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS users (
+        id TEXT PRIMARY KEY,
+        username TEXT NOT NULL UNIQUE,
+        data TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS sessions (
+        token_hash TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        created_at TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS feed_tokens (
+        user_id TEXT PRIMARY KEY,
+        token_hash TEXT NOT NULL UNIQUE,
+        created_at TEXT NOT NULL
+    );
+`;
+
+const DEPARTMENTS_DOCUMENT = 'departments';
+
+const toRecord = (row: MemoRow): SyncRecord => ({
+    id: row.id,
+    version: row.version,
+    seq: row.seq,
+    memo: row.data ? JSON.parse(row.data) : null,
+});
+
+// STORE
+export const openMemoStore = (filename: string): MemoStore => {
+    const db = new Database(filename);
+    db.pragma('journal_mode = WAL');
+    db.exec(SCHEMA);
+
+    const selectCounter = db.prepare<[string], { value: number }>('SELECT value FROM counters WHERE name = ?');
+    const upsertCounter = db.prepare('INSERT INTO counters (name, value) VALUES (?, ?) ON CONFLICT (name) DO UPDATE SET value = excluded.value');
+    const selectMemo = db.prepare<[string], MemoRow>('SELECT id, version, seq, data FROM memos WHERE id = ?');
+    const selectChanges = db.prepare<[number], MemoRow>('SELECT id, version, seq, data FROM memos WHERE seq > ? ORDER BY seq');
+    const upsertMemo = db.prepare(`
+        INSERT INTO memos (id, version, seq, data, updated_at) VALUES (@id, @version, @seq, @data, @updatedAt)
+        ON CONFLICT (id) DO UPDATE SET version = excluded.version, seq = excluded.seq, data = excluded.data, updated_at = excluded.updated_at
+    `);
+    const selectDocument = db.prepare<[string], { version: number; data: string }>('SELECT version, data FROM documents WHERE key = ?');
+    const upsertDocument = db.prepare('INSERT INTO documents (key, version, data) VALUES (?, ?, ?) ON CONFLICT (key) DO UPDATE SET version = excluded.version, data = excluded.data');
+    const selectAttachment = db.prepare<[string], StoredAttachment>('SELECT type, data FROM attachments WHERE id = ?');
+    const selectAttachmentId = db.prepare<[string], { id: string }>('SELECT id FROM attachments WHERE id = ?');
+    const insertAttachment = db.prepare('INSERT INTO attachments (id, type, data) VALUES (?, ?, ?) ON CONFLICT (id) DO NOTHING');
+    const selectUsers = db.prepare<[], { data: string }>('SELECT data FROM users ORDER BY username');
+    const selectUser = db.prepare<[string], { data: string }>('SELECT data FROM users WHERE id = ?');
+    const selectUserByUsername = db.prepare<[string], { data: string }>('SELECT data FROM users WHERE username = ?');
+    const upsertUser = db.prepare('INSERT INTO users (id, username, data) VALUES (?, ?, ?) ON CONFLICT (id) DO UPDATE SET username = excluded.username, data = excluded.data');
+    const removeUser = db.prepare('DELETE FROM users WHERE id = ?');
+    const insertSession = db.prepare('INSERT INTO sessions (token_hash, user_id, created_at) VALUES (?, ?, ?)');
+    const selectSession = db.prepare<[string], { userId: string; createdAt: string }>('SELECT user_id AS userId, created_at AS createdAt FROM sessions WHERE token_hash = ?');
+    const removeSession = db.prepare('DELETE FROM sessions WHERE token_hash = ?');
+    const removeUserSessions = db.prepare('DELETE FROM sessions WHERE user_id = ?');
+    const removeOtherUserSessions = db.prepare('DELETE FROM sessions WHERE user_id = ? AND token_hash <> ?');
+    const removeSessionsBefore = db.prepare('DELETE FROM sessions WHERE created_at < ?');
+    const upsertFeedToken = db.prepare('INSERT INTO feed_tokens (user_id, token_hash, created_at) VALUES (?, ?, ?) ON CONFLICT (user_id) DO UPDATE SET token_hash = excluded.token_hash, created_at = excluded.created_at');
+    const removeFeedToken = db.prepare('DELETE FROM feed_tokens WHERE user_id = ?');
+    const selectFeedUserId = db.prepare<[string], { userId: string }>('SELECT user_id AS userId FROM feed_tokens WHERE token_hash = ?');
+
+    const currentSeq = () => selectCounter.get('seq')?.value ?? 0;
+    const nextSeq = () => {
+        const seq = currentSeq() + 1;
+        upsertCounter.run('seq', seq);
+        return seq;
+    };
+
+    const toUser = (row: { data: string } | undefined): StoredUser | null => row ? JSON.parse(row.data) : null;
+
+    const getMemo = (id: string): SyncRecord => {
+        const row = selectMemo.get(id);
+        return row ? toRecord(row) : { id, version: 0, seq: 0, memo: null };
+    };
+
+    const getDepartments = (): SyncDepartments => {
+        const row = selectDocument.get(DEPARTMENTS_DOCUMENT);
+        return row ? { departments: JSON.parse(row.data), version: row.version } : { departments: DEFAULT_DEPARTMENTS, version: 0 };
+    };
+
+    const getDocument = (key: string): SyncDocument => {
+        const row = selectDocument.get(key);
+        return row ? { value: JSON.parse(row.data), version: row.version } : { value: null, version: 0 };
+    };
+
+    const writeDocument = db.transaction((key: string, baseVersion: number, value: unknown): WriteResult<SyncDocument> => {
+        const current = getDocument(key);
+        if (current.version !== baseVersion) return { ok: false, value: current };
+        const document = { value, version: current.version + 1 };
+        upsertDocument.run(key, document.version, JSON.stringify(value));
+        return { ok: true, value: document };
+    });
+
+    const writeMemo = db.transaction((id: string, baseVersion: number, memo: Memo | null): WriteResult<SyncRecord> => {
+        const current = getMemo(id);
+        if (current.version !== baseVersion) return { ok: false, value: current };
+        // Deleting a memo the server never saw leaves nothing to record.
+        if (current.version === 0 && !memo) return { ok: true, value: current };
+        const record: SyncRecord = { id, version: current.version + 1, seq: nextSeq(), memo };
+        upsertMemo.run({ id, version: record.version, seq: record.seq, data: memo ? JSON.stringify(memo) : null, updatedAt: new Date().toISOString() });
+        return { ok: true, value: record };
+    });
+
+    const writeDepartments = db.transaction((baseVersion: number, departments: Department[]): WriteResult<SyncDepartments> => {
+        const current = getDepartments();
+        if (current.version !== baseVersion) return { ok: false, value: current };
+        const value = { departments, version: current.version + 1 };
+        upsertDocument.run(DEPARTMENTS_DOCUMENT, value.version, JSON.stringify(departments));
+        return { ok: true, value };
+    });
+
+    return {
+        listChanges: (since) => ({ records: selectChanges.all(since).map(toRecord), cursor: currentSeq() }),
+        getMemo,
+        writeMemo,
+        getDepartments,
+        writeDepartments,
+        getDocument,
+        writeDocument,
+        hasAttachment: (id) => !!selectAttachmentId.get(id),
+        getAttachment: (id) => selectAttachment.get(id) ?? null,
+        addAttachment: (id, { type, data }) => insertAttachment.run(id, type, data).changes > 0,
+        listUsers: () => selectUsers.all().map(toUser),
+        getUser: (id) => toUser(selectUser.get(id)),
+        findUserByUsername: (username) => toUser(selectUserByUsername.get(username)),
+        saveUser: (user) => { upsertUser.run(user.id, user.username, JSON.stringify(user)); },
+        deleteUser: db.transaction((id: string) => {
+            removeUserSessions.run(id);
+            removeFeedToken.run(id);
+            removeUser.run(id);
+        }),
+        createSession: (tokenHash, userId) => { insertSession.run(tokenHash, userId, new Date().toISOString()); },
+        getSessionUser: (tokenHash, maxAgeMs) => {
+            const session = selectSession.get(tokenHash);
+            if (!session || Date.now() - Date.parse(session.createdAt) > maxAgeMs) return null;
+            return toUser(selectUser.get(session.userId));
+        },
+        deleteSession: (tokenHash) => { removeSession.run(tokenHash); },
+        deleteUserSessions: (userId, keepTokenHash = null) => {
+            if (keepTokenHash) removeOtherUserSessions.run(userId, keepTokenHash);
+            else removeUserSessions.run(userId);
+        },
+        // ISO timestamps sort as text, so the cut-off compares directly.
+        deleteExpiredSessions: (maxAgeMs) => { removeSessionsBefore.run(new Date(Date.now() - maxAgeMs).toISOString()); },
+        setFeedToken: (userId, tokenHash) => { upsertFeedToken.run(userId, tokenHash, new Date().toISOString()); },
+        deleteFeedToken: (userId) => { removeFeedToken.run(userId); },
+        getFeedUser: (tokenHash) => {
+            const feed = selectFeedUserId.get(tokenHash);
+            return feed ? toUser(selectUser.get(feed.userId)) : null;
+        },
+        close: () => db.close(),
+    };
+};
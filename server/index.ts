@@ -0,0 +1,43 @@
+import { createServer } from 'node:http';
+import { existsSync, mkdirSync } from 'node:fs';
+import path from 'node:path';
+import { openMemoStore } from './database';
+import { createApiHandler } from './api';
+import { createStaticHandler } from './static';
+
+const LOOPBACK_HOSTS = ['127.0.0.1', '::1', 'localhost'];
+
+const token = process.env.MEMO_API_TOKEN || undefined;
+const port = Number(process.env.PORT ?? 3001);
+// Without a token anyone who can reach the port can read and rewrite the register, so only this machine may.
+const host = process.env.HOST ?? (token ? '0.0.0.0' : '127.0.0.1');
+const databasePath = process.env.MEMO_DB_PATH ?? path.resolve('data', 'memos.sqlite');
+const staticDir = path.resolve(process.env.MEMO_STATIC_DIR ?? 'dist');
+const allowedOrigins = (process.env.MEMO_ALLOWED_ORIGINS ?? '').split(',').map(origin => origin.trim()).filter(Boolean);
+
+if (!token && !LOOPBACK_HOSTS.includes(host)) {
+    console.error(`Refusing to listen on ${host} without MEMO_API_TOKEN; set a token or use HOST=127.0.0.1.`);
+    process.exit(1);
+}
+
+mkdirSync(path.dirname(databasePath), { recursive: true });
+const store = openMemoStore(databasePath);
+const api = createApiHandler(store, { token, allowedOrigins });
+// The built app is served next to the API when there is one, so the PWA and sync share an origin.
+const app = existsSync(path.join(staticDir, 'index.html')) ? createStaticHandler(staticDir) : null;
+const server = createServer((req, res) => app && !req.url?.startsWith('/api/') ? app(req, res) : api(req, res));
+
+server.listen(port, host, () => {
+    console.log(`Memo register API listening on http://${host}:${port} (database: ${databasePath})`);
+    if (!token) console.warn('MEMO_API_TOKEN is not set: the API is open, so it only accepts connections from this machine.');
+    console.log(app ? `Serving the app from ${staticDir}` : `No build in ${staticDir}; run \`npm run build\` to serve the app from this server`);
+});
+
+const shutdown = () => {
+    server.close(() => {
+        store.close();
+        process.exit(0);
+    });
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,48 @@
+// @vitest-environment node
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createStaticHandler } from './static';
+
+let root: string;
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+    root = mkdtempSync(path.join(tmpdir(), 'memo-static-'));
+    mkdirSync(path.join(root, 'assets'));
+    writeFileSync(path.join(root, 'index.html'), '<!doctype html><title>memo</title>');
+    writeFileSync(path.join(root, 'assets', 'index-abc123.js'), 'console.log(1)');
+    server = createServer(createStaticHandler(root));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    rmSync(root, { recursive: true, force: true });
+});
+
+describe('createStaticHandler', () => {
+    it('serves hashed assets with a long cache lifetime', async () => {
+        const response = await fetch(`${baseUrl}/assets/index-abc123.js`);
+        expect(response.status).toBe(200);
+        expect(response.headers.get('content-type')).toContain('text/javascript');
+        expect(response.headers.get('cache-control')).toContain('immutable');
+    });
+
+    it('falls back to index.html for app routes but not for missing files', async () => {
+        const page = await fetch(`${baseUrl}/stats?department=x`);
+        expect(page.status).toBe(200);
+        expect(page.headers.get('cache-control')).toBe('no-cache');
+        expect(await page.text()).toContain('<title>memo</title>');
+        expect((await fetch(`${baseUrl}/missing.png`)).status).toBe(404);
+    });
+
+    it('does not serve files outside the build folder', async () => {
+        expect((await fetch(`${baseUrl}/..%2F..%2Fetc%2Fpasswd`)).status).toBe(404);
+    });
+});
@@ -0,0 +1,76 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { createReadStream, statSync } from 'node:fs';
+import path from 'node:path';
+
+// CONSTANTS
+const MIME_TYPES: Record<string, string> = {
+    '.html': 'text/html; charset=utf-8',
+    '.js': 'text/javascript; charset=utf-8',
+    '.mjs': 'text/javascript; charset=utf-8',
+    '.css': 'text/css; charset=utf-8',
+    '.json': 'application/json; charset=utf-8',
+    '.webmanifest': 'application/manifest+json; charset=utf-8',
+    '.svg': 'image/svg+xml',
+    '.png': 'image/png',
+    '.ico': 'image/x-icon',
+    '.woff2': 'font/woff2',
+    '.txt': 'text/plain; charset=utf-8',
+};
+
+/** Vite puts content-hashed bundles here, so they never change under the same name. */
+const HASHED_ASSETS_DIR = 'assets';
+
+// HELPERS
+const isFile = (file: string) => {
+    try {
+        return statSync(file).isFile();
+    } catch {
+        return false;
+    }
+};
+
+// HANDLER
+/**
+ * Serves the built app (`npm run build`) so the API and the PWA share one origin and need no CORS.
+ * Paths without a file extension fall back to `index.html`, as the app keeps its view state in the URL.
+ */
+export const createStaticHandler = (root: string) => {
+    const rootDir = path.resolve(root);
+
+    return (req: IncomingMessage, res: ServerResponse) => {
+        if (req.method !== 'GET' && req.method !== 'HEAD') {
+            res.writeHead(405, { Allow: 'GET, HEAD' }).end();
+            return;
+        }
+        let pathname: string;
+        try {
+            pathname = decodeURIComponent(new URL(req.url ?? '/', 'http://localhost').pathname);
+        } catch {
+            res.writeHead(400).end();
+            return;
+        }
+        let file = path.resolve(rootDir, `.${pathname}`);
+        if (!file.startsWith(rootDir + path.sep) && file !== rootDir) {
+            res.writeHead(404).end();
+            return;
+        }
+        if (!isFile(file)) {
+            if (path.extname(pathname)) {
+                res.writeHead(404).end();
+                return;
+            }
+            file = path.join(rootDir, 'index.html');
+        }
+        const isHashed = path.relative(rootDir, file).startsWith(HASHED_ASSETS_DIR + path.sep);
+        res.writeHead(200, {
+            'Content-Type': MIME_TYPES[path.extname(file)] ?? 'application/octet-stream',
+            // Everything else, the service worker and index.html included, is revalidated so deploys show up.
+            'Cache-Control': isHashed ? 'public, max-age=31536000, immutable' : 'no-cache',
+        });
+        if (req.method === 'HEAD') {
+            res.end();
+            return;
+        }
+        createReadStream(file).pipe(res);
+    };
+};
@@ -0,0 +1,55 @@
+import JSZip from 'jszip';
+import type { Memo } from '../types';
+import type { MemoRepository } from './memoRepository';
+import { getMemoAttachments } from '../utils/attachments';
+
+// HELPERS
+/** Characters Windows and macOS refuse in file names, plus control characters. */
+const toArchiveName = (value: string) => value.replace(/[\\/:*?"<>|\u0000-\u001f]/g, '_').trim().slice(0, 80) || 'ไม่มีชื่อ';
+
+/** Appends " (2)", " (3)"… before the extension until the name is free. */
+const uniqueName = (name: string, used: Set<string>) => {
+    let candidate = name;
+    const dot = name.lastIndexOf('.');
+    const [stem, extension] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+    for (let n = 2; used.has(candidate.toLowerCase()); n++) candidate = `${stem} (${n})${extension}`;
+    used.add(candidate.toLowerCase());
+    return candidate;
+};
+
+// ARCHIVE
+/**
+ * Zips the current attachments of the given memos, one folder per memo named after its number
+ * and subject. Files missing from storage are skipped and counted.
+ */
+export const buildAttachmentArchive = async (
+    repository: MemoRepository,
+    memos: Memo[],
+    onProgress: (done: number, total: number) => void,
+): Promise<{ blob: Blob; fileCount: number; missingCount: number }> => {
+    const zip = new JSZip();
+    const folders = new Set<string>();
+    const total = memos.reduce((sum, memo) => sum + getMemoAttachments(memo).length, 0);
+    let done = 0;
+    let fileCount = 0;
+    let missingCount = 0;
+
+    for (const memo of memos) {
+        const attachments = getMemoAttachments(memo);
+        if (attachments.length === 0) continue;
+        const folder = zip.folder(uniqueName(toArchiveName(`${memo.memoNumber} ${memo.subject}`), folders));
+        const names = new Set<string>();
+        for (const attachment of attachments) {
+            const blob = await repository.getAttachment(attachment.id);
+            if (blob) {
+                folder.file(uniqueName(toArchiveName(attachment.name), names), blob);
+                fileCount++;
+            } else {
+                missingCount++;
+            }
+            onProgress(++done, total);
+        }
+    }
+
+    return { blob: await zip.generateAsync({ type: 'blob' }), fileCount, missingCount };
+};
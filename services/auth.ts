@@ -0,0 +1,210 @@
+import type { User } from '../types';
+import type { MemoRepository } from './memoRepository';
+import type { SyncSettings } from '../utils/sync';
+
+// TYPES
+/** An account with its credentials; the register server stores the same shape. */
+export interface StoredUser extends User {
+    /** Hex PBKDF2-SHA-256 of the password. */
+    passwordHash: string;
+    salt: string;
+}
+
+/**
+ * Where accounts live. The local backend keeps them in the memo repository so the app works
+ * offline; the remote backend keeps them on the register server, which enforces the roles.
+ */
+export interface AuthBackend {
+    kind: 'local' | 'remote';
+    listUsers: () => Promise<User[]>;
+    /** Throws AuthError when the username or password is wrong. */
+    authenticate: (username: string, password: string) => Promise<User>;
+    /** Creates or updates an account; the password is required for new accounts and optional otherwise. */
+    saveUser: (user: User, password?: string) => Promise<void>;
+    deleteUser: (id: string) => Promise<void>;
+    signOut: () => Promise<void>;
+}
+
+interface RemoteSession {
+    token: string;
+    userId: string;
+}
+
+export class AuthError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AuthError';
+    }
+}
+
+// CONSTANTS
+export const USERS_KEY = 'users';
+export const MIN_PASSWORD_LENGTH = 6;
+const SESSION_KEY = 'memo-management-session';
+const REMOTE_SESSION_KEY = 'memo-management-remote-session';
+/** Last account list fetched from the server, so the app still starts offline. */
+export const REMOTE_USERS_KEY = 'remoteUsers';
+const PBKDF2_ITERATIONS = 100_000;
+
+// HELPERS
+const toHex = (buffer: ArrayBuffer | Uint8Array) => [...new Uint8Array(buffer)].map(b => b.toString(16).padStart(2, '0')).join('');
+
+/** Browsers only offer Web Crypto on HTTPS and localhost, not on plain-HTTP addresses on the LAN. */
+export const isWebCryptoAvailable = () => typeof crypto !== 'undefined' && !!crypto.subtle && typeof crypto.randomUUID === 'function';
+
+const hashPassword = async (password: string, salt: string) => {
+    if (!isWebCryptoAvailable()) {
+        throw new AuthError('เบราว์เซอร์ไม่อนุญาตให้เข้ารหัสรหัสผ่านบนการเชื่อมต่อนี้ กรุณาเปิดระบบผ่าน https:// หรือ localhost');
+    }
+    const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+    const bits = await crypto.subtle.deriveBits(
+        { name: 'PBKDF2', hash: 'SHA-256', salt: new TextEncoder().encode(salt), iterations: PBKDF2_ITERATIONS },
+        key,
+        256,
+    );
+    return toHex(bits);
+};
+
+export const normalizeUsername = (username: string) => username.trim().toLowerCase();
+
+const toPublicUser = ({ passwordHash: _hash, salt: _salt, ...user }: StoredUser): User => user;
+
+const isLastAdmin = (users: StoredUser[], id: string) =>
+    users.filter(u => u.role === 'admin').length === 1 && users.find(u => u.id === id)?.role === 'admin';
+
+// LOCAL BACKEND
+export const createLocalAuthBackend = (repository: MemoRepository): AuthBackend => {
+    const load = () => repository.loadSetting<StoredUser[]>(USERS_KEY, []);
+    const save = (users: StoredUser[]) => repository.saveSetting(USERS_KEY, users);
+
+    return {
+        kind: 'local',
+        listUsers: async () => (await load()).map(toPublicUser),
+        authenticate: async (username, password) => {
+            const user = (await load()).find(u => u.username === normalizeUsername(username));
+            // Hash even for unknown users so both failures take the same time.
+            const hash = await hashPassword(password, user?.salt ?? 'unknown-user');
+            if (!user || hash !== user.passwordHash) {
+                throw new AuthError('ชื่อผู้ใช้หรือรหัสผ่านไม่ถูกต้อง');
+            }
+            return toPublicUser(user);
+        },
+        saveUser: async (user, password) => {
+            const users = await load();
+            const username = normalizeUsername(user.username);
+            if (!username) throw new AuthError('กรุณาระบุชื่อผู้ใช้');
+            if (users.some(u => u.username === username && u.id !== user.id)) {
+                throw new AuthError(`มีชื่อผู้ใช้ “${username}” แล้ว`);
+            }
+            const existing = users.find(u => u.id === user.id);
+            if (!existing && !password) throw new AuthError('กรุณากำหนดรหัสผ่านสำหรับผู้ใช้ใหม่');
+            if (password !== undefined && password.length < MIN_PASSWORD_LENGTH) {
+                throw new AuthError(`รหัสผ่านต้องมีอย่างน้อย ${MIN_PASSWORD_LENGTH} ตัวอักษร`);
+            }
+            if (existing && user.role !== 'admin' && isLastAdmin(users, user.id)) {
+                throw new AuthError('ต้องมีผู้ดูแลระบบอย่างน้อยหนึ่งคน');
+            }
+            let credentials = { passwordHash: existing?.passwordHash, salt: existing?.salt };
+            if (password) {
+                const salt = toHex(crypto.getRandomValues(new Uint8Array(16)));
+                credentials = { passwordHash: await hashPassword(password, salt), salt };
+            }
+            const stored: StoredUser = { ...user, username, ...credentials } as StoredUser;
+            await save(existing ? users.map(u => u.id === user.id ? stored : u) : [...users, stored]);
+        },
+        deleteUser: async (id) => {
+            const users = await load();
+            if (isLastAdmin(users, id)) throw new AuthError('ไม่สามารถลบผู้ดูแลระบบคนสุดท้ายได้');
+            await save(users.filter(u => u.id !== id));
+        },
+        signOut: async () => {},
+    };
+};
+
+// REMOTE BACKEND
+const loadRemoteSession = (): RemoteSession | null => {
+    try {
+        return JSON.parse(sessionStorage.getItem(REMOTE_SESSION_KEY) ?? 'null');
+    } catch {
+        return null;
+    }
+};
+
+/** The server session of the signed-in user, sent with every sync request. */
+export const getRemoteSessionToken = () => loadRemoteSession()?.token ?? null;
+
+export const createRemoteAuthBackend = ({ serverUrl, token }: SyncSettings, repository: MemoRepository): AuthBackend => {
+    const baseUrl = serverUrl.trim().replace(/\/+$/, '');
+
+    const request = async <T,>(path: string, init: RequestInit = {}): Promise<T> => {
+        const session = getRemoteSessionToken();
+        let response: Response;
+        try {
+            response = await fetch(`${baseUrl}/api${path}`, {
+                ...init,
+                headers: {
+                    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+                    ...(session ? { 'X-Memo-Session': session } : {}),
+                    ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+                },
+            });
+        } catch {
+            throw new AuthError('ไม่สามารถเชื่อมต่อเซิร์ฟเวอร์ได้');
+        }
+        const body = response.status === 204 ? null : await response.json().catch(() => null);
+        if (!response.ok) {
+            if (body?.reason === 'token') throw new AuthError('รหัสเข้าถึงเซิร์ฟเวอร์ไม่ถูกต้อง');
+            throw new AuthError(body?.error || `เซิร์ฟเวอร์ตอบกลับผิดพลาด (${response.status})`);
+        }
+        return body;
+    };
+
+    return {
+        kind: 'remote',
+        listUsers: async () => {
+            try {
+                const users = await request<User[]>('/users');
+                await repository.saveSetting(REMOTE_USERS_KEY, users);
+                return users;
+            } catch (error) {
+                if (!(error instanceof AuthError)) throw error;
+                return repository.loadSetting<User[]>(REMOTE_USERS_KEY, []);
+            }
+        },
+        authenticate: async (username, password) => {
+            const { session, user } = await request<{ session: string; user: User }>('/session', { method: 'POST', body: JSON.stringify({ username, password }) });
+            sessionStorage.setItem(REMOTE_SESSION_KEY, JSON.stringify({ token: session, userId: user.id }));
+            return user;
+        },
+        saveUser: async (user, password) => {
+            await request(`/users/${encodeURIComponent(user.id)}`, { method: 'PUT', body: JSON.stringify({ user, password }) });
+        },
+        deleteUser: async (id) => {
+            await request(`/users/${encodeURIComponent(id)}`, { method: 'DELETE' });
+        },
+        signOut: async () => {
+            if (getRemoteSessionToken()) await request('/session', { method: 'DELETE' });
+        },
+    };
+};
+
+// SESSION
+/**
+ * The signed-in user for this browser tab; cleared when the tab closes. A server account
+ * also needs its server session, which the remote backend keeps for the same tab.
+ */
+export const restoreSession = async (backend: AuthBackend): Promise<User | null> => {
+    const id = sessionStorage.getItem(SESSION_KEY);
+    if (!id) return null;
+    if (backend.kind === 'remote' && loadRemoteSession()?.userId !== id) return null;
+    return (await backend.listUsers()).find(u => u.id === id) ?? null;
+};
+
+export const saveSession = (user: User | null) => {
+    if (user) {
+        sessionStorage.setItem(SESSION_KEY, user.id);
+    } else {
+        sessionStorage.removeItem(SESSION_KEY);
+        sessionStorage.removeItem(REMOTE_SESSION_KEY);
+    }
+};
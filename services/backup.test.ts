@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import type { Memo, Teacher, User } from '../types';
+import { createLocalStorageRepository } from './memoRepository';
+import { createBackup, parseBackup, restoreBackup, diffBackupSettings, BackupValidationError } from './backup';
+
+const admin: User = { id: 'u1', username: 'admin', displayName: 'ผู้ดูแล', role: 'admin', department: '' };
+const makeTeacher = (id: string, fullName: string): Teacher => ({ id, fullName, position: '', defaultDepartment: '', aliases: [] });
+const makeMemo = (id: string): Memo => ({ id, memoNumber: `ว ${id}/2568`, date: '2025-06-01', teacher: 'ครูสมศรี', subject: `เรื่อง ${id}`, department: 'งานบริหารวิชาการ' });
+
+// jsdom's Blob has no text(), so files are read with FileReader and handed over as the one method parseBackup uses.
+const readText = (blob: Blob) => new Promise<string>(resolve => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.readAsText(blob);
+});
+const toFile = (text: string) => ({ text: async () => text }) as File;
+
+describe('backup', () => {
+    it('moves memos missing from the backup to the trash on replace, keeping their files', async () => {
+        const repository = createLocalStorageRepository();
+        await repository.saveAttachment('a1', new Blob(['hello'], { type: 'text/plain' }));
+        const kept = makeMemo('1');
+        const removed = { ...makeMemo('2'), attachments: [{ id: 'a1', name: 'note.txt', type: 'text/plain', size: 5, uploadedAt: '2025-06-01T00:00:00.000Z' }] };
+        const backup = await parseBackup(toFile(await readText(await createBackup(repository, [kept], ['งานบริหารวิชาการ'], {}))));
+
+        const restored = await restoreBackup(repository, backup, 'replace', [kept, removed], ['งานบริหารวิชาการ'], {}, admin);
+
+        expect(restored.memos.map(m => m.id)).toEqual(['1', '2']);
+        expect(restored.memos[1].deleted).toMatchObject({ userId: admin.id });
+        expect(await repository.getAttachment('a1')).not.toBeNull();
+    });
+
+    it('rejects a file whose attachments are malformed', async () => {
+        const repository = createLocalStorageRepository();
+        const backup = JSON.parse(await readText(await createBackup(repository, [makeMemo('1')], [], {})));
+        backup.payload.attachments = [{ id: 1 }];
+        const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(backup.payload)));
+        backup.checksum = [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+
+        const error = await parseBackup(toFile(JSON.stringify(backup))).catch(e => e);
+        expect(error).toBeInstanceOf(BackupValidationError);
+        expect(error.message).toBe('โครงสร้างไฟล์สำรองข้อมูลไม่สมบูรณ์');
+    });
+
+    it('restores teachers, colours, schemes and the workflow with the memos', async () => {
+        const repository = createLocalStorageRepository();
+        const settings = {
+            teachers: [makeTeacher('t1', 'ครูสมศรี')],
+            departmentColors: { 'งานบริหารวิชาการ': '#112233' },
+            registerSchemes: { order: { prefix: 'คส ', pattern: '{prefix}{seq}/{year}', padding: 1, yearBasis: 'calendar' as const } },
+            workflow: { transitions: [] },
+        };
+        const backup = await parseBackup(toFile(await readText(await createBackup(repository, [makeMemo('1')], [], settings))));
+        const current = { teachers: [makeTeacher('t2', 'ครูสมชาย')], departmentColors: { 'งานกลาง': '#445566' } };
+
+        expect(diffBackupSettings(current, backup.payload.settings)).toEqual(['teachers', 'departmentColors', 'registerSchemes', 'workflow']);
+        const merged = await restoreBackup(repository, backup, 'merge', [], [], current, admin);
+        expect(merged.settings).toEqual({
+            ...settings,
+            teachers: [makeTeacher('t1', 'ครูสมศรี'), makeTeacher('t2', 'ครูสมชาย')],
+            departmentColors: { 'งานกลาง': '#445566', 'งานบริหารวิชาการ': '#112233' },
+        });
+    });
+
+    it('keeps teachers that trashed memos still refer to on replace', async () => {
+        const repository = createLocalStorageRepository();
+        const backup = await parseBackup(toFile(await readText(await createBackup(repository, [], [], { teachers: [makeTeacher('t1', 'ครูสมศรี')] }))));
+        const current = { teachers: [makeTeacher('t2', 'ครูสมชาย'), makeTeacher('t3', 'ครูสมหญิง')] };
+
+        const restored = await restoreBackup(repository, backup, 'replace', [{ ...makeMemo('1'), teacherId: 't2' }], [], current, admin);
+        expect(restored.settings.teachers?.map(t => t.id)).toEqual(['t1', 't2']);
+    });
+});
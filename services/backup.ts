@@ -0,0 +1,270 @@
+import type { Memo, Department, Teacher, User } from '../types';
+import { blobToDataUrl, dataUrlToBlob, type MemoRepository } from './memoRepository';
+import type { NumberingSchemes } from '../utils/memoNumbering';
+import type { DepartmentColors } from '../utils/departments';
+import type { RegisterSchemes } from '../utils/registers';
+import type { WorkflowConfig } from '../utils/workflow';
+import type { TrashSettings } from '../utils/trash';
+import { upgradeLegacyFile } from '../utils/attachments';
+import { getAllAttachments } from '../utils/revisions';
+import { coerceMemoShape } from '../utils/memoValidation';
+import { moveToTrash } from '../utils/trash';
+
+// TYPES
+export const BACKUP_FORMAT = 'memo-management-backup';
+/** Version 2 replaced the single `file` field on memos with the `attachments` list. */
+export const BACKUP_SCHEMA_VERSION = 2;
+
+export interface BackupAttachment {
+    id: string;
+    name: string;
+    dataUrl: string;
+}
+
+/** Settings shared by the whole register. Older backups lack some keys; those are left as they are. */
+export interface BackupSettings {
+    numberingSchemes?: NumberingSchemes;
+    teachers?: Teacher[];
+    departmentColors?: DepartmentColors;
+    registerSchemes?: RegisterSchemes;
+    workflow?: WorkflowConfig;
+    trashSettings?: TrashSettings;
+}
+
+export type BackupSettingKey = keyof BackupSettings;
+
+export interface BackupPayload {
+    memos: Memo[];
+    departments: Department[];
+    settings: BackupSettings;
+    attachments: BackupAttachment[];
+}
+
+export interface BackupFile {
+    format: typeof BACKUP_FORMAT;
+    schemaVersion: number;
+    createdAt: string;
+    /** Hex SHA-256 of `JSON.stringify(payload)`. */
+    checksum: string;
+    payload: BackupPayload;
+}
+
+export interface BackupDiff {
+    added: Memo[];
+    changed: { before: Memo; after: Memo }[];
+    removed: Memo[];
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+// CONSTANTS
+export const BACKUP_SETTING_LABELS: Record<BackupSettingKey, string> = {
+    numberingSchemes: 'รูปแบบเลขที่ของฝ่ายงาน',
+    teachers: 'รายชื่อครู',
+    departmentColors: 'สีของฝ่ายงาน',
+    registerSchemes: 'รูปแบบเลขที่ของทะเบียนรับ/ส่ง/คำสั่ง',
+    workflow: 'ขั้นตอนการดำเนินงาน',
+    trashSettings: 'ระยะเวลาเก็บในถังขยะ',
+};
+
+export class BackupValidationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'BackupValidationError';
+    }
+}
+
+// HELPERS
+const sha256 = async (text: string) => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isMemoLike = (value: unknown): value is Memo =>
+    isRecord(value) &&
+    typeof value.id === 'string' &&
+    ['memoNumber', 'date', 'teacher', 'subject', 'department'].every(key => typeof value[key] === 'string');
+
+const isAttachmentLike = (value: unknown): value is BackupAttachment =>
+    isRecord(value) && ['id', 'name', 'dataUrl'].every(key => typeof value[key] === 'string');
+
+const isTeacherLike = (value: unknown): value is Teacher =>
+    isRecord(value) && typeof value.id === 'string' && typeof value.fullName === 'string';
+
+const SETTING_VALIDATORS: Record<BackupSettingKey, (value: unknown) => boolean> = {
+    numberingSchemes: value => isRecord(value) && Object.values(value).every(isRecord),
+    teachers: value => Array.isArray(value) && value.every(isTeacherLike),
+    departmentColors: value => isRecord(value) && Object.values(value).every(c => typeof c === 'string'),
+    registerSchemes: value => isRecord(value) && Object.values(value).every(isRecord),
+    workflow: value => isRecord(value) && Array.isArray(value.transitions),
+    trashSettings: value => isRecord(value) && Number.isInteger(value.retentionDays) && (value.retentionDays as number) >= 0,
+};
+
+const parseSettings = (value: unknown): BackupSettings => {
+    if (value === undefined) return {};
+    if (!isRecord(value)) throw new BackupValidationError('การตั้งค่าในไฟล์สำรองข้อมูลไม่ถูกต้อง');
+    const settings: Record<string, unknown> = {};
+    (Object.keys(SETTING_VALIDATORS) as BackupSettingKey[]).forEach(key => {
+        if (value[key] === undefined) return;
+        if (!SETTING_VALIDATORS[key](value[key])) throw new BackupValidationError(`${BACKUP_SETTING_LABELS[key]}ในไฟล์สำรองข้อมูลไม่ถูกต้อง`);
+        settings[key] = value[key];
+    });
+    return settings as BackupSettings;
+};
+
+/**
+ * Settings to apply after a restore: only keys the backup has. Merging keeps current entries the
+ * backup lacks; replacing still keeps teachers that a memo in the result refers to.
+ */
+const restoreSettings = (current: BackupSettings, incoming: BackupSettings, mode: RestoreMode, memos: Memo[]): BackupSettings => {
+    const settings: BackupSettings = { ...incoming };
+    if (incoming.teachers) {
+        const incomingIds = new Set(incoming.teachers.map(t => t.id));
+        const referenced = new Set(memos.map(m => m.teacherId).filter(Boolean));
+        const kept = (current.teachers ?? []).filter(t => !incomingIds.has(t.id) && (mode === 'merge' || referenced.has(t.id)));
+        settings.teachers = [...incoming.teachers, ...kept];
+    }
+    if (mode === 'merge') {
+        if (incoming.numberingSchemes) settings.numberingSchemes = { ...current.numberingSchemes, ...incoming.numberingSchemes };
+        if (incoming.departmentColors) settings.departmentColors = { ...current.departmentColors, ...incoming.departmentColors };
+        if (incoming.registerSchemes) settings.registerSchemes = { ...current.registerSchemes, ...incoming.registerSchemes };
+    }
+    return settings;
+};
+
+const memoFingerprint = (memo: Memo) => JSON.stringify(memo, Object.keys(memo).sort());
+
+// BACKUP
+export const createBackup = async (
+    repository: MemoRepository,
+    memos: Memo[],
+    departments: Department[],
+    settings: BackupSettings,
+): Promise<Blob> => {
+    const attachments: BackupAttachment[] = [];
+    for (const attachment of memos.flatMap(getAllAttachments)) {
+        const blob = await repository.getAttachment(attachment.id);
+        if (blob) {
+            attachments.push({ id: attachment.id, name: attachment.name, dataUrl: await blobToDataUrl(blob) });
+        }
+    }
+    const payload: BackupPayload = { memos, departments, settings, attachments };
+    const backup: BackupFile = {
+        format: BACKUP_FORMAT,
+        schemaVersion: BACKUP_SCHEMA_VERSION,
+        createdAt: new Date().toISOString(),
+        checksum: await sha256(JSON.stringify(payload)),
+        payload,
+    };
+    return new Blob([JSON.stringify(backup)], { type: 'application/json' });
+};
+
+// RESTORE
+export const parseBackup = async (file: File): Promise<BackupFile> => {
+    let backup: unknown;
+    try {
+        backup = JSON.parse(await file.text());
+    } catch {
+        throw new BackupValidationError('ไฟล์นี้ไม่ใช่ไฟล์ JSON ที่ถูกต้อง');
+    }
+    if (!isRecord(backup) || backup.format !== BACKUP_FORMAT) {
+        throw new BackupValidationError('ไฟล์นี้ไม่ใช่ไฟล์สำรองข้อมูลของระบบทะเบียนคุมบันทึกข้อความ');
+    }
+    const { schemaVersion, payload } = backup;
+    if (typeof schemaVersion !== 'number' || schemaVersion > BACKUP_SCHEMA_VERSION) {
+        throw new BackupValidationError(`ไฟล์สำรองเวอร์ชัน ${schemaVersion} ใหม่กว่าที่ระบบนี้รองรับ`);
+    }
+    if (!isRecord(payload) || !Array.isArray(payload.memos) || !Array.isArray(payload.departments) || !Array.isArray(payload.attachments)) {
+        throw new BackupValidationError('โครงสร้างไฟล์สำรองข้อมูลไม่สมบูรณ์');
+    }
+    if (await sha256(JSON.stringify(payload)) !== backup.checksum) {
+        throw new BackupValidationError('ค่าตรวจสอบ (checksum) ไม่ตรงกัน ไฟล์อาจเสียหายหรือถูกแก้ไข');
+    }
+    const invalid = payload.memos.filter(m => !isMemoLike(m));
+    if (invalid.length > 0) {
+        throw new BackupValidationError(`พบข้อมูลบันทึกข้อความที่ไม่ถูกต้อง ${invalid.length} รายการ`);
+    }
+    if (!payload.departments.every(d => typeof d === 'string') || !payload.attachments.every(isAttachmentLike)) {
+        throw new BackupValidationError('โครงสร้างไฟล์สำรองข้อมูลไม่สมบูรณ์');
+    }
+    let memos = (payload.memos as Memo[]).map(coerceMemoShape);
+    if (schemaVersion < 2) {
+        memos = memos.map(upgradeLegacyFile);
+    }
+    return {
+        format: BACKUP_FORMAT,
+        schemaVersion,
+        createdAt: typeof backup.createdAt === 'string' ? backup.createdAt : '',
+        checksum: backup.checksum as string,
+        payload: {
+            memos,
+            departments: payload.departments as Department[],
+            settings: parseSettings(payload.settings),
+            attachments: payload.attachments as BackupAttachment[],
+        },
+    };
+};
+
+export const diffBackup = (current: Memo[], incoming: Memo[]): BackupDiff => {
+    const currentById = new Map(current.map(m => [m.id, m]));
+    const incomingIds = new Set(incoming.map(m => m.id));
+    const added: Memo[] = [];
+    const changed: BackupDiff['changed'] = [];
+    incoming.forEach(memo => {
+        const before = currentById.get(memo.id);
+        if (!before) {
+            added.push(memo);
+        } else if (memoFingerprint(before) !== memoFingerprint(memo)) {
+            changed.push({ before, after: memo });
+        }
+    });
+    return { added, changed, removed: current.filter(m => !incomingIds.has(m.id)) };
+};
+
+/** Settings the backup would change, for the restore preview. */
+export const diffBackupSettings = (current: BackupSettings, incoming: BackupSettings): BackupSettingKey[] =>
+    (Object.keys(BACKUP_SETTING_LABELS) as BackupSettingKey[])
+        .filter(key => incoming[key] !== undefined && JSON.stringify(incoming[key]) !== JSON.stringify(current[key]));
+
+/**
+ * Writes the backup's attachments into the repository and returns the memos, departments and
+ * settings the caller should commit through its usual save functions. Nothing is deleted here:
+ * a replace moves memos missing from the backup to the trash, so their files stay until it is purged.
+ */
+export const restoreBackup = async (
+    repository: MemoRepository,
+    backup: BackupFile,
+    mode: RestoreMode,
+    currentMemos: Memo[],
+    currentDepartments: Department[],
+    currentSettings: BackupSettings,
+    user: User,
+): Promise<{ memos: Memo[]; departments: Department[]; settings: BackupSettings }> => {
+    const { payload } = backup;
+    for (const attachment of payload.attachments) {
+        await repository.saveAttachment(attachment.id, await dataUrlToBlob(attachment.dataUrl));
+    }
+
+    if (mode === 'replace') {
+        const incomingIds = new Set(payload.memos.map(m => m.id));
+        const trashed = currentMemos
+            .filter(m => !incomingIds.has(m.id))
+            .map(m => m.deleted ? m : moveToTrash(m, user));
+        const memos = [...payload.memos, ...trashed];
+        return { memos, departments: payload.departments, settings: restoreSettings(currentSettings, payload.settings, mode, memos) };
+    }
+
+    const incomingById = new Map(payload.memos.map(m => [m.id, m]));
+    const merged = currentMemos.map(m => incomingById.get(m.id) ?? m);
+    const currentIds = new Set(currentMemos.map(m => m.id));
+    payload.memos.forEach(m => {
+        if (!currentIds.has(m.id)) merged.push(m);
+    });
+    return {
+        memos: merged,
+        departments: [...new Set([...currentDepartments, ...payload.departments])],
+        settings: restoreSettings(currentSettings, payload.settings, mode, merged),
+    };
+};
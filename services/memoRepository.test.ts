@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { createLocalStorageRepository, openMemoRepository, blobToDataUrl, DEFAULT_DEPARTMENTS } from './memoRepository';
+
+describe('localStorage repository', () => {
+    it('round-trips memos, departments and settings', async () => {
+        const repository = createLocalStorageRepository();
+        const memo = { id: 'm1', memoNumber: 'ว 1/2568', date: '2025-06-01', teacher: 'ครูสมศรี', subject: 'ทดสอบ', department: 'งานบริหารวิชาการ' };
+        await repository.saveMemos([memo]);
+        await repository.saveDepartments(['งานบริหารวิชาการ']);
+        await repository.saveSetting('dateLocale', 'en');
+
+        expect(await repository.loadMemos()).toEqual([memo]);
+        expect(await repository.loadDepartments()).toEqual(['งานบริหารวิชาการ']);
+        expect(await repository.loadSetting('dateLocale', 'th')).toBe('en');
+        expect(await repository.loadSetting('missing', 42)).toBe(42);
+    });
+
+    it('starts with the default departments', async () => {
+        expect(await createLocalStorageRepository().loadDepartments()).toEqual(DEFAULT_DEPARTMENTS);
+    });
+
+    it('moves inline legacy files into the attachment store', async () => {
+        window.localStorage.setItem('memos', JSON.stringify([{
+            id: 'm1', memoNumber: '1', date: '2025-06-01', teacher: 'ครู', subject: 'ไฟล์เก่า', department: 'งาน',
+            file: { name: 'note.txt', dataUrl: 'data:text/plain;base64,aGVsbG8=' },
+        }]));
+        const repository = createLocalStorageRepository();
+        const [memo] = await repository.loadMemos();
+
+        expect(memo.file).toBeUndefined();
+        expect(memo.attachments).toHaveLength(1);
+        expect(memo.attachments[0]).toMatchObject({ name: 'note.txt', type: 'text/plain', size: 5 });
+        expect(await repository.listAttachmentIds()).toEqual([memo.attachments[0].id]);
+        expect(await blobToDataUrl(await repository.getAttachment(memo.attachments[0].id))).toBe('data:text/plain;base64,aGVsbG8=');
+    });
+
+    it('repairs records with missing or mistyped fields', async () => {
+        window.localStorage.setItem('memos', JSON.stringify([null, { memoNumber: 12, subject: 'ไม่มีรหัส' }]));
+        const [memo] = await createLocalStorageRepository().loadMemos();
+
+        expect(memo.id).toEqual(expect.any(String));
+        expect(memo.memoNumber).toBe('12');
+        expect(memo.teacher).toBe('');
+    });
+});
+
+describe('openMemoRepository', () => {
+    it('falls back to localStorage without IndexedDB', async () => {
+        expect((await openMemoRepository()).kind).toBe('localstorage');
+    });
+});
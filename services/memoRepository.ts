@@ -0,0 +1,269 @@
+import type { Memo, Department } from '../types';
+import { upgradeLegacyFile } from '../utils/attachments';
+import { coerceMemoShape } from '../utils/memoValidation';
+
+export const DEFAULT_DEPARTMENTS: Department[] = ["งานบริหารวิชาการ", "งานบริหารงบประมาณ", "งานบริหารบุคลากร", "งานบริหารทั่วไป"];
+
+// REPOSITORY CONTRACT
+export interface MemoRepository {
+    kind: 'indexeddb' | 'localstorage';
+    loadMemos: () => Promise<Memo[]>;
+    saveMemos: (memos: Memo[]) => Promise<void>;
+    loadDepartments: () => Promise<Department[]>;
+    saveDepartments: (departments: Department[]) => Promise<void>;
+    saveAttachment: (id: string, blob: Blob) => Promise<void>;
+    getAttachment: (id: string) => Promise<Blob | null>;
+    deleteAttachment: (id: string) => Promise<void>;
+    listAttachmentIds: () => Promise<string[]>;
+    /** Small JSON-serializable app settings (numbering schemes, presets, ...) stored next to the register. */
+    loadSetting: <T>(key: string, defaultValue: T) => Promise<T>;
+    saveSetting: <T>(key: string, value: T) => Promise<void>;
+}
+
+export class StorageQuotaError extends Error {
+    constructor(message = 'พื้นที่จัดเก็บข้อมูลของเบราว์เซอร์เต็ม') {
+        super(message);
+        this.name = 'StorageQuotaError';
+    }
+}
+
+const isQuotaError = (error: unknown) =>
+    error instanceof DOMException &&
+    (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED' || error.code === 22);
+
+const wrapStorageError = (error: unknown): unknown => isQuotaError(error) ? new StorageQuotaError() : error;
+
+// HELPERS
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.readAsDataURL(blob);
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = (error) => reject(error);
+    });
+};
+
+/** Decoded in place rather than through `fetch`, which a strict Content-Security-Policy may refuse for data: URLs. */
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => {
+    const [header, payload = ''] = dataUrl.split(',', 2);
+    const type = header.replace(/^data:/, '').replace(/;base64$/, '');
+    if (!header.endsWith(';base64')) return new Blob([decodeURIComponent(payload)], { type });
+    return new Blob([Uint8Array.from(atob(payload), c => c.charCodeAt(0))], { type });
+};
+
+/**
+ * Brings a memo stored in an older shape up to date: an inline `file.dataUrl` (the
+ * pre-repository format) is moved into the attachment store, and the single `file` field
+ * becomes the `attachments` list.
+ */
+const upgradeMemo = async (memo: Memo, repository: MemoRepository): Promise<Memo> => {
+    if (!memo.file) return memo;
+    if (!memo.file.dataUrl) return upgradeLegacyFile(memo);
+    const { dataUrl, ...file } = memo.file;
+    const blob = await dataUrlToBlob(dataUrl);
+    const id = file.id || crypto.randomUUID();
+    await repository.saveAttachment(id, blob);
+    return upgradeLegacyFile({ ...memo, file: { ...file, id, type: file.type || blob.type, size: blob.size } });
+};
+
+const upgradeMemos = async (stored: Memo[], repository: MemoRepository): Promise<Memo[]> => {
+    const memos = stored.filter(m => m && typeof m === 'object').map(coerceMemoShape);
+    if (!memos.some(m => m.file)) return memos;
+    const upgraded = await Promise.all(memos.map(m => upgradeMemo(m, repository)));
+    await repository.saveMemos(upgraded);
+    return upgraded;
+};
+
+// LOCAL STORAGE BACKEND
+const ATTACHMENT_KEY_PREFIX = 'attachment:';
+const SETTING_KEY_PREFIX = 'setting:';
+
+const readLocalStorage = <T,>(key: string, defaultValue: T): T => {
+    try {
+        const item = window.localStorage.getItem(key);
+        return item ? JSON.parse(item) : defaultValue;
+    } catch (error) {
+        console.error(`Error reading from localStorage key “${key}”:`, error);
+        return defaultValue;
+    }
+};
+
+const writeLocalStorage = (key: string, value: string) => {
+    try {
+        window.localStorage.setItem(key, value);
+    } catch (error) {
+        throw wrapStorageError(error);
+    }
+};
+
+export const createLocalStorageRepository = (): MemoRepository => {
+    const repository: MemoRepository = {
+        kind: 'localstorage',
+        loadMemos: () => upgradeMemos(readLocalStorage<Memo[]>('memos', []), repository),
+        saveMemos: async (memos) => writeLocalStorage('memos', JSON.stringify(memos)),
+        loadDepartments: async () => readLocalStorage<Department[]>('departments', DEFAULT_DEPARTMENTS),
+        saveDepartments: async (departments) => writeLocalStorage('departments', JSON.stringify(departments)),
+        saveAttachment: async (id, blob) => writeLocalStorage(ATTACHMENT_KEY_PREFIX + id, await blobToDataUrl(blob)),
+        getAttachment: async (id) => {
+            const dataUrl = window.localStorage.getItem(ATTACHMENT_KEY_PREFIX + id);
+            return dataUrl ? dataUrlToBlob(dataUrl) : null;
+        },
+        deleteAttachment: async (id) => window.localStorage.removeItem(ATTACHMENT_KEY_PREFIX + id),
+        listAttachmentIds: async () => Object.keys(window.localStorage)
+            .filter(key => key.startsWith(ATTACHMENT_KEY_PREFIX))
+            .map(key => key.slice(ATTACHMENT_KEY_PREFIX.length)),
+        loadSetting: async (key, defaultValue) => readLocalStorage(SETTING_KEY_PREFIX + key, defaultValue),
+        saveSetting: async (key, value) => writeLocalStorage(SETTING_KEY_PREFIX + key, JSON.stringify(value)),
+    };
+    return repository;
+};
+
+// INDEXEDDB BACKEND
+const DB_NAME = 'memo-management-system';
+const DB_VERSION = 1;
+const MEMO_STORE = 'memos';
+const ATTACHMENT_STORE = 'attachments';
+const META_STORE = 'meta';
+const MIGRATION_FLAG = 'migratedFromLocalStorage';
+const MEMO_ORDER_KEY = 'memoOrder';
+
+const promisifyRequest = <T,>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(wrapStorageError(request.error));
+    });
+};
+
+const completeTransaction = (tx: IDBTransaction): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(wrapStorageError(tx.error));
+        tx.onabort = () => reject(wrapStorageError(tx.error));
+    });
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    return new Promise((resolve, reject) => {
+        const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(MEMO_STORE)) db.createObjectStore(MEMO_STORE, { keyPath: 'id' });
+            if (!db.objectStoreNames.contains(ATTACHMENT_STORE)) db.createObjectStore(ATTACHMENT_STORE);
+            if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => reject(new Error('IndexedDB open request was blocked'));
+    });
+};
+
+export const createIndexedDbRepository = (db: IDBDatabase): MemoRepository => {
+    const repository: MemoRepository = {
+        kind: 'indexeddb',
+        loadMemos: async () => {
+            // The object store returns records in key order, so the register order is kept separately.
+            const tx = db.transaction([MEMO_STORE, META_STORE]);
+            const [memos, order] = await Promise.all([
+                promisifyRequest<Memo[]>(tx.objectStore(MEMO_STORE).getAll()),
+                promisifyRequest<string[] | undefined>(tx.objectStore(META_STORE).get(MEMO_ORDER_KEY)),
+            ]);
+            if (order) {
+                const position = new Map(order.map((id, index) => [id, index]));
+                memos.sort((a, b) => (position.get(a.id) ?? order.length) - (position.get(b.id) ?? order.length));
+            }
+            return upgradeMemos(memos, repository);
+        },
+        saveMemos: async (memos) => {
+            const tx = db.transaction([MEMO_STORE, META_STORE], 'readwrite');
+            const store = tx.objectStore(MEMO_STORE);
+            store.clear();
+            memos.forEach(memo => store.put(memo));
+            tx.objectStore(META_STORE).put(memos.map(m => m.id), MEMO_ORDER_KEY);
+            await completeTransaction(tx);
+        },
+        loadDepartments: async () => {
+            const departments = await promisifyRequest<Department[] | undefined>(db.transaction(META_STORE).objectStore(META_STORE).get('departments'));
+            return departments ?? DEFAULT_DEPARTMENTS;
+        },
+        saveDepartments: async (departments) => {
+            const tx = db.transaction(META_STORE, 'readwrite');
+            tx.objectStore(META_STORE).put(departments, 'departments');
+            await completeTransaction(tx);
+        },
+        saveAttachment: async (id, blob) => {
+            const tx = db.transaction(ATTACHMENT_STORE, 'readwrite');
+            tx.objectStore(ATTACHMENT_STORE).put(blob, id);
+            await completeTransaction(tx);
+        },
+        getAttachment: async (id) => {
+            const blob = await promisifyRequest<Blob | undefined>(db.transaction(ATTACHMENT_STORE).objectStore(ATTACHMENT_STORE).get(id));
+            return blob ?? null;
+        },
+        deleteAttachment: async (id) => {
+            const tx = db.transaction(ATTACHMENT_STORE, 'readwrite');
+            tx.objectStore(ATTACHMENT_STORE).delete(id);
+            await completeTransaction(tx);
+        },
+        listAttachmentIds: async () => {
+            const keys = await promisifyRequest(db.transaction(ATTACHMENT_STORE).objectStore(ATTACHMENT_STORE).getAllKeys());
+            return keys.map(String);
+        },
+        loadSetting: async (key, defaultValue) => {
+            const value = await promisifyRequest(db.transaction(META_STORE).objectStore(META_STORE).get(SETTING_KEY_PREFIX + key));
+            return value === undefined ? defaultValue : value;
+        },
+        saveSetting: async (key, value) => {
+            const tx = db.transaction(META_STORE, 'readwrite');
+            tx.objectStore(META_STORE).put(value, SETTING_KEY_PREFIX + key);
+            await completeTransaction(tx);
+        },
+    };
+    return repository;
+};
+
+/**
+ * Copies the localStorage register into IndexedDB exactly once. The localStorage keys are
+ * left in place so the fallback backend still has the pre-migration data if it is ever needed.
+ */
+const migrateFromLocalStorage = async (db: IDBDatabase, repository: MemoRepository) => {
+    const migrated = await promisifyRequest(db.transaction(META_STORE).objectStore(META_STORE).get(MIGRATION_FLAG));
+    if (migrated) return;
+
+    const legacyMemos = readLocalStorage<Memo[] | null>('memos', null);
+    const legacyDepartments = readLocalStorage<Department[] | null>('departments', null);
+    if (legacyMemos) {
+        const memos = await Promise.all(legacyMemos.map(m => upgradeMemo(m, repository)));
+        await repository.saveMemos(memos);
+    }
+    if (legacyDepartments) {
+        await repository.saveDepartments(legacyDepartments);
+    }
+
+    const tx = db.transaction(META_STORE, 'readwrite');
+    tx.objectStore(META_STORE).put(new Date().toISOString(), MIGRATION_FLAG);
+    await completeTransaction(tx);
+};
+
+// FACTORY
+let repositoryPromise: Promise<MemoRepository> | null = null;
+
+const initRepository = async (): Promise<MemoRepository> => {
+    if (typeof window === 'undefined' || !window.indexedDB) {
+        return createLocalStorageRepository();
+    }
+    try {
+        const db = await openDatabase();
+        const repository = createIndexedDbRepository(db);
+        await migrateFromLocalStorage(db, repository);
+        return repository;
+    } catch (error) {
+        console.error('IndexedDB unavailable, falling back to localStorage:', error);
+        return createLocalStorageRepository();
+    }
+};
+
+/** Opens the preferred backend once per page load; later calls share the same instance. */
+export const openMemoRepository = (): Promise<MemoRepository> => {
+    repositoryPromise ??= initRepository();
+    return repositoryPromise;
+};
@@ -0,0 +1,14 @@
+import { describe, it, expect } from 'vitest';
+import type { Memo } from '../types';
+import { getReminderUrl } from './notifications';
+import { parseViewState } from '../utils/viewState';
+
+const memo: Memo = { id: '1', memoNumber: 'รับ 12/2568', date: '2025-06-01', teacher: 'ครูสมศรี', subject: 'ทดสอบ', department: 'งานบริหารวิชาการ', register: 'incoming' };
+
+describe('getReminderUrl', () => {
+    it('opens the memo\'s own register searched for its number', () => {
+        const url = new URL(getReminderUrl(memo, 'https://memo.school.ac.th/app/'));
+        expect(url.pathname).toBe('/app/');
+        expect(parseViewState(url.search).filters).toMatchObject({ register: 'incoming', query: 'รับ 12/2568' });
+    });
+});
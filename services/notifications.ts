@@ -0,0 +1,38 @@
+import type { Memo } from '../types';
+import { formatDaysUntilDue, getDaysUntilDue } from '../utils/deadlines';
+import { getMemoRegister } from '../utils/registers';
+import { DEFAULT_VIEW_STATE, EMPTY_FILTERS, serializeViewState } from '../utils/viewState';
+
+// SUPPORT
+export const isNotificationSupported = () =>
+    typeof window !== 'undefined' && 'Notification' in window && 'serviceWorker' in navigator;
+
+export const getNotificationPermission = (): NotificationPermission | 'unsupported' =>
+    isNotificationSupported() ? Notification.permission : 'unsupported';
+
+export const requestNotificationPermission = async (): Promise<NotificationPermission | 'unsupported'> => {
+    if (!isNotificationSupported()) return 'unsupported';
+    if (Notification.permission !== 'default') return Notification.permission;
+    return Notification.requestPermission();
+};
+
+// REMINDERS
+/** Opens the memo's register tab searched for its number; numbers repeat across registers. */
+export const getReminderUrl = (memo: Memo, scope: string) => {
+    const filters = { ...EMPTY_FILTERS, register: getMemoRegister(memo), query: memo.memoNumber };
+    return new URL(`?${serializeViewState({ ...DEFAULT_VIEW_STATE, filters })}`, scope).href;
+};
+
+/** One notification per memo; the tag replaces yesterday's reminder instead of stacking a new one. */
+export const showDeadlineNotifications = async (memos: Memo[], today = new Date()) => {
+    if (getNotificationPermission() !== 'granted' || memos.length === 0) return;
+    const registration = await navigator.serviceWorker.ready;
+    await Promise.all(memos.map(memo => {
+        const url = getReminderUrl(memo, registration.scope);
+        return registration.showNotification(`${formatDaysUntilDue(getDaysUntilDue(memo, today))}: ${memo.subject}`, {
+            body: `เลขที่ ${memo.memoNumber} · ${memo.department}${memo.followUpBy ? ` · ผู้รับผิดชอบ ${memo.followUpBy}` : ''}`,
+            tag: `due-${memo.id}`,
+            data: { url },
+        });
+    }));
+};
@@ -0,0 +1,28 @@
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist';
+
+// pdf.js is large, so it is only fetched the first time a PDF is previewed.
+const loadPdfJs = async () => {
+    const pdfjs = await import('pdfjs-dist');
+    pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+    return pdfjs;
+};
+
+export const openPdf = async (blob: Blob): Promise<PDFDocumentProxy> => {
+    const pdfjs = await loadPdfJs();
+    return pdfjs.getDocument({ data: new Uint8Array(await blob.arrayBuffer()) }).promise;
+};
+
+/** Renders one page to fit `maxWidth` CSS pixels, sharp on high-DPI screens. */
+export const renderPdfPage = async (pdf: PDFDocumentProxy, pageNumber: number, canvas: HTMLCanvasElement, maxWidth: number): Promise<RenderTask> => {
+    const page = await pdf.getPage(pageNumber);
+    const baseViewport = page.getViewport({ scale: 1 });
+    const scale = Math.min(2, maxWidth / baseViewport.width);
+    const ratio = window.devicePixelRatio || 1;
+    const viewport = page.getViewport({ scale: scale * ratio });
+    canvas.width = viewport.width;
+    canvas.height = viewport.height;
+    canvas.style.width = `${viewport.width / ratio}px`;
+    canvas.style.height = `${viewport.height / ratio}px`;
+    return page.render({ canvasContext: canvas.getContext('2d'), viewport });
+};
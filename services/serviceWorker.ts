@@ -0,0 +1,56 @@
+// TYPES
+export interface ServiceWorkerCallbacks {
+    /** A new build is installed and waiting; calling `apply` activates it and reloads the page. */
+    onUpdateReady: (apply: () => void) => void;
+}
+
+// CONSTANTS
+/** Installed tablets can stay open for days, so new builds are looked for without a reload. */
+const UPDATE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+// REGISTRATION
+const activateWaitingWorker = (worker: ServiceWorker) => {
+    navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+    worker.postMessage({ type: 'SKIP_WAITING' });
+};
+
+/**
+ * Registers the worker that caches the app for offline use and shows reminders. A failure
+ * leaves the app working online only, so it is logged rather than surfaced.
+ */
+export const registerServiceWorker = async ({ onUpdateReady }: ServiceWorkerCallbacks): Promise<ServiceWorkerRegistration | null> => {
+    if (!('serviceWorker' in navigator)) return null;
+    let registration: ServiceWorkerRegistration;
+    try {
+        registration = await navigator.serviceWorker.register('./sw.js');
+    } catch (error) {
+        console.error('Failed to register service worker:', error);
+        return null;
+    }
+
+    // Without a controller this is the first install, which has nothing to replace.
+    const notify = (worker: ServiceWorker | null) => {
+        if (worker && navigator.serviceWorker.controller) onUpdateReady(() => activateWaitingWorker(worker));
+    };
+    notify(registration.waiting);
+    registration.addEventListener('updatefound', () => {
+        const worker = registration.installing;
+        worker?.addEventListener('statechange', () => {
+            if (worker.state === 'installed') notify(worker);
+        });
+    });
+    // A prompt that was put off comes back with the next check.
+    setInterval(() => {
+        registration.update().then(() => notify(registration.waiting), () => {});
+    }, UPDATE_CHECK_INTERVAL_MS);
+    return registration;
+};
+
+/** Asks the browser not to evict the register's IndexedDB data when the device runs low on space. */
+export const requestPersistentStorage = async () => {
+    try {
+        return await navigator.storage?.persist?.() ?? false;
+    } catch {
+        return false;
+    }
+};
@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import type { Memo } from '../types';
+import { createLocalStorageRepository } from './memoRepository';
+import { SyncRejectedError, runSync, type SyncClient } from './syncClient';
+import { EMPTY_SYNC_STATE, reconcileSyncResult, type SyncDocuments } from '../utils/sync';
+
+const makeMemo = (id: string, overrides: Partial<Memo> = {}): Memo => ({
+    id, memoNumber: `ว ${id}/2568`, date: '2025-06-01', teacher: 'ครูสมศรี', subject: 'ทดสอบ', department: 'งานบริหารวิชาการ', ...overrides,
+});
+
+const documents: SyncDocuments = { teachers: [], numberingSchemes: {}, registerSchemes: {}, departmentColors: {}, trashSettings: { retentionDays: 30 } };
+
+const makeClient = (overrides: Partial<SyncClient> = {}): SyncClient => ({
+    checkHealth: async () => {},
+    checkToken: async () => {},
+    pull: async () => ({ records: [], cursor: 0, departments: { departments: [], version: 0 }, documents: {} }),
+    pushMemo: async (id, baseVersion, memo) => ({ ok: true, value: { id, version: baseVersion + 1, seq: 1, memo } }),
+    pushDepartments: async (baseVersion, departments) => ({ ok: true, value: { departments, version: baseVersion + 1 } }),
+    pushDocument: async (_key, baseVersion, value) => ({ ok: true, value: { value, version: baseVersion + 1 } }),
+    hasAttachment: async () => true,
+    uploadAttachment: async () => {},
+    downloadAttachment: async () => null,
+    createCalendarFeed: async () => 'feed',
+    revokeCalendarFeed: async () => {},
+    ...overrides,
+});
+
+describe('runSync', () => {
+    it('reports a refused push and stops retrying it until the memo changes again', async () => {
+        const memos = [makeMemo('1'), makeMemo('2')];
+        const client = makeClient({
+            pushMemo: async (id, baseVersion, memo) => {
+                if (id === '2') throw new SyncRejectedError('ข้อมูลบันทึกไม่ถูกต้อง');
+                return { ok: true, value: { id, version: baseVersion + 1, seq: 1, memo } };
+            },
+        });
+        const state = { ...EMPTY_SYNC_STATE, pending: ['1', '2'] };
+        const result = await runSync(client, createLocalStorageRepository(), memos, [], documents, state);
+
+        expect(result.rejected).toEqual([{ id: '2', local: memos[1], message: 'ข้อมูลบันทึกไม่ถูกต้อง' }]);
+        expect(reconcileSyncResult(memos, [], documents, state, result).state.pending).toEqual([]);
+
+        const edited = [memos[0], makeMemo('2', { subject: 'แก้ไขแล้ว' })];
+        expect(reconcileSyncResult(edited, [], documents, state, result).state.pending).toEqual(['2']);
+    });
+
+    it('takes the server copy back when a change is refused for lack of permission', async () => {
+        const server = makeMemo('1');
+        const edited = makeMemo('1', { subject: 'แก้ไขโดยไม่มีสิทธิ์' });
+        const client = makeClient({
+            pushMemo: async () => { throw new SyncRejectedError('ไม่มีสิทธิ์แก้ไขบันทึกนี้', { id: '1', version: 3, seq: 5, memo: server }); },
+        });
+        const state = { ...EMPTY_SYNC_STATE, versions: { '1': 3 }, pending: ['1'] };
+        const result = await runSync(client, createLocalStorageRepository(), [edited], [], documents, state);
+        const reconciled = reconcileSyncResult([edited], [], documents, state, result);
+
+        expect(result.rejected).toHaveLength(1);
+        expect(reconciled.memos).toEqual([server]);
+        expect(reconciled.state.pending).toEqual([]);
+    });
+
+    it('adopts the server department list when only administrators may change it', async () => {
+        const client = makeClient({
+            pull: async () => ({ records: [], cursor: 0, departments: { departments: ['งานกลาง'], version: 2 }, documents: {} }),
+            pushDepartments: async () => { throw new SyncRejectedError('เฉพาะผู้ดูแลระบบเท่านั้น'); },
+        });
+        const departments = ['งานของเครื่องนี้'];
+        const state = { ...EMPTY_SYNC_STATE, departmentsPending: true };
+        const result = await runSync(client, createLocalStorageRepository(), [], departments, documents, state);
+        const reconciled = reconcileSyncResult([], departments, documents, state, result);
+
+        expect(reconciled.departments).toEqual(['งานกลาง']);
+        expect(reconciled.state).toMatchObject({ departmentsPending: false, departmentsVersion: 2 });
+    });
+
+    it('coerces memos pulled from the server', async () => {
+        const broken = { ...makeMemo('1'), subject: 42, attachments: 'none' } as unknown as Memo;
+        const client = makeClient({
+            pull: async () => ({ records: [{ id: '1', version: 1, seq: 1, memo: broken }], cursor: 1, departments: { departments: [], version: 0 }, documents: {} }),
+        });
+        const result = await runSync(client, createLocalStorageRepository(), [], [], documents, EMPTY_SYNC_STATE);
+
+        expect(result.incoming[0].memo.subject).toBe('42');
+        expect(result.incoming[0].memo).not.toHaveProperty('attachments');
+    });
+
+    it('merges shared settings changed on both sides and adopts ones changed only on the server', async () => {
+        const local: SyncDocuments = {
+            ...documents,
+            teachers: [{ id: 't1', fullName: 'ครูสมศรี', position: '', defaultDepartment: '', aliases: [] }],
+        };
+        const serverTeacher = { id: 't2', fullName: 'ครูสมชาย', position: '', defaultDepartment: '', aliases: [] };
+        const pushed: unknown[] = [];
+        const client = makeClient({
+            pull: async () => ({
+                records: [], cursor: 0, departments: { departments: [], version: 0 },
+                documents: { teachers: { value: [serverTeacher], version: 4 }, departmentColors: { value: { 'งานกลาง': '#ff0000' }, version: 2 } },
+            }),
+            pushDocument: async (_key, baseVersion, value) => {
+                pushed.push(value);
+                return { ok: true, value: { value, version: baseVersion + 1 } };
+            },
+        });
+        const state = { ...EMPTY_SYNC_STATE, documentVersions: { teachers: 3 }, documentsPending: ['teachers' as const] };
+        const result = await runSync(client, createLocalStorageRepository(), [], [], local, state);
+        const reconciled = reconcileSyncResult([], [], local, state, result);
+
+        expect(pushed).toEqual([[...local.teachers, serverTeacher]]);
+        expect(reconciled.documents).toEqual({ teachers: [...local.teachers, serverTeacher], departmentColors: { 'งานกลาง': '#ff0000' } });
+        expect(reconciled.state).toMatchObject({ documentVersions: { teachers: 5, departmentColors: 2 }, documentsPending: [] });
+    });
+
+    it('reports local memos that took a number another device used first', async () => {
+        const local = makeMemo('local', { memoNumber: 'ว 5/2568' });
+        const remote = makeMemo('remote', { memoNumber: 'ว  5/2568' });
+        const otherRegister = makeMemo('order', { memoNumber: 'ว 5/2568', register: 'order' });
+        const client = makeClient({
+            pull: async () => ({
+                records: [{ id: 'remote', version: 1, seq: 1, memo: remote }, { id: 'order', version: 1, seq: 2, memo: otherRegister }],
+                cursor: 2, departments: { departments: [], version: 0 }, documents: {},
+            }),
+        });
+        const result = await runSync(client, createLocalStorageRepository(), [local], [], documents, { ...EMPTY_SYNC_STATE, pending: ['local'] });
+
+        expect(result.clashes).toEqual([{ memoNumber: 'ว 5/2568', localId: 'local', remoteId: 'remote' }]);
+    });
+
+    it('deletes a purged memo\'s files only once the server accepts the deletion', async () => {
+        const client = makeClient({
+            pushMemo: async (id, baseVersion, memo) => {
+                if (id === '2') throw new SyncRejectedError('ไม่มีสิทธิ์ลบบันทึกนี้', { id: '2', version: 1, seq: 1, memo: makeMemo('2') });
+                return { ok: true, value: { id, version: baseVersion + 1, seq: 2, memo } };
+            },
+        });
+        const state = { ...EMPTY_SYNC_STATE, pending: ['1', '2'], versions: { 1: 1, 2: 1 }, purgedFiles: { 1: ['a1'], 2: ['a2'] } };
+        const result = await runSync(client, createLocalStorageRepository(), [], [], documents, state);
+        const reconciled = reconcileSyncResult([], [], documents, state, result);
+
+        expect(reconciled.filesToDelete).toEqual(['a1']);
+        expect(reconciled.state.purgedFiles).toEqual({});
+        expect(reconciled.memos.map(m => m.id)).toEqual(['2']);
+    });
+});
@@ -0,0 +1,290 @@
+import type { Memo, Department, SyncRecord, SyncDepartments, SyncDocument, PullResponse, WriteResult } from '../types';
+import type { MemoRepository } from './memoRepository';
+import { getAllAttachmentIds } from '../utils/revisions';
+import { coerceMemoShape } from '../utils/memoValidation';
+import {
+    SYNC_DOCUMENT_KEYS, mergeDepartments, mergeSyncDocument, findMemoNumberClashes,
+    type SyncSettings, type SyncState, type SyncResult, type SyncDocuments, type SyncDocumentKey, type MemoConflict, type MemoRejection,
+} from '../utils/sync';
+
+// TYPES
+export interface SyncClient {
+    checkHealth: () => Promise<void>;
+    /** Fails when the server refuses the shared token; needs no signed-in user. */
+    checkToken: () => Promise<void>;
+    pull: (since: number) => Promise<PullResponse>;
+    pushMemo: (id: string, baseVersion: number, memo: Memo | null) => Promise<WriteResult<SyncRecord>>;
+    pushDepartments: (baseVersion: number, departments: Department[]) => Promise<WriteResult<SyncDepartments>>;
+    pushDocument: (key: SyncDocumentKey, baseVersion: number, value: unknown) => Promise<WriteResult<SyncDocument>>;
+    hasAttachment: (id: string) => Promise<boolean>;
+    uploadAttachment: (id: string, blob: Blob) => Promise<void>;
+    downloadAttachment: (id: string) => Promise<Blob | null>;
+    /** A new personal calendar feed token; any earlier link of the user stops working. */
+    createCalendarFeed: () => Promise<string>;
+    revokeCalendarFeed: () => Promise<void>;
+}
+
+/** The server could not be reached or rejected the request; `offline` separates the two. */
+export class SyncError extends Error {
+    offline: boolean;
+
+    constructor(message: string, offline = false) {
+        super(message);
+        this.name = 'SyncError';
+        this.offline = offline;
+    }
+}
+
+/** The server refused one write for good; retrying the same data would fail again. */
+export class SyncRejectedError extends SyncError {
+    /** The server's copy when the write was refused for lack of permission. */
+    record: SyncRecord | null;
+
+    constructor(message: string, record: SyncRecord | null = null) {
+        super(message);
+        this.name = 'SyncRejectedError';
+        this.record = record;
+    }
+}
+
+// CLIENT
+/** `session` is the signed-in user's server session; the server checks their role on every write. */
+export const createSyncClient = ({ serverUrl, token }: SyncSettings, session: string | null = null): SyncClient => {
+    const baseUrl = serverUrl.trim().replace(/\/+$/, '');
+
+    const request = async (path: string, init: RequestInit = {}, acceptedStatuses: number[] = []) => {
+        let response: Response;
+        try {
+            response = await fetch(`${baseUrl}/api${path}`, {
+                ...init,
+                headers: { ...(token ? { Authorization: `Bearer ${token}` } : {}), ...(session ? { 'X-Memo-Session': session } : {}), ...init.headers },
+            });
+        } catch {
+            throw new SyncError('ไม่สามารถเชื่อมต่อเซิร์ฟเวอร์ได้', true);
+        }
+        if (!response.ok && !acceptedStatuses.includes(response.status)) {
+            const body = await response.json().catch(() => null);
+            if (response.status === 401) {
+                throw new SyncError(body?.reason === 'session' ? 'กรุณาออกจากระบบแล้วเข้าสู่ระบบใหม่' : 'รหัสเข้าถึงเซิร์ฟเวอร์ไม่ถูกต้อง');
+            }
+            if (response.status === 400 || response.status === 403) {
+                throw new SyncRejectedError(body?.error || 'เซิร์ฟเวอร์ไม่รับข้อมูลนี้', body?.record ?? null);
+            }
+            throw new SyncError(`เซิร์ฟเวอร์ตอบกลับผิดพลาด (${response.status})`);
+        }
+        return response;
+    };
+
+    const write = async <T,>(path: string, init: RequestInit): Promise<WriteResult<T>> => {
+        const response = await request(path, init, [409]);
+        return { ok: response.status !== 409, value: await response.json() };
+    };
+
+    const json = { 'Content-Type': 'application/json' };
+
+    return {
+        checkHealth: async () => { await request('/health'); },
+        checkToken: async () => { await request('/session'); },
+        pull: async (since) => (await request(`/changes?since=${since}`)).json(),
+        pushMemo: (id, baseVersion, memo) => memo
+            ? write(`/memos/${encodeURIComponent(id)}`, { method: 'PUT', headers: json, body: JSON.stringify({ baseVersion, memo }) })
+            : write(`/memos/${encodeURIComponent(id)}?baseVersion=${baseVersion}`, { method: 'DELETE' }),
+        pushDepartments: (baseVersion, departments) =>
+            write('/departments', { method: 'PUT', headers: json, body: JSON.stringify({ baseVersion, departments }) }),
+        pushDocument: (key, baseVersion, value) =>
+            write(`/documents/${key}`, { method: 'PUT', headers: json, body: JSON.stringify({ baseVersion, value }) }),
+        hasAttachment: async (id) => (await request(`/attachments/${encodeURIComponent(id)}`, { method: 'HEAD' }, [404])).ok,
+        uploadAttachment: async (id, blob) => {
+            // 409: another device uploaded the same file first; the server never replaces a file.
+            await request(`/attachments/${encodeURIComponent(id)}`, { method: 'PUT', headers: { 'Content-Type': blob.type || 'application/octet-stream' }, body: blob }, [409]);
+        },
+        downloadAttachment: async (id) => {
+            const response = await request(`/attachments/${encodeURIComponent(id)}`, {}, [404]);
+            return response.ok ? response.blob() : null;
+        },
+        createCalendarFeed: async () => (await (await request('/calendar-feed', { method: 'POST' })).json()).feed,
+        revokeCalendarFeed: async () => { await request('/calendar-feed', { method: 'DELETE' }); },
+    };
+};
+
+// SYNC ROUND
+const isSameMemo = (a: Memo | null, b: Memo | null) => JSON.stringify(a) === JSON.stringify(b);
+
+/** Server copies get the same shape guarantees as memos loaded from local storage. */
+const coerceRecord = (record: SyncRecord): SyncRecord => record.memo ? { ...record, memo: coerceMemoShape(record.memo) } : record;
+
+/**
+ * Uploads files the server does not have yet; a memo is only pushed once its attachments are.
+ * Earlier versions count too, so a rollback on another device finds its files.
+ */
+const uploadMissingAttachments = async (client: SyncClient, repository: MemoRepository, memo: Memo) => {
+    for (const id of getAllAttachmentIds(memo)) {
+        if (await client.hasAttachment(id)) continue;
+        const blob = await repository.getAttachment(id);
+        if (blob) await client.uploadAttachment(id, blob);
+    }
+};
+
+const downloadMissingAttachments = async (client: SyncClient, repository: MemoRepository, memo: Memo) => {
+    for (const id of getAllAttachmentIds(memo)) {
+        if (await repository.getAttachment(id)) continue;
+        const blob = await client.downloadAttachment(id);
+        if (blob) await repository.saveAttachment(id, blob);
+    }
+};
+
+/**
+ * One pull-then-push round against a snapshot of the register. Nothing local is modified
+ * except attachment files; the caller folds the result in with `reconcileSyncResult`.
+ */
+export const runSync = async (
+    client: SyncClient,
+    repository: MemoRepository,
+    memos: Memo[],
+    departments: Department[],
+    documents: SyncDocuments,
+    state: SyncState,
+): Promise<SyncResult> => {
+    const pulled = await client.pull(state.cursor);
+    const records = pulled.records.map(coerceRecord);
+    const localById = new Map(memos.map(m => [m.id, m]));
+    const pending = new Set(state.pending);
+    const versions = { ...state.versions };
+    const conflicts = new Map<string, MemoConflict>(state.conflicts.map(c => [c.id, c]));
+    const incoming: SyncRecord[] = [];
+    const pushed = new Map<string, Memo | null>();
+    const rejected: MemoRejection[] = [];
+
+    for (const record of records) {
+        // Our own accepted pushes come back through the change feed.
+        if ((versions[record.id] ?? 0) >= record.version) continue;
+        if (!pending.has(record.id)) {
+            incoming.push(record);
+            versions[record.id] = record.version;
+            continue;
+        }
+        const local = localById.get(record.id) ?? null;
+        if (isSameMemo(local, record.memo)) {
+            // Both sides made the same change; count it as delivered.
+            versions[record.id] = record.version;
+            pending.delete(record.id);
+            pushed.set(record.id, local);
+            conflicts.delete(record.id);
+        } else {
+            conflicts.set(record.id, { id: record.id, local, remote: record.memo, remoteVersion: record.version });
+        }
+    }
+
+    for (const record of incoming) {
+        if (record.memo) await downloadMissingAttachments(client, repository, record.memo);
+    }
+
+    for (const id of pending) {
+        if (conflicts.has(id)) continue;
+        const local = localById.get(id) ?? null;
+        const baseVersion = versions[id] ?? 0;
+        if (!local && baseVersion === 0) {
+            // Created and deleted before it ever reached the server.
+            pushed.set(id, null);
+            continue;
+        }
+        if (local) await uploadMissingAttachments(client, repository, local);
+        let result: WriteResult<SyncRecord>;
+        try {
+            result = await client.pushMemo(id, baseVersion, local);
+        } catch (error) {
+            if (!(error instanceof SyncRejectedError)) throw error;
+            rejected.push({ id, local, message: error.message });
+            // Not allowed to change it: the server's copy replaces the local edit.
+            if (error.record && error.record.version > 0) {
+                const record = coerceRecord(error.record);
+                if (record.memo) await downloadMissingAttachments(client, repository, record.memo);
+                incoming.push(record);
+                versions[id] = record.version;
+            }
+            continue;
+        }
+        if (result.ok) {
+            versions[id] = result.value.version;
+            pushed.set(id, local);
+        } else {
+            const { memo: remote } = coerceRecord(result.value);
+            conflicts.set(id, { id, local, remote, remoteVersion: result.value.version });
+        }
+    }
+
+    const remoteDepartments = pulled.departments;
+    let departmentsResult: Department[] | null = null;
+    let departmentsVersion = state.departmentsVersion;
+    let departmentsPushedFrom: Department[] | null = null;
+    if (state.departmentsPending) {
+        const merged = remoteDepartments.version > state.departmentsVersion
+            ? mergeDepartments(departments, remoteDepartments.departments)
+            : departments;
+        let result: WriteResult<SyncDepartments> | null = null;
+        try {
+            result = await client.pushDepartments(remoteDepartments.version, merged);
+        } catch (error) {
+            if (!(error instanceof SyncRejectedError)) throw error;
+            // Only administrators manage departments; everyone else takes the server's list.
+            departmentsVersion = remoteDepartments.version;
+            departmentsPushedFrom = departments;
+            departmentsResult = remoteDepartments.departments;
+        }
+        if (result?.ok) {
+            departmentsVersion = result.value.version;
+            departmentsPushedFrom = departments;
+            departmentsResult = merged === departments ? null : merged;
+        }
+    } else if (remoteDepartments.version !== state.departmentsVersion) {
+        departmentsResult = remoteDepartments.departments;
+        departmentsVersion = remoteDepartments.version;
+    }
+
+    // Shared settings go the department list's way, except that a refused change only skips that document.
+    const documentsResult: Partial<Record<SyncDocumentKey, unknown>> = {};
+    const documentVersions = { ...state.documentVersions };
+    const documentsPushedFrom: Partial<Record<SyncDocumentKey, unknown>> = {};
+    for (const key of SYNC_DOCUMENT_KEYS) {
+        const remote = pulled.documents?.[key] ?? { value: null, version: 0 };
+        if (state.documentsPending.includes(key)) {
+            const local = documents[key];
+            const merged = remote.version > (state.documentVersions[key] ?? 0) && remote.value !== null
+                ? mergeSyncDocument(key, local, remote.value as typeof local)
+                : local;
+            let result: WriteResult<SyncDocument> | null = null;
+            try {
+                result = await client.pushDocument(key, remote.version, merged);
+            } catch (error) {
+                if (!(error instanceof SyncRejectedError)) throw error;
+                documentVersions[key] = remote.version;
+                documentsPushedFrom[key] = local;
+                if (remote.value !== null) documentsResult[key] = remote.value;
+            }
+            if (result?.ok) {
+                documentVersions[key] = result.value.version;
+                documentsPushedFrom[key] = local;
+                if (merged !== local) documentsResult[key] = merged;
+            }
+        } else if (remote.version !== (state.documentVersions[key] ?? 0) && remote.value !== null) {
+            documentsResult[key] = remote.value;
+            documentVersions[key] = remote.version;
+        }
+    }
+
+    return {
+        incoming,
+        pushed,
+        rejected,
+        conflicts: [...conflicts.values()],
+        versions,
+        cursor: pulled.cursor,
+        departments: departmentsResult,
+        departmentsVersion,
+        departmentsPushedFrom,
+        documents: documentsResult as Partial<SyncDocuments>,
+        documentVersions,
+        documentsPushedFrom: documentsPushedFrom as Partial<SyncDocuments>,
+        clashes: findMemoNumberClashes(memos, incoming, state.pending),
+    };
+};
@@ -0,0 +1,13 @@
+import axe from 'axe-core';
+
+/**
+ * WCAG 2.1 A and AA violations in a rendered tree, one line per rule with the offending elements.
+ * Colour contrast is checked by hand: jsdom applies neither layout nor the stylesheet.
+ */
+export const findAxeViolations = async (container: Element): Promise<string[]> => {
+    const results = await axe.run(container, {
+        runOnly: { type: 'tag', values: ['wcag2a', 'wcag2aa', 'wcag21a', 'wcag21aa'] },
+        rules: { 'color-contrast': { enabled: false } },
+    });
+    return results.violations.map(violation => `${violation.id}: ${violation.nodes.map(node => node.target.join(' ')).join(', ')}`);
+};
@@ -0,0 +1,25 @@
+import '@testing-library/jest-dom/vitest';
+import { afterEach } from 'vitest';
+import { cleanup } from '@testing-library/react';
+
+// Server tests opt into the node environment and have no DOM to set up.
+if (typeof window !== 'undefined') {
+    // jsdom has no media queries; SweetAlert2 asks for the reduced-motion preference.
+    window.matchMedia ??= (query: string) => ({
+        matches: false,
+        media: query,
+        onchange: null,
+        addListener: () => {},
+        removeListener: () => {},
+        addEventListener: () => {},
+        removeEventListener: () => {},
+        dispatchEvent: () => false,
+    });
+
+    afterEach(() => {
+        cleanup();
+        window.localStorage.clear();
+        // MainPage keeps its filters in the URL and reads them back when it mounts.
+        window.history.replaceState(null, '', '/');
+    });
+}
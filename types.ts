@@ -0,0 +1,174 @@
+// TYPES
+export interface MemoAttachment {
+    id: string;
+    name: string;
+    type: string;
+    size: number;
+    uploadedAt: string;
+}
+
+/** Single-file shape used before memos could hold several attachments; upgraded to `attachments` on load. */
+export interface LegacyMemoFile {
+    id?: string;
+    name: string;
+    type?: string;
+    size?: number;
+    /** Inline payload from the localStorage-only era; moved into the attachment store on load. */
+    dataUrl?: string;
+}
+
+export type MemoStatus = 'draft' | 'submitted' | 'approved' | 'rejected' | 'archived';
+
+export interface StatusChange {
+    id: string;
+    from: MemoStatus | null;
+    to: MemoStatus;
+    comment: string;
+    actor: string;
+    at: string;
+}
+
+export type UserRole = 'admin' | 'departmentHead' | 'teacher' | 'viewer';
+
+export interface User {
+    id: string;
+    username: string;
+    displayName: string;
+    role: UserRole;
+    /** Department a department head manages; informational for other roles. */
+    department: Department;
+    /** Registry entry for teacher accounts, so memos filed under that teacher count as their own. */
+    teacherId?: string;
+}
+
+/** Who changed a memo and when; the name is copied so it survives account deletion. */
+export interface MemoStamp {
+    userId: string;
+    name: string;
+    at: string;
+}
+
+/** The office keeps one register per kind of correspondence; records without one are internal memos. */
+export type RegisterType = 'memo' | 'incoming' | 'outgoing' | 'order';
+
+export type UrgencyLevel = 'normal' | 'urgent' | 'veryUrgent' | 'mostUrgent';
+
+export interface Memo {
+    id: string;
+    /** Unset on internal memos, which is also what every record from before the other registers is. */
+    register?: RegisterType;
+    memoNumber: string;
+    date: string;
+    /** Display name; kept alongside `teacherId` so exports and legacy records still read naturally. */
+    teacher: string;
+    teacherId?: string;
+    subject: string;
+    department: string;
+    /** Free-form remarks; searchable but not part of the printed register. */
+    notes?: string;
+    /** Incoming letters: the sender's own reference number ("ที่") and the date printed on the letter. */
+    letterNumber?: string;
+    letterDate?: string;
+    /** Agency an incoming letter came from. */
+    fromAgency?: string;
+    /** Agency an outgoing letter is addressed to. */
+    toAgency?: string;
+    urgency?: UrgencyLevel;
+    /** Orders: the day the order takes effect, when it differs from the signing date. */
+    effectiveDate?: string;
+    /** Id of the record this one answers, usually an incoming letter. */
+    replyTo?: string;
+    /** Ordered; the first entry is treated as the main document. */
+    attachments?: MemoAttachment[];
+    file?: LegacyMemoFile;
+    status?: MemoStatus;
+    /** Append-only audit trail of status transitions, oldest first. */
+    history?: StatusChange[];
+    /** Date the requested action is due (yyyy-MM-dd); memos without one never show up in reminders. */
+    dueDate?: string;
+    /** Person responsible for following the memo up. */
+    followUpBy?: string;
+    followUpNotes?: string;
+    /** Set once the follow-up is finished, which takes the memo off the deadline panel and calendar. */
+    followUpDone?: MemoStamp;
+    created?: MemoStamp;
+    updated?: MemoStamp;
+    /** Set while the memo sits in the trash; cleared on restore. */
+    deleted?: MemoStamp;
+    /** Earlier versions of the memo, oldest first. */
+    revisions?: MemoRevision[];
+}
+
+/** A memo as it was before an edit; nested revisions are not kept in the snapshot. */
+export interface MemoRevision {
+    id: string;
+    /** When this version was replaced. */
+    replacedAt: string;
+    memo: Omit<Memo, 'revisions'>;
+}
+
+export interface Teacher {
+    id: string;
+    fullName: string;
+    position: string;
+    defaultDepartment: string;
+    /** Other spellings merged into this teacher, used to match free-text names. */
+    aliases: string[];
+}
+
+export type Department = string;
+export type View = 'main' | 'stats' | 'departments' | 'teachers' | 'users' | 'trash';
+export type SortDirection = 'ascending' | 'descending';
+export interface SortRule {
+    key: keyof Memo;
+    direction: SortDirection;
+}
+/** Columns in priority order; later rules only break ties. Empty keeps the register (or relevance) order. */
+export type SortConfig = SortRule[];
+
+export interface MemoFilters {
+    register: RegisterType;
+    query: string;
+    /** Teacher key as produced by `getTeacherKey`. */
+    teacher: string;
+    startDate: string;
+    endDate: string;
+    department: string;
+    status: MemoStatus | '';
+}
+
+// SYNC API
+/** A memo as the server stores it; `memo` is null once the memo has been deleted. */
+export interface SyncRecord {
+    id: string;
+    /** Bumped on every accepted write to this memo. */
+    version: number;
+    /** Server-wide change counter, used as the pull cursor. */
+    seq: number;
+    memo: Memo | null;
+}
+
+export interface SyncDepartments {
+    departments: Department[];
+    version: number;
+}
+
+/** A shared setting such as the teacher registry; versioned like the department list. `value` is null until first written. */
+export interface SyncDocument {
+    value: unknown;
+    version: number;
+}
+
+/** A write is accepted only when the client's base version matches; `value` is then the stored copy, otherwise the server's current one. */
+export interface WriteResult<T> {
+    ok: boolean;
+    value: T;
+}
+
+export interface PullResponse {
+    records: SyncRecord[];
+    cursor: number;
+    departments: SyncDepartments;
+    /** Keyed by `SyncDocumentKey`. */
+    documents: Record<string, SyncDocument>;
+}
@@ -0,0 +1,72 @@
+import type { Memo, MemoAttachment } from '../types';
+
+// CONSTANTS
+export const MAX_ATTACHMENT_SIZE = 20 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_MEMO = 10;
+
+export const ALLOWED_ATTACHMENT_TYPES: Record<string, string> = {
+    'application/pdf': '.pdf',
+    'image/jpeg': '.jpg,.jpeg',
+    'image/png': '.png',
+    'image/gif': '.gif',
+    'image/webp': '.webp',
+    'application/msword': '.doc',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document': '.docx',
+    'application/vnd.ms-excel': '.xls',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': '.xlsx',
+};
+
+export const ATTACHMENT_ACCEPT = [...Object.keys(ALLOWED_ATTACHMENT_TYPES), ...Object.values(ALLOWED_ATTACHMENT_TYPES)].join(',');
+
+// HELPERS
+const extensionOf = (name: string) => {
+    const match = /\.[^.]+$/.exec(name.toLowerCase());
+    return match ? match[0] : '';
+};
+
+/** Some browsers leave `File.type` empty for Office documents, so fall back to the extension. */
+export const resolveAttachmentType = (file: { name: string; type?: string }) => {
+    if (file.type && ALLOWED_ATTACHMENT_TYPES[file.type]) return file.type;
+    const extension = extensionOf(file.name);
+    const match = Object.entries(ALLOWED_ATTACHMENT_TYPES).find(([, extensions]) => extensions.split(',').includes(extension));
+    return match ? match[0] : file.type || 'application/octet-stream';
+};
+
+export const validateAttachmentFile = (file: File): string | null => {
+    if (!ALLOWED_ATTACHMENT_TYPES[resolveAttachmentType(file)]) {
+        return `“${file.name}” เป็นไฟล์ประเภทที่ไม่รองรับ (รองรับ PDF, รูปภาพ, Word และ Excel)`;
+    }
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+        return `“${file.name}” มีขนาด ${formatFileSize(file.size)} เกินกำหนด ${formatFileSize(MAX_ATTACHMENT_SIZE)}`;
+    }
+    return null;
+};
+
+export const formatFileSize = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const isImageAttachment = (attachment: MemoAttachment) => attachment.type.startsWith('image/');
+export const isPdfAttachment = (attachment: MemoAttachment) => attachment.type === 'application/pdf';
+
+export const getMemoAttachments = (memo: Memo): MemoAttachment[] => memo.attachments ?? [];
+
+/**
+ * Converts a memo still carrying the single `file` field into the `attachments` list. The blob
+ * must already be in the attachment store under `file.id`.
+ */
+export const upgradeLegacyFile = (memo: Memo): Memo => {
+    if (!memo.file) return memo;
+    const { file, ...rest } = memo;
+    if (!file.id) return rest;
+    const attachment: MemoAttachment = {
+        id: file.id,
+        name: file.name,
+        type: resolveAttachmentType(file),
+        size: file.size ?? 0,
+        uploadedAt: memo.date,
+    };
+    return { ...rest, attachments: [...(memo.attachments ?? []), attachment] };
+};
@@ -0,0 +1,43 @@
+import type { Memo } from '../types';
+
+// TYPES
+export interface BatchProgress {
+    label: string;
+    done: number;
+    total: number;
+}
+
+// SELECTION
+/** Adds or removes a group of ids, e.g. a page or every memo in the current filter. */
+export const setSelected = (selected: Set<string>, ids: string[], on: boolean): Set<string> => {
+    const next = new Set(selected);
+    ids.forEach(id => on ? next.add(id) : next.delete(id));
+    return next;
+};
+
+/** Splits a batch into the memos the user may act on and those skipped for lack of rights. */
+export const partitionByPermission = (memos: Memo[], isAllowed: (memo: Memo) => boolean) => {
+    const allowed: Memo[] = [];
+    const skipped: Memo[] = [];
+    memos.forEach(memo => (isAllowed(memo) ? allowed : skipped).push(memo));
+    return { allowed, skipped };
+};
+
+// BATCHING
+/** Maps items a chunk at a time, yielding in between so the progress bar can repaint. */
+export const mapInChunks = async <T, R>(
+    items: T[],
+    fn: (item: T) => R | Promise<R>,
+    onProgress: (done: number) => void,
+    chunkSize = 50,
+): Promise<R[]> => {
+    const results: R[] = [];
+    for (let start = 0; start < items.length; start += chunkSize) {
+        for (const item of items.slice(start, start + chunkSize)) {
+            results.push(await fn(item));
+        }
+        onProgress(results.length);
+        await new Promise(resolve => setTimeout(resolve, 0));
+    }
+    return results;
+};
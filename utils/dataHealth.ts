@@ -0,0 +1,91 @@
+import type { Memo, Department } from '../types';
+import { getMemoAttachments } from './attachments';
+import { normalizeMemoNumber } from './memoNumbering';
+import { getMemoRegister } from './registers';
+import { validateMemoFields, type MemoFormField } from './memoValidation';
+import { getAllAttachmentIds } from './revisions';
+import { getActiveMemos } from './trash';
+
+// TYPES
+export type HealthIssueKind = 'invalidDate' | 'missingDepartment' | 'invalidField' | 'duplicateNumber' | 'missingAttachment';
+
+export interface HealthIssue {
+    memo: Memo;
+    kind: HealthIssueKind;
+    field?: MemoFormField;
+    message: string;
+}
+
+export interface DataHealthReport {
+    memoCount: number;
+    issues: HealthIssue[];
+    /** Stored files no memo refers to in any version, including memos in the trash. */
+    orphanedAttachmentIds: string[];
+}
+
+// CONSTANTS
+export const HEALTH_ISSUE_LABELS: Record<HealthIssueKind, string> = {
+    invalidDate: 'วันที่ไม่ถูกต้อง',
+    missingDepartment: 'ฝ่ายงานไม่มีในรายการ',
+    invalidField: 'ข้อมูลไม่ครบหรือไม่ถูกต้อง',
+    duplicateNumber: 'เลขที่ซ้ำ',
+    missingAttachment: 'ไม่พบไฟล์แนบ',
+};
+
+const getIssueKind = (field: MemoFormField): HealthIssueKind =>
+    field === 'date' ? 'invalidDate' : field === 'department' ? 'missingDepartment' : 'invalidField';
+
+// REPORT
+/**
+ * Checks the register against the same schema the memo form uses, plus what only shows up
+ * across records: duplicate numbers and attachment files that are missing or unreferenced.
+ * Trashed memos are skipped except as owners of attachment files.
+ */
+export const buildDataHealthReport = (
+    memos: Memo[],
+    departments: Department[],
+    storedAttachmentIds: string[],
+    today = new Date(),
+): DataHealthReport => {
+    const activeMemos = getActiveMemos(memos);
+    const stored = new Set(storedAttachmentIds);
+    const issues: HealthIssue[] = [];
+
+    const byNumber = new Map<string, Memo[]>();
+    activeMemos.forEach(memo => {
+        const { errors } = validateMemoFields(memo, { departments, today, register: getMemoRegister(memo) });
+        (Object.entries(errors) as [MemoFormField, string][]).forEach(([field, message]) => {
+            issues.push({ memo, kind: getIssueKind(field), field, message });
+        });
+
+        getMemoAttachments(memo).filter(a => !stored.has(a.id)).forEach(attachment => {
+            issues.push({ memo, kind: 'missingAttachment', message: `ไม่พบไฟล์ “${attachment.name}” ในที่จัดเก็บ` });
+        });
+
+        // Each register numbers on its own, so only a clash within one register is a duplicate.
+        const number = normalizeMemoNumber(memo.memoNumber || '');
+        const key = `${getMemoRegister(memo)}\u0000${number}`;
+        if (number) byNumber.set(key, [...(byNumber.get(key) ?? []), memo]);
+    });
+
+    byNumber.forEach(group => {
+        if (group.length < 2) return;
+        const number = normalizeMemoNumber(group[0].memoNumber);
+        group.forEach(memo => {
+            issues.push({ memo, kind: 'duplicateNumber', field: 'memoNumber', message: `เลขที่ “${number}” ถูกใช้ ${group.length} รายการ` });
+        });
+    });
+
+    const referenced = new Set(memos.flatMap(getAllAttachmentIds));
+    return {
+        memoCount: activeMemos.length,
+        issues,
+        orphanedAttachmentIds: storedAttachmentIds.filter(id => !referenced.has(id)),
+    };
+};
+
+export const countIssuesByKind = (issues: HealthIssue[]): Record<HealthIssueKind, number> => {
+    const counts = Object.fromEntries(Object.keys(HEALTH_ISSUE_LABELS).map(kind => [kind, 0])) as Record<HealthIssueKind, number>;
+    issues.forEach(issue => { counts[issue.kind]++; });
+    return counts;
+};
@@ -0,0 +1,113 @@
+import { format, parse, parseISO, isValid } from 'date-fns';
+import { BUDDHIST_ERA_OFFSET } from './memoNumbering';
+
+// TYPES
+/** `th` shows Buddhist-era years with Thai month and day names; `en` keeps Gregorian years in English. */
+export type DateLocale = 'th' | 'en';
+export type PeriodUnit = 'day' | 'week' | 'month' | 'year';
+export type DateStyle = 'numeric' | 'short' | 'long';
+
+// CONSTANTS
+export const DATE_LOCALE_KEY = 'dateLocale';
+export const DEFAULT_DATE_LOCALE: DateLocale = 'th';
+
+export const THAI_MONTHS = ['มกราคม', 'กุมภาพันธ์', 'มีนาคม', 'เมษายน', 'พฤษภาคม', 'มิถุนายน', 'กรกฎาคม', 'สิงหาคม', 'กันยายน', 'ตุลาคม', 'พฤศจิกายน', 'ธันวาคม'];
+export const THAI_MONTHS_SHORT = ['ม.ค.', 'ก.พ.', 'มี.ค.', 'เม.ย.', 'พ.ค.', 'มิ.ย.', 'ก.ค.', 'ส.ค.', 'ก.ย.', 'ต.ค.', 'พ.ย.', 'ธ.ค.'];
+export const THAI_WEEKDAYS = ['วันอาทิตย์', 'วันจันทร์', 'วันอังคาร', 'วันพุธ', 'วันพฤหัสบดี', 'วันศุกร์', 'วันเสาร์'];
+
+export const DATE_INPUT_PLACEHOLDERS: Record<DateLocale, string> = {
+    th: 'วว/ดด/ปปปป (พ.ศ.)',
+    en: 'dd/mm/yyyy',
+};
+
+const THAI_DIGITS = '๐๑๒๓๔๕๖๗๘๙';
+const ENGLISH_FORMATS: Record<DateStyle, string> = { numeric: 'dd/MM/yyyy', short: 'd MMM yyyy', long: 'd MMMM yyyy' };
+
+// FORMATTING
+export const toThaiDigits = (value: string) => value.replace(/\d/g, d => THAI_DIGITS[Number(d)]);
+
+const toDate = (value: Date | string) => typeof value === 'string' ? parseISO(value) : value;
+
+/**
+ * Buddhist-era date: `numeric` → 05/10/2568, `short` → 5 ต.ค. 2568, `long` → 5 ตุลาคม 2568.
+ * Invalid input is returned unchanged so bad records stay visible instead of disappearing.
+ */
+export const formatThaiDate = (value: Date | string, style: DateStyle = 'numeric'): string => {
+    const date = toDate(value);
+    if (!isValid(date)) return typeof value === 'string' ? value : '';
+    const day = date.getDate();
+    const month = date.getMonth();
+    const year = date.getFullYear() + BUDDHIST_ERA_OFFSET;
+    if (style === 'long') return `${day} ${THAI_MONTHS[month]} ${year}`;
+    if (style === 'short') return `${day} ${THAI_MONTHS_SHORT[month]} ${year}`;
+    return `${String(day).padStart(2, '0')}/${String(month + 1).padStart(2, '0')}/${year}`;
+};
+
+export const formatDate = (value: Date | string, locale: DateLocale, style: DateStyle = 'numeric'): string => {
+    if (locale === 'th') return formatThaiDate(value, style);
+    const date = toDate(value);
+    if (!isValid(date)) return typeof value === 'string' ? value : '';
+    return format(date, ENGLISH_FORMATS[style]);
+};
+
+export const formatDateTime = (value: Date | string, locale: DateLocale): string => {
+    const date = toDate(value);
+    if (!isValid(date)) return typeof value === 'string' ? value : '';
+    return `${formatDate(date, locale)} ${format(date, 'HH:mm')}`;
+};
+
+export const formatMonthYear = (date: Date, locale: DateLocale): string =>
+    locale === 'th' ? `${THAI_MONTHS_SHORT[date.getMonth()]} ${date.getFullYear() + BUDDHIST_ERA_OFFSET}` : format(date, 'MMM yyyy');
+
+/** Chart bucket labels; weeks use date-fns week numbering in both locales. */
+export const formatPeriodLabel = (date: Date, unit: PeriodUnit, locale: DateLocale): string => {
+    if (locale === 'en') {
+        return format(date, { day: 'EEEE', week: "'Week' w", month: 'MMMM', year: 'yyyy' }[unit]);
+    }
+    switch (unit) {
+        case 'day': return THAI_WEEKDAYS[date.getDay()];
+        case 'week': return `สัปดาห์ที่ ${format(date, 'w')}`;
+        case 'month': return THAI_MONTHS[date.getMonth()];
+        case 'year': return String(date.getFullYear() + BUDDHIST_ERA_OFFSET);
+    }
+};
+
+// PARSING
+const findThaiMonth = (name: string) => {
+    const normalized = name.replace(/\s+/g, '');
+    const index = THAI_MONTHS.indexOf(normalized);
+    return index !== -1 ? index : THAI_MONTHS_SHORT.findIndex(m => m === normalized || m.replace(/\./g, '') === normalized.replace(/\./g, ''));
+};
+
+/**
+ * Reads day-month-year text in either era: years above 2400 are taken as B.E. Accepts
+ * 5/10/2568, 05-10-2025, ๕/๑๐/๒๕๖๘ and 5 ต.ค. 2568. Returns an ISO date or null.
+ */
+export const parseDayMonthYear = (value: string): string | null => {
+    const trimmed = value.trim().replace(/[๐-๙]/g, d => String(THAI_DIGITS.indexOf(d)));
+    let day: number, month: number, year: number;
+    const numeric = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/.exec(trimmed);
+    const named = /^(\d{1,2})\s*([ก-๙.\s]+?)\s*(\d{4})$/.exec(trimmed);
+    if (numeric) {
+        [day, month, year] = [parseInt(numeric[1], 10), parseInt(numeric[2], 10), parseInt(numeric[3], 10)];
+    } else if (named && findThaiMonth(named[2]) !== -1) {
+        [day, month, year] = [parseInt(named[1], 10), findThaiMonth(named[2]) + 1, parseInt(named[3], 10)];
+    } else {
+        return null;
+    }
+    if (year > 2400) year -= BUDDHIST_ERA_OFFSET;
+    const date = parse(`${day}/${month}/${year}`, 'd/M/yyyy', new Date());
+    return isValid(date) ? format(date, 'yyyy-MM-dd') : null;
+};
+
+/** Typed date input: ISO dates or anything `parseDayMonthYear` understands. */
+export const parseDateInput = (value: string): string | null => {
+    const trimmed = value.trim();
+    const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(trimmed);
+    if (iso) {
+        const year = parseInt(iso[1], 10);
+        const normalized = year > 2400 ? `${year - BUDDHIST_ERA_OFFSET}-${iso[2]}-${iso[3]}` : trimmed;
+        return isValid(parseISO(normalized)) ? normalized : null;
+    }
+    return parseDayMonthYear(trimmed);
+};
@@ -0,0 +1,91 @@
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import type { Memo, User } from '../types';
+import { canEditMemo, toStamp } from './permissions';
+import { isValidMemoDate } from './memoValidation';
+
+// TYPES
+export type DeadlineState = 'overdue' | 'dueSoon' | 'upcoming' | 'done';
+
+export interface ReminderSettings {
+    enabled: boolean;
+    /** Remind this many days ahead of the due date, and every day after it has passed. */
+    daysBefore: number;
+}
+
+/** Memo id → the day (yyyy-MM-dd) its last reminder was shown, so each memo notifies once a day. */
+export type ReminderLog = Record<string, string>;
+
+// CONSTANTS
+export const REMINDER_SETTINGS_KEY = 'reminderSettings';
+export const REMINDER_LOG_KEY = 'reminderLog';
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = { enabled: false, daysBefore: 3 };
+export const REMINDER_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+/** The dashboard's "due this week" window. */
+export const DUE_SOON_DAYS = 7;
+
+export const DEADLINE_LABELS: Record<DeadlineState, string> = {
+    overdue: 'เกินกำหนด',
+    dueSoon: 'ใกล้ครบกำหนด',
+    upcoming: 'มีกำหนดเสร็จ',
+    done: 'ติดตามเสร็จแล้ว',
+};
+
+const toIsoDay = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// DEADLINES
+/** Days until the memo is due; negative once overdue, null without a usable due date. */
+export const getDaysUntilDue = (memo: Memo, today = new Date()): number | null =>
+    isValidMemoDate(memo.dueDate) ? differenceInCalendarDays(parseISO(memo.dueDate), today) : null;
+
+export const getDeadlineState = (memo: Memo, today = new Date()): DeadlineState | null => {
+    const days = getDaysUntilDue(memo, today);
+    if (days === null) return null;
+    if (memo.followUpDone) return 'done';
+    if (days < 0) return 'overdue';
+    return days <= DUE_SOON_DAYS ? 'dueSoon' : 'upcoming';
+};
+
+export const formatDaysUntilDue = (days: number) =>
+    days < 0 ? `เกินกำหนด ${-days} วัน` : days === 0 ? 'ครบกำหนดวันนี้' : `อีก ${days} วัน`;
+
+/** Open follow-ups in due-date order, split the way the dashboard panel shows them. */
+export const groupOpenDeadlines = (memos: Memo[], today = new Date()) => {
+    // Runs on every filter change, so each memo's state is worked out once.
+    const groups = { overdue: [] as Memo[], dueSoon: [] as Memo[] };
+    memos.forEach(m => {
+        if (m.deleted || !m.dueDate || m.followUpDone) return;
+        const state = getDeadlineState(m, today);
+        if (state === 'overdue' || state === 'dueSoon') groups[state].push(m);
+    });
+    const byDueDate = (a: Memo, b: Memo) => a.dueDate.localeCompare(b.dueDate);
+    return { overdue: groups.overdue.sort(byDueDate), dueSoon: groups.dueSoon.sort(byDueDate) };
+};
+
+/** Memos with a due date that are neither finished nor in the trash, for calendars. */
+export const getOpenDueMemos = (memos: Memo[]) =>
+    memos.filter(m => !m.deleted && !m.followUpDone && isValidMemoDate(m.dueDate));
+
+export const completeFollowUp = (memo: Memo, user: User): Memo => ({ ...memo, followUpDone: toStamp(user) });
+
+export const reopenFollowUp = ({ followUpDone: _done, ...memo }: Memo): Memo => memo;
+
+// REMINDERS
+/** Open follow-ups the user is responsible for that are within the reminder window and not yet notified today. */
+export const findDueReminders = (memos: Memo[], user: User, settings: ReminderSettings, log: ReminderLog, today = new Date()): Memo[] => {
+    if (!settings.enabled) return [];
+    const day = toIsoDay(today);
+    return getOpenDueMemos(memos).filter(memo =>
+        canEditMemo(user, memo) &&
+        getDaysUntilDue(memo, today) <= settings.daysBefore &&
+        log[memo.id] !== day
+    );
+};
+
+/** Records today's reminders and forgets memos that no longer need one. */
+export const updateReminderLog = (log: ReminderLog, reminded: Memo[], memos: Memo[], today = new Date()): ReminderLog => {
+    const open = new Set(getOpenDueMemos(memos).map(m => m.id));
+    const day = toIsoDay(today);
+    const next: ReminderLog = Object.fromEntries(Object.entries(log).filter(([id]) => open.has(id)));
+    reminded.forEach(memo => { next[memo.id] = day; });
+    return next;
+};
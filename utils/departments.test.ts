@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { AA_CONTRAST_RATIO, getContrastRatio, getContrastTextColor } from './departments';
+import { STATUS_COLORS } from './workflow';
+
+describe('getContrastRatio', () => {
+    it('follows the WCAG formula', () => {
+        expect(getContrastRatio('#000000', '#ffffff')).toBeCloseTo(21);
+        expect(getContrastRatio('#777777', '#ffffff')).toBeCloseTo(4.48, 2);
+    });
+});
+
+describe('getContrastTextColor', () => {
+    it('picks a text colour that meets WCAG AA on any background', () => {
+        ['#FBC02D', '#0288D1', '#D32F2F', '#e0e7ff', '#18181b'].forEach(background => {
+            expect(getContrastRatio(background, getContrastTextColor(background))).toBeGreaterThanOrEqual(AA_CONTRAST_RATIO);
+        });
+    });
+
+    it('keeps white text on every status badge', () => {
+        Object.values(STATUS_COLORS).forEach(color => expect(getContrastTextColor(color)).toBe('#ffffff'));
+    });
+});
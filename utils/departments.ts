@@ -0,0 +1,121 @@
+import type { Memo, Department } from '../types';
+import type { NumberingSchemes } from './memoNumbering';
+
+// TYPES
+export type DepartmentColors = Record<Department, string>;
+
+/** Everything keyed by department name that has to move together when a department changes. */
+export interface DepartmentState {
+    memos: Memo[];
+    departments: Department[];
+    colors: DepartmentColors;
+    numberingSchemes: NumberingSchemes;
+}
+
+// COLORS
+export const DEPARTMENT_COLORS_KEY = 'departmentColors';
+export const FALLBACK_DEPARTMENT_COLOR = '#71717a';
+/** Minimum contrast for normal-size text under WCAG AA. */
+export const AA_CONTRAST_RATIO = 4.5;
+const DARK_TEXT_COLOR = '#18181b';
+export const DEFAULT_DEPARTMENT_COLORS: DepartmentColors = {
+    "งานบริหารวิชาการ": '#0288D1',
+    "งานบริหารงบประมาณ": '#F57C00',
+    "งานบริหารบุคลากร": '#D32F2F',
+    "งานบริหารทั่วไป": '#FBC02D',
+};
+export const COLOR_PALETTE = ['#0288D1', '#F57C00', '#D32F2F', '#FBC02D', '#388E3C', '#7B1FA2', '#00796B', '#C2185B', '#5D4037', '#455A64'];
+
+export const getDepartmentColor = (colors: DepartmentColors, department: Department) =>
+    colors[department] ?? DEFAULT_DEPARTMENT_COLORS[department] ?? FALLBACK_DEPARTMENT_COLOR;
+
+const parseHex = (hex: string) => {
+    const value = hex.replace('#', '');
+    const full = value.length === 3 ? value.split('').map(c => c + c).join('') : value;
+    return [0, 2, 4].map(i => parseInt(full.slice(i, i + 2), 16) || 0);
+};
+
+/** Relative luminance as defined by WCAG 2. */
+const getLuminance = (hex: string) => {
+    const [r, g, b] = parseHex(hex).map(c => {
+        const channel = c / 255;
+        return channel <= 0.03928 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4;
+    });
+    return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+export const getContrastRatio = (a: string, b: string) => {
+    const [light, dark] = [getLuminance(a), getLuminance(b)].sort((x, y) => y - x);
+    return (light + 0.05) / (dark + 0.05);
+};
+
+/**
+ * White text where it meets WCAG AA on the background, dark text otherwise (e.g. yellow). The dark
+ * text is a fixed colour rather than `--text-color`, which turns light in the dark theme.
+ */
+export const getContrastTextColor = (hex: string) =>
+    getContrastRatio(hex, '#ffffff') >= AA_CONTRAST_RATIO ? '#ffffff' : DARK_TEXT_COLOR;
+
+export const lightenColor = (hex: string, amount: number) => {
+    const channels = parseHex(hex).map(c => Math.round(c + (255 - c) * amount));
+    return `#${channels.map(c => c.toString(16).padStart(2, '0')).join('')}`;
+};
+
+export const getNextPaletteColor = (colors: DepartmentColors, departments: Department[]) => {
+    const used = new Set(departments.map(d => getDepartmentColor(colors, d).toLowerCase()));
+    return COLOR_PALETTE.find(c => !used.has(c.toLowerCase())) ?? COLOR_PALETTE[departments.length % COLOR_PALETTE.length];
+};
+
+// OPERATIONS
+const renameKey = <T,>(record: Record<string, T>, from: string, to: string): Record<string, T> => {
+    if (!(from in record)) return record;
+    const { [from]: value, ...rest } = record;
+    return to in rest ? rest : { ...rest, [to]: value };
+};
+
+const removeKey = <T,>(record: Record<string, T>, key: string): Record<string, T> => {
+    const { [key]: _removed, ...rest } = record;
+    return rest;
+};
+
+const reassignMemos = (memos: Memo[], from: Department, to: Department) =>
+    memos.map(m => m.department === from ? { ...m, department: to } : m);
+
+export const renameDepartment = (state: DepartmentState, from: Department, to: Department): DepartmentState => ({
+    memos: reassignMemos(state.memos, from, to),
+    departments: state.departments.map(d => d === from ? to : d),
+    colors: renameKey(state.colors, from, to),
+    numberingSchemes: renameKey(state.numberingSchemes, from, to),
+});
+
+/** Moves every memo of `source` into `target` and drops `source`; the target keeps its own color and scheme. */
+export const mergeDepartments = (state: DepartmentState, source: Department, target: Department): DepartmentState => ({
+    memos: reassignMemos(state.memos, source, target),
+    departments: state.departments.filter(d => d !== source),
+    colors: removeKey(state.colors, source),
+    numberingSchemes: removeKey(state.numberingSchemes, source),
+});
+
+export const deleteDepartment = (state: DepartmentState, department: Department, reassignTo: Department | null): DepartmentState => {
+    const orphaned = state.memos.some(m => m.department === department);
+    if (orphaned && !reassignTo) {
+        throw new Error(`Department “${department}” still has memos; a reassignment target is required`);
+    }
+    return {
+        memos: reassignTo ? reassignMemos(state.memos, department, reassignTo) : state.memos,
+        departments: state.departments.filter(d => d !== department),
+        colors: removeKey(state.colors, department),
+        numberingSchemes: removeKey(state.numberingSchemes, department),
+    };
+};
+
+export const moveDepartment = (departments: Department[], department: Department, offset: -1 | 1): Department[] => {
+    const index = departments.indexOf(department);
+    const target = index + offset;
+    if (index === -1 || target < 0 || target >= departments.length) return departments;
+    const reordered = [...departments];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    return reordered;
+};
+
+export const normalizeDepartmentName = (name: string) => name.trim().replace(/\s+/g, ' ');
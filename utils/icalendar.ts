@@ -0,0 +1,96 @@
+import { addDays, format, parseISO } from 'date-fns';
+import type { Memo } from '../types';
+import { getOpenDueMemos } from './deadlines';
+
+// TYPES
+export interface CalendarOptions {
+    name: string;
+    /** Hours before the due day starts that calendar apps should alert; 0 leaves alarms out. */
+    alarmHours?: number;
+    now?: Date;
+}
+
+// HELPERS
+/** RFC 5545 text escaping: backslash, semicolon, comma and line breaks. */
+const escapeText = (value: string) => value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+/** Folds a content line at 75 octets without splitting a multi-byte character (Thai is 3 bytes each). */
+const foldLine = (line: string) => {
+    const encoder = new TextEncoder();
+    const parts: string[] = [];
+    let current = '';
+    let size = 0;
+    for (const char of line) {
+        const charSize = encoder.encode(char).length;
+        // Continuation lines start with a space, which counts towards their 75 octets.
+        const limit = parts.length === 0 ? 75 : 74;
+        if (size + charSize > limit) {
+            parts.push(current);
+            current = '';
+            size = 0;
+        }
+        current += char;
+        size += charSize;
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+};
+
+const toDateValue = (isoDay: string) => isoDay.replace(/-/g, '');
+
+const toUtcStamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const describeMemo = (memo: Memo) => [
+    `เลขที่: ${memo.memoNumber}`,
+    `ฝ่ายงาน: ${memo.department}`,
+    `ครู: ${memo.teacher}`,
+    memo.followUpBy && `ผู้รับผิดชอบติดตาม: ${memo.followUpBy}`,
+    memo.followUpNotes && `บันทึกการติดตาม: ${memo.followUpNotes}`,
+].filter(Boolean).join('\n');
+
+// CALENDAR
+/** An iCalendar feed with one all-day event per open follow-up, on its due date. */
+export const buildDeadlineCalendar = (memos: Memo[], { name, alarmHours = 24, now = new Date() }: CalendarOptions): string => {
+    const stamp = toUtcStamp(now);
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Memo Management System//Deadlines//TH',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeText(name)}`,
+        'X-WR-TIMEZONE:Asia/Bangkok',
+    ];
+    getOpenDueMemos(memos).forEach(memo => {
+        lines.push(
+            'BEGIN:VEVENT',
+            `UID:${memo.id}@memo-management-system`,
+            `DTSTAMP:${stamp}`,
+            `DTSTART;VALUE=DATE:${toDateValue(memo.dueDate)}`,
+            `DTEND;VALUE=DATE:${format(addDays(parseISO(memo.dueDate), 1), 'yyyyMMdd')}`,
+            `SUMMARY:${escapeText(`ครบกำหนด: ${memo.subject} (${memo.memoNumber})`)}`,
+            `DESCRIPTION:${escapeText(describeMemo(memo))}`,
+            'TRANSP:TRANSPARENT',
+        );
+        if (alarmHours > 0) {
+            lines.push('BEGIN:VALARM', 'ACTION:DISPLAY', `DESCRIPTION:${escapeText(memo.subject)}`, `TRIGGER:-PT${alarmHours}H`, 'END:VALARM');
+        }
+        lines.push('END:VEVENT');
+    });
+    lines.push('END:VCALENDAR');
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+/**
+ * Subscription link for the server's calendar feed. Calendar apps cannot send headers, so the
+ * user's personal feed token goes in the URL; the server decides which memos it shows.
+ */
+export const buildCalendarFeedUrl = (baseUrl: string, feedToken: string) => {
+    const url = new URL('api/calendar.ics', baseUrl.replace(/\/*$/, '/'));
+    url.searchParams.set('feed', feedToken);
+    return url.href;
+};
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import type { Memo } from '../types';
+import { validateImportRows, renumberDuplicateRows, getImportableRows, guessColumnMapping, getImportFields, type ColumnMapping, type ImportTable } from './memoImportExport';
+
+const DEPARTMENT = 'งานบริหารวิชาการ';
+const MAPPING: ColumnMapping = { memoNumber: 0, date: 1, teacher: 2, subject: 3, department: 4 };
+
+const existing: Memo = { id: 'm1', memoNumber: '001/2568', date: '2025-06-01', teacher: 'ครูสมศรี ใจดี', subject: 'เรื่องเดิม', department: DEPARTMENT };
+
+const table: ImportTable = {
+    headers: ['เลขที่', 'วันที่', 'ชื่อครู', 'เรื่อง', 'ฝ่ายงาน'],
+    rows: [
+        ['001/2568', '2025-06-02', 'ครูมานะ อดทน', 'ซ้ำกับทะเบียน', DEPARTMENT],
+        ['005/2568', '2025-06-03', 'ครูมานะ อดทน', 'เลขใหม่', DEPARTMENT],
+        ['005/2568', '2025-06-04', 'ครูมานะ อดทน', 'ซ้ำในไฟล์', DEPARTMENT],
+    ],
+};
+
+describe('duplicate import rows', () => {
+    it('leaves them out when skipping', () => {
+        const results = validateImportRows(table, MAPPING, [existing]);
+        expect(results.map(r => r.duplicateOf)).toEqual(['register', null, 'file']);
+        expect(getImportableRows(results, 'skip').map(r => r.memo.subject)).toEqual(['เลขใหม่']);
+    });
+
+    it('gives them free numbers instead of importing the taken ones', () => {
+        const results = renumberDuplicateRows(validateImportRows(table, MAPPING, [existing]), [existing], 'memo', {}, {});
+        const imported = getImportableRows(results, 'renumber');
+        expect(imported.map(r => r.memo.memoNumber)).toEqual(['006/2568', '005/2568', '007/2568']);
+        expect(imported[0].originalNumber).toBe('001/2568');
+        expect(imported[1].originalNumber).toBeUndefined();
+    });
+});
+
+describe('importing into a register', () => {
+    const received: Memo = { id: 'r1', register: 'incoming', memoNumber: 'รับ 1/2568', date: '2025-06-01', teacher: '', subject: 'หนังสือเดิม', department: DEPARTMENT };
+    const incoming: ImportTable = {
+        headers: ['เลขทะเบียนรับ', 'วันที่', 'ผู้รับผิดชอบ', 'เรื่อง', 'ฝ่ายงาน', 'ที่ (เลขที่หนังสือ)', 'ลงวันที่', 'จาก', 'ชั้นความเร็ว', 'ตอบหนังสือเลขที่'],
+        rows: [
+            ['001/2568', '2025-06-02', '', 'ตรงกับบันทึกแต่ไม่ซ้ำ', DEPARTMENT, 'ศธ 04001/12', '30/05/2568', 'สพม.', 'ด่วน', ''],
+            ['รับ 1/2568', '2025-06-03', '', 'ซ้ำกับทะเบียนรับ', DEPARTMENT, '', '', 'สพม.', '', '001/2568'],
+        ],
+    };
+
+    it('maps the register columns and checks duplicates within that register only', () => {
+        const mapping = guessColumnMapping(incoming.headers, getImportFields('incoming'));
+        const results = validateImportRows(incoming, mapping, [existing, received], 'incoming');
+        expect(results.map(r => r.duplicateOf)).toEqual([null, 'register']);
+        expect(results[0].memo).toMatchObject({
+            register: 'incoming', letterNumber: 'ศธ 04001/12', letterDate: '2025-05-30', fromAgency: 'สพม.', urgency: 'urgent',
+        });
+        expect(results[1].memo.replyTo).toBe('m1');
+    });
+
+    it('renumbers with the register scheme', () => {
+        const mapping = guessColumnMapping(incoming.headers, getImportFields('incoming'));
+        const existingMemos = [existing, received];
+        const results = renumberDuplicateRows(validateImportRows(incoming, mapping, existingMemos, 'incoming'), existingMemos, 'incoming', {}, {});
+        expect(getImportableRows(results, 'renumber').map(r => r.memo.memoNumber)).toEqual(['001/2568', 'รับ 2/2568']);
+    });
+});
@@ -0,0 +1,331 @@
+import * as XLSX from 'xlsx';
+import { format, parseISO } from 'date-fns';
+import type { Memo, Department, RegisterType } from '../types';
+import { normalizeMemoNumber, getNextMemoNumber, findDuplicateMemo, type NumberingSchemes } from './memoNumbering';
+import { MEMO_SCHEMA, getFieldRule, validateMemoFields } from './memoValidation';
+import { REGISTERS, URGENCY_LEVELS, URGENCY_LABELS, getRegisterMemos, getRegisterScheme, findReplyTarget, type RegisterField, type RegisterSchemes } from './registers';
+import { formatDate, parseDayMonthYear, parseDateInput, type DateLocale } from './dateLocale';
+
+// TYPES
+export type ImportField = 'memoNumber' | 'date' | 'teacher' | 'subject' | 'department' | RegisterField | 'replyTo';
+/** Fields the register doesn't use may be left out. */
+export type ColumnMapping = Partial<Record<ImportField, number | null>>;
+
+export interface ImportFieldDefinition {
+    key: ImportField;
+    label: string;
+    required: boolean;
+    aliases: string[];
+}
+
+export interface ImportTable {
+    headers: string[];
+    rows: string[][];
+}
+
+export interface ImportRowResult {
+    rowNumber: number;
+    memo: Omit<Memo, 'id'> | null;
+    errors: string[];
+    duplicateOf: 'register' | 'file' | null;
+    /** The number in the file, kept when the row was given a new one. */
+    originalNumber?: string;
+}
+
+/** What happens to rows whose number is already taken; they are never imported under it. */
+export type DuplicateAction = 'skip' | 'renumber';
+
+// CONSTANTS
+/** Every importable field; `getImportFields` picks the ones a register uses. Aliases include the export headers. */
+export const IMPORT_FIELDS: ImportFieldDefinition[] = [
+    { key: 'memoNumber', label: 'เลขที่บันทึก', required: true, aliases: ['เลขที่', 'เลขที่บันทึก', 'เลขที่บันทึกข้อความ', 'เลขทะเบียนรับ', 'เลขทะเบียนส่ง', 'คำสั่งที่', 'memonumber', 'memo number', 'number', 'no'] },
+    { key: 'date', label: 'วันที่', required: true, aliases: ['วันที่', 'ลงวันที่', 'date'] },
+    { key: 'teacher', label: 'ชื่อครู', required: true, aliases: ['ชื่อครู', 'ครู', 'ชื่อครูผู้ดำเนินการ', 'ผู้ดำเนินการ', 'ผู้รับผิดชอบ', 'ผู้เสนอเรื่อง', 'teacher'] },
+    { key: 'subject', label: 'เรื่อง', required: true, aliases: ['เรื่อง', 'ชื่อเรื่อง', 'subject', 'title'] },
+    { key: 'department', label: 'ฝ่ายงาน', required: true, aliases: ['ฝ่ายงาน', 'ฝ่าย', 'กลุ่มงาน', 'department'] },
+    { key: 'letterNumber', label: 'ที่ (เลขที่หนังสือ)', required: false, aliases: ['ที่', 'ที่ (เลขที่หนังสือ)', 'เลขที่หนังสือ', 'letternumber'] },
+    { key: 'letterDate', label: 'ลงวันที่', required: false, aliases: ['ลงวันที่', 'วันที่หนังสือ', 'letterdate'] },
+    { key: 'fromAgency', label: 'จาก', required: false, aliases: ['จาก', 'หน่วยงานต้นเรื่อง', 'fromagency'] },
+    { key: 'toAgency', label: 'ถึง', required: false, aliases: ['ถึง', 'หน่วยงานปลายทาง', 'toagency'] },
+    { key: 'urgency', label: 'ชั้นความเร็ว', required: false, aliases: ['ชั้นความเร็ว', 'ความเร็ว', 'urgency'] },
+    { key: 'effectiveDate', label: 'มีผลตั้งแต่', required: false, aliases: ['มีผลตั้งแต่', 'วันที่มีผล', 'effectivedate'] },
+    { key: 'replyTo', label: 'ตอบหนังสือเลขที่', required: false, aliases: ['ตอบหนังสือเลขที่', 'ตอบหนังสือ', 'replyto'] },
+];
+
+const REPLY_TO_HEADER = 'ตอบหนังสือเลขที่';
+const DATE_FIELDS: ImportField[] = ['date', 'letterDate', 'effectiveDate'];
+
+/** The fields a register's form has, labelled and required as that form does. */
+export const getImportFields = (register: RegisterType = 'memo'): ImportFieldDefinition[] => IMPORT_FIELDS.flatMap(field => {
+    if (field.key === 'replyTo') return [field];
+    const rule = getFieldRule(field.key, register);
+    return rule ? [{ ...field, label: rule.label, required: rule.required }] : [];
+});
+
+// DOWNLOAD
+export const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// EXPORT
+const getExportHeaders = (register: RegisterType) => {
+    const definition = REGISTERS[register];
+    return [
+        'ลำดับ', definition.numberLabel, 'วันที่', definition.teacherLabel, 'เรื่อง', 'ฝ่ายงาน',
+        ...definition.fields.map(field => MEMO_SCHEMA[field].label),
+        REPLY_TO_HEADER, 'ไฟล์แนบ',
+    ];
+};
+
+const formatRegisterField = (memo: Memo, field: RegisterField, locale: DateLocale) => {
+    const value = memo[field];
+    if (!value) return '';
+    if (field === 'letterDate' || field === 'effectiveDate') return formatDate(value, locale);
+    if (field === 'urgency') return URGENCY_LABELS[memo.urgency] ?? value;
+    return value;
+};
+
+/**
+ * Dates follow the display locale; B.E. dd/MM/yyyy reads back through `parseImportDate`.
+ * Replies show the number they answer, looked up in `allMemos` as the target may be in another register.
+ */
+const memosToRows = (memos: Memo[], locale: DateLocale, register: RegisterType, allMemos: Memo[]): string[][] => {
+    const numbers = new Map(allMemos.map(m => [m.id, m.memoNumber]));
+    return memos.map((memo, index) => [
+        String(index + 1),
+        memo.memoNumber,
+        formatDate(memo.date, locale),
+        memo.teacher,
+        memo.subject,
+        memo.department,
+        ...REGISTERS[register].fields.map(field => formatRegisterField(memo, field, locale)),
+        memo.replyTo ? numbers.get(memo.replyTo) ?? '' : '',
+        (memo.attachments ?? []).map(a => a.name).join('; '),
+    ]);
+};
+
+const escapeCsvCell = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toCsv = (rows: string[][]) => rows.map(row => row.map(cell => escapeCsvCell(cell ?? '')).join(',')).join('\r\n');
+
+/** UTF-8 with a BOM so Excel detects the encoding and renders Thai text correctly. */
+export const exportRowsToCsv = (rows: string[][], filename: string) => {
+    downloadBlob(new Blob(['\uFEFF', toCsv(rows)], { type: 'text/csv;charset=utf-8' }), filename);
+};
+
+/** `memos` all belong to `register`, whose columns the file gets. */
+export const exportMemosToCsv = (memos: Memo[], filename: string, locale: DateLocale, register: RegisterType = 'memo', allMemos: Memo[] = memos) => {
+    exportRowsToCsv([getExportHeaders(register), ...memosToRows(memos, locale, register, allMemos)], filename);
+};
+
+export const exportMemosToXlsx = (memos: Memo[], filename: string, locale: DateLocale, register: RegisterType = 'memo', allMemos: Memo[] = memos) => {
+    const sheet = XLSX.utils.aoa_to_sheet([getExportHeaders(register), ...memosToRows(memos, locale, register, allMemos)]);
+    sheet['!cols'] = [
+        { wch: 6 }, { wch: 16 }, { wch: 12 }, { wch: 24 }, { wch: 48 }, { wch: 22 },
+        ...REGISTERS[register].fields.map(() => ({ wch: 18 })),
+        { wch: 16 }, { wch: 24 },
+    ];
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, sheet, 'ทะเบียน');
+    const data = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+    downloadBlob(new Blob([data], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }), filename);
+};
+
+// IMPORT
+export const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+    const input = text.replace(/^\uFEFF/, '');
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+        if (inQuotes) {
+            if (char === '"' && input[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    if (cell || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+    return rows.filter(r => r.some(c => c.trim() !== ''));
+};
+
+export const readImportFile = async (file: File): Promise<ImportTable> => {
+    let rows: string[][];
+    if (/\.csv$/i.test(file.name) || file.type === 'text/csv') {
+        rows = parseCsv(await file.text());
+    } else {
+        const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: true });
+        const sheet = workbook.Sheets[workbook.SheetNames[0]];
+        const raw = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, defval: '' });
+        rows = raw
+            .map(r => r.map(cell => cell instanceof Date ? format(cell, 'yyyy-MM-dd') : String(cell ?? '')))
+            .filter(r => r.some(c => c.trim() !== ''));
+    }
+    const [headers = [], ...body] = rows;
+    return { headers: headers.map(h => h.trim()), rows: body };
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[\s_\-.]/g, '');
+
+/** Each column goes to at most one field, so a lone “ลงวันที่” header is read as the record date. */
+export const guessColumnMapping = (headers: string[], fields: ImportFieldDefinition[] = IMPORT_FIELDS): ColumnMapping => {
+    const normalized = headers.map(normalizeHeader);
+    const used = new Set<number>();
+    return Object.fromEntries(fields.map(field => {
+        const index = normalized.findIndex((h, i) => !used.has(i) && field.aliases.some(alias => normalizeHeader(alias) === h));
+        if (index !== -1) used.add(index);
+        return [field.key, index === -1 ? null : index];
+    }));
+};
+
+/** Accepts ISO dates, day-month-year text in either era (see `parseDayMonthYear`) and Excel serial numbers. */
+export const parseImportDate = (value: string): string | null => {
+    const trimmed = value.trim();
+    if (!trimmed) return null;
+    if (/^\d{4}-\d{2}-\d{2}/.test(trimmed)) {
+        return parseDateInput(trimmed.slice(0, 10));
+    }
+    const dayMonthYear = parseDayMonthYear(trimmed);
+    if (dayMonthYear) return dayMonthYear;
+    if (/^\d+(\.\d+)?$/.test(trimmed)) {
+        const serial = XLSX.SSF.parse_date_code(parseFloat(trimmed));
+        if (serial) return format(new Date(serial.y, serial.m - 1, serial.d), 'yyyy-MM-dd');
+    }
+    return null;
+};
+
+/** Urgency is exported by its Thai label; the stored level is accepted too. */
+const parseImportUrgency = (value: string) =>
+    URGENCY_LEVELS.find(level => level === value || URGENCY_LABELS[level] === value) ?? value;
+
+/**
+ * Checks rows for `register`, whose records they become. Duplicates are looked for in that register
+ * only; replies may answer a record in any register, but not another row of the same file.
+ */
+export const validateImportRows = (table: ImportTable, mapping: ColumnMapping, memos: Memo[], register: RegisterType = 'memo'): ImportRowResult[] => {
+    const existingNumbers = new Set(getRegisterMemos(memos, register).map(m => normalizeMemoNumber(m.memoNumber || '')));
+    const seenInFile = new Set<string>();
+    const registerFields = REGISTERS[register].fields;
+
+    return table.rows.map((row, index) => {
+        const errors: string[] = [];
+        const cell = (field: ImportField) => {
+            const column = mapping[field] ?? null;
+            if (column === null) return '';
+            const value = (row[column] ?? '').trim();
+            return value && DATE_FIELDS.includes(field) ? parseImportDate(value) ?? value : value;
+        };
+
+        // Unknown departments are allowed here; the wizard offers to create them.
+        const { values, errors: fieldErrors } = validateMemoFields({
+            memoNumber: cell('memoNumber'),
+            date: cell('date'),
+            teacher: cell('teacher'),
+            subject: cell('subject'),
+            department: cell('department'),
+            letterNumber: cell('letterNumber'),
+            letterDate: cell('letterDate'),
+            fromAgency: cell('fromAgency'),
+            toAgency: cell('toAgency'),
+            urgency: parseImportUrgency(cell('urgency')),
+            effectiveDate: cell('effectiveDate'),
+        }, { register });
+        errors.push(...Object.values(fieldErrors));
+
+        const replyNumber = cell('replyTo');
+        const replyTarget = replyNumber ? findReplyTarget(memos, replyNumber) : undefined;
+        if (replyNumber && !replyTarget) errors.push(`ไม่พบหนังสือเลขที่ “${normalizeMemoNumber(replyNumber)}” ในทะเบียน`);
+
+        const memoNumber = values.memoNumber;
+        let duplicateOf: ImportRowResult['duplicateOf'] = null;
+        if (memoNumber && existingNumbers.has(memoNumber)) {
+            duplicateOf = 'register';
+        } else if (memoNumber && seenInFile.has(memoNumber)) {
+            duplicateOf = 'file';
+        }
+        if (memoNumber) seenInFile.add(memoNumber);
+
+        return {
+            rowNumber: index + 2,
+            memo: errors.length > 0 ? null : {
+                memoNumber,
+                date: values.date,
+                teacher: values.teacher,
+                subject: values.subject,
+                department: values.department,
+                ...Object.fromEntries(registerFields.filter(field => values[field]).map(field => [field, values[field]])),
+                ...(replyTarget && { replyTo: replyTarget.id }),
+                ...(register !== 'memo' && { register }),
+            },
+            errors,
+            duplicateOf,
+        };
+    });
+};
+
+/**
+ * Gives rows whose number is taken the next free number of the register's scheme (the department's,
+ * for internal memos), in file order. Numbers are counted over the register and every row kept as
+ * it is, so none collide.
+ */
+export const renumberDuplicateRows = (
+    results: ImportRowResult[],
+    memos: Memo[],
+    register: RegisterType,
+    numberingSchemes: NumberingSchemes,
+    registerSchemes: RegisterSchemes,
+): ImportRowResult[] => {
+    const taken: Memo[] = [
+        ...getRegisterMemos(memos, register),
+        ...results.filter(r => r.memo && !r.duplicateOf).map(r => ({ id: `row-${r.rowNumber}`, ...r.memo })),
+    ];
+    return results.map(result => {
+        if (!result.memo || !result.duplicateOf) return result;
+        const scheme = getRegisterScheme(register, result.memo.department, numberingSchemes, registerSchemes);
+        const memoNumber = getNextMemoNumber(taken, scheme, parseISO(result.memo.date));
+        if (findDuplicateMemo(taken, memoNumber)) {
+            return { ...result, memo: null, errors: [...result.errors, 'ไม่สามารถกำหนดเลขที่ใหม่ที่ไม่ซ้ำได้'] };
+        }
+        const memo = { ...result.memo, memoNumber };
+        taken.push({ id: `row-${result.rowNumber}`, ...memo });
+        return { ...result, memo, originalNumber: result.memo.memoNumber };
+    });
+};
+
+/** Rows that go into the register: valid ones, with duplicates skipped or renumbered. */
+export const getImportableRows = (results: ImportRowResult[], action: DuplicateAction): ImportRowResult[] =>
+    results.filter(r => r.memo && (!r.duplicateOf || (action === 'renumber' && r.originalNumber !== undefined)));
+
+export const findUnknownDepartments = (results: ImportRowResult[], departments: Department[]): Department[] => {
+    const known = new Set(departments);
+    return [...new Set(results.map(r => r.memo?.department).filter((d): d is string => !!d && !known.has(d)))];
+};
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import type { Memo } from '../types';
+import { buildNumberingReport, formatSequenceGap } from './memoNumbering';
+
+const makeMemo = (id: string, memoNumber: string): Memo => ({
+    id,
+    memoNumber,
+    date: '2025-06-01',
+    teacher: 'ครูสมศรี ใจดี',
+    subject: `เรื่องที่ ${id}`,
+    department: 'งานบริหารวิชาการ',
+});
+
+describe('buildNumberingReport', () => {
+    it('reports missing numbers as runs', () => {
+        const memos = ['001', '002', '005', '007', '007'].map((seq, i) => makeMemo(String(i), `${seq}/2568`));
+        const [sequence] = buildNumberingReport(memos, ['งานบริหารวิชาการ'], {}).sequences;
+        expect(sequence).toMatchObject({ year: 2568, count: 5, lastSeq: 7 });
+        expect(sequence.gaps.map(formatSequenceGap)).toEqual(['3–4', '6']);
+    });
+
+    it('keeps a mistyped number in the millions to a single gap', () => {
+        const memos = [makeMemo('1', '001/2568'), makeMemo('2', '9999999/2568')];
+        const [sequence] = buildNumberingReport(memos, ['งานบริหารวิชาการ'], {}).sequences;
+        expect(sequence.gaps).toEqual([{ from: 2, to: 9999998 }]);
+    });
+});
@@ -0,0 +1,216 @@
+import { parseISO, isValid } from 'date-fns';
+import type { Memo, Department } from '../types';
+
+// TYPES
+export type YearBasis = 'fiscal' | 'academic' | 'calendar';
+
+export interface NumberingScheme {
+    prefix: string;
+    /** Supports the tokens {prefix}, {seq} and {year} (Buddhist-era year of the numbering period). */
+    pattern: string;
+    padding: number;
+    yearBasis: YearBasis;
+}
+
+export type NumberingSchemes = Record<Department, NumberingScheme>;
+
+/** A run of missing numbers, `from` to `to` inclusive. */
+export interface SequenceGap {
+    from: number;
+    to: number;
+}
+
+export interface SequenceReport {
+    departments: Department[];
+    scheme: NumberingScheme;
+    year: number;
+    count: number;
+    lastSeq: number;
+    gaps: SequenceGap[];
+    duplicates: { memoNumber: string; memos: Memo[] }[];
+}
+
+export interface NumberingReport {
+    sequences: SequenceReport[];
+    duplicateNumbers: { memoNumber: string; memos: Memo[] }[];
+    unparsed: Memo[];
+}
+
+// CONSTANTS
+export const BUDDHIST_ERA_OFFSET = 543;
+export const NUMBERING_SCHEMES_KEY = 'numberingSchemes';
+export const DEFAULT_NUMBERING_SCHEME: NumberingScheme = { prefix: '', pattern: '{prefix}{seq}/{year}', padding: 3, yearBasis: 'fiscal' };
+
+export const YEAR_BASIS_LABELS: Record<YearBasis, string> = {
+    fiscal: 'ปีงบประมาณ (เริ่ม 1 ต.ค.)',
+    academic: 'ปีการศึกษา (เริ่ม 16 พ.ค.)',
+    calendar: 'ปีปฏิทิน (เริ่ม 1 ม.ค.)',
+};
+
+// PERIODS
+/** Buddhist-era year of the numbering period that `date` falls into. */
+export const getPeriodYear = (date: Date, basis: YearBasis): number => {
+    const year = date.getFullYear();
+    const month = date.getMonth();
+    let periodYear = year;
+    if (basis === 'fiscal') {
+        // Thai fiscal year N runs 1 Oct (N-1) to 30 Sep N.
+        periodYear = month >= 9 ? year + 1 : year;
+    } else if (basis === 'academic') {
+        // Thai academic year N starts with the first semester on 16 May N.
+        periodYear = month > 4 || (month === 4 && date.getDate() >= 16) ? year : year - 1;
+    }
+    return periodYear + BUDDHIST_ERA_OFFSET;
+};
+
+/** First and last day of the period that `date` falls into. */
+export const getPeriodRange = (date: Date, basis: YearBasis): { start: Date; end: Date } => {
+    const year = getPeriodYear(date, basis) - BUDDHIST_ERA_OFFSET;
+    if (basis === 'fiscal') return { start: new Date(year - 1, 9, 1), end: new Date(year, 8, 30) };
+    if (basis === 'academic') return { start: new Date(year, 4, 16), end: new Date(year + 1, 4, 15) };
+    return { start: new Date(year, 0, 1), end: new Date(year, 11, 31) };
+};
+
+const getMemoPeriodYear = (memo: Memo, basis: YearBasis): number | null => {
+    const date = parseISO(memo.date);
+    return isValid(date) ? getPeriodYear(date, basis) : null;
+};
+
+// PARSING & FORMATTING
+export const getSchemeForDepartment = (schemes: NumberingSchemes, department: Department): NumberingScheme =>
+    schemes[department] ?? DEFAULT_NUMBERING_SCHEME;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const buildMatcher = (scheme: NumberingScheme) => {
+    const groups: ('seq' | 'year')[] = [];
+    const source = scheme.pattern.split(/(\{prefix\}|\{seq\}|\{year\})/).map(part => {
+        switch (part) {
+            case '{prefix}': return escapeRegExp(scheme.prefix);
+            case '{seq}': groups.push('seq'); return '(\\d+)';
+            case '{year}': groups.push('year'); return '(\\d{4})';
+            default: return escapeRegExp(part);
+        }
+    }).join('');
+    return { regex: new RegExp(`^${source}$`), groups };
+};
+
+export const normalizeMemoNumber = (memoNumber: string) => memoNumber.trim().replace(/\s+/g, ' ');
+
+export const parseMemoNumber = (memoNumber: string, scheme: NumberingScheme): { seq: number; year: number | null } | null => {
+    const { regex, groups } = buildMatcher(scheme);
+    const match = regex.exec(normalizeMemoNumber(memoNumber));
+    if (!match) return null;
+    const seqIndex = groups.indexOf('seq');
+    const yearIndex = groups.indexOf('year');
+    if (seqIndex === -1) return null;
+    return {
+        seq: parseInt(match[seqIndex + 1], 10),
+        year: yearIndex === -1 ? null : parseInt(match[yearIndex + 1], 10),
+    };
+};
+
+export const formatMemoNumber = (scheme: NumberingScheme, seq: number, year: number) =>
+    scheme.pattern
+        .replace(/\{prefix\}/g, scheme.prefix)
+        .replace(/\{seq\}/g, String(seq).padStart(Math.max(1, scheme.padding), '0'))
+        .replace(/\{year\}/g, String(year));
+
+const collectSequence = (memos: Memo[], scheme: NumberingScheme) => {
+    const entries: { memo: Memo; seq: number; year: number }[] = [];
+    memos.forEach(memo => {
+        const parsed = parseMemoNumber(memo.memoNumber || '', scheme);
+        if (!parsed) return;
+        const year = parsed.year ?? getMemoPeriodYear(memo, scheme.yearBasis);
+        if (year !== null) entries.push({ memo, seq: parsed.seq, year });
+    });
+    return entries;
+};
+
+/**
+ * Next free number for a memo dated `date`. Sequences are counted over the whole register, so
+ * departments sharing a scheme share one running number and never collide with each other.
+ */
+export const getNextMemoNumber = (memos: Memo[], scheme: NumberingScheme, date: Date): string => {
+    const year = getPeriodYear(date, scheme.yearBasis);
+    const lastSeq = collectSequence(memos, scheme)
+        .filter(entry => entry.year === year)
+        .reduce((max, entry) => Math.max(max, entry.seq), 0);
+    return formatMemoNumber(scheme, lastSeq + 1, year);
+};
+
+export const findDuplicateMemo = (memos: Memo[], memoNumber: string, excludeId?: string): Memo | undefined => {
+    const normalized = normalizeMemoNumber(memoNumber);
+    return memos.find(m => m.id !== excludeId && normalizeMemoNumber(m.memoNumber || '') === normalized);
+};
+
+// REPORT
+const groupDuplicates = (memos: Memo[]) => {
+    const byNumber = new Map<string, Memo[]>();
+    memos.forEach(memo => {
+        const key = normalizeMemoNumber(memo.memoNumber || '');
+        if (!key) return;
+        byNumber.set(key, [...(byNumber.get(key) ?? []), memo]);
+    });
+    return [...byNumber.entries()]
+        .filter(([, group]) => group.length > 1)
+        .map(([memoNumber, group]) => ({ memoNumber, memos: group }));
+};
+
+/** Missing numbers as runs, so one mistyped number in the millions costs one entry and not millions. */
+const findGaps = (seqs: number[]): SequenceGap[] => {
+    const gaps: SequenceGap[] = [];
+    let expected = 1;
+    [...new Set(seqs)].sort((a, b) => a - b).forEach(seq => {
+        if (seq > expected) gaps.push({ from: expected, to: seq - 1 });
+        expected = Math.max(expected, seq + 1);
+    });
+    return gaps;
+};
+
+export const formatSequenceGap = ({ from, to }: SequenceGap) => from === to ? String(from) : `${from}–${to}`;
+
+/** Gap and duplicate analysis of the existing register, per numbering scheme and period. */
+export const buildNumberingReport = (memos: Memo[], departments: Department[], schemes: NumberingSchemes): NumberingReport => {
+    const schemeGroups = new Map<string, { scheme: NumberingScheme; departments: Department[] }>();
+    departments.forEach(department => {
+        const scheme = getSchemeForDepartment(schemes, department);
+        const key = `${scheme.prefix}\u0000${scheme.pattern}\u0000${scheme.yearBasis}`;
+        const group = schemeGroups.get(key);
+        if (group) {
+            group.departments.push(department);
+        } else {
+            schemeGroups.set(key, { scheme, departments: [department] });
+        }
+    });
+
+    const parsedIds = new Set<string>();
+    const sequences: SequenceReport[] = [];
+    schemeGroups.forEach(({ scheme, departments: groupDepartments }) => {
+        const byYear = new Map<number, { memo: Memo; seq: number }[]>();
+        collectSequence(memos, scheme).forEach(entry => {
+            parsedIds.add(entry.memo.id);
+            byYear.set(entry.year, [...(byYear.get(entry.year) ?? []), entry]);
+        });
+        byYear.forEach((entries, year) => {
+            const seqs = entries.map(e => e.seq);
+            const lastSeq = seqs.reduce((max, seq) => Math.max(max, seq), 0);
+            sequences.push({
+                departments: groupDepartments,
+                scheme,
+                year,
+                count: entries.length,
+                lastSeq,
+                gaps: findGaps(seqs),
+                duplicates: groupDuplicates(entries.map(e => e.memo)),
+            });
+        });
+    });
+    sequences.sort((a, b) => b.year - a.year || a.departments[0].localeCompare(b.departments[0], 'th'));
+
+    return {
+        sequences,
+        duplicateNumbers: groupDuplicates(memos),
+        unparsed: memos.filter(m => !parsedIds.has(m.id)),
+    };
+};
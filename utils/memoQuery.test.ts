@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import type { Memo, MemoFilters } from '../types';
+import { EMPTY_FILTERS } from './viewState';
+import { createSearchIndex } from './searchIndex';
+import { filterMemos, sortMemos, toggleSort, paginate } from './memoQuery';
+
+const makeMemo = (id: string, overrides: Partial<Memo> = {}): Memo => ({
+    id,
+    memoNumber: `ว ${id}/2568`,
+    date: '2025-06-01',
+    teacher: 'ครูสมศรี ใจดี',
+    subject: `เรื่องที่ ${id}`,
+    department: 'งานบริหารวิชาการ',
+    ...overrides,
+});
+
+const filters = (overrides: Partial<MemoFilters>): MemoFilters => ({ ...EMPTY_FILTERS, ...overrides });
+
+describe('filterMemos', () => {
+    const memos = [
+        makeMemo('1', { date: '2025-05-31', department: 'งานบริหารงบประมาณ' }),
+        makeMemo('2', { date: '2025-06-01', status: 'approved' }),
+        makeMemo('3', { date: '2025-06-30', teacher: 'ครูมานะ อดทน' }),
+        makeMemo('4', { deleted: { userId: 'u1', name: 'ผู้ดูแล', at: '2025-06-02T00:00:00.000Z' } }),
+    ];
+
+    it('leaves out memos in the trash', () => {
+        expect(filterMemos(memos, EMPTY_FILTERS).map(m => m.id)).toEqual(['1', '2', '3']);
+    });
+
+    it('includes both ends of the date range', () => {
+        const result = filterMemos(memos, filters({ startDate: '2025-06-01', endDate: '2025-06-30' }));
+        expect(result.map(m => m.id)).toEqual(['2', '3']);
+    });
+
+    it('matches department, status and teacher', () => {
+        expect(filterMemos(memos, filters({ department: 'งานบริหารงบประมาณ' })).map(m => m.id)).toEqual(['1']);
+        expect(filterMemos(memos, filters({ status: 'approved' })).map(m => m.id)).toEqual(['2']);
+        expect(filterMemos(memos, filters({ teacher: 'name:ครูมานะ อดทน' })).map(m => m.id)).toEqual(['3']);
+    });
+
+    it('shows one register at a time, with older records as internal memos', () => {
+        const letters = [...memos, makeMemo('5', { register: 'incoming' })];
+        expect(filterMemos(letters, EMPTY_FILTERS).map(m => m.id)).toEqual(['1', '2', '3']);
+        expect(filterMemos(letters, filters({ register: 'incoming' })).map(m => m.id)).toEqual(['5']);
+    });
+
+    it('keeps only memos the search matched', () => {
+        const index = createSearchIndex();
+        index.update(memos);
+        expect(filterMemos(memos, EMPTY_FILTERS, index.search('เรื่องที่ 3')).map(m => m.id)).toEqual(['3']);
+    });
+});
+
+describe('sortMemos', () => {
+    const memos = [makeMemo('b', { date: '2025-02-01' }), makeMemo('a', { date: '2025-03-01' }), makeMemo('c', { date: '2025-01-01' })];
+
+    it('sorts a copy by the chosen column in either direction', () => {
+        expect(sortMemos(memos, [{ key: 'date', direction: 'ascending' }]).map(m => m.id)).toEqual(['c', 'b', 'a']);
+        expect(sortMemos(memos, [{ key: 'date', direction: 'descending' }]).map(m => m.id)).toEqual(['a', 'b', 'c']);
+        expect(memos.map(m => m.id)).toEqual(['b', 'a', 'c']);
+    });
+
+    it('breaks ties with the later columns', () => {
+        const tied = [
+            makeMemo('1', { department: 'ข', date: '2025-01-01' }),
+            makeMemo('2', { department: 'ก', date: '2025-01-01' }),
+            makeMemo('3', { department: 'ข', date: '2025-03-01' }),
+            makeMemo('4', { department: 'ก', date: '2025-02-01' }),
+        ];
+        const sorted = sortMemos(tied, [{ key: 'department', direction: 'ascending' }, { key: 'date', direction: 'descending' }]);
+        expect(sorted.map(m => m.id)).toEqual(['4', '2', '3', '1']);
+    });
+
+    it('sorts memos without a status as drafts', () => {
+        const withStatus = [makeMemo('1', { status: 'submitted' }), makeMemo('2'), makeMemo('3', { status: 'approved' })];
+        expect(sortMemos(withStatus, [{ key: 'status', direction: 'ascending' }]).map(m => m.id)).toEqual(['3', '2', '1']);
+    });
+
+    it('orders search results by relevance when no column is chosen', () => {
+        const search = { terms: ['x'], scores: new Map([['b', 1], ['a', 5], ['c', 3]]) };
+        expect(sortMemos(memos, [], search).map(m => m.id)).toEqual(['a', 'c', 'b']);
+    });
+
+    it('keeps the register order without a column or search', () => {
+        expect(sortMemos(memos, []).map(m => m.id)).toEqual(['b', 'a', 'c']);
+    });
+});
+
+describe('toggleSort', () => {
+    it('starts ascending and flips on the same column', () => {
+        expect(toggleSort([], 'date')).toEqual([{ key: 'date', direction: 'ascending' }]);
+        expect(toggleSort([{ key: 'date', direction: 'ascending' }], 'date')).toEqual([{ key: 'date', direction: 'descending' }]);
+        expect(toggleSort([{ key: 'date', direction: 'descending' }], 'date')).toEqual([{ key: 'date', direction: 'ascending' }]);
+        expect(toggleSort([{ key: 'date', direction: 'ascending' }], 'subject')).toEqual([{ key: 'subject', direction: 'ascending' }]);
+    });
+
+    it('adds, flips and then drops a tie-breaker on additive clicks', () => {
+        const primary = [{ key: 'date' as const, direction: 'descending' as const }];
+        const added = toggleSort(primary, 'subject', true);
+        expect(added).toEqual([...primary, { key: 'subject', direction: 'ascending' }]);
+        const flipped = toggleSort(added, 'subject', true);
+        expect(flipped).toEqual([...primary, { key: 'subject', direction: 'descending' }]);
+        expect(toggleSort(flipped, 'subject', true)).toEqual(primary);
+    });
+
+    it('goes back to a single column on a plain click', () => {
+        const rules = [{ key: 'date' as const, direction: 'ascending' as const }, { key: 'subject' as const, direction: 'ascending' as const }];
+        expect(toggleSort(rules, 'date')).toEqual([{ key: 'date', direction: 'ascending' }]);
+    });
+});
+
+describe('paginate', () => {
+    const memos = Array.from({ length: 25 }, (_, i) => makeMemo(String(i + 1)));
+
+    it('slices the requested page', () => {
+        const page = paginate(memos, 3, 10);
+        expect(page.totalPages).toBe(3);
+        expect(page.items.map(m => m.id)).toEqual(['21', '22', '23', '24', '25']);
+    });
+
+    it('clamps pages that no longer exist', () => {
+        expect(paginate(memos, 9, 10).page).toBe(3);
+        expect(paginate(memos, 0, 10).page).toBe(1);
+        expect(paginate([], 4, 10)).toEqual({ items: [], page: 1, totalPages: 0 });
+    });
+});
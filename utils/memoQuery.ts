@@ -0,0 +1,96 @@
+import type { Memo, MemoFilters, SortConfig, SortRule } from '../types';
+import type { SearchResult } from './searchIndex';
+import { getTeacherKey } from './teachers';
+import { getMemoStatus } from './workflow';
+import { getActiveMemos } from './trash';
+import { getMemoRegister } from './registers';
+
+// TYPES
+export interface MemoPage {
+    items: Memo[];
+    /** The requested page, clamped to the pages that exist. */
+    page: number;
+    totalPages: number;
+}
+
+// CONSTANTS
+export const DEFAULT_PAGE_SIZE = 10;
+/** Typing in the search box waits this long before a large register is filtered again. */
+export const FILTER_DEBOUNCE_MS = 250;
+
+// FILTERING
+/** Active memos matching every set filter; the query is matched through `search`, which the caller runs. */
+export const filterMemos = (memos: Memo[], filters: MemoFilters, search: SearchResult | null = null): Memo[] => {
+    let filtered = getActiveMemos(memos);
+    if (filters.register) {
+        filtered = filtered.filter(m => getMemoRegister(m) === filters.register);
+    }
+    if (search && search.terms.length > 0) {
+        filtered = filtered.filter(m => search.scores.has(m.id));
+    }
+    if (filters.teacher) {
+        filtered = filtered.filter(m => getTeacherKey(m) === filters.teacher);
+    }
+    if (filters.department) {
+        filtered = filtered.filter(m => m.department === filters.department);
+    }
+    if (filters.status) {
+        filtered = filtered.filter(m => getMemoStatus(m) === filters.status);
+    }
+    // Memo dates are yyyy-MM-dd, so comparing the strings avoids parsing every date in a large register.
+    if (filters.startDate) {
+        filtered = filtered.filter(m => m.date >= filters.startDate);
+    }
+    if (filters.endDate) {
+        filtered = filtered.filter(m => m.date <= filters.endDate);
+    }
+    return filtered;
+};
+
+// SORTING
+const getSortValue = (memo: Memo, key: keyof Memo) => key === 'status' ? getMemoStatus(memo) : memo[key] ?? '';
+
+const compareByRules = (rules: SortRule[]) => (a: Memo, b: Memo) => {
+    for (const { key, direction } of rules) {
+        const x = getSortValue(a, key);
+        const y = getSortValue(b, key);
+        if (x < y) return direction === 'ascending' ? -1 : 1;
+        if (x > y) return direction === 'ascending' ? 1 : -1;
+    }
+    return 0;
+};
+
+/** Sorts a copy by the chosen columns, or by relevance while searching without any. Ties keep the register order. */
+export const sortMemos = (memos: Memo[], sortConfig: SortConfig, search: SearchResult | null = null): Memo[] => {
+    const sorted = [...memos];
+    if (sortConfig.length > 0) {
+        sorted.sort(compareByRules(sortConfig));
+    } else if (search && search.terms.length > 0) {
+        sorted.sort((a, b) => search.scores.get(b.id) - search.scores.get(a.id));
+    }
+    return sorted;
+};
+
+/**
+ * A plain click sorts by that column alone, ascending, and a second click flips it. With `additive`
+ * (shift-click) the column is added as a tie-breaker instead, flipped if already there, and dropped
+ * on the click after descending.
+ */
+export const toggleSort = (sortConfig: SortConfig, key: keyof Memo, additive = false): SortConfig => {
+    const existing = sortConfig.find(rule => rule.key === key);
+    if (!additive) {
+        const flip = sortConfig.length === 1 && existing?.direction === 'ascending';
+        return [{ key, direction: flip ? 'descending' : 'ascending' }];
+    }
+    if (!existing) return [...sortConfig, { key, direction: 'ascending' }];
+    if (existing.direction === 'descending') return sortConfig.filter(rule => rule.key !== key);
+    return sortConfig.map(rule => rule.key === key ? { key, direction: 'descending' } : rule);
+};
+
+// PAGINATION
+export const paginate = (memos: Memo[], page: number, pageSize = DEFAULT_PAGE_SIZE): MemoPage => {
+    const totalPages = Math.ceil(memos.length / pageSize);
+    const current = Math.min(Math.max(1, page), Math.max(1, totalPages));
+    const start = (current - 1) * pageSize;
+    return { items: memos.slice(start, start + pageSize), page: current, totalPages };
+};
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import type { Memo } from '../types';
+import { buildTimeline, chooseBucketUnit, clipBucket, filterMemosForStats, getChangePercent } from './memoStats';
+
+const makeMemo = (id: string, date: string, department = 'งานบริหารวิชาการ'): Memo => ({
+    id, date, department, memoNumber: id, teacher: 'ครูสมศรี', subject: 'ทดสอบ',
+});
+
+describe('buildTimeline', () => {
+    it('counts weeks that straddle New Year once', () => {
+        // 2024-12-29 (Sunday) starts the week that runs into 2025.
+        const memos = [makeMemo('a', '2024-12-30'), makeMemo('b', '2025-01-02'), makeMemo('c', '2025-01-06')];
+        const timeline = buildTimeline(memos, ['งานบริหารวิชาการ'], { start: '2024-12-22', end: '2025-01-11' }, 'week', 'th');
+        expect(timeline.buckets.map(b => b.start)).toEqual(['2024-12-22', '2024-12-29', '2025-01-05']);
+        expect(timeline.totals).toEqual([0, 2, 1]);
+    });
+
+    it('keeps same-named months in different years apart', () => {
+        const memos = [makeMemo('a', '2024-01-15'), makeMemo('b', '2025-01-15'), makeMemo('c', '2025-01-20')];
+        const timeline = buildTimeline(memos, [], { start: '2024-01-01', end: '2025-01-31' }, 'month', 'en');
+        expect(timeline.totals[0]).toBe(1);
+        expect(timeline.totals[timeline.totals.length - 1]).toBe(2);
+    });
+
+    it('adds a series for departments outside the given list', () => {
+        const timeline = buildTimeline([makeMemo('a', '2025-03-03', 'งานอื่น')], [], { start: '2025-03-01', end: '2025-03-31' }, 'month', 'th');
+        expect(timeline.series).toEqual([{ department: 'งานอื่น', counts: [1] }]);
+    });
+});
+
+describe('range helpers', () => {
+    it('picks a bucket size that suits the range', () => {
+        expect(chooseBucketUnit({ start: '2025-06-01', end: '2025-06-20' })).toBe('day');
+        expect(chooseBucketUnit({ start: '2024-10-01', end: '2025-09-30' })).toBe('month');
+    });
+
+    it('clips a bucket to the selected range', () => {
+        expect(clipBucket({ start: '2024-12-29', end: '2025-01-04', label: '' }, { start: '2025-01-01', end: '2025-01-31' }))
+            .toEqual({ start: '2025-01-01', end: '2025-01-04' });
+    });
+
+    it('filters by range and department', () => {
+        const memos = [makeMemo('a', '2025-01-01'), makeMemo('b', '2025-02-01', 'งานอื่น'), makeMemo('c', '2024-12-31')];
+        expect(filterMemosForStats(memos, { start: '2025-01-01', end: '2025-12-31' }, '').map(m => m.id)).toEqual(['a', 'b']);
+        expect(filterMemosForStats(memos, { start: '2025-01-01', end: '2025-12-31' }, 'งานอื่น').map(m => m.id)).toEqual(['b']);
+    });
+
+    it('reports no percentage change from zero', () => {
+        expect(getChangePercent(3, 0)).toBeNull();
+        expect(getChangePercent(15, 10)).toBe(50);
+    });
+});
@@ -0,0 +1,160 @@
+import {
+    format, parseISO, isValid, differenceInCalendarDays, subDays, subMonths, subYears,
+    startOfDay, startOfWeek, startOfMonth, startOfYear, endOfDay, endOfWeek, endOfMonth, endOfYear,
+    eachDayOfInterval, eachWeekOfInterval, eachMonthOfInterval, eachYearOfInterval, type Interval,
+} from 'date-fns';
+import type { Memo, Department, Teacher } from '../types';
+import { getPeriodRange } from './memoNumbering';
+import { getTeacherKey, getTeacherLabel } from './teachers';
+import { formatDate, formatMonthYear, formatPeriodLabel, type DateLocale, type PeriodUnit } from './dateLocale';
+
+// TYPES
+export type RangePreset = 'month' | 'fiscal' | 'academic' | 'calendar' | 'custom';
+
+/** Inclusive ISO (yyyy-MM-dd) bounds. */
+export interface StatsRange {
+    start: string;
+    end: string;
+}
+
+export interface TimelineBucket {
+    start: string;
+    end: string;
+    label: string;
+}
+
+export interface Timeline {
+    buckets: TimelineBucket[];
+    /** One series per department, aligned with `buckets`. */
+    series: { department: Department; counts: number[] }[];
+    totals: number[];
+}
+
+export interface RankedTeacher {
+    key: string;
+    label: string;
+    count: number;
+}
+
+// CONSTANTS
+export const RANGE_PRESET_LABELS: Record<RangePreset, string> = {
+    month: 'เดือนนี้',
+    fiscal: 'ปีงบประมาณนี้',
+    academic: 'ปีการศึกษานี้',
+    calendar: 'ปีปฏิทินนี้',
+    custom: 'กำหนดเอง',
+};
+
+const toIso = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// RANGES
+export const getPresetRange = (preset: Exclude<RangePreset, 'custom'>, today = new Date()): StatsRange => {
+    if (preset === 'month') return { start: toIso(startOfMonth(today)), end: toIso(endOfMonth(today)) };
+    const { start, end } = getPeriodRange(today, preset);
+    return { start: toIso(start), end: toIso(end) };
+};
+
+/**
+ * The period to compare against: the previous month or year for those presets (so leap years
+ * and month lengths line up), otherwise the same number of days immediately before.
+ */
+export const getPreviousRange = (range: StatsRange, preset: RangePreset): StatsRange => {
+    const start = parseISO(range.start);
+    const end = parseISO(range.end);
+    if (preset === 'month') {
+        const previous = subMonths(start, 1);
+        return { start: toIso(startOfMonth(previous)), end: toIso(endOfMonth(previous)) };
+    }
+    if (preset !== 'custom') {
+        return { start: toIso(subYears(start, 1)), end: toIso(subDays(start, 1)) };
+    }
+    const length = differenceInCalendarDays(end, start) + 1;
+    return { start: toIso(subDays(start, length)), end: toIso(subDays(start, 1)) };
+};
+
+/** A bucket size that keeps the chart readable for the range length. */
+export const chooseBucketUnit = (range: StatsRange): PeriodUnit => {
+    const days = differenceInCalendarDays(parseISO(range.end), parseISO(range.start)) + 1;
+    if (days <= 31) return 'day';
+    if (days <= 183) return 'week';
+    if (days <= 3 * 366) return 'month';
+    return 'year';
+};
+
+export const isInRange = (memo: Memo, range: StatsRange) => memo.date >= range.start && memo.date <= range.end;
+
+export const filterMemosForStats = (memos: Memo[], range: StatsRange, department: Department | '') =>
+    memos.filter(m => isInRange(m, range) && (!department || m.department === department));
+
+// AGGREGATES
+export const countByDepartment = (memos: Memo[], departments: Department[]): Map<Department, number> => {
+    const counts = new Map<Department, number>(departments.map(d => [d, 0]));
+    memos.forEach(m => counts.set(m.department, (counts.get(m.department) ?? 0) + 1));
+    return counts;
+};
+
+const BUCKET_FUNCTIONS: Record<PeriodUnit, { each: (interval: Interval) => Date[]; startOf: (d: Date) => Date; endOf: (d: Date) => Date }> = {
+    day: { each: eachDayOfInterval, startOf: startOfDay, endOf: endOfDay },
+    week: { each: eachWeekOfInterval, startOf: startOfWeek, endOf: endOfWeek },
+    month: { each: eachMonthOfInterval, startOf: startOfMonth, endOf: endOfMonth },
+    year: { each: eachYearOfInterval, startOf: startOfYear, endOf: endOfYear },
+};
+
+const formatBucketLabel = (start: Date, unit: PeriodUnit, locale: DateLocale) => {
+    switch (unit) {
+        case 'day': return formatDate(start, locale, 'short');
+        case 'week': return `${locale === 'th' ? 'สัปดาห์' : 'Week of'} ${formatDate(start, locale, 'short')}`;
+        case 'month': return formatMonthYear(start, locale);
+        case 'year': return formatPeriodLabel(start, 'year', locale);
+    }
+};
+
+/**
+ * Buckets are keyed by their start date rather than a formatted label, so weeks that straddle
+ * New Year and same-named months in different years never collide.
+ */
+export const buildTimeline = (memos: Memo[], departments: Department[], range: StatsRange, unit: PeriodUnit, locale: DateLocale): Timeline => {
+    const { each, startOf, endOf } = BUCKET_FUNCTIONS[unit];
+    const starts = each({ start: parseISO(range.start), end: parseISO(range.end) });
+    const index = new Map(starts.map((d, i) => [toIso(startOf(d)), i]));
+    const seriesByDepartment = new Map<Department, number[]>(departments.map(d => [d, starts.map(() => 0)]));
+    const totals = starts.map(() => 0);
+
+    memos.forEach(memo => {
+        const date = parseISO(memo.date);
+        if (!isValid(date)) return;
+        const i = index.get(toIso(startOf(date)));
+        if (i === undefined) return;
+        if (!seriesByDepartment.has(memo.department)) seriesByDepartment.set(memo.department, starts.map(() => 0));
+        seriesByDepartment.get(memo.department)[i]++;
+        totals[i]++;
+    });
+
+    return {
+        buckets: starts.map(d => ({ start: toIso(startOf(d)), end: toIso(endOf(d)), label: formatBucketLabel(startOf(d), unit, locale) })),
+        series: [...seriesByDepartment.entries()].map(([department, counts]) => ({ department, counts })),
+        totals,
+    };
+};
+
+/** Bucket boundaries clipped to the selected range, for drilling down into the register. */
+export const clipBucket = (bucket: TimelineBucket, range: StatsRange): StatsRange => ({
+    start: bucket.start < range.start ? range.start : bucket.start,
+    end: bucket.end > range.end ? range.end : bucket.end,
+});
+
+export const rankTeachers = (memos: Memo[], teachers: Teacher[], limit = 10): RankedTeacher[] => {
+    const counts = new Map<string, number>();
+    memos.forEach(m => {
+        const key = getTeacherKey(m);
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+    });
+    return [...counts.entries()]
+        .map(([key, count]) => ({ key, label: getTeacherLabel(teachers, key), count }))
+        .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label, 'th'))
+        .slice(0, limit);
+};
+
+/** Percentage change, or null when there is nothing to compare against. */
+export const getChangePercent = (current: number, previous: number): number | null =>
+    previous === 0 ? null : Math.round(((current - previous) / previous) * 100);
@@ -0,0 +1,153 @@
+import { parseISO, isValid, isAfter, endOfDay } from 'date-fns';
+import type { Memo, Department, RegisterType, UrgencyLevel } from '../types';
+import { normalizeMemoNumber } from './memoNumbering';
+import { normalizeTeacherName } from './teachers';
+import { normalizeDepartmentName } from './departments';
+import { REGISTERS, REGISTER_FIELDS, URGENCY_LEVELS, isRegisterType, type RegisterField } from './registers';
+
+// TYPES
+export type MemoFormField = 'memoNumber' | 'date' | 'teacher' | 'subject' | 'department' | 'notes' | 'dueDate' | 'followUpBy' | 'followUpNotes' | RegisterField;
+export type MemoFieldErrors = Partial<Record<MemoFormField, string>>;
+
+export interface MemoValidationOptions {
+    /** Known departments; leave unset to skip the check, as imports create missing ones afterwards. */
+    departments?: Department[];
+    today?: Date;
+    /** Decides which register fields apply and how the number and teacher fields are labelled; defaults to internal memos. */
+    register?: RegisterType;
+}
+
+interface FieldRule {
+    label: string;
+    required: boolean;
+    maxLength?: number;
+    normalize: (value: string) => string;
+    /** Runs on non-empty values; `values` holds the fields normalized before this one. */
+    check?: (value: string, options: MemoValidationOptions, values: Partial<Record<MemoFormField, string>>) => string | null;
+}
+
+// CONSTANTS
+/** Years before this are almost always a B.E. year typed as C.E. minus 543, or a typo. */
+const MIN_MEMO_YEAR = 1900;
+
+const collapseWhitespace = (value: string) => value.trim().replace(/\s+/g, ' ');
+
+export const isValidMemoDate = (value: unknown): value is string =>
+    typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && isValid(parseISO(value));
+
+const checkMemoDate = (value: string, { today = new Date() }: MemoValidationOptions) => {
+    if (!isValidMemoDate(value)) return `วันที่ไม่ถูกต้อง “${value}”`;
+    const date = parseISO(value);
+    if (date.getFullYear() < MIN_MEMO_YEAR) return 'ปีของวันที่ไม่ถูกต้อง กรุณาตรวจสอบปี พ.ศ./ค.ศ.';
+    if (isAfter(date, endOfDay(today))) return 'วันที่ต้องไม่เป็นวันในอนาคต';
+    return null;
+};
+
+const checkDueDate = (value: string, _options: MemoValidationOptions, values: Partial<Record<MemoFormField, string>>) => {
+    if (!isValidMemoDate(value)) return `วันที่ไม่ถูกต้อง “${value}”`;
+    if (parseISO(value).getFullYear() < MIN_MEMO_YEAR) return 'ปีของวันที่ไม่ถูกต้อง กรุณาตรวจสอบปี พ.ศ./ค.ศ.';
+    if (isValidMemoDate(values.date) && value < values.date) return 'กำหนดเสร็จต้องไม่ก่อนวันที่ของบันทึก';
+    return null;
+};
+
+const checkPastDate = (value: string) => {
+    if (!isValidMemoDate(value)) return `วันที่ไม่ถูกต้อง “${value}”`;
+    if (parseISO(value).getFullYear() < MIN_MEMO_YEAR) return 'ปีของวันที่ไม่ถูกต้อง กรุณาตรวจสอบปี พ.ศ./ค.ศ.';
+    return null;
+};
+
+const checkUrgency = (value: string) =>
+    URGENCY_LEVELS.includes(value as UrgencyLevel) ? null : `ชั้นความเร็วไม่ถูกต้อง “${value}”`;
+
+const checkDepartment = (value: string, { departments }: MemoValidationOptions) =>
+    departments && !departments.includes(value) ? `ไม่พบฝ่ายงาน “${value}” ในรายการฝ่ายงาน` : null;
+
+/** One rule per user-entered field; the modal, the importers and the data health report all read this. */
+export const MEMO_SCHEMA: Record<MemoFormField, FieldRule> = {
+    memoNumber: { label: 'เลขที่บันทึก', required: true, maxLength: 50, normalize: normalizeMemoNumber },
+    date: { label: 'วันที่', required: true, normalize: value => value.trim(), check: checkMemoDate },
+    teacher: { label: 'ชื่อครู', required: true, maxLength: 100, normalize: normalizeTeacherName },
+    subject: { label: 'เรื่อง', required: true, maxLength: 250, normalize: collapseWhitespace },
+    department: { label: 'ฝ่ายงาน', required: true, maxLength: 100, normalize: normalizeDepartmentName, check: checkDepartment },
+    notes: { label: 'หมายเหตุ', required: false, maxLength: 1000, normalize: value => value.trim() },
+    dueDate: { label: 'กำหนดเสร็จ', required: false, normalize: value => value.trim(), check: checkDueDate },
+    followUpBy: { label: 'ผู้รับผิดชอบติดตาม', required: false, maxLength: 100, normalize: collapseWhitespace },
+    followUpNotes: { label: 'บันทึกการติดตาม', required: false, maxLength: 1000, normalize: value => value.trim() },
+    letterNumber: { label: 'ที่ (เลขที่หนังสือ)', required: false, maxLength: 100, normalize: normalizeMemoNumber },
+    letterDate: { label: 'ลงวันที่', required: false, normalize: value => value.trim(), check: checkPastDate },
+    fromAgency: { label: 'จาก', required: false, maxLength: 200, normalize: collapseWhitespace },
+    toAgency: { label: 'ถึง', required: false, maxLength: 200, normalize: collapseWhitespace },
+    urgency: { label: 'ชั้นความเร็ว', required: false, normalize: value => value.trim(), check: checkUrgency },
+    effectiveDate: { label: 'มีผลตั้งแต่', required: false, normalize: value => value.trim(), check: checkPastDate },
+};
+
+/** Fields a memo may leave empty; they are dropped rather than stored as empty strings. */
+export const OPTIONAL_MEMO_FIELDS = (Object.keys(MEMO_SCHEMA) as MemoFormField[]).filter(field => !MEMO_SCHEMA[field].required);
+
+const MEMO_FORM_FIELDS = Object.keys(MEMO_SCHEMA) as MemoFormField[];
+
+/** The schema rule as a register uses it, or null for register fields the register doesn't have. */
+export const getFieldRule = (field: MemoFormField, register: RegisterType = 'memo') => {
+    const definition = REGISTERS[register];
+    const rule = MEMO_SCHEMA[field];
+    if (REGISTER_FIELDS.includes(field as RegisterField) && !definition.fields.includes(field as RegisterField)) return null;
+    if (field === 'memoNumber') return { ...rule, label: definition.numberLabel };
+    if (field === 'teacher') return { ...rule, label: definition.teacherLabel, required: definition.teacherRequired };
+    return rule;
+};
+
+// VALIDATION
+/** Normalizes every schema field and reports the first problem with each. */
+export const validateMemoFields = (
+    input: Partial<Record<MemoFormField, unknown>>,
+    options: MemoValidationOptions = {},
+): { values: Record<MemoFormField, string>; errors: MemoFieldErrors } => {
+    const values = {} as Record<MemoFormField, string>;
+    const errors: MemoFieldErrors = {};
+    MEMO_FORM_FIELDS.forEach(field => {
+        const rule = getFieldRule(field, options.register);
+        if (!rule) {
+            values[field] = '';
+            return;
+        }
+        const raw = input[field];
+        const value = typeof raw === 'string' ? rule.normalize(raw) : '';
+        values[field] = value;
+        let error: string | null = null;
+        if (raw !== undefined && raw !== null && typeof raw !== 'string') {
+            error = `${rule.label}ต้องเป็นข้อความ`;
+        } else if (!value) {
+            error = rule.required ? `กรุณาระบุ${rule.label}` : null;
+        } else if (rule.maxLength && value.length > rule.maxLength) {
+            error = `${rule.label}ยาวเกิน ${rule.maxLength} ตัวอักษร`;
+        } else {
+            error = rule.check?.(value, options, values) ?? null;
+        }
+        if (error) errors[field] = error;
+    });
+    return { values, errors };
+};
+
+export const hasFieldErrors = (errors: MemoFieldErrors) => Object.keys(errors).length > 0;
+
+// LOADING
+/**
+ * Gives a stored record the field types the app relies on, so a hand-edited or truncated
+ * register renders instead of crashing. Values are only coerced, never judged; the data
+ * health report is where bad ones surface.
+ */
+export const coerceMemoShape = (memo: Memo): Memo => {
+    const coerced: Memo = { ...memo, id: typeof memo.id === 'string' && memo.id ? memo.id : crypto.randomUUID() };
+    const fields = coerced as unknown as Record<MemoFormField, unknown>;
+    MEMO_FORM_FIELDS.forEach(field => {
+        if (!MEMO_SCHEMA[field].required) {
+            if (fields[field] !== undefined && typeof fields[field] !== 'string') fields[field] = String(fields[field]);
+        } else if (typeof fields[field] !== 'string') {
+            fields[field] = fields[field] === undefined || fields[field] === null ? '' : String(fields[field]);
+        }
+    });
+    if (coerced.register !== undefined && !isRegisterType(coerced.register)) delete coerced.register;
+    if (coerced.attachments !== undefined && !Array.isArray(coerced.attachments)) delete coerced.attachments;
+    if (coerced.history !== undefined && !Array.isArray(coerced.history)) delete coerced.history;
+    return coerced;
+};
@@ -0,0 +1,58 @@
+import type { Memo, Department, User, UserRole, MemoStamp } from '../types';
+import { getMemoStatus, INITIAL_STATUS } from './workflow';
+
+// CONSTANTS
+export const USER_ROLES: UserRole[] = ['admin', 'departmentHead', 'teacher', 'viewer'];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+    admin: 'ผู้ดูแลระบบ',
+    departmentHead: 'หัวหน้าฝ่ายงาน',
+    teacher: 'ครู',
+    viewer: 'ผู้ดูข้อมูล',
+};
+
+export const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+    admin: 'จัดการได้ทุกอย่าง รวมถึงผู้ใช้ ฝ่ายงาน ทะเบียนครู และการตั้งค่า',
+    departmentHead: 'เพิ่ม แก้ไข ลบ และเปลี่ยนสถานะบันทึกของฝ่ายงานตนเอง',
+    teacher: 'เพิ่มบันทึก และแก้ไขบันทึกของตนเอง ลบได้เฉพาะฉบับร่าง',
+    viewer: 'ดู ค้นหา พิมพ์ และส่งออกได้อย่างเดียว',
+};
+
+// RULES
+/** Memos the user filed, or memos filed under the registry teacher linked to their account. */
+export const isOwnMemo = (user: User, memo: Memo) =>
+    memo.created?.userId === user.id || (!!user.teacherId && memo.teacherId === user.teacherId);
+
+export const canCreateMemo = (user: User) => user.role !== 'viewer';
+
+/** Departments the user may file memos under. */
+export const getWritableDepartments = (user: User, departments: Department[]): Department[] => {
+    if (user.role === 'departmentHead') return departments.filter(d => d === user.department);
+    return user.role === 'viewer' ? [] : departments;
+};
+
+export const canEditMemo = (user: User, memo: Memo) => {
+    switch (user.role) {
+        case 'admin': return true;
+        case 'departmentHead': return memo.department === user.department;
+        case 'teacher': return isOwnMemo(user, memo);
+        default: return false;
+    }
+};
+
+/** Teachers can only withdraw their own drafts; anything further along needs a department head. */
+export const canDeleteMemo = (user: User, memo: Memo) =>
+    user.role === 'teacher' ? isOwnMemo(user, memo) && getMemoStatus(memo) === INITIAL_STATUS : canEditMemo(user, memo);
+
+export const canChangeStatus = canEditMemo;
+
+/** Departments, teacher registry, numbering, workflow, import, backup/restore and user accounts. */
+export const canManageRegister = (user: User) => user.role === 'admin';
+
+// STAMPS
+export const toStamp = (user: User): MemoStamp => ({ userId: user.id, name: user.displayName, at: new Date().toISOString() });
+
+export const stampMemo = (memo: Memo, user: User, isNew: boolean): Memo => {
+    const stamp = toStamp(user);
+    return isNew ? { ...memo, created: stamp, updated: stamp } : { ...memo, updated: stamp };
+};
@@ -0,0 +1,108 @@
+import { parseISO, startOfDay, endOfDay, isValid } from 'date-fns';
+import type { Memo, Department } from '../types';
+
+// TYPES
+export interface ReportSettings {
+    schoolName: string;
+    /** Data URL of the emblem printed at the top of the first page (usually the Garuda). */
+    emblemDataUrl: string;
+    preparerName: string;
+    preparerPosition: string;
+    directorName: string;
+    directorPosition: string;
+    rowsPerPage: number;
+    thaiDigits: boolean;
+}
+
+export interface ReportOptions {
+    startDate: string;
+    endDate: string;
+    groupByDepartment: boolean;
+    rowsPerPage: number;
+}
+
+export interface ReportRow {
+    /** Running number within the group (or the whole report when not grouped). */
+    no: number;
+    memo: Memo;
+}
+
+export interface ReportPage {
+    pageNumber: number;
+    /** Null when the report is not grouped. */
+    department: Department | null;
+    rows: ReportRow[];
+    /** Set on the last page of each group. */
+    groupTotal: number | null;
+}
+
+export interface RegisterReport {
+    pages: ReportPage[];
+    totals: { department: Department; count: number }[];
+    total: number;
+}
+
+// CONSTANTS
+export const REPORT_SETTINGS_KEY = 'reportSettings';
+export const DEFAULT_REPORT_SETTINGS: ReportSettings = {
+    schoolName: 'โรงเรียนบ้านเสยเสย',
+    emblemDataUrl: '',
+    preparerName: '',
+    preparerPosition: 'เจ้าหน้าที่ธุรการ',
+    directorName: '',
+    directorPosition: 'ผู้อำนวยการโรงเรียนบ้านเสยเสย',
+    rowsPerPage: 15,
+    thaiDigits: false,
+};
+
+// BUILD
+const chunk = <T,>(items: T[], size: number): T[][] => {
+    const chunks: T[][] = [];
+    for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+    return chunks.length > 0 ? chunks : [[]];
+};
+
+/**
+ * Splits the memos into fixed-size printed pages, in register order (date, then memo number),
+ * so page totals are known up front instead of depending on the browser's page breaks.
+ */
+export const buildRegisterReport = (memos: Memo[], departments: Department[], options: ReportOptions): RegisterReport => {
+    const start = options.startDate ? startOfDay(parseISO(options.startDate)) : null;
+    const end = options.endDate ? endOfDay(parseISO(options.endDate)) : null;
+    const inRange = memos
+        .filter(m => {
+            const date = parseISO(m.date);
+            if (!isValid(date)) return !start && !end;
+            return (!start || date >= start) && (!end || date <= end);
+        })
+        .sort((a, b) => a.date.localeCompare(b.date) || a.memoNumber.localeCompare(b.memoNumber, 'th', { numeric: true }));
+
+    // Configured order first, then departments that only appear on memos.
+    const byDepartment = [...departments, ...new Set(inRange.map(m => m.department).filter(d => !departments.includes(d)))]
+        .map(department => ({ department, memos: inRange.filter(m => m.department === department) }))
+        .filter(group => group.memos.length > 0);
+    const groups: { department: Department | null; memos: Memo[] }[] = options.groupByDepartment
+        ? byDepartment
+        : [{ department: null, memos: inRange }];
+
+    const rowsPerPage = Math.max(1, Math.floor(options.rowsPerPage) || 1);
+    const pages: ReportPage[] = [];
+    groups.forEach(group => {
+        const pageRows = chunk(group.memos.map((memo, index) => ({ no: index + 1, memo })), rowsPerPage);
+        pageRows.forEach((rows, index) => pages.push({
+            pageNumber: pages.length + 1,
+            department: group.department,
+            rows,
+            groupTotal: index === pageRows.length - 1 ? group.memos.length : null,
+        }));
+    });
+    if (pages.length === 0) {
+        pages.push({ pageNumber: 1, department: null, rows: [], groupTotal: 0 });
+    }
+
+    return {
+        pages,
+        totals: byDepartment.map(group => ({ department: group.department, count: group.memos.length })),
+        total: inRange.length,
+    };
+};
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import type { Memo } from '../types';
+import { DEFAULT_REGISTER_SCHEMES, withRegister, getRegisterScheme, findReplyTarget, buildReplyIndex } from './registers';
+import { validateMemoFields } from './memoValidation';
+
+const makeMemo = (id: string, overrides: Partial<Memo> = {}): Memo => ({
+    id,
+    memoNumber: `ว ${id}/2568`,
+    date: '2025-06-01',
+    teacher: 'ครูสมศรี ใจดี',
+    subject: `เรื่องที่ ${id}`,
+    department: 'งานบริหารวิชาการ',
+    ...overrides,
+});
+
+describe('withRegister', () => {
+    it('stores internal memos without a register, like older records', () => {
+        expect(withRegister(makeMemo('1', { register: 'order' }), 'memo')).not.toHaveProperty('register');
+        expect(withRegister(makeMemo('1'), 'incoming').register).toBe('incoming');
+    });
+});
+
+describe('getRegisterScheme', () => {
+    it('numbers memos per department and other registers school-wide', () => {
+        const memoScheme = { prefix: 'วก ', pattern: '{prefix}{seq}/{year}', padding: 1, yearBasis: 'fiscal' as const };
+        const schemes = { 'งานบริหารวิชาการ': memoScheme };
+        expect(getRegisterScheme('memo', 'งานบริหารวิชาการ', schemes, {})).toEqual(memoScheme);
+        expect(getRegisterScheme('incoming', 'งานบริหารวิชาการ', schemes, {})).toEqual(DEFAULT_REGISTER_SCHEMES.incoming);
+        expect(getRegisterScheme('order', '', schemes, { order: memoScheme })).toEqual(memoScheme);
+    });
+});
+
+describe('replies', () => {
+    const letter = makeMemo('1', { register: 'incoming', memoNumber: 'รับ 12/2025' });
+    const memo = makeMemo('2', { memoNumber: 'รับ 12/2025' });
+
+    it('finds the letter a reply answers, preferring incoming letters', () => {
+        expect(findReplyTarget([memo, letter], ' รับ 12/2025 ')?.id).toBe('1');
+        expect(findReplyTarget([memo, letter], 'รับ 12/2025', '1')?.id).toBe('2');
+        expect(findReplyTarget([memo, letter], 'รับ 99/2025')).toBeUndefined();
+    });
+
+    it('groups replies by the letter they answer and skips the trash', () => {
+        const reply = makeMemo('3', { register: 'outgoing', replyTo: letter.id });
+        const deleted = makeMemo('4', { replyTo: letter.id, deleted: { userId: 'u1', name: 'ผู้ดูแล', at: '2025-06-02T00:00:00.000Z' } });
+        expect(buildReplyIndex([letter, reply, deleted]).get(letter.id)).toEqual([reply]);
+    });
+});
+
+describe('register fields', () => {
+    it('checks only the fields the register has', () => {
+        const { values, errors } = validateMemoFields({ ...makeMemo('1', { teacher: '' }), urgency: 'soon', toAgency: 'สพป.' }, { register: 'incoming', today: new Date('2025-07-01') });
+        expect(errors.urgency).toBe('ชั้นความเร็วไม่ถูกต้อง “soon”');
+        expect(errors.teacher).toBeUndefined();
+        expect(values.toAgency).toBe('');
+    });
+
+    it('names the number field after the register', () => {
+        const { errors } = validateMemoFields({ ...makeMemo('1'), memoNumber: '' }, { register: 'order', today: new Date('2025-07-01') });
+        expect(errors.memoNumber).toBe('กรุณาระบุคำสั่งที่');
+    });
+});
@@ -0,0 +1,143 @@
+import type { Memo, RegisterType, UrgencyLevel, Department } from '../types';
+import { getSchemeForDepartment, normalizeMemoNumber, type NumberingScheme, type NumberingSchemes } from './memoNumbering';
+
+// TYPES
+/** Fields only some registers use; every register also has the fields of an internal memo. */
+export type RegisterField = 'letterNumber' | 'letterDate' | 'fromAgency' | 'toAgency' | 'urgency' | 'effectiveDate';
+
+export interface RegisterDefinition {
+    type: RegisterType;
+    /** Name of the register itself, e.g. on its tab. */
+    label: string;
+    /** Name of one record, for form headings. */
+    itemLabel: string;
+    /** Heading of the printed register. */
+    title: string;
+    addLabel: string;
+    numberLabel: string;
+    teacherLabel: string;
+    /** Longer wording for the form, where there is room; defaults to the column labels. */
+    formLabels?: Partial<Record<'memoNumber' | 'teacher', string>>;
+    /** Incoming letters are often filed before anyone has been assigned to them. */
+    teacherRequired: boolean;
+    /** Extra fields in form order. */
+    fields: RegisterField[];
+}
+
+/** Registers other than internal memos number school-wide with one scheme each, instead of per department. */
+export type RegisterSchemes = Partial<Record<RegisterType, NumberingScheme>>;
+
+// CONSTANTS
+export const REGISTER_SCHEMES_KEY = 'registerSchemes';
+export const REGISTER_TYPES: RegisterType[] = ['memo', 'incoming', 'outgoing', 'order'];
+
+export const REGISTERS: Record<RegisterType, RegisterDefinition> = {
+    memo: {
+        type: 'memo',
+        label: 'บันทึกข้อความ',
+        itemLabel: 'บันทึกข้อความ',
+        title: 'ทะเบียนคุมบันทึกข้อความ',
+        addLabel: 'เพิ่มบันทึกใหม่',
+        numberLabel: 'เลขที่บันทึก',
+        teacherLabel: 'ชื่อครู',
+        formLabels: { memoNumber: 'เลขที่บันทึกข้อความ', teacher: 'ชื่อครูผู้ดำเนินการ' },
+        teacherRequired: true,
+        fields: [],
+    },
+    incoming: {
+        type: 'incoming',
+        label: 'หนังสือรับ',
+        itemLabel: 'หนังสือรับ',
+        title: 'ทะเบียนหนังสือรับ',
+        addLabel: 'ลงรับหนังสือ',
+        numberLabel: 'เลขทะเบียนรับ',
+        teacherLabel: 'ผู้รับผิดชอบ',
+        teacherRequired: false,
+        fields: ['letterNumber', 'letterDate', 'fromAgency', 'urgency'],
+    },
+    outgoing: {
+        type: 'outgoing',
+        label: 'หนังสือส่ง',
+        itemLabel: 'หนังสือส่ง',
+        title: 'ทะเบียนหนังสือส่ง',
+        addLabel: 'ลงทะเบียนหนังสือส่ง',
+        numberLabel: 'เลขทะเบียนส่ง',
+        teacherLabel: 'ผู้เสนอเรื่อง',
+        teacherRequired: true,
+        fields: ['toAgency', 'urgency'],
+    },
+    order: {
+        type: 'order',
+        label: 'คำสั่ง',
+        itemLabel: 'คำสั่ง',
+        title: 'ทะเบียนคำสั่ง',
+        addLabel: 'ออกคำสั่งใหม่',
+        numberLabel: 'คำสั่งที่',
+        teacherLabel: 'ผู้รับผิดชอบ',
+        teacherRequired: false,
+        fields: ['effectiveDate'],
+    },
+};
+
+export const REGISTER_FIELDS: RegisterField[] = ['letterNumber', 'letterDate', 'fromAgency', 'toAgency', 'urgency', 'effectiveDate'];
+
+// Official Thai correspondence marks urgency with these stamps; most letters carry none.
+export const URGENCY_LEVELS: UrgencyLevel[] = ['normal', 'urgent', 'veryUrgent', 'mostUrgent'];
+export const URGENCY_LABELS: Record<UrgencyLevel, string> = {
+    normal: 'ปกติ',
+    urgent: 'ด่วน',
+    veryUrgent: 'ด่วนมาก',
+    mostUrgent: 'ด่วนที่สุด',
+};
+
+/** Receipt and dispatch numbers run through the calendar year, as in the government filing rules. */
+export const DEFAULT_REGISTER_SCHEMES: Record<Exclude<RegisterType, 'memo'>, NumberingScheme> = {
+    incoming: { prefix: 'รับ ', pattern: '{prefix}{seq}/{year}', padding: 1, yearBasis: 'calendar' },
+    outgoing: { prefix: 'ส่ง ', pattern: '{prefix}{seq}/{year}', padding: 1, yearBasis: 'calendar' },
+    order: { prefix: '', pattern: '{prefix}{seq}/{year}', padding: 1, yearBasis: 'calendar' },
+};
+
+// REGISTERS
+export const getMemoRegister = (memo: Partial<Memo>): RegisterType => memo.register ?? 'memo';
+
+export const isRegisterType = (value: unknown): value is RegisterType => REGISTER_TYPES.includes(value as RegisterType);
+
+export const getRegisterMemos = (memos: Memo[], register: RegisterType) => memos.filter(m => getMemoRegister(m) === register);
+
+/** Sets the register on a new record; internal memos leave it unset, like every record from before registers. */
+export const withRegister = (memo: Memo, register: RegisterType): Memo => {
+    const { register: _register, ...rest } = memo;
+    return register === 'memo' ? rest : { ...rest, register };
+};
+
+/** Incoming letters come from an agency and outgoing ones go to one; the table shows either in one column. */
+export const getCounterpartAgency = (memo: Memo) => getMemoRegister(memo) === 'incoming' ? memo.fromAgency : memo.toAgency;
+
+// NUMBERING
+export const getRegisterScheme = (
+    register: RegisterType,
+    department: Department,
+    numberingSchemes: NumberingSchemes,
+    registerSchemes: RegisterSchemes,
+): NumberingScheme => register === 'memo'
+    ? getSchemeForDepartment(numberingSchemes, department)
+    : registerSchemes[register] ?? DEFAULT_REGISTER_SCHEMES[register];
+
+// REPLIES
+/** The record a reply answers, looked up by its number; incoming letters win when registers share a number. */
+export const findReplyTarget = (memos: Memo[], number: string, excludeId?: string): Memo | undefined => {
+    const normalized = normalizeMemoNumber(number);
+    if (!normalized) return undefined;
+    const matches = memos.filter(m => !m.deleted && m.id !== excludeId && normalizeMemoNumber(m.memoNumber || '') === normalized);
+    return matches.find(m => getMemoRegister(m) === 'incoming') ?? matches[0];
+};
+
+/** Replies filed against each record, keyed by its id and built once so the table can show them for any number of rows. */
+export const buildReplyIndex = (memos: Memo[]): Map<string, Memo[]> => {
+    const replies = new Map<string, Memo[]>();
+    memos.forEach(memo => {
+        if (!memo.replyTo || memo.deleted) return;
+        replies.set(memo.replyTo, [...(replies.get(memo.replyTo) ?? []), memo]);
+    });
+    return replies;
+};
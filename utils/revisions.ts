@@ -0,0 +1,78 @@
+import type { Memo, MemoAttachment, MemoRevision, User } from '../types';
+import { getMemoAttachments } from './attachments';
+import { toStamp } from './permissions';
+
+// CONSTANTS
+export const MEMO_FIELD_LABELS: Partial<Record<keyof Memo, string>> = {
+    memoNumber: 'เลขที่บันทึก',
+    date: 'วันที่',
+    teacher: 'ชื่อครู',
+    subject: 'เรื่อง',
+    department: 'ฝ่ายงาน',
+    notes: 'หมายเหตุ',
+    letterNumber: 'ที่ (เลขที่หนังสือ)',
+    letterDate: 'ลงวันที่',
+    fromAgency: 'จาก',
+    toAgency: 'ถึง',
+    urgency: 'ชั้นความเร็ว',
+    effectiveDate: 'มีผลตั้งแต่',
+    dueDate: 'กำหนดเสร็จ',
+    followUpBy: 'ผู้รับผิดชอบติดตาม',
+    followUpNotes: 'บันทึกการติดตาม',
+    followUpDone: 'ติดตามเสร็จแล้ว',
+    status: 'สถานะ',
+    attachments: 'ไฟล์แนบ',
+    history: 'ประวัติสถานะ',
+};
+
+/** Fields a rollback restores; status and its history only move through the workflow. */
+const CONTENT_FIELDS: (keyof Memo)[] = ['memoNumber', 'date', 'teacher', 'teacherId', 'subject', 'department', 'notes', 'letterNumber', 'letterDate', 'fromAgency', 'toAgency', 'urgency', 'effectiveDate', 'replyTo', 'dueDate', 'followUpBy', 'followUpNotes', 'followUpDone', 'attachments'];
+
+// COMPARING
+/** Labelled fields whose values differ between two versions of a memo. */
+export const getChangedFields = (a: Partial<Memo>, b: Partial<Memo>): (keyof Memo)[] =>
+    (Object.keys(MEMO_FIELD_LABELS) as (keyof Memo)[])
+        .filter(field => JSON.stringify(a[field] ?? null) !== JSON.stringify(b[field] ?? null));
+
+// REVISIONS
+const toSnapshot = ({ revisions: _revisions, ...memo }: Memo): Omit<Memo, 'revisions'> => memo;
+
+/** Carries the revision list over to `next` and appends `previous` to it. */
+export const recordRevision = (previous: Memo, next: Memo): Memo => ({
+    ...next,
+    revisions: [...(previous.revisions ?? []), { id: crypto.randomUUID(), replacedAt: new Date().toISOString(), memo: toSnapshot(previous) }],
+});
+
+/** Versions newest first, starting with the current one (which has no revision id). */
+export const listVersions = (memo: Memo): { revision: MemoRevision | null; memo: Omit<Memo, 'revisions'> }[] => [
+    { revision: null, memo: toSnapshot(memo) },
+    ...[...(memo.revisions ?? [])].reverse().map(revision => ({ revision, memo: revision.memo })),
+];
+
+/** Restores the content of an earlier version as a new edit, so the rollback itself can be undone. */
+export const rollbackMemo = (memo: Memo, revision: MemoRevision, user: User): Memo => {
+    const kept = Object.entries(memo).filter(([field]) => !CONTENT_FIELDS.includes(field as keyof Memo));
+    const content = CONTENT_FIELDS.filter(field => revision.memo[field] !== undefined).map(field => [field, revision.memo[field]]);
+    return recordRevision(memo, { ...Object.fromEntries([...kept, ...content]), updated: toStamp(user) } as Memo);
+};
+
+/** Every attachment the memo has referenced in any version; the files are kept until it is purged. */
+export const getAllAttachments = (memo: Memo): MemoAttachment[] => {
+    const byId = new Map<string, MemoAttachment>();
+    [memo, ...(memo.revisions ?? []).map(r => r.memo as Memo)].forEach(version => {
+        getMemoAttachments(version).forEach(a => { if (!byId.has(a.id)) byId.set(a.id, a); });
+    });
+    return [...byId.values()];
+};
+
+export const getAllAttachmentIds = (memo: Memo): string[] => getAllAttachments(memo).map(a => a.id);
+
+// UNDO
+/** Puts memos back the way they were before a change; a null entry is a memo the change created. */
+export const restoreMemoVersions = (memos: Memo[], before: Map<string, Memo | null>): Memo[] => {
+    const restored = memos
+        .filter(m => !before.has(m.id) || before.get(m.id) !== null)
+        .map(m => before.has(m.id) ? before.get(m.id) : m);
+    const present = new Set(restored.map(m => m.id));
+    return [...restored, ...[...before.values()].filter(m => m && !present.has(m.id))];
+};
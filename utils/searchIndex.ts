@@ -0,0 +1,197 @@
+import type { Memo } from '../types';
+
+// TYPES
+type SearchField = 'memoNumber' | 'letterNumber' | 'subject' | 'fromAgency' | 'toAgency' | 'teacher' | 'department' | 'notes';
+
+export interface SearchResult {
+    /** Memo id → relevance score; only memos matching every query term are present. */
+    scores: Map<string, number>;
+    terms: string[];
+}
+
+export interface SearchIndex {
+    /** Re-indexes only memos whose object identity changed since the last call. */
+    update: (memos: Memo[]) => void;
+    search: (query: string) => SearchResult;
+    size: () => number;
+}
+
+export interface HighlightSegment {
+    text: string;
+    match: boolean;
+}
+
+// CONSTANTS
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+    memoNumber: 5,
+    letterNumber: 5,
+    subject: 3,
+    fromAgency: 2,
+    toAgency: 2,
+    teacher: 2,
+    department: 1,
+    notes: 1,
+};
+const PREFIX_MATCH_FACTOR = 0.6;
+
+// TOKENIZER
+const segmenter = typeof Intl !== 'undefined' && 'Segmenter' in Intl
+    ? new Intl.Segmenter('th', { granularity: 'word' })
+    : null;
+
+const normalizeText = (text: string) => text.normalize('NFC').toLowerCase();
+
+/** Thai has no spaces between words, so word boundaries come from Intl.Segmenter's dictionary. */
+export const tokenize = (text: string): string[] => {
+    const normalized = normalizeText(text || '');
+    if (!normalized.trim()) return [];
+    if (!segmenter) {
+        return normalized.split(/[\s\p{P}\p{S}]+/u).filter(Boolean);
+    }
+    const tokens: string[] = [];
+    for (const { segment, isWordLike } of segmenter.segment(normalized)) {
+        if (isWordLike) tokens.push(segment);
+    }
+    return tokens;
+};
+
+/**
+ * Query terms: segmented words plus each whitespace-separated chunk as typed, so a partially
+ * typed Thai word that the segmenter would split still matches as a prefix.
+ */
+export const getQueryTerms = (query: string): string[] => {
+    const chunks = normalizeText(query).split(/\s+/).filter(Boolean);
+    const terms = new Set<string>();
+    chunks.forEach(chunk => {
+        const words = tokenize(chunk);
+        if (words.length > 1) {
+            terms.add(chunk);
+        } else {
+            words.forEach(word => terms.add(word));
+        }
+    });
+    return [...terms];
+};
+
+// INDEX
+const lowerBound = (sorted: string[], value: string) => {
+    let low = 0;
+    let high = sorted.length;
+    while (low < high) {
+        const mid = (low + high) >> 1;
+        if (sorted[mid] < value) low = mid + 1; else high = mid;
+    }
+    return low;
+};
+
+export const createSearchIndex = (): SearchIndex => {
+    const indexed = new Map<string, { memo: Memo; tokens: Map<string, number> }>();
+    const postings = new Map<string, Map<string, number>>();
+    // Whole field values (e.g. "ศธ 04/2568") catch queries the segmenter would split differently.
+    const phrases = new Map<string, [SearchField, string][]>();
+    let vocabulary: string[] | null = null;
+
+    const removeMemo = (id: string) => {
+        const entry = indexed.get(id);
+        if (!entry) return;
+        entry.tokens.forEach((_, token) => {
+            const posting = postings.get(token);
+            posting?.delete(id);
+            if (posting && posting.size === 0) {
+                postings.delete(token);
+                vocabulary = null;
+            }
+        });
+        indexed.delete(id);
+        phrases.delete(id);
+    };
+
+    const addMemo = (memo: Memo) => {
+        const tokens = new Map<string, number>();
+        (Object.keys(FIELD_WEIGHTS) as SearchField[]).forEach(field => {
+            tokenize(memo[field] ?? '').forEach(token => {
+                tokens.set(token, Math.max(tokens.get(token) ?? 0, FIELD_WEIGHTS[field]));
+            });
+        });
+        tokens.forEach((weight, token) => {
+            let posting = postings.get(token);
+            if (!posting) {
+                posting = new Map();
+                postings.set(token, posting);
+                vocabulary = null;
+            }
+            posting.set(memo.id, weight);
+        });
+        indexed.set(memo.id, { memo, tokens });
+        phrases.set(memo.id, (Object.keys(FIELD_WEIGHTS) as SearchField[]).map(field => [field, normalizeText(memo[field] ?? '')]));
+    };
+
+    const matchTerm = (term: string): Map<string, number> => {
+        vocabulary ??= [...postings.keys()].sort();
+        const matches = new Map<string, number>();
+        for (let i = lowerBound(vocabulary, term); i < vocabulary.length && vocabulary[i].startsWith(term); i++) {
+            const factor = vocabulary[i] === term ? 1 : PREFIX_MATCH_FACTOR;
+            postings.get(vocabulary[i]).forEach((weight, id) => {
+                matches.set(id, Math.max(matches.get(id) ?? 0, weight * factor));
+            });
+        }
+        if (matches.size === 0) {
+            // Fall back to substring search for terms that cross token boundaries.
+            phrases.forEach((fields, id) => {
+                fields.forEach(([field, text]) => {
+                    if (text.includes(term)) matches.set(id, Math.max(matches.get(id) ?? 0, FIELD_WEIGHTS[field] * PREFIX_MATCH_FACTOR));
+                });
+            });
+        }
+        return matches;
+    };
+
+    return {
+        update: (memos) => {
+            const seen = new Set<string>();
+            memos.forEach(memo => {
+                seen.add(memo.id);
+                const entry = indexed.get(memo.id);
+                if (entry?.memo === memo) return;
+                removeMemo(memo.id);
+                addMemo(memo);
+            });
+            [...indexed.keys()].forEach(id => {
+                if (!seen.has(id)) removeMemo(id);
+            });
+        },
+        search: (query) => {
+            const terms = getQueryTerms(query);
+            if (terms.length === 0) return { scores: new Map(), terms };
+            let scores: Map<string, number> | null = null;
+            for (const term of terms) {
+                const matches = matchTerm(term);
+                if (scores === null) {
+                    scores = matches;
+                } else {
+                    const next = new Map<string, number>();
+                    scores.forEach((score, id) => {
+                        const termScore = matches.get(id);
+                        if (termScore !== undefined) next.set(id, score + termScore);
+                    });
+                    scores = next;
+                }
+                if (scores.size === 0) break;
+            }
+            return { scores: scores ?? new Map(), terms };
+        },
+        size: () => indexed.size,
+    };
+};
+
+// HIGHLIGHTING
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const splitHighlight = (text: string, terms: string[]): HighlightSegment[] => {
+    if (!text || terms.length === 0) return [{ text: text ?? '', match: false }];
+    const pattern = new RegExp(`(${[...terms].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})`, 'gi');
+    return text.split(pattern).filter(Boolean).map(part => ({
+        text: part,
+        match: terms.includes(normalizeText(part)),
+    }));
+};
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { matchShortcut, isTypingTarget, type ShortcutEvent } from './shortcuts';
+
+const press = (code: string, event: Partial<ShortcutEvent> = {}): ShortcutEvent => ({
+    code,
+    shiftKey: false,
+    ctrlKey: false,
+    metaKey: false,
+    altKey: false,
+    defaultPrevented: false,
+    target: document.body,
+    ...event,
+});
+
+describe('matchShortcut', () => {
+    it('matches on the physical key, so the Thai layout works too', () => {
+        expect(matchShortcut(press('KeyN'))).toBe('newMemo');
+        expect(matchShortcut(press('Slash'))).toBe('search');
+        expect(matchShortcut(press('Slash', { shiftKey: true }))).toBe('help');
+        expect(matchShortcut(press('BracketRight'))).toBe('nextPage');
+    });
+
+    it('leaves browser shortcuts and handled keys alone', () => {
+        expect(matchShortcut(press('KeyN', { ctrlKey: true }))).toBeNull();
+        expect(matchShortcut(press('KeyN', { metaKey: true }))).toBeNull();
+        expect(matchShortcut(press('KeyN', { altKey: true }))).toBeNull();
+        expect(matchShortcut(press('KeyN', { defaultPrevented: true }))).toBeNull();
+        expect(matchShortcut(press('KeyQ'))).toBeNull();
+    });
+
+    it('ignores keys typed into a field', () => {
+        const input = document.createElement('input');
+        expect(matchShortcut(press('KeyN', { target: input }))).toBeNull();
+        expect(matchShortcut(press('KeyN', { target: document.createElement('textarea') }))).toBeNull();
+    });
+});
+
+describe('isTypingTarget', () => {
+    it('counts text fields but not checkboxes or buttons', () => {
+        const checkbox = document.createElement('input');
+        checkbox.type = 'checkbox';
+        expect(isTypingTarget(document.createElement('select'))).toBe(true);
+        expect(isTypingTarget(checkbox)).toBe(false);
+        expect(isTypingTarget(document.createElement('button'))).toBe(false);
+        expect(isTypingTarget(null)).toBe(false);
+    });
+});
@@ -0,0 +1,43 @@
+// TYPES
+export type ShortcutAction = 'newMemo' | 'search' | 'previousPage' | 'nextPage' | 'help';
+
+export interface Shortcut {
+    action: ShortcutAction;
+    /** `KeyboardEvent.code`, so shortcuts work the same with the Thai keyboard layout switched on. */
+    code: string;
+    shift: boolean;
+    /** As shown to the user and in `aria-keyshortcuts`. */
+    keys: string;
+    label: string;
+}
+
+/** The parts of a keyboard event the shortcuts look at. */
+export type ShortcutEvent = Pick<KeyboardEvent, 'code' | 'shiftKey' | 'ctrlKey' | 'metaKey' | 'altKey' | 'defaultPrevented' | 'target'>;
+
+// CONSTANTS
+export const SHORTCUTS: Shortcut[] = [
+    { action: 'newMemo', code: 'KeyN', shift: false, keys: 'N', label: 'เพิ่มรายการใหม่ในทะเบียนที่เปิดอยู่' },
+    { action: 'search', code: 'Slash', shift: false, keys: '/', label: 'ไปที่ช่องค้นหา' },
+    { action: 'previousPage', code: 'BracketLeft', shift: false, keys: '[', label: 'หน้าก่อนหน้า' },
+    { action: 'nextPage', code: 'BracketRight', shift: false, keys: ']', label: 'หน้าถัดไป' },
+    { action: 'help', code: 'Slash', shift: true, keys: 'Shift+/', label: 'แสดงแป้นลัดทั้งหมด' },
+];
+
+const TEXT_INPUT_TYPES = ['text', 'search', 'number', 'email', 'password', 'tel', 'url', 'date'];
+
+// MATCHING
+export const getShortcutKeys = (action: ShortcutAction) => SHORTCUTS.find(s => s.action === action)?.keys;
+
+/** Single-key shortcuts must not fire while the user is typing. */
+export const isTypingTarget = (target: EventTarget | null): boolean => {
+    if (!(target instanceof HTMLElement)) return false;
+    if (target.isContentEditable) return true;
+    if (target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return true;
+    return target instanceof HTMLInputElement && TEXT_INPUT_TYPES.includes(target.type);
+};
+
+/** The action for a key press on the page, or null when it is typing, a browser shortcut or not ours. */
+export const matchShortcut = (event: ShortcutEvent): ShortcutAction | null => {
+    if (event.defaultPrevented || event.ctrlKey || event.metaKey || event.altKey || isTypingTarget(event.target)) return null;
+    return SHORTCUTS.find(s => s.code === event.code && s.shift === event.shiftKey)?.action ?? null;
+};
@@ -0,0 +1,322 @@
+import type { Memo, Department, SyncRecord, Teacher } from '../types';
+import { getChangedFields } from './revisions';
+import { TEACHERS_KEY } from './teachers';
+import { DEPARTMENT_COLORS_KEY, type DepartmentColors } from './departments';
+import { NUMBERING_SCHEMES_KEY, normalizeMemoNumber, type NumberingSchemes } from './memoNumbering';
+import { REGISTER_SCHEMES_KEY, getMemoRegister, type RegisterSchemes } from './registers';
+import { TRASH_SETTINGS_KEY, type TrashSettings } from './trash';
+
+// TYPES
+export interface SyncSettings {
+    enabled: boolean;
+    /** Base URL of the register server; empty means the same origin as the app. */
+    serverUrl: string;
+    token: string;
+}
+
+/** A memo edited here and on the server since this browser last synced. */
+export interface MemoConflict {
+    id: string;
+    /** Null when the memo was deleted on this side. */
+    local: Memo | null;
+    remote: Memo | null;
+    remoteVersion: number;
+}
+
+/** A local change the server refused; it stays on this device until someone edits the memo again. */
+export interface MemoRejection {
+    id: string;
+    /** The snapshot that was refused; null for a deletion. */
+    local: Memo | null;
+    message: string;
+}
+
+/** Settings every device shares through the server, each replicated as one versioned document. */
+export interface SyncDocuments {
+    teachers: Teacher[];
+    numberingSchemes: NumberingSchemes;
+    registerSchemes: RegisterSchemes;
+    departmentColors: DepartmentColors;
+    /** Shared so that one device's retention cannot purge everyone's trash early. */
+    trashSettings: TrashSettings;
+}
+
+export type SyncDocumentKey = keyof SyncDocuments;
+
+/** A memo number this browser issued offline that another device had already used. */
+export interface MemoNumberClash {
+    memoNumber: string;
+    /** The local memo still waiting for, or just sent to, the server. */
+    localId: string;
+    remoteId: string;
+}
+
+/** Replication bookkeeping, persisted next to the register so queued changes survive a reload. */
+export interface SyncState {
+    /** Server change counter this browser has pulled up to. */
+    cursor: number;
+    /** Server version each local memo was last synced at. */
+    versions: Record<string, number>;
+    /** Memos created, edited or deleted locally and not yet accepted by the server. */
+    pending: string[];
+    conflicts: MemoConflict[];
+    departmentsVersion: number;
+    departmentsPending: boolean;
+    documentVersions: Partial<Record<SyncDocumentKey, number>>;
+    /** Shared settings changed locally and not yet accepted by the server. */
+    documentsPending: SyncDocumentKey[];
+    /** Attachment ids of memos purged here, kept until the server accepts the deletion. */
+    purgedFiles: Record<string, string[]>;
+}
+
+export type SyncPhase = 'disabled' | 'idle' | 'syncing' | 'offline' | 'error';
+
+export interface SyncStatus {
+    phase: SyncPhase;
+    lastSyncedAt: string | null;
+    message: string;
+}
+
+/** What one sync round did, computed against a snapshot of the register. */
+export interface SyncResult {
+    /** Server changes to apply locally; `memo` is null for deletions. */
+    incoming: SyncRecord[];
+    /** Snapshots the server now holds, keyed by memo id; null for deletions. */
+    pushed: Map<string, Memo | null>;
+    rejected: MemoRejection[];
+    /** Every unresolved conflict, including ones carried over from earlier rounds. */
+    conflicts: MemoConflict[];
+    versions: Record<string, number>;
+    cursor: number;
+    /** Department list to adopt locally: the server's, or the merged list that was pushed. */
+    departments: Department[] | null;
+    departmentsVersion: number;
+    /** The local department list whose changes the server accepted. */
+    departmentsPushedFrom: Department[] | null;
+    /** Shared settings to adopt locally, like `departments`. */
+    documents: Partial<SyncDocuments>;
+    documentVersions: Partial<Record<SyncDocumentKey, number>>;
+    /** Local settings the server accepted, or that were refused and replaced by the server's. */
+    documentsPushedFrom: Partial<SyncDocuments>;
+    clashes: MemoNumberClash[];
+}
+
+// CONSTANTS
+export const SYNC_SETTINGS_KEY = 'syncSettings';
+export const SYNC_STATE_KEY = 'syncState';
+export const SYNC_INTERVAL_MS = 30_000;
+/** Quiet period after an edit before it is pushed, so bursts of saves go out together. */
+export const SYNC_DEBOUNCE_MS = 1_500;
+
+export const DEFAULT_SYNC_SETTINGS: SyncSettings = { enabled: false, serverUrl: '', token: '' };
+export const EMPTY_SYNC_STATE: SyncState = {
+    cursor: 0, versions: {}, pending: [], conflicts: [], departmentsVersion: 0, departmentsPending: false, documentVersions: {}, documentsPending: [], purgedFiles: {},
+};
+
+export const SYNC_DOCUMENT_KEYS: SyncDocumentKey[] = ['teachers', 'numberingSchemes', 'registerSchemes', 'departmentColors', 'trashSettings'];
+
+/** Where each shared setting is kept in the local repository. */
+export const SYNC_DOCUMENT_SETTING_KEYS: Record<SyncDocumentKey, string> = {
+    teachers: TEACHERS_KEY,
+    numberingSchemes: NUMBERING_SCHEMES_KEY,
+    registerSchemes: REGISTER_SCHEMES_KEY,
+    departmentColors: DEPARTMENT_COLORS_KEY,
+    trashSettings: TRASH_SETTINGS_KEY,
+};
+
+// QUEUE
+/**
+ * Ids of memos that differ between two versions of the register. Saves replace only the
+ * memos they touch, so unchanged memos keep their identity and a reference check is enough.
+ */
+export const findChangedMemoIds = (previous: Memo[], next: Memo[]): string[] => {
+    const before = new Map(previous.map(m => [m.id, m]));
+    const changed = next.filter(m => before.get(m.id) !== m).map(m => m.id);
+    const remaining = new Set(next.map(m => m.id));
+    return [...changed, ...previous.filter(m => !remaining.has(m.id)).map(m => m.id)];
+};
+
+export const queueMemoChanges = (state: SyncState, ids: string[]): SyncState =>
+    ids.length === 0 ? state : { ...state, pending: [...new Set([...state.pending, ...ids])] };
+
+export const queueDocumentChange = (state: SyncState, key: SyncDocumentKey): SyncState =>
+    state.documentsPending.includes(key) ? state : { ...state, documentsPending: [...state.documentsPending, key] };
+
+// MERGING
+const isSameMemo = (a: Memo | null, b: Memo | null) => JSON.stringify(a) === JSON.stringify(b);
+
+/** Applies server records in place, appending memos this browser has not seen yet. */
+export const applyRemoteRecords = (memos: Memo[], records: SyncRecord[]): Memo[] => {
+    if (records.length === 0) return memos;
+    const byId = new Map(records.map(r => [r.id, r.memo]));
+    const known = new Set(memos.map(m => m.id));
+    const updated = memos
+        .filter(m => !byId.has(m.id) || byId.get(m.id) !== null)
+        .map(m => byId.has(m.id) ? byId.get(m.id) : m);
+    const added = records.filter(r => r.memo && !known.has(r.id)).map(r => r.memo);
+    return [...updated, ...added];
+};
+
+/**
+ * Both sides changed the department list: keep the local order and add names that only
+ * exist on the server, so no department disappears without someone removing it again.
+ */
+export const mergeDepartments = (local: Department[], remote: Department[]): Department[] =>
+    [...local, ...remote.filter(d => !local.includes(d))];
+
+/** The department-list policy for shared settings: local entries win, and entries only the server has are added. */
+export const mergeSyncDocument = <K extends SyncDocumentKey>(key: K, local: SyncDocuments[K], remote: SyncDocuments[K]): SyncDocuments[K] => {
+    if (key === 'teachers') {
+        const ids = new Set((local as Teacher[]).map(t => t.id));
+        return [...(local as Teacher[]), ...(remote as Teacher[]).filter(t => !ids.has(t.id))] as SyncDocuments[K];
+    }
+    return { ...(remote as object), ...(local as object) } as SyncDocuments[K];
+};
+
+/**
+ * Local memos that took a number another device had already used in the same register.
+ * Running numbers are issued offline, so two devices can hand out the same next number;
+ * only the device whose memo was still local when the other arrived is told.
+ */
+export const findMemoNumberClashes = (memos: Memo[], records: SyncRecord[], localIds: string[]): MemoNumberClash[] => {
+    const local = new Set(localIds);
+    const candidates = memos.filter(m => local.has(m.id) && !m.deleted && m.memoNumber);
+    return records.flatMap(({ id, memo }) => {
+        if (!memo || memo.deleted || !memo.memoNumber) return [];
+        const memoNumber = normalizeMemoNumber(memo.memoNumber);
+        return candidates
+            .filter(m => m.id !== id && getMemoRegister(m) === getMemoRegister(memo) && normalizeMemoNumber(m.memoNumber) === memoNumber)
+            .map(m => ({ memoNumber, localId: m.id, remoteId: id }));
+    });
+};
+
+export const getConflictFields = (conflict: MemoConflict): (keyof Memo)[] => {
+    const { local, remote } = conflict;
+    return local && remote ? getChangedFields(local, remote) : [];
+};
+
+/** Takes each listed field from the local copy and everything else from the server copy. */
+export const mergeConflict = (conflict: MemoConflict, localFields: (keyof Memo)[]): Memo => {
+    const merged = { ...conflict.remote };
+    localFields.forEach(field => { (merged as Record<string, unknown>)[field] = conflict.local[field]; });
+    if (localFields.includes('teacher')) merged.teacherId = conflict.local.teacherId;
+    return merged;
+};
+
+/**
+ * Settles a conflict with the chosen memo (null to delete). The result is based on the
+ * server version, so it goes out as a normal edit unless it matches the server copy.
+ */
+export const resolveConflict = (state: SyncState, conflict: MemoConflict, resolution: Memo | null): SyncState => {
+    const matchesServer = isSameMemo(resolution, conflict.remote);
+    return {
+        ...state,
+        versions: { ...state.versions, [conflict.id]: conflict.remoteVersion },
+        pending: matchesServer ? state.pending.filter(id => id !== conflict.id) : [...new Set([...state.pending, conflict.id])],
+        conflicts: state.conflicts.filter(c => c.id !== conflict.id),
+    };
+};
+
+export const replaceMemo = (memos: Memo[], id: string, memo: Memo | null): Memo[] => {
+    if (!memo) return memos.filter(m => m.id !== id);
+    return memos.some(m => m.id === id) ? memos.map(m => m.id === id ? memo : m) : [...memos, memo];
+};
+
+// RECONCILING
+/**
+ * Folds a finished sync round into the register as it is now. Edits made while the round
+ * was in flight win: their memos stay queued, and server changes to them are held back so
+ * the next push meets a version check instead of silently overwriting either side.
+ */
+export const reconcileSyncResult = (memos: Memo[], departments: Department[], documents: SyncDocuments, state: SyncState, result: SyncResult) => {
+    const current = new Map(memos.map(m => [m.id, m]));
+    const versions = { ...result.versions };
+    const pending = new Set(state.pending);
+
+    result.pushed.forEach((snapshot, id) => {
+        if ((current.get(id) ?? null) === snapshot) pending.delete(id);
+    });
+    // Pushing the same data again would only be refused again; a later edit queues it anew.
+    result.rejected.forEach(({ id, local }) => {
+        if ((current.get(id) ?? null) === local) pending.delete(id);
+    });
+
+    const incoming = result.incoming.filter(record => {
+        if (!pending.has(record.id)) return true;
+        if (record.id in state.versions) versions[record.id] = state.versions[record.id];
+        else delete versions[record.id];
+        return false;
+    });
+
+    let nextDepartments = departments;
+    let departmentsPending = state.departmentsPending;
+    let departmentsVersion = result.departmentsVersion;
+    if (result.departmentsPushedFrom) {
+        if (result.departmentsPushedFrom === departments) {
+            departmentsPending = false;
+            nextDepartments = result.departments ?? departments;
+        }
+    } else if (result.departments) {
+        // Edited locally mid-round: keep the old base so the next push merges with the server list.
+        if (state.departmentsPending) departmentsVersion = state.departmentsVersion;
+        else nextDepartments = result.departments;
+    }
+
+    // Shared settings follow the department list rules, one document at a time.
+    const nextDocuments: Partial<Record<SyncDocumentKey, unknown>> = {};
+    const documentVersions = { ...result.documentVersions };
+    const documentsPending = new Set(state.documentsPending);
+    SYNC_DOCUMENT_KEYS.forEach(key => {
+        if (key in result.documentsPushedFrom) {
+            if (result.documentsPushedFrom[key] !== documents[key]) return;
+            documentsPending.delete(key);
+            if (key in result.documents) nextDocuments[key] = result.documents[key];
+        } else if (key in result.documents) {
+            if (documentsPending.has(key)) documentVersions[key] = state.documentVersions[key];
+            else nextDocuments[key] = result.documents[key];
+        }
+    });
+
+    // Files of a purged memo go once the server holds the deletion; if the memo came back, they stay.
+    const purgedFiles = { ...state.purgedFiles };
+    const filesToDelete: string[] = [];
+    result.pushed.forEach((snapshot, id) => {
+        if (snapshot || !(id in purgedFiles)) return;
+        filesToDelete.push(...purgedFiles[id]);
+        delete purgedFiles[id];
+    });
+    incoming.forEach(record => {
+        if (record.memo) delete purgedFiles[record.id];
+    });
+
+    const removed = incoming.filter(r => !r.memo && current.has(r.id)).map(r => current.get(r.id));
+    return {
+        memos: applyRemoteRecords(memos, incoming),
+        removed,
+        filesToDelete,
+        departments: nextDepartments,
+        documents: nextDocuments as Partial<SyncDocuments>,
+        state: {
+            cursor: result.cursor,
+            versions,
+            pending: [...pending],
+            conflicts: result.conflicts,
+            departmentsVersion,
+            departmentsPending,
+            documentVersions,
+            documentsPending: [...documentsPending],
+            purgedFiles,
+        } as SyncState,
+    };
+};
+
+export const getSyncStatusLabel = (status: SyncStatus, state: SyncState): string => {
+    if (state.conflicts.length > 0) return `ข้อมูลขัดแย้ง ${state.conflicts.length} รายการ`;
+    switch (status.phase) {
+        case 'disabled': return 'ใช้งานเฉพาะเครื่องนี้';
+        case 'syncing': return 'กำลังซิงก์…';
+        case 'offline': return state.pending.length > 0 ? `ออฟไลน์ · รอส่ง ${state.pending.length} รายการ` : 'ออฟไลน์';
+        case 'error': return 'ซิงก์ไม่สำเร็จ';
+        default: return state.pending.length > 0 ? `รอส่ง ${state.pending.length} รายการ` : 'ซิงก์แล้ว';
+    }
+};
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_TABLE_SETTINGS, normalizeTableSettings, setColumnVisible, moveColumn, getRegisterColumns, getColumnLabel, getVisibleRange } from './tableView';
+
+describe('normalizeTableSettings', () => {
+    it('falls back to the defaults for missing or invalid values', () => {
+        expect(normalizeTableSettings(null)).toEqual(DEFAULT_TABLE_SETTINGS);
+        expect(normalizeTableSettings({ pageSize: 7, mode: 'grid' as never, columns: [] })).toEqual(DEFAULT_TABLE_SETTINGS);
+    });
+
+    it('drops unknown and repeated columns', () => {
+        const settings = normalizeTableSettings({ columns: ['subject', 'colour' as never, 'date', 'subject'], pageSize: 50, mode: 'scroll' });
+        expect(settings).toEqual({ columns: ['subject', 'date'], pageSize: 50, mode: 'scroll' });
+    });
+});
+
+describe('columns', () => {
+    it('hides a column but never the last one, and shows it again at the end', () => {
+        expect(setColumnVisible(['date', 'subject', 'status'], 'subject', false)).toEqual(['date', 'status']);
+        expect(setColumnVisible(['date'], 'date', false)).toEqual(['date']);
+        expect(setColumnVisible(['date', 'status'], 'subject', true)).toEqual(['date', 'status', 'subject']);
+    });
+
+    it('moves a column within the bounds', () => {
+        expect(moveColumn(['date', 'subject', 'status'], 'status', -1)).toEqual(['date', 'status', 'subject']);
+        expect(moveColumn(['date', 'subject', 'status'], 'date', -1)).toEqual(['date', 'subject', 'status']);
+    });
+});
+
+describe('register columns', () => {
+    it('leaves out columns the register does not have', () => {
+        const ids = (register: Parameters<typeof getRegisterColumns>[1]) => getRegisterColumns(DEFAULT_TABLE_SETTINGS, register).map(c => c.id);
+        expect(ids('memo')).not.toContain('agency');
+        expect(ids('incoming')).toEqual(expect.arrayContaining(['letterNumber', 'agency', 'urgency']));
+        expect(ids('outgoing')).not.toContain('letterNumber');
+    });
+
+    it('labels the shared columns in the register\'s own words', () => {
+        const [, number] = getRegisterColumns(DEFAULT_TABLE_SETTINGS, 'incoming');
+        expect(getColumnLabel(number, 'incoming')).toBe('เลขทะเบียนรับ');
+        expect(getColumnLabel(number, 'memo')).toBe('เลขที่บันทึก');
+    });
+});
+
+describe('getVisibleRange', () => {
+    it('renders the rows in view plus the overscan, padding the rest', () => {
+        const range = getVisibleRange(4800, 480, 50_000, 48, 10);
+        expect(range).toEqual({ start: 90, end: 120, paddingTop: 90 * 48, paddingBottom: (50_000 - 120) * 48 });
+    });
+
+    it('stays within the list at either end', () => {
+        expect(getVisibleRange(0, 480, 5, 48, 10)).toEqual({ start: 0, end: 5, paddingTop: 0, paddingBottom: 0 });
+        expect(getVisibleRange(48 * 1000, 480, 100, 48, 10)).toMatchObject({ start: 100, end: 100, paddingBottom: 0 });
+    });
+});
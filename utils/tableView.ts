@@ -0,0 +1,121 @@
+import type { Memo, RegisterType } from '../types';
+import { DEFAULT_PAGE_SIZE } from './memoQuery';
+import { REGISTERS } from './registers';
+
+// TYPES
+export type TableColumnId = 'index' | 'memoNumber' | 'letterNumber' | 'date' | 'agency' | 'teacher' | 'subject' | 'urgency' | 'department' | 'status' | 'dueDate' | 'attachments';
+
+export interface TableColumn {
+    id: TableColumnId;
+    label: string;
+    /** Set on columns the table can sort by. */
+    sortKey?: keyof Memo;
+    /** Registers that have this column; unset for columns every register has. */
+    registers?: RegisterType[];
+}
+
+/** `scroll` lists every matching memo in one scrolling table and only renders the rows in view. */
+export type TableMode = 'pages' | 'scroll';
+
+export interface TableSettings {
+    /** Shown columns, in display order; the selection and action columns are always there. */
+    columns: TableColumnId[];
+    pageSize: number;
+    mode: TableMode;
+}
+
+export interface VisibleRange {
+    start: number;
+    end: number;
+    /** Heights of the rows left out above and below the rendered ones. */
+    paddingTop: number;
+    paddingBottom: number;
+}
+
+// CONSTANTS
+export const TABLE_SETTINGS_KEY = 'tableSettings';
+export const PAGE_SIZE_OPTIONS = [10, 25, 50, 100, 250];
+
+export const TABLE_COLUMNS: TableColumn[] = [
+    { id: 'index', label: 'ลำดับ' },
+    { id: 'memoNumber', label: 'เลขที่บันทึก', sortKey: 'memoNumber' },
+    { id: 'letterNumber', label: 'ที่ (เลขที่หนังสือ)', sortKey: 'letterNumber', registers: ['incoming'] },
+    { id: 'date', label: 'วันที่', sortKey: 'date' },
+    { id: 'agency', label: 'จาก/ถึง (หน่วยงาน)', registers: ['incoming', 'outgoing'] },
+    { id: 'teacher', label: 'ชื่อครู', sortKey: 'teacher' },
+    { id: 'subject', label: 'เรื่อง', sortKey: 'subject' },
+    { id: 'urgency', label: 'ชั้นความเร็ว', registers: ['incoming', 'outgoing'] },
+    { id: 'department', label: 'ฝ่ายงาน', sortKey: 'department' },
+    { id: 'status', label: 'สถานะ', sortKey: 'status' },
+    { id: 'dueDate', label: 'กำหนดเสร็จ', sortKey: 'dueDate' },
+    { id: 'attachments', label: 'ไฟล์' },
+];
+
+export const DEFAULT_TABLE_SETTINGS: TableSettings = {
+    columns: ['index', 'memoNumber', 'letterNumber', 'date', 'agency', 'teacher', 'subject', 'urgency', 'department', 'status', 'attachments'],
+    pageSize: DEFAULT_PAGE_SIZE,
+    mode: 'pages',
+};
+
+/** Rows are clipped to this height in scroll mode so the visible range can be worked out without measuring. */
+export const VIRTUAL_ROW_HEIGHT = 48;
+/** Extra rows rendered above and below the viewport so fast scrolling doesn't show blank space. */
+export const VIRTUAL_OVERSCAN = 10;
+
+// SETTINGS
+export const getTableColumn = (id: TableColumnId) => TABLE_COLUMNS.find(column => column.id === id);
+
+/** Shown columns the register has, in display order. */
+export const getRegisterColumns = (settings: TableSettings, register: RegisterType): TableColumn[] =>
+    settings.columns.map(getTableColumn).filter(column => !column.registers || column.registers.includes(register));
+
+/** Number, teacher and agency columns take the register's own wording. */
+export const getColumnLabel = (column: TableColumn, register: RegisterType) => {
+    const definition = REGISTERS[register];
+    if (column.id === 'memoNumber') return definition.numberLabel;
+    if (column.id === 'teacher') return definition.teacherLabel;
+    if (column.id === 'agency') return register === 'incoming' ? 'จาก' : 'ถึง';
+    return column.label;
+};
+
+/** Drops unknown or repeated columns from stored settings and falls back to the defaults for anything invalid. */
+export const normalizeTableSettings = (stored: Partial<TableSettings> | null | undefined): TableSettings => {
+    const columns = Array.isArray(stored?.columns)
+        ? stored.columns.filter((id, i, all) => getTableColumn(id) && all.indexOf(id) === i)
+        : DEFAULT_TABLE_SETTINGS.columns;
+    return {
+        columns: columns.length > 0 ? columns : DEFAULT_TABLE_SETTINGS.columns,
+        pageSize: PAGE_SIZE_OPTIONS.includes(stored?.pageSize) ? stored.pageSize : DEFAULT_TABLE_SETTINGS.pageSize,
+        mode: stored?.mode === 'scroll' ? 'scroll' : 'pages',
+    };
+};
+
+/** A shown column comes back at the end; at least one column always stays visible. */
+export const setColumnVisible = (columns: TableColumnId[], id: TableColumnId, visible: boolean): TableColumnId[] => {
+    if (!visible) return columns.length > 1 ? columns.filter(c => c !== id) : columns;
+    return columns.includes(id) ? columns : [...columns, id];
+};
+
+export const moveColumn = (columns: TableColumnId[], id: TableColumnId, offset: number): TableColumnId[] => {
+    const from = columns.indexOf(id);
+    const to = from + offset;
+    if (from < 0 || to < 0 || to >= columns.length) return columns;
+    const moved = [...columns];
+    moved.splice(from, 1);
+    moved.splice(to, 0, id);
+    return moved;
+};
+
+// VIRTUAL SCROLLING
+export const getVisibleRange = (
+    scrollTop: number,
+    viewportHeight: number,
+    total: number,
+    rowHeight = VIRTUAL_ROW_HEIGHT,
+    overscan = VIRTUAL_OVERSCAN,
+): VisibleRange => {
+    const first = Math.floor(Math.max(0, scrollTop) / rowHeight);
+    const start = Math.min(total, Math.max(0, first - overscan));
+    const end = Math.min(total, first + Math.ceil(viewportHeight / rowHeight) + overscan);
+    return { start, end, paddingTop: start * rowHeight, paddingBottom: (total - end) * rowHeight };
+};
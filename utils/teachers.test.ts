@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import type { Memo } from '../types';
+import { clusterTeacherNames } from './teachers';
+
+const memosBy = (...teachers: string[]): Memo[] => teachers.map((teacher, i) => ({
+    id: `m${i}`, memoNumber: `${i + 1}/2568`, date: '2025-06-01', teacher, subject: 'เรื่อง', department: 'งานบริหารวิชาการ',
+}));
+
+const clusterNames = (memos: Memo[]) => clusterTeacherNames(memos, []).map(c => [...c.names].sort());
+
+describe('clusterTeacherNames', () => {
+    it('groups the same name written with different titles or a small typo', () => {
+        expect(clusterNames(memosBy('ครูสมศรี ใจดีมาก', 'นางสมศรี ใจดีมาก', 'สมศรี ใจดีมก'))).toEqual([
+            ['ครูสมศรี ใจดีมาก', 'นางสมศรี ใจดีมาก', 'สมศรี ใจดีมก'].sort(),
+        ]);
+    });
+
+    it('keeps teachers who only share a first name apart', () => {
+        const clusters = clusterNames(memosBy('สมชาย ใจดี', 'สมชาย รักเรียน', 'สมชาย'));
+        expect(clusters.every(names => names.length === 1)).toBe(true);
+    });
+
+    it('does not chain one close match into the next', () => {
+        // The middle name is close to both others, but the first and last are too far apart.
+        const clusters = clusterNames(memosBy('กมลวรรณ ศรีสุขใจ', 'กมลวรรณ ศรีสุขใจ', 'กมลวรรณ ศรีสุข', 'กมลวรรณ ศรีสุ'));
+        expect(clusters).toEqual([['กมลวรรณ ศรีสุข', 'กมลวรรณ ศรีสุขใจ'], ['กมลวรรณ ศรีสุ']]);
+    });
+});
@@ -0,0 +1,189 @@
+import type { Memo, Teacher } from '../types';
+
+// TYPES
+export interface TeacherCluster {
+    /** Distinct raw names found in memos or the registry that appear to be the same person. */
+    names: string[];
+    teacherIds: string[];
+    memoCount: number;
+    /** Memos in the cluster that are not yet linked to a registry entry. */
+    unlinkedCount: number;
+}
+
+export interface TeacherOption {
+    key: string;
+    label: string;
+}
+
+// CONSTANTS
+export const TEACHERS_KEY = 'teachers';
+/** Largest typo distance, as a share of the longer name, for two names to count as one teacher. */
+const MAX_NAME_DISTANCE = 0.15;
+/** Shorter keys are too likely to be different people one letter apart. */
+const MIN_FUZZY_KEY_LENGTH = 5;
+
+// Longest first so "นางสาว" is stripped before "นาง".
+const HONORIFICS = ['ว่าที่ร้อยตรี', 'ว่าที่ ร.ต.', 'รองผู้อำนวยการ', 'ผู้อำนวยการ', 'นางสาว', 'รองผอ.', 'ผอ.', 'น.ส.', 'ดร.', 'ครู', 'นาย', 'นาง', 'mrs.', 'miss', 'mr.', 'ms.', 'dr.'];
+
+// NAMES
+export const normalizeTeacherName = (name: string) => name.trim().replace(/\s+/g, ' ');
+
+/** Lower-cased name without titles such as ครู/นาย/นาง/นางสาว, used only for matching. */
+export const getNameKey = (name: string) => {
+    let key = normalizeTeacherName(name).toLowerCase();
+    let stripped = true;
+    while (stripped) {
+        stripped = false;
+        for (const honorific of HONORIFICS) {
+            if (key.startsWith(honorific)) {
+                key = key.slice(honorific.length).trim();
+                stripped = true;
+            }
+        }
+    }
+    return key;
+};
+
+const levenshtein = (a: string, b: string) => {
+    const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        let diagonal = previous[0];
+        previous[0] = i;
+        for (let j = 1; j <= b.length; j++) {
+            const temp = previous[j];
+            previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+            diagonal = temp;
+        }
+    }
+    return previous[b.length];
+};
+
+/**
+ * Two title-less name keys match when they are equal or differ by a small typo in the full name.
+ * A first name alone never matches, as two teachers often share one.
+ */
+const areSimilarKeys = (keyA: string, keyB: string) => {
+    if (!keyA || !keyB) return false;
+    if (keyA === keyB) return true;
+    const longest = Math.max(keyA.length, keyB.length);
+    if (longest < MIN_FUZZY_KEY_LENGTH || Math.abs(keyA.length - keyB.length) > longest * MAX_NAME_DISTANCE) return false;
+    return levenshtein(keyA, keyB) / longest <= MAX_NAME_DISTANCE;
+};
+
+// LOOKUP
+export const findTeacherByName = (teachers: Teacher[], name: string): Teacher | undefined => {
+    const key = getNameKey(name);
+    if (!key) return undefined;
+    return teachers.find(t => getNameKey(t.fullName) === key || t.aliases.some(alias => getNameKey(alias) === key));
+};
+
+/** Stable identity for statistics and filters: the registry ID when linked, else the raw name. */
+export const getTeacherKey = (memo: Memo) => memo.teacherId ?? `name:${normalizeTeacherName(memo.teacher || '')}`;
+
+export const getTeacherLabel = (teachers: Teacher[], key: string) => {
+    if (key.startsWith('name:')) return key.slice('name:'.length);
+    return teachers.find(t => t.id === key)?.fullName ?? key;
+};
+
+export const buildTeacherOptions = (memos: Memo[], teachers: Teacher[]): TeacherOption[] => {
+    const keys = new Set(memos.map(getTeacherKey));
+    return [...keys]
+        .map(key => ({ key, label: getTeacherLabel(teachers, key) }))
+        .sort((a, b) => a.label.localeCompare(b.label, 'th'));
+};
+
+export const searchTeachers = (teachers: Teacher[], query: string, limit = 8): Teacher[] => {
+    const key = getNameKey(query);
+    if (!key) return teachers.slice(0, limit);
+    return teachers
+        .filter(t => [t.fullName, t.position, ...t.aliases].some(value => getNameKey(value).includes(key) || value.toLowerCase().includes(key)))
+        .slice(0, limit);
+};
+
+// MIGRATION
+/**
+ * Groups every raw teacher name in the register (plus registered teachers) into clusters of likely
+ * duplicates. Names with the same key always group; a typo variant joins a cluster only when it is
+ * close to that cluster's most used name, so matches never chain from one name to the next.
+ */
+export const clusterTeacherNames = (memos: Memo[], teachers: Teacher[]): TeacherCluster[] => {
+    const nameCounts = new Map<string, number>();
+    const unlinkedCounts = new Map<string, number>();
+    memos.forEach(m => {
+        const name = normalizeTeacherName(m.teacher || '');
+        if (!name) return;
+        nameCounts.set(name, (nameCounts.get(name) ?? 0) + 1);
+        if (!m.teacherId) unlinkedCounts.set(name, (unlinkedCounts.get(name) ?? 0) + 1);
+    });
+    teachers.forEach(t => {
+        if (!nameCounts.has(t.fullName)) nameCounts.set(t.fullName, 0);
+    });
+
+    const byKey = new Map<string, string[]>();
+    nameCounts.forEach((_, name) => {
+        const key = getNameKey(name) || name;
+        byKey.set(key, [...(byKey.get(key) ?? []), name]);
+    });
+    const keyCount = (key: string) => byKey.get(key).reduce((sum, name) => sum + nameCounts.get(name), 0);
+    const groups: { anchor: string; names: string[] }[] = [];
+    [...byKey.keys()]
+        .sort((a, b) => keyCount(b) - keyCount(a) || a.localeCompare(b, 'th'))
+        .forEach(key => {
+            const group = groups.find(g => areSimilarKeys(g.anchor, key));
+            if (group) group.names.push(...byKey.get(key));
+            else groups.push({ anchor: key, names: [...byKey.get(key)] });
+        });
+
+    return groups.map(g => g.names)
+        .map(group => {
+            const teacherIds = teachers
+                .filter(t => group.includes(t.fullName) || t.aliases.some(a => group.includes(a)))
+                .map(t => t.id);
+            const memoCount = group.reduce((sum, name) => sum + (nameCounts.get(name) ?? 0), 0);
+            const unlinkedCount = group.reduce((sum, name) => sum + (unlinkedCounts.get(name) ?? 0), 0);
+            return { names: group.sort((a, b) => b.length - a.length), teacherIds, memoCount, unlinkedCount };
+        })
+        .filter(cluster => cluster.names.length > 1 || cluster.teacherIds.length !== 1 || cluster.unlinkedCount > 0)
+        .sort((a, b) => b.names.length - a.names.length || b.memoCount - a.memoCount);
+};
+
+/**
+ * Collapses a cluster into one registry entry (reusing the first existing teacher ID when there
+ * is one) and points every matching memo at it.
+ */
+export const mergeTeacherCluster = (
+    memos: Memo[],
+    teachers: Teacher[],
+    cluster: TeacherCluster,
+    canonical: Omit<Teacher, 'id' | 'aliases'>,
+): { memos: Memo[]; teachers: Teacher[] } => {
+    const id = cluster.teacherIds[0] ?? crypto.randomUUID();
+    const mergedIds = new Set(cluster.teacherIds);
+    const previousAliases = teachers.filter(t => mergedIds.has(t.id)).flatMap(t => [t.fullName, ...t.aliases]);
+    const aliases = [...new Set([...cluster.names, ...previousAliases])].filter(name => name !== canonical.fullName);
+    const teacher: Teacher = { id, ...canonical, aliases };
+    const clusterNames = new Set(cluster.names);
+
+    return {
+        teachers: [...teachers.filter(t => !mergedIds.has(t.id)), teacher],
+        memos: memos.map(m => {
+            const matches = (m.teacherId && mergedIds.has(m.teacherId)) || clusterNames.has(normalizeTeacherName(m.teacher || ''));
+            return matches ? { ...m, teacherId: id, teacher: teacher.fullName } : m;
+        }),
+    };
+};
+
+/** Keeps the denormalized display name on memos in step with an edited registry entry. */
+export const updateTeacher = (memos: Memo[], teachers: Teacher[], teacher: Teacher) => ({
+    teachers: teachers.some(t => t.id === teacher.id) ? teachers.map(t => t.id === teacher.id ? teacher : t) : [...teachers, teacher],
+    memos: memos.map(m => m.teacherId === teacher.id && m.teacher !== teacher.fullName ? { ...m, teacher: teacher.fullName } : m),
+});
+
+export const removeTeacher = (memos: Memo[], teachers: Teacher[], id: string) => ({
+    teachers: teachers.filter(t => t.id !== id),
+    memos: memos.map(m => {
+        if (m.teacherId !== id) return m;
+        const { teacherId: _removed, ...rest } = m;
+        return rest;
+    }),
+});
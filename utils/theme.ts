@@ -0,0 +1,22 @@
+// TYPES
+/** `system` follows the device's light or dark setting. */
+export type ThemePreference = 'system' | 'light' | 'dark';
+export type Theme = 'light' | 'dark';
+
+// CONSTANTS
+export const THEME_KEY = 'theme';
+export const DEFAULT_THEME: ThemePreference = 'system';
+export const DARK_SCHEME_QUERY = '(prefers-color-scheme: dark)';
+
+/** Chart.js draws on a canvas, so its text and grid lines can't follow the CSS variables. */
+export const CHART_COLORS: Record<Theme, { text: string; grid: string; background: string }> = {
+    light: { text: '#52525b', grid: 'rgba(0, 0, 0, 0.1)', background: '#ffffff' },
+    dark: { text: '#d4d4d8', grid: 'rgba(255, 255, 255, 0.15)', background: '#27272a' },
+};
+
+// THEME
+export const resolveTheme = (preference: ThemePreference, prefersDark: boolean): Theme =>
+    preference === 'system' ? (prefersDark ? 'dark' : 'light') : preference;
+
+export const normalizeThemePreference = (value: unknown): ThemePreference =>
+    value === 'light' || value === 'dark' ? value : DEFAULT_THEME;
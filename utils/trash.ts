@@ -0,0 +1,32 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import type { Memo, User } from '../types';
+import { toStamp } from './permissions';
+
+// TYPES
+export interface TrashSettings {
+    /** Days a deleted memo stays restorable before it is purged for good; 0 keeps it until emptied by hand. */
+    retentionDays: number;
+}
+
+// CONSTANTS
+export const TRASH_SETTINGS_KEY = 'trashSettings';
+export const DEFAULT_TRASH_SETTINGS: TrashSettings = { retentionDays: 30 };
+
+// HELPERS
+export const getActiveMemos = (memos: Memo[]) => memos.filter(m => !m.deleted);
+
+export const getTrashedMemos = (memos: Memo[]) =>
+    memos.filter(m => m.deleted).sort((a, b) => b.deleted.at.localeCompare(a.deleted.at));
+
+export const moveToTrash = (memo: Memo, user: User): Memo => ({ ...memo, deleted: toStamp(user) });
+
+export const restoreFromTrash = ({ deleted: _deleted, ...memo }: Memo, user: User): Memo => ({ ...memo, updated: toStamp(user) });
+
+/** Days left before the memo is purged, or null when automatic purging is off. */
+export const getDaysUntilPurge = (memo: Memo, settings: TrashSettings, today = new Date()): number | null => {
+    if (!memo.deleted || settings.retentionDays <= 0) return null;
+    return Math.max(0, settings.retentionDays - differenceInCalendarDays(today, parseISO(memo.deleted.at)));
+};
+
+export const findExpiredMemos = (memos: Memo[], settings: TrashSettings, today = new Date()): Memo[] =>
+    memos.filter(m => getDaysUntilPurge(m, settings, today) === 0);
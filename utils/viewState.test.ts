@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_VIEW_STATE, EMPTY_FILTERS, normalizeSortConfig, parseViewState, serializeViewState } from './viewState';
+
+describe('view state in the URL', () => {
+    it('round-trips filters, sort columns and page', () => {
+        const state = {
+            filters: { ...EMPTY_FILTERS, query: 'อบรม', department: 'งานบริหารวิชาการ', startDate: '2025-05-16' },
+            sortConfig: [{ key: 'date' as const, direction: 'descending' as const }, { key: 'memoNumber' as const, direction: 'ascending' as const }],
+            page: 3,
+        };
+        const search = serializeViewState(state);
+        expect(new URLSearchParams(search).get('sort')).toBe('-date,memoNumber');
+        expect(parseViewState(search)).toEqual(state);
+    });
+
+    it('still reads links from before multi-column sorting', () => {
+        expect(parseViewState('?sort=subject&dir=desc').sortConfig).toEqual([{ key: 'subject', direction: 'descending' }]);
+    });
+
+    it('ignores unknown sort keys and bad values', () => {
+        expect(parseViewState('?sort=password,-date&page=-2&status=lost')).toEqual({
+            ...DEFAULT_VIEW_STATE,
+            sortConfig: [{ key: 'date', direction: 'descending' }],
+        });
+    });
+});
+
+describe('normalizeSortConfig', () => {
+    it('upgrades the single rule stored by older presets', () => {
+        expect(normalizeSortConfig(null)).toEqual([]);
+        expect(normalizeSortConfig({ key: 'date', direction: 'ascending' })).toEqual([{ key: 'date', direction: 'ascending' }]);
+    });
+
+    it('keeps the first rule for each column', () => {
+        expect(normalizeSortConfig([
+            { key: 'date', direction: 'ascending' },
+            { key: 'date', direction: 'descending' },
+            { key: 'status', direction: 'sideways' },
+        ])).toEqual([{ key: 'date', direction: 'ascending' }]);
+    });
+});
@@ -0,0 +1,117 @@
+import { format } from 'date-fns';
+import type { Memo, MemoFilters, MemoStatus, SortConfig, SortRule } from '../types';
+import { getPeriodRange, type YearBasis } from './memoNumbering';
+import { MEMO_STATUSES } from './workflow';
+import { isRegisterType } from './registers';
+
+// TYPES
+export interface RegisterViewState {
+    filters: MemoFilters;
+    sortConfig: SortConfig;
+    page: number;
+}
+
+export interface FilterPreset {
+    id: string;
+    name: string;
+    filters: MemoFilters;
+    /** Presets saved before multi-column sorting hold a single rule or null; read through `normalizeSortConfig`. */
+    sortConfig: SortConfig;
+    /** When set, the date range is recomputed for the current period each time the preset is applied. */
+    period: YearBasis | null;
+}
+
+// CONSTANTS
+export const FILTER_PRESETS_KEY = 'filterPresets';
+export const EMPTY_FILTERS: MemoFilters = { register: 'memo', query: '', teacher: '', startDate: '', endDate: '', department: '', status: '' };
+export const DEFAULT_VIEW_STATE: RegisterViewState = { filters: EMPTY_FILTERS, sortConfig: [], page: 1 };
+
+export const SORTABLE_KEYS: (keyof Memo)[] = ['memoNumber', 'letterNumber', 'date', 'teacher', 'subject', 'department', 'status', 'dueDate'];
+
+// Short, stable parameter names so shared links stay readable.
+const FILTER_PARAMS: Record<keyof MemoFilters, string> = {
+    register: 'register',
+    query: 'q',
+    teacher: 'teacher',
+    startDate: 'from',
+    endDate: 'to',
+    department: 'dept',
+    status: 'status',
+};
+
+// SORTING
+/** Accepts the current rule list as well as the single `{ key, direction }` (or null) stored by older versions. */
+export const normalizeSortConfig = (value: unknown): SortConfig => {
+    const rules = Array.isArray(value) ? value : value ? [value] : [];
+    const seen = new Set<keyof Memo>();
+    return rules.filter((rule): rule is SortRule => {
+        if (!rule || !SORTABLE_KEYS.includes(rule.key) || seen.has(rule.key)) return false;
+        seen.add(rule.key);
+        return rule.direction === 'ascending' || rule.direction === 'descending';
+    }).map(({ key, direction }) => ({ key, direction }));
+};
+
+// URL
+export const serializeViewState = (state: RegisterViewState): string => {
+    const params = new URLSearchParams();
+    (Object.keys(FILTER_PARAMS) as (keyof MemoFilters)[]).forEach(key => {
+        if (state.filters[key] && state.filters[key] !== EMPTY_FILTERS[key]) params.set(FILTER_PARAMS[key], state.filters[key]);
+    });
+    // `sort=-date,memoNumber`: columns in priority order, a leading minus for descending.
+    if (state.sortConfig.length > 0) {
+        params.set('sort', state.sortConfig.map(rule => `${rule.direction === 'descending' ? '-' : ''}${rule.key}`).join(','));
+    }
+    if (state.page > 1) params.set('page', String(state.page));
+    return params.toString();
+};
+
+/** Unknown or malformed parameters fall back to their defaults rather than failing. */
+export const parseViewState = (search: string): RegisterViewState => {
+    const params = new URLSearchParams(search);
+    const filters = { ...EMPTY_FILTERS };
+    (Object.keys(FILTER_PARAMS) as (keyof MemoFilters)[]).forEach(key => {
+        const value = params.get(FILTER_PARAMS[key]);
+        if (value) (filters as Record<string, string>)[key] = value;
+    });
+    if (!isRegisterType(filters.register)) filters.register = EMPTY_FILTERS.register;
+    if (filters.status && !MEMO_STATUSES.includes(filters.status as MemoStatus)) filters.status = '';
+    if (filters.startDate && !/^\d{4}-\d{2}-\d{2}$/.test(filters.startDate)) filters.startDate = '';
+    if (filters.endDate && !/^\d{4}-\d{2}-\d{2}$/.test(filters.endDate)) filters.endDate = '';
+
+    // Links shared before multi-column sorting carry a single key and a separate `dir`.
+    const legacyDescending = params.get('dir') === 'desc';
+    const sortConfig = normalizeSortConfig((params.get('sort') ?? '').split(',').filter(Boolean).map(part => ({
+        key: part.replace(/^-/, ''),
+        direction: part.startsWith('-') || legacyDescending ? 'descending' : 'ascending',
+    })));
+    const page = parseInt(params.get('page') ?? '', 10);
+    return { filters, sortConfig, page: Number.isFinite(page) && page > 1 ? page : 1 };
+};
+
+/** Updates the address bar without adding a history entry. */
+export const replaceViewStateInUrl = (state: RegisterViewState) => {
+    const search = serializeViewState(state);
+    window.history.replaceState(null, '', `${window.location.pathname}${search ? `?${search}` : ''}${window.location.hash}`);
+};
+
+export const buildShareUrl = (state: RegisterViewState, location: Location) => {
+    const search = serializeViewState(state);
+    return `${location.origin}${location.pathname}${search ? `?${search}` : ''}`;
+};
+
+// PRESETS
+export const createFilterPreset = (name: string, filters: MemoFilters, sortConfig: SortConfig, period: YearBasis | null): FilterPreset => ({
+    id: crypto.randomUUID(),
+    name: name.trim(),
+    // A period preset stores no fixed dates; they are filled in when it is applied.
+    filters: period ? { ...filters, startDate: '', endDate: '' } : filters,
+    sortConfig,
+    period,
+});
+
+export const resolvePresetFilters = (preset: FilterPreset, today = new Date()): MemoFilters => {
+    const filters = { ...EMPTY_FILTERS, ...preset.filters };
+    if (!preset.period) return filters;
+    const { start, end } = getPeriodRange(today, preset.period);
+    return { ...filters, startDate: format(start, 'yyyy-MM-dd'), endDate: format(end, 'yyyy-MM-dd') };
+};
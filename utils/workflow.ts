@@ -0,0 +1,104 @@
+import type { Memo, MemoStatus, StatusChange } from '../types';
+
+// TYPES
+export interface WorkflowTransition {
+    from: MemoStatus;
+    to: MemoStatus;
+    label: string;
+    requireComment: boolean;
+}
+
+export interface WorkflowConfig {
+    transitions: WorkflowTransition[];
+}
+
+export class WorkflowError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'WorkflowError';
+    }
+}
+
+// CONSTANTS
+export const WORKFLOW_KEY = 'workflow';
+export const MEMO_STATUSES: MemoStatus[] = ['draft', 'submitted', 'approved', 'rejected', 'archived'];
+/** Memos created before statuses existed are treated as drafts. */
+export const INITIAL_STATUS: MemoStatus = 'draft';
+
+export const STATUS_LABELS: Record<MemoStatus, string> = {
+    draft: 'ร่าง',
+    submitted: 'เสนอผู้อำนวยการ',
+    approved: 'อนุมัติ',
+    rejected: 'ไม่อนุมัติ',
+    archived: 'จัดเก็บ',
+};
+
+export const STATUS_COLORS: Record<MemoStatus, string> = {
+    draft: '#71717a',
+    submitted: '#0277BD',
+    approved: '#2E7D32',
+    rejected: '#D32F2F',
+    archived: '#5D4037',
+};
+
+export const DEFAULT_WORKFLOW: WorkflowConfig = {
+    transitions: [
+        { from: 'draft', to: 'submitted', label: 'เสนอผู้อำนวยการ', requireComment: false },
+        { from: 'submitted', to: 'approved', label: 'อนุมัติ', requireComment: false },
+        { from: 'submitted', to: 'rejected', label: 'ไม่อนุมัติ', requireComment: true },
+        { from: 'submitted', to: 'draft', label: 'ส่งกลับแก้ไข', requireComment: true },
+        { from: 'rejected', to: 'draft', label: 'นำกลับมาแก้ไข', requireComment: false },
+        { from: 'approved', to: 'archived', label: 'จัดเก็บ', requireComment: false },
+        { from: 'rejected', to: 'archived', label: 'จัดเก็บ', requireComment: false },
+    ],
+};
+
+// STATE MACHINE
+export const getMemoStatus = (memo: Memo): MemoStatus => memo.status ?? INITIAL_STATUS;
+
+export const getAvailableTransitions = (config: WorkflowConfig, status: MemoStatus) =>
+    config.transitions.filter(t => t.from === status);
+
+export const findTransition = (config: WorkflowConfig, from: MemoStatus, to: MemoStatus) =>
+    config.transitions.find(t => t.from === from && t.to === to);
+
+const createStatusChange = (from: MemoStatus | null, to: MemoStatus, comment: string, actor: string): StatusChange => ({
+    id: crypto.randomUUID(),
+    from,
+    to,
+    comment: comment.trim(),
+    actor: actor.trim(),
+    at: new Date().toISOString(),
+});
+
+/** Stamps a newly created memo with the initial status and its first history entry. */
+export const initializeWorkflow = (memo: Memo, actor: string): Memo => ({
+    ...memo,
+    status: INITIAL_STATUS,
+    history: [createStatusChange(null, INITIAL_STATUS, '', actor)],
+});
+
+export const applyTransition = (config: WorkflowConfig, memo: Memo, to: MemoStatus, comment: string, actor: string): Memo => {
+    const from = getMemoStatus(memo);
+    const transition = findTransition(config, from, to);
+    if (!transition) {
+        throw new WorkflowError(`ไม่สามารถเปลี่ยนสถานะจาก “${STATUS_LABELS[from]}” เป็น “${STATUS_LABELS[to]}” ได้`);
+    }
+    if (transition.requireComment && !comment.trim()) {
+        throw new WorkflowError(`การ${transition.label}ต้องระบุความเห็นประกอบ`);
+    }
+    if (!actor.trim()) {
+        throw new WorkflowError('กรุณาระบุชื่อผู้ดำเนินการ');
+    }
+    return {
+        ...memo,
+        status: to,
+        history: [...(memo.history ?? []), createStatusChange(from, to, comment, actor)],
+    };
+};
+
+export const countByStatus = (memos: Memo[]): Record<MemoStatus, number> => {
+    const counts = Object.fromEntries(MEMO_STATUSES.map(s => [s, 0])) as Record<MemoStatus, number>;
+    memos.forEach(m => { counts[getMemoStatus(m)]++; });
+    return counts;
+};
@@ -1,15 +1,57 @@
+/// <reference types="vitest/config" />
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { createHash } from 'crypto';
+import { readdirSync, readFileSync, writeFileSync } from 'fs';
+import { defineConfig, loadEnv, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+const SERVICE_WORKER_FILE = 'sw.js';
+const PRECACHE_PLACEHOLDER = 'const PRECACHE_MANIFEST = null;';
+
+const listFiles = (dir: string): string[] => readdirSync(dir, { withFileTypes: true })
+    .flatMap(entry => entry.isDirectory() ? listFiles(path.join(dir, entry.name)) : [path.join(dir, entry.name)]);
+
+/**
+ * Writes the list of built files into the service worker. The version is a hash of their
+ * contents, so every build that changes anything gives browsers a new worker to install.
+ */
+const precacheManifest = (): Plugin => {
+    let outDir = '';
+    return {
+        name: 'precache-manifest',
+        apply: 'build',
+        configResolved(config) {
+            outDir = path.resolve(config.root, config.build.outDir);
+        },
+        closeBundle() {
+            const workerPath = path.join(outDir, SERVICE_WORKER_FILE);
+            const files = listFiles(outDir)
+                .filter(file => file !== workerPath && !file.endsWith('.map'))
+                .map(file => path.relative(outDir, file).split(path.sep).join('/'))
+                .sort();
+            const hash = createHash('sha256');
+            files.forEach(file => hash.update(file).update(readFileSync(path.join(outDir, file))));
+            const manifest = { version: hash.digest('hex').slice(0, 12), urls: files };
+
+            const worker = readFileSync(workerPath, 'utf8');
+            if (!worker.includes(PRECACHE_PLACEHOLDER)) throw new Error(`${SERVICE_WORKER_FILE} has no precache placeholder`);
+            writeFileSync(workerPath, worker.replace(PRECACHE_PLACEHOLDER, `const PRECACHE_MANIFEST = ${JSON.stringify(manifest)};`));
+        },
+    };
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          // An API server without a token listens on IPv4 loopback only, which `localhost` may not resolve to.
+          '/api': 'http://127.0.0.1:3001',
+        },
       },
-      plugins: [react()],
+      plugins: [react(), precacheManifest()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
@@ -18,6 +60,10 @@ export default defineConfig(({ mode }) => {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      test: {
+        environment: 'jsdom',
+        setupFiles: ['./test/setup.ts'],
       }
     };
 });